@@ -0,0 +1,76 @@
+/**
+ * Access control
+ *
+ * In read-only mode the database is opened read-only, mutating tools are not
+ * registered and the services refuse to write. Independently, tools can be
+ * restricted with allow and deny lists of tool names. The services refuse a
+ * change whose tool is not allowed, whether it is reached through a tool, an
+ * HTTP session or a CLI command. Resources and prompts only read and are not
+ * restricted by the lists.
+ */
+import { isReadOnly } from "./database";
+
+export interface ToolAccessPolicy {
+  allow?: string[]; // Only these tools are registered (default: every tool)
+  deny?: string[]; // These tools are never registered, even if allowed
+}
+
+/**
+ * Error for an operation the server is not allowed to perform
+ */
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccessDeniedError";
+  }
+}
+
+let toolPolicy: ToolAccessPolicy = {};
+
+export function setToolAccessPolicy(policy: ToolAccessPolicy) {
+  toolPolicy = policy;
+}
+
+export function getToolAccessPolicy(): ToolAccessPolicy {
+  return toolPolicy;
+}
+
+/**
+ * Whether the allow and deny lists permit a tool
+ */
+function isListedAllowed(name: string): boolean {
+  if (toolPolicy.deny?.includes(name)) {
+    return false;
+  }
+  return toolPolicy.allow === undefined || toolPolicy.allow.includes(name);
+}
+
+/**
+ * Whether a tool may be offered to clients
+ * @param name Tool name
+ * @param mutating Whether the tool can change data
+ */
+export function isToolAllowed(name: string, mutating: boolean): boolean {
+  if (mutating && isReadOnly()) {
+    return false;
+  }
+  return isListedAllowed(name);
+}
+
+/**
+ * Fail unless the server may write to the database
+ * @param action What would be written, e.g. "create a memory"
+ * @param tool The tool making this change, if any; the change is refused when
+ * the allow and deny lists do not permit it
+ * @throws AccessDeniedError in read-only mode or if the tool is not allowed
+ */
+export function assertWritable(action: string, tool?: string) {
+  if (isReadOnly()) {
+    throw new AccessDeniedError(`Cannot ${action}: the server is read-only`);
+  }
+  if (tool !== undefined && !isListedAllowed(tool)) {
+    throw new AccessDeniedError(
+      `Cannot ${action}: the ${tool} tool is not allowed`,
+    );
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Notification of data changes to interested parts of the server (e.g.
+ * resource subscriptions), shared by every session of the process
+ */
+
+export type ChangeListener = () => void;
+
+const listeners = new Set<ChangeListener>();
+
+/**
+ * Call a listener whenever data may have changed
+ * @returns Function that removes the listener
+ */
+export function onDataChange(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Tell the listeners that data may have changed
+ */
+export function notifyDataChange() {
+  for (const listener of listeners) {
+    listener();
+  }
+}
@@ -0,0 +1,704 @@
+/// <reference types="bun-types" />
+/**
+ * Server configuration from command-line flags, environment variables and
+ * an optional config file
+ *
+ * Precedence (highest first): command-line flags, TINY_MEMORY_* environment
+ * variables, the config file, built-in defaults.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { z } from "zod";
+import { DEFAULT_NAMESPACE, normalizeNamespace } from "./database/namespace";
+import { DEFAULT_TIME_ZONE, normalizeTimeZone } from "./database/timestamp";
+import { LOG_LEVELS, LogLevel } from "./logger";
+import {
+  EXPORT_FORMATS,
+  IMPORT_FORMATS,
+  AUDIT_STATUSES,
+  ExportFormat,
+  ImportFormat,
+  AuditStatus,
+} from "./constants";
+
+export const SERVER_NAME = "tiny-memory-mcp-server";
+export const SERVER_VERSION = "1.0.0";
+
+export const TRANSPORTS = ["stdio", "http"] as const;
+export const EMBEDDING_PROVIDERS = ["hashed", "ollama"] as const;
+export const AUDIT_FORMATS = ["text", "json"] as const;
+
+export type Transport = (typeof TRANSPORTS)[number];
+export type AuditFormat = (typeof AUDIT_FORMATS)[number];
+
+export interface Config {
+  db: string;
+  namespace: string;
+  timeZone: string; // Display time zone; timestamps are stored in UTC
+  logLevel: LogLevel;
+  readOnly: boolean; // Open the database read-only and offer no mutating tools
+  allowTools?: string[]; // Only offer these tools
+  denyTools?: string[]; // Never offer these tools
+  transport: Transport;
+  host: string; // Bind address for the HTTP transport
+  port: number;
+  authToken?: string; // Bearer token required by the HTTP transport
+  embedding: {
+    provider: (typeof EMBEDDING_PROVIDERS)[number];
+    model?: string;
+    url?: string;
+  };
+  audit: {
+    enabled: boolean; // Record every tool call
+    retentionDays: number; // Days to keep entries; 0 keeps them forever
+    redact: string[]; // Argument names whose values are not recorded
+  };
+}
+
+export type CliCommand =
+  | { command: "help" }
+  | { command: "version" }
+  | { command: "serve"; config: Config; configFile?: string }
+  | {
+      command: "export";
+      config: Config;
+      configFile?: string;
+      format: ExportFormat;
+      output?: string; // Written to stdout if omitted
+      allNamespaces: boolean;
+    }
+  | {
+      command: "import";
+      config: Config;
+      configFile?: string;
+      file: string;
+      format?: ImportFormat; // Detected from the data if omitted
+      dryRun: boolean;
+    }
+  | {
+      command: "audit";
+      config: Config;
+      configFile?: string;
+      format: AuditFormat;
+      tool?: string;
+      status?: AuditStatus;
+      from?: string;
+      to?: string;
+      limit: number;
+      prune: boolean; // Delete expired entries instead of listing
+    };
+
+type Subcommand = "export" | "import" | "audit";
+
+// Options of the export, import and audit subcommands
+interface SubcommandOptions {
+  format?: string;
+  output?: string;
+  allNamespaces: boolean;
+  dryRun: boolean;
+  tool?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+  limit?: string;
+  prune: boolean;
+}
+
+// Entries listed by the audit command unless --limit is given
+const DEFAULT_AUDIT_LIMIT = 50;
+
+/**
+ * Error thrown for invalid flags, environment variables or config files
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export const DEFAULT_CONFIG: Config = {
+  db: "tiny-memory.db",
+  namespace: DEFAULT_NAMESPACE,
+  timeZone: DEFAULT_TIME_ZONE,
+  logLevel: "info",
+  readOnly: false,
+  transport: "stdio",
+  host: "127.0.0.1",
+  port: 3000,
+  embedding: { provider: "hashed" },
+  audit: { enabled: true, retentionDays: 90, redact: [] },
+};
+
+// Names, given as a list or as a comma-separated string
+const NameListSchema = z
+  .union([
+    z.array(z.string()),
+    z.string().transform((value) => value.split(",")),
+  ])
+  .transform((names) => names.map((name) => name.trim()).filter(Boolean));
+
+// Every source provides a subset of the settings; unknown keys are rejected
+const ConfigLayerSchema = z
+  .object({
+    db: z.string().min(1),
+    namespace: z.string().transform((value, ctx) => {
+      try {
+        return normalizeNamespace(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return z.NEVER;
+      }
+    }),
+    timeZone: z.string().transform((value, ctx) => {
+      try {
+        return normalizeTimeZone(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return z.NEVER;
+      }
+    }),
+    logLevel: z.enum(LOG_LEVELS),
+    readOnly: z.boolean(),
+    allowTools: NameListSchema,
+    denyTools: NameListSchema,
+    transport: z.enum(TRANSPORTS),
+    host: z.string().min(1),
+    port: z.coerce.number().int().min(0).max(65535),
+    authToken: z.string().min(1),
+    embedding: z
+      .object({
+        provider: z.enum(EMBEDDING_PROVIDERS),
+        model: z.string().min(1),
+        url: z.string().url(),
+      })
+      .partial()
+      .strict(),
+    audit: z
+      .object({
+        enabled: z.boolean(),
+        retentionDays: z.coerce.number().int().min(0),
+        redact: NameListSchema,
+      })
+      .partial()
+      .strict(),
+  })
+  .partial()
+  .strict();
+
+type ConfigLayer = z.infer<typeof ConfigLayerSchema>;
+
+// Environment variable for each setting
+const ENV_VARS = {
+  db: "TINY_MEMORY_DB",
+  namespace: "TINY_MEMORY_NAMESPACE",
+  timeZone: "TINY_MEMORY_TIME_ZONE",
+  logLevel: "TINY_MEMORY_LOG_LEVEL",
+  readOnly: "TINY_MEMORY_READ_ONLY",
+  allowTools: "TINY_MEMORY_ALLOW_TOOLS",
+  denyTools: "TINY_MEMORY_DENY_TOOLS",
+  transport: "TINY_MEMORY_TRANSPORT",
+  host: "TINY_MEMORY_HOST",
+  port: "TINY_MEMORY_PORT",
+  authToken: "TINY_MEMORY_AUTH_TOKEN",
+  config: "TINY_MEMORY_CONFIG",
+  embeddingProvider: "TINY_MEMORY_EMBEDDING_PROVIDER",
+  embeddingModel: "TINY_MEMORY_EMBEDDING_MODEL",
+  embeddingUrl: "TINY_MEMORY_EMBEDDING_URL",
+  audit: "TINY_MEMORY_AUDIT",
+  auditRetentionDays: "TINY_MEMORY_AUDIT_RETENTION_DAYS",
+  auditRedact: "TINY_MEMORY_AUDIT_REDACT",
+} as const;
+
+export const HELP_TEXT = `Usage: tiny-memory-mcp [options] [database-path]
+       tiny-memory-mcp export [--format json|jsonl|markdown] [--output <file>] [--all-namespaces] [options]
+       tiny-memory-mcp import <file> [--format json|jsonl] [--dry-run] [options]
+       tiny-memory-mcp audit [--tool <name>] [--status success|error] [--from <date>]
+                             [--to <date>] [--limit <n>] [--format text|json] [--prune] [options]
+
+Without a subcommand the MCP server is started. "export" writes the memories
+and TODOs of the namespace (or of all namespaces) to a file or stdout;
+"import" reads a JSON or JSONL export into the database; "audit" lists the
+latest tool calls from the audit log, or deletes the expired ones with --prune.
+
+Options:
+  --db <path>            SQLite database file (default: ${DEFAULT_CONFIG.db})
+  --namespace <name>     Default namespace for memories and TODOs (default: ${DEFAULT_CONFIG.namespace})
+  --time-zone <name>     IANA time zone for showing timestamps and reading
+                         dates such as "yesterday" (default: ${DEFAULT_CONFIG.timeZone})
+  --log-level <level>    One of ${LOG_LEVELS.join(", ")} (default: ${DEFAULT_CONFIG.logLevel})
+  --read-only            Open the database read-only and offer no tools that
+                         change data
+  --no-read-only         Allow changes even if the environment or config file
+                         sets read-only
+  --allow-tools <names>  Comma-separated tools to offer (default: all)
+  --deny-tools <names>   Comma-separated tools never to offer
+  --transport <name>     One of ${TRANSPORTS.join(", ")} (default: ${DEFAULT_CONFIG.transport})
+  --host <address>       Bind address for the http transport (default: ${DEFAULT_CONFIG.host})
+  --port <number>        Port for the http transport (default: ${DEFAULT_CONFIG.port})
+  --auth-token <token>   Bearer token clients of the http transport must send
+  --config <path>        JSON or TOML config file
+  --format <format>      Export, import or audit format (default: json for
+                         export, detected for import, text for audit)
+  --output <file>        Export destination (default: stdout)
+  --all-namespaces       Export every namespace
+  --dry-run              Report what an import would do without writing
+  --tool <name>          List only the calls of this tool
+  --status <status>      List only the calls that succeeded or failed
+  --from <date>          List only the calls made in or after this period
+  --to <date>            List only the calls made in or before this period
+  --limit <n>            Number of audit entries to list (default: ${DEFAULT_AUDIT_LIMIT})
+  --prune                Delete the audit entries older than the retention
+  -h, --help             Show this help and exit
+  -v, --version          Show the version and exit
+
+Environment variables:
+  ${ENV_VARS.db}, ${ENV_VARS.namespace}, ${ENV_VARS.timeZone},
+  ${ENV_VARS.logLevel}, ${ENV_VARS.readOnly}, ${ENV_VARS.allowTools},
+  ${ENV_VARS.denyTools}, ${ENV_VARS.transport}, ${ENV_VARS.host},
+  ${ENV_VARS.port}, ${ENV_VARS.authToken}, ${ENV_VARS.config},
+  ${ENV_VARS.embeddingProvider}, ${ENV_VARS.embeddingModel}, ${ENV_VARS.embeddingUrl},
+  ${ENV_VARS.audit}, ${ENV_VARS.auditRetentionDays}, ${ENV_VARS.auditRedact}
+
+Settings are taken from the command line first, then the environment, then
+the config file, then the defaults.
+`;
+
+/**
+ * Validate the settings from one source
+ * @param source Description of the source used in error messages
+ * @param input Settings read from the source
+ * @returns The validated settings
+ */
+function validateLayer(source: string, input: unknown): ConfigLayer {
+  const result = ConfigLayerSchema.safeParse(input);
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    );
+    throw new ConfigError(`Invalid ${source}: ${issues.join("; ")}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parse a boolean environment variable
+ */
+function parseBoolean(name: string, value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+
+  if (["1", "true", "yes", "on"].includes(normalized)) {
+    return true;
+  }
+  if (["0", "false", "no", "off", ""].includes(normalized)) {
+    return false;
+  }
+  throw new ConfigError(
+    `Invalid environment variable ${name}: "${value}" is not a boolean`,
+  );
+}
+
+/**
+ * Read a JSON or TOML config file (chosen by the file extension)
+ *
+ * A relative database path in the file is resolved against the file's
+ * directory, so the file works regardless of the working directory.
+ * @param filePath Path of the config file
+ * @returns The validated settings
+ */
+export function loadConfigFile(filePath: string): ConfigLayer {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  let data: unknown;
+  try {
+    data =
+      path.extname(filePath).toLowerCase() === ".toml"
+        ? Bun.TOML.parse(text)
+        : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot parse config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const layer = validateLayer(`config file ${filePath}`, data);
+
+  if (layer.db !== undefined && layer.db !== ":memory:") {
+    layer.db = path.resolve(path.dirname(filePath), layer.db);
+  }
+
+  return layer;
+}
+
+/**
+ * Read the settings from TINY_MEMORY_* environment variables
+ */
+export function readEnvironment(
+  env: Record<string, string | undefined>,
+): ConfigLayer {
+  const layer: Record<string, unknown> = {};
+  const embedding: Record<string, unknown> = {};
+  const audit: Record<string, unknown> = {};
+
+  const set = (target: Record<string, unknown>, key: string, name: string) => {
+    const value = env[name];
+    if (value !== undefined && value !== "") {
+      target[key] = value;
+    }
+  };
+
+  set(layer, "db", ENV_VARS.db);
+  set(layer, "namespace", ENV_VARS.namespace);
+  set(layer, "timeZone", ENV_VARS.timeZone);
+  set(layer, "logLevel", ENV_VARS.logLevel);
+  set(layer, "allowTools", ENV_VARS.allowTools);
+  set(layer, "denyTools", ENV_VARS.denyTools);
+  set(layer, "transport", ENV_VARS.transport);
+  set(layer, "host", ENV_VARS.host);
+  set(layer, "port", ENV_VARS.port);
+  set(layer, "authToken", ENV_VARS.authToken);
+  set(embedding, "provider", ENV_VARS.embeddingProvider);
+  set(embedding, "model", ENV_VARS.embeddingModel);
+  set(embedding, "url", ENV_VARS.embeddingUrl);
+  set(audit, "retentionDays", ENV_VARS.auditRetentionDays);
+  set(audit, "redact", ENV_VARS.auditRedact);
+
+  const readOnly = env[ENV_VARS.readOnly];
+  if (readOnly !== undefined) {
+    layer.readOnly = parseBoolean(ENV_VARS.readOnly, readOnly);
+  }
+  const enabled = env[ENV_VARS.audit];
+  if (enabled !== undefined) {
+    audit.enabled = parseBoolean(ENV_VARS.audit, enabled);
+  }
+  if (Object.keys(embedding).length > 0) {
+    layer.embedding = embedding;
+  }
+  if (Object.keys(audit).length > 0) {
+    layer.audit = audit;
+  }
+
+  return validateLayer("environment", layer);
+}
+
+/**
+ * Parse command-line arguments
+ *
+ * A positional argument is accepted as the database path for compatibility
+ * with earlier versions.
+ * @param argv Arguments after the executable and script name
+ * @returns The settings given on the command line, the config file path and
+ * whether help or the version was requested
+ */
+export function parseCommandLine(argv: string[]): {
+  layer: ConfigLayer;
+  configFile?: string;
+  help: boolean;
+  version: boolean;
+  subcommand?: Subcommand;
+  file?: string;
+  options: SubcommandOptions;
+} {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    throw new ConfigError(
+      `${error instanceof Error ? error.message : String(error)}. Run with --help for usage.`,
+    );
+  }
+
+  const { values } = parsed;
+  let positionals = parsed.positionals;
+  const options: SubcommandOptions = {
+    format: values.format,
+    output: values.output,
+    allNamespaces: values["all-namespaces"] ?? false,
+    dryRun: values["dry-run"] ?? false,
+    tool: values.tool,
+    status: values.status,
+    from: values.from,
+    to: values.to,
+    limit: values.limit,
+    prune: values.prune ?? false,
+  };
+
+  let subcommand: Subcommand | undefined;
+  let file: string | undefined;
+  if (
+    positionals[0] === "export" ||
+    positionals[0] === "import" ||
+    positionals[0] === "audit"
+  ) {
+    subcommand = positionals[0];
+    positionals = positionals.slice(1);
+  }
+
+  if (subcommand === "import") {
+    if (positionals.length !== 1) {
+      throw new ConfigError("The import command needs exactly one file");
+    }
+    file = positionals[0];
+    positionals = [];
+  }
+
+  const misplaced = [
+    ...(subcommand === undefined && options.format ? ["--format"] : []),
+    ...(subcommand !== "export" && options.output ? ["--output"] : []),
+    ...(subcommand !== "export" && options.allNamespaces
+      ? ["--all-namespaces"]
+      : []),
+    ...(subcommand !== "import" && options.dryRun ? ["--dry-run"] : []),
+    ...(subcommand !== "audit"
+      ? (["tool", "status", "from", "to", "limit", "prune"] as const)
+          .filter((name) => options[name])
+          .map((name) => `--${name}`)
+      : []),
+  ];
+  if (misplaced.length > 0) {
+    throw new ConfigError(
+      `${misplaced.join(", ")} cannot be used ${subcommand ? `with the ${subcommand} command` : "without a subcommand"}`,
+    );
+  }
+
+  if (positionals.length > 1 || (subcommand && positionals.length > 0)) {
+    throw new ConfigError(
+      `Unexpected arguments: ${positionals.slice(subcommand ? 0 : 1).join(" ")}. Run with --help for usage.`,
+    );
+  }
+  if (positionals.length === 1 && values.db !== undefined) {
+    throw new ConfigError(
+      "The database path was given both as --db and as an argument",
+    );
+  }
+
+  const layer: Record<string, unknown> = {};
+  const db = values.db ?? positionals[0];
+  if (db !== undefined) {
+    layer.db = db;
+  }
+  if (values.namespace !== undefined) {
+    layer.namespace = values.namespace;
+  }
+  if (values["time-zone"] !== undefined) {
+    layer.timeZone = values["time-zone"];
+  }
+  if (values["log-level"] !== undefined) {
+    layer.logLevel = values["log-level"];
+  }
+  if (values["read-only"] && values["no-read-only"]) {
+    throw new ConfigError(
+      "--read-only and --no-read-only cannot be used together",
+    );
+  }
+  if (values["read-only"] || values["no-read-only"]) {
+    layer.readOnly = values["read-only"] ?? false;
+  }
+  if (values["allow-tools"] !== undefined) {
+    layer.allowTools = values["allow-tools"];
+  }
+  if (values["deny-tools"] !== undefined) {
+    layer.denyTools = values["deny-tools"];
+  }
+  if (values.transport !== undefined) {
+    layer.transport = values.transport;
+  }
+  if (values.host !== undefined) {
+    layer.host = values.host;
+  }
+  if (values.port !== undefined) {
+    layer.port = values.port;
+  }
+  if (values["auth-token"] !== undefined) {
+    layer.authToken = values["auth-token"];
+  }
+
+  return {
+    layer: validateLayer("command-line options", layer),
+    configFile: values.config,
+    help: values.help ?? false,
+    version: values.version ?? false,
+    subcommand,
+    file,
+    options,
+  };
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    options: {
+      db: { type: "string" },
+      namespace: { type: "string" },
+      "time-zone": { type: "string" },
+      "log-level": { type: "string" },
+      "read-only": { type: "boolean" },
+      "no-read-only": { type: "boolean" },
+      "allow-tools": { type: "string" },
+      "deny-tools": { type: "string" },
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+      "auth-token": { type: "string" },
+      config: { type: "string" },
+      format: { type: "string" },
+      output: { type: "string" },
+      "all-namespaces": { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      tool: { type: "string" },
+      status: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      limit: { type: "string" },
+      prune: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+      version: { type: "boolean", short: "v" },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+}
+
+/**
+ * Resolve the configuration from every source
+ * @param argv Command-line arguments after the executable and script name
+ * @param env Environment variables
+ * @returns The command to run, with the merged configuration for "serve"
+ */
+export function resolveConfig(
+  argv: string[],
+  env: Record<string, string | undefined> = process.env,
+): CliCommand {
+  const cli = parseCommandLine(argv);
+
+  if (cli.help) {
+    return { command: "help" };
+  }
+  if (cli.version) {
+    return { command: "version" };
+  }
+
+  const fromEnv = readEnvironment(env);
+  const configFile = cli.configFile ?? (env[ENV_VARS.config] || undefined);
+  const fromFile = configFile ? loadConfigFile(configFile) : {};
+
+  const config: Config = {
+    ...DEFAULT_CONFIG,
+    ...fromFile,
+    ...fromEnv,
+    ...cli.layer,
+    embedding: {
+      ...DEFAULT_CONFIG.embedding,
+      ...fromFile.embedding,
+      ...fromEnv.embedding,
+      ...cli.layer.embedding,
+    },
+    audit: {
+      ...DEFAULT_CONFIG.audit,
+      ...fromFile.audit,
+      ...fromEnv.audit,
+      ...cli.layer.audit,
+    },
+  };
+
+  if (config.embedding.provider === "ollama" && !config.embedding.model) {
+    throw new ConfigError(
+      `The ollama embedding provider requires a model (${ENV_VARS.embeddingModel} or embedding.model in the config file)`,
+    );
+  }
+
+  if (cli.subcommand === "export") {
+    return {
+      command: "export",
+      config,
+      configFile,
+      format: parseChoice(
+        "--format",
+        cli.options.format ?? "json",
+        EXPORT_FORMATS,
+      ),
+      output: cli.options.output,
+      allNamespaces: cli.options.allNamespaces,
+    };
+  }
+  if (cli.subcommand === "import") {
+    return {
+      command: "import",
+      config,
+      configFile,
+      file: cli.file!,
+      format:
+        cli.options.format === undefined
+          ? undefined
+          : parseChoice("--format", cli.options.format, IMPORT_FORMATS),
+      dryRun: cli.options.dryRun,
+    };
+  }
+  if (cli.subcommand === "audit") {
+    return {
+      command: "audit",
+      config,
+      configFile,
+      format: parseChoice(
+        "--format",
+        cli.options.format ?? "text",
+        AUDIT_FORMATS,
+      ),
+      tool: cli.options.tool,
+      status:
+        cli.options.status === undefined
+          ? undefined
+          : parseChoice("--status", cli.options.status, AUDIT_STATUSES),
+      from: cli.options.from,
+      to: cli.options.to,
+      limit:
+        cli.options.limit === undefined
+          ? DEFAULT_AUDIT_LIMIT
+          : parseLimit(cli.options.limit),
+      prune: cli.options.prune,
+    };
+  }
+
+  return { command: "serve", config, configFile };
+}
+
+function parseChoice<T extends string>(
+  option: string,
+  value: string,
+  choices: readonly T[],
+): T {
+  if (!choices.includes(value as T)) {
+    throw new ConfigError(
+      `Invalid ${option} "${value}": use one of ${choices.join(", ")}`,
+    );
+  }
+  return value as T;
+}
+
+function parseLimit(value: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ConfigError(
+      `Invalid --limit "${value}": use a positive whole number`,
+    );
+  }
+  return limit;
+}
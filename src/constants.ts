@@ -0,0 +1,16 @@
+/**
+ * Values shared by the configuration and the services
+ *
+ * This module has no dependencies, so that parsing the configuration does not
+ * load the services or the database.
+ */
+
+export const EXPORT_FORMATS = ["json", "jsonl", "markdown"] as const;
+export const IMPORT_FORMATS = ["json", "jsonl"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// Outcomes of a tool call recorded in the audit log
+export const AUDIT_STATUSES = ["success", "error"] as const;
+export type AuditStatus = (typeof AUDIT_STATUSES)[number];
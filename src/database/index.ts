@@ -1,11 +1,19 @@
 import { Database } from "bun:sqlite";
-import { initTodosTable } from "./schema/todos";
-import { initMemoriesTable } from "./schema/memories";
+import {
+  runMigrations,
+  getSchemaVersion,
+  getLatestSchemaVersion,
+  SchemaVersionError,
+} from "./migrations";
 
 // Create database connection (use specified path for testing)
 let db: Database;
+let readOnly = false;
 
-export function setupDatabase(dbPath: string = "tiny-memory.db") {
+export function setupDatabase(
+  dbPath: string = "tiny-memory.db",
+  options: { readOnly?: boolean } = {},
+) {
   // Close existing connection if any
   if (db) {
     try {
@@ -16,32 +24,62 @@ export function setupDatabase(dbPath: string = "tiny-memory.db") {
     }
   }
 
+  readOnly = options.readOnly ?? false;
+
+  // A read-only database must exist; falling back to memory would hide that
+  if (readOnly) {
+    db = new Database(dbPath, { readonly: true });
+    return db;
+  }
+
   try {
     // Create new connection
     db = new Database(dbPath);
+    // SQLite does not enforce foreign keys unless enabled per connection
+    db.run("PRAGMA foreign_keys = ON");
     return db;
   } catch (error) {
     console.error(`Database connection error: ${error}`);
     console.log("Using in-memory database as fallback");
     db = new Database(":memory:");
+    db.run("PRAGMA foreign_keys = ON");
     return db;
   }
 }
 
-// Create tables
+// Bring the schema up to date
 export function initializeDatabase() {
-  initTodosTable();
-  initMemoriesTable();
+  // Migrations cannot be written to a read-only database
+  if (readOnly) {
+    const version = getSchemaVersion(db);
+    if (version !== getLatestSchemaVersion()) {
+      throw new SchemaVersionError(
+        `Database schema version ${version} does not match the supported version ${getLatestSchemaVersion()}. Open the database once without read-only mode to migrate it.`,
+      );
+    }
+    return;
+  }
+
+  const applied = runMigrations(db);
+
+  if (applied.length > 0) {
+    console.error(`Applied schema migrations: ${applied.join(", ")}`);
+  }
 }
 
 // Function to close the database
 export function closeDatabase() {
   if (db) {
     db.close();
-    console.log("Database connection closed");
+    console.error("Database connection closed");
   }
 }
 
+// Whether the database was opened read-only
+export function isReadOnly(): boolean {
+  return readOnly;
+}
+
 // Function to get the current database connection
 export function getDatabase() {
   return db;
@@ -0,0 +1,33 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Create the TODO and Memories tables
+ *
+ * Databases created before schema versioning was introduced already contain
+ * these tables at version 0, so this migration must tolerate them.
+ */
+export const initialSchema: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up(db: Database) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS todos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        description TEXT,
+        due_date TIMESTAMP,
+        completed BOOLEAN DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS memories (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        content TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  },
+};
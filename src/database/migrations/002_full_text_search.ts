@@ -0,0 +1,82 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Create the full-text search tables for memories and TODOs
+ *
+ * The FTS5 tables use the trigram tokenizer so that substring matching keeps
+ * working for text without word boundaries (e.g. Japanese). They are external
+ * content tables kept in sync with their source tables by triggers.
+ */
+export const fullTextSearch: Migration = {
+  version: 2,
+  name: "full_text_search",
+  up(db: Database) {
+    db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+        content,
+        content='memories',
+        content_rowid='id',
+        tokenize='trigram'
+      )
+    `);
+
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+        INSERT INTO memories_fts(rowid, content) VALUES (new.id, new.content);
+      END
+    `);
+
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, rowid, content)
+        VALUES ('delete', old.id, old.content);
+      END
+    `);
+
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF content ON memories BEGIN
+        INSERT INTO memories_fts(memories_fts, rowid, content)
+        VALUES ('delete', old.id, old.content);
+        INSERT INTO memories_fts(rowid, content) VALUES (new.id, new.content);
+      END
+    `);
+
+    db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS todos_fts USING fts5(
+        title,
+        description,
+        content='todos',
+        content_rowid='id',
+        tokenize='trigram'
+      )
+    `);
+
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS todos_fts_insert AFTER INSERT ON todos BEGIN
+        INSERT INTO todos_fts(rowid, title, description)
+        VALUES (new.id, new.title, new.description);
+      END
+    `);
+
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS todos_fts_delete AFTER DELETE ON todos BEGIN
+        INSERT INTO todos_fts(todos_fts, rowid, title, description)
+        VALUES ('delete', old.id, old.title, old.description);
+      END
+    `);
+
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS todos_fts_update AFTER UPDATE OF title, description ON todos BEGIN
+        INSERT INTO todos_fts(todos_fts, rowid, title, description)
+        VALUES ('delete', old.id, old.title, old.description);
+        INSERT INTO todos_fts(rowid, title, description)
+        VALUES (new.id, new.title, new.description);
+      END
+    `);
+
+    // Backfill rows that existed before the search tables were created
+    db.run("INSERT INTO memories_fts(memories_fts) VALUES ('rebuild')");
+    db.run("INSERT INTO todos_fts(todos_fts) VALUES ('rebuild')");
+  },
+};
@@ -0,0 +1,38 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Create the tags table and the many-to-many links to memories and TODOs
+ */
+export const tags: Migration = {
+  version: 3,
+  name: "tags",
+  up(db: Database) {
+    db.run(`
+      CREATE TABLE tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE memory_tags (
+        memory_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        PRIMARY KEY (memory_id, tag_id)
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE todo_tags (
+        todo_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+        tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        PRIMARY KEY (todo_id, tag_id)
+      )
+    `);
+
+    db.run("CREATE INDEX idx_memory_tags_tag_id ON memory_tags(tag_id)");
+    db.run("CREATE INDEX idx_todo_tags_tag_id ON todo_tags(tag_id)");
+  },
+};
@@ -0,0 +1,30 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Track edits to memories
+ *
+ * Each row of memory_revisions holds the content a memory had before an edit,
+ * along with the time that content was written.
+ */
+export const memoryRevisions: Migration = {
+  version: 4,
+  name: "memory_revisions",
+  up(db: Database) {
+    db.run("ALTER TABLE memories ADD COLUMN updated_at TIMESTAMP");
+
+    db.run(`
+      CREATE TABLE memory_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        memory_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        content_created_at TIMESTAMP NOT NULL,
+        revised_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.run(
+      "CREATE INDEX idx_memory_revisions_memory_id ON memory_revisions(memory_id)",
+    );
+  },
+};
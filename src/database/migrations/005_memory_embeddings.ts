@@ -0,0 +1,31 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Store embedding vectors for memories
+ *
+ * Vectors are kept per embedding provider so that switching providers does not
+ * mix incompatible vectors. Editing a memory discards its stale vectors.
+ */
+export const memoryEmbeddings: Migration = {
+  version: 5,
+  name: "memory_embeddings",
+  up(db: Database) {
+    db.run(`
+      CREATE TABLE memory_embeddings (
+        memory_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        provider TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        vector BLOB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (memory_id, provider)
+      )
+    `);
+
+    db.run(`
+      CREATE TRIGGER memory_embeddings_invalidate AFTER UPDATE OF content ON memories BEGIN
+        DELETE FROM memory_embeddings WHERE memory_id = new.id;
+      END
+    `);
+  },
+};
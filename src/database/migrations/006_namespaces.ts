@@ -0,0 +1,27 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Add a namespace to memories and TODOs
+ *
+ * Existing rows are placed in the "default" namespace.
+ */
+export const namespaces: Migration = {
+  version: 6,
+  name: "namespaces",
+  up(db: Database) {
+    db.run(
+      "ALTER TABLE memories ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default'",
+    );
+    db.run(
+      "ALTER TABLE todos ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default'",
+    );
+
+    db.run(
+      "CREATE INDEX idx_memories_namespace_created_at ON memories(namespace, created_at)",
+    );
+    db.run(
+      "CREATE INDEX idx_todos_namespace_due_date ON todos(namespace, due_date)",
+    );
+  },
+};
@@ -0,0 +1,23 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Add recurrence rules to TODOs
+ *
+ * Each occurrence of a repeating TODO links to the occurrence it was created
+ * from when the previous one was completed.
+ */
+export const todoRecurrence: Migration = {
+  version: 7,
+  name: "todo_recurrence",
+  up(db: Database) {
+    db.run("ALTER TABLE todos ADD COLUMN recurrence TEXT");
+    db.run(
+      "ALTER TABLE todos ADD COLUMN previous_todo_id INTEGER REFERENCES todos(id) ON DELETE SET NULL",
+    );
+
+    db.run(
+      "CREATE INDEX idx_todos_previous_todo_id ON todos(previous_todo_id)",
+    );
+  },
+};
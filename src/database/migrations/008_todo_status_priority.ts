@@ -0,0 +1,38 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Add a workflow status and a priority to TODOs
+ *
+ * Completed TODOs become "done" and all others "open". The completed flag is
+ * kept in sync with the status (done) so existing queries keep working; a
+ * trigger updates the status when only the completed flag is written.
+ */
+export const todoStatusPriority: Migration = {
+  version: 8,
+  name: "todo_status_priority",
+  up(db: Database) {
+    db.run(
+      `ALTER TABLE todos ADD COLUMN status TEXT NOT NULL DEFAULT 'open'
+       CHECK (status IN ('open', 'in_progress', 'blocked', 'done', 'cancelled'))`,
+    );
+    db.run(
+      `ALTER TABLE todos ADD COLUMN priority TEXT NOT NULL DEFAULT 'medium'
+       CHECK (priority IN ('low', 'medium', 'high', 'urgent'))`,
+    );
+    db.run("UPDATE todos SET status = 'done' WHERE completed = 1");
+
+    db.run(`
+      CREATE TRIGGER todos_completed_status AFTER UPDATE OF completed ON todos
+      WHEN NEW.completed != (NEW.status = 'done')
+      BEGIN
+        UPDATE todos SET status = CASE WHEN NEW.completed THEN 'done' ELSE 'open' END
+        WHERE id = NEW.id;
+      END
+    `);
+
+    db.run(
+      "CREATE INDEX idx_todos_namespace_status ON todos(namespace, status)",
+    );
+  },
+};
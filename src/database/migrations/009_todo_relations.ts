@@ -0,0 +1,32 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Add subtasks (a parent TODO) and dependencies between TODOs
+ *
+ * A dependency row means that todo_id is blocked by depends_on_id until the
+ * latter is done or cancelled.
+ */
+export const todoRelations: Migration = {
+  version: 9,
+  name: "todo_relations",
+  up(db: Database) {
+    db.run(
+      "ALTER TABLE todos ADD COLUMN parent_id INTEGER REFERENCES todos(id) ON DELETE SET NULL",
+    );
+    db.run("CREATE INDEX idx_todos_parent_id ON todos(parent_id)");
+
+    db.run(`
+      CREATE TABLE todo_dependencies (
+        todo_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+        depends_on_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (todo_id, depends_on_id),
+        CHECK (todo_id != depends_on_id)
+      )
+    `);
+    db.run(
+      "CREATE INDEX idx_todo_dependencies_depends_on_id ON todo_dependencies(depends_on_id)",
+    );
+  },
+};
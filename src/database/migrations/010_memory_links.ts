@@ -0,0 +1,40 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Add links from memories to the TODOs they are about, and typed links
+ * between memories
+ *
+ * A memory link reads "from_id <relation> to_id", e.g. a memory that
+ * supersedes an older one.
+ */
+export const memoryLinks: Migration = {
+  version: 10,
+  name: "memory_links",
+  up(db: Database) {
+    db.run(`
+      CREATE TABLE memory_todo_links (
+        memory_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        todo_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (memory_id, todo_id)
+      )
+    `);
+    db.run(
+      "CREATE INDEX idx_memory_todo_links_todo_id ON memory_todo_links(todo_id)",
+    );
+
+    db.run(`
+      CREATE TABLE memory_links (
+        from_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        to_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        relation TEXT NOT NULL
+          CHECK (relation IN ('relates_to', 'supersedes', 'caused_by')),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (from_id, to_id, relation),
+        CHECK (from_id != to_id)
+      )
+    `);
+    db.run("CREATE INDEX idx_memory_links_to_id ON memory_links(to_id)");
+  },
+};
@@ -0,0 +1,31 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+// Timestamp columns compared against each other and against date ranges
+const TIMESTAMP_COLUMNS: [table: string, column: string][] = [
+  ["memories", "created_at"],
+  ["memories", "updated_at"],
+  ["memory_revisions", "content_created_at"],
+  ["memory_revisions", "revised_at"],
+  ["todos", "created_at"],
+];
+
+/**
+ * Rewrite timestamps stored in other formats (e.g. ISO 8601 with a "T" or
+ * a UTC offset) as UTC in the CURRENT_TIMESTAMP format, so that text
+ * comparisons order them correctly
+ *
+ * Due dates keep their ISO 8601 format, in which they are also compared.
+ */
+export const normalizeTimestamps: Migration = {
+  version: 11,
+  name: "normalize_timestamps",
+  up(db: Database) {
+    for (const [table, column] of TIMESTAMP_COLUMNS) {
+      db.run(
+        `UPDATE ${table} SET ${column} = datetime(${column})
+         WHERE datetime(${column}) IS NOT NULL AND ${column} != datetime(${column})`,
+      );
+    }
+  },
+};
@@ -0,0 +1,31 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Record when TODOs are completed
+ *
+ * A trigger sets completed_at when a TODO becomes done and clears it when it
+ * is reopened, however the status is written. TODOs completed before this
+ * migration have no completion time.
+ */
+export const todoCompletedAt: Migration = {
+  version: 12,
+  name: "todo_completed_at",
+  up(db: Database) {
+    db.run("ALTER TABLE todos ADD COLUMN completed_at TIMESTAMP");
+
+    db.run(`
+      CREATE TRIGGER todos_completed_at AFTER UPDATE OF status ON todos
+      WHEN (NEW.status = 'done') != (OLD.status = 'done')
+      BEGIN
+        UPDATE todos
+        SET completed_at = CASE WHEN NEW.status = 'done' THEN CURRENT_TIMESTAMP END
+        WHERE id = NEW.id;
+      END
+    `);
+
+    db.run(
+      "CREATE INDEX idx_todos_namespace_completed_at ON todos(namespace, completed_at)",
+    );
+  },
+};
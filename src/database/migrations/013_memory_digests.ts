@@ -0,0 +1,37 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Support digest memories that consolidate other memories
+ *
+ * Archived memories stay in the database but are hidden from default lists
+ * and searches. A digest is linked to each memory it consolidates with the
+ * "summarizes" relation; SQLite cannot change a CHECK constraint, so the
+ * memory_links table is rebuilt to allow it.
+ */
+export const memoryDigests: Migration = {
+  version: 13,
+  name: "memory_digests",
+  up(db: Database) {
+    db.run("ALTER TABLE memories ADD COLUMN archived_at TIMESTAMP");
+    db.run(
+      "CREATE INDEX idx_memories_namespace_archived_at ON memories(namespace, archived_at)",
+    );
+
+    db.run(`
+      CREATE TABLE memory_links_new (
+        from_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        to_id INTEGER NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+        relation TEXT NOT NULL
+          CHECK (relation IN ('relates_to', 'supersedes', 'caused_by', 'summarizes')),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (from_id, to_id, relation),
+        CHECK (from_id != to_id)
+      )
+    `);
+    db.run("INSERT INTO memory_links_new SELECT * FROM memory_links");
+    db.run("DROP TABLE memory_links");
+    db.run("ALTER TABLE memory_links_new RENAME TO memory_links");
+    db.run("CREATE INDEX idx_memory_links_to_id ON memory_links(to_id)");
+  },
+};
@@ -0,0 +1,27 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Add an importance score, a pinned flag and access tracking to memories
+ *
+ * Importance ranges from 1 (trivial) to 5 (critical). Existing memories get
+ * the default of 3 and have never been accessed.
+ */
+export const memoryImportance: Migration = {
+  version: 14,
+  name: "memory_importance",
+  up(db: Database) {
+    db.run(
+      `ALTER TABLE memories ADD COLUMN importance INTEGER NOT NULL DEFAULT 3
+       CHECK (importance BETWEEN 1 AND 5)`,
+    );
+    db.run("ALTER TABLE memories ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0");
+    db.run("ALTER TABLE memories ADD COLUMN last_accessed_at TIMESTAMP");
+    db.run(
+      "ALTER TABLE memories ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0",
+    );
+    db.run(
+      "CREATE INDEX idx_memories_namespace_pinned ON memories(namespace, pinned)",
+    );
+  },
+};
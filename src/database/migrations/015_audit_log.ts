@@ -0,0 +1,31 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Add the audit log of tool calls
+ *
+ * Entries are not tied to a namespace's data, so they outlive the memories
+ * and TODOs they mention and are removed by the retention setting only.
+ */
+export const auditLog: Migration = {
+  version: 15,
+  name: "audit_log",
+  up(db: Database) {
+    db.run(`
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tool TEXT NOT NULL,
+        arguments TEXT NOT NULL,
+        namespace TEXT NOT NULL,
+        client TEXT,
+        session_id TEXT,
+        status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+        error TEXT,
+        duration_ms INTEGER NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    db.run("CREATE INDEX idx_audit_log_created_at ON audit_log(created_at)");
+    db.run("CREATE INDEX idx_audit_log_tool ON audit_log(tool, created_at)");
+  },
+};
@@ -0,0 +1,37 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Move deleted memories and TODOs to a trash and journal changes for undo
+ *
+ * A deleted item keeps its row, tags and links with deleted_at set, and is
+ * hidden from every default query until it is restored or the trash is
+ * emptied. Each journal entry holds the steps that revert one change.
+ */
+export const trash: Migration = {
+  version: 16,
+  name: "trash",
+  up(db: Database) {
+    db.run("ALTER TABLE memories ADD COLUMN deleted_at TIMESTAMP");
+    db.run("ALTER TABLE todos ADD COLUMN deleted_at TIMESTAMP");
+    db.run(
+      "CREATE INDEX idx_memories_namespace_deleted_at ON memories(namespace, deleted_at)",
+    );
+    db.run(
+      "CREATE INDEX idx_todos_namespace_deleted_at ON todos(namespace, deleted_at)",
+    );
+    db.run(`
+      CREATE TABLE operation_journal (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        namespace TEXT NOT NULL,
+        description TEXT NOT NULL,
+        undo_steps TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        undone_at TIMESTAMP
+      )
+    `);
+    db.run(
+      "CREATE INDEX idx_operation_journal_namespace ON operation_journal(namespace, id)",
+    );
+  },
+};
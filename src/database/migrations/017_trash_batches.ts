@@ -0,0 +1,24 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Record which TODOs were moved to the trash together
+ *
+ * A TODO deleted with its subtasks shares a deletion batch with them, so that
+ * restoring it brings back exactly those subtasks. TODOs already in the trash
+ * are grouped by their deletion time, as restoring did before.
+ */
+export const trashBatches: Migration = {
+  version: 17,
+  name: "trash_batches",
+  up(db: Database) {
+    db.run("ALTER TABLE todos ADD COLUMN deletion_batch INTEGER");
+    db.run(`
+      UPDATE todos SET deletion_batch = (
+        SELECT COUNT(DISTINCT earlier.deleted_at) FROM todos AS earlier
+        WHERE earlier.deleted_at <= todos.deleted_at
+      )
+      WHERE deleted_at IS NOT NULL
+    `);
+  },
+};
@@ -0,0 +1,26 @@
+import { Database } from "bun:sqlite";
+import { Migration } from "./types";
+
+/**
+ * Record which subtasks were moved up a level when their parent was deleted
+ *
+ * Restoring the parent moves them back under it. TODOs already in the trash
+ * have no record, so their former subtasks stay where they are.
+ */
+export const trashMovedSubtasks: Migration = {
+  version: 18,
+  name: "trash_moved_subtasks",
+  up(db: Database) {
+    db.run(`
+      CREATE TABLE todo_moved_subtasks (
+        parent_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+        todo_id INTEGER NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+        deletion_batch INTEGER NOT NULL,
+        PRIMARY KEY (parent_id, todo_id)
+      )
+    `);
+    db.run(
+      "CREATE INDEX idx_todo_moved_subtasks_todo_id ON todo_moved_subtasks(todo_id)",
+    );
+  },
+};
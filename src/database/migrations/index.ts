@@ -0,0 +1,109 @@
+import { Database } from "bun:sqlite";
+import { Migration, SchemaVersionError } from "./types";
+import { initialSchema } from "./001_initial_schema";
+import { fullTextSearch } from "./002_full_text_search";
+import { tags } from "./003_tags";
+import { memoryRevisions } from "./004_memory_revisions";
+import { memoryEmbeddings } from "./005_memory_embeddings";
+import { namespaces } from "./006_namespaces";
+import { todoRecurrence } from "./007_todo_recurrence";
+import { todoStatusPriority } from "./008_todo_status_priority";
+import { todoRelations } from "./009_todo_relations";
+import { memoryLinks } from "./010_memory_links";
+import { normalizeTimestamps } from "./011_normalize_timestamps";
+import { todoCompletedAt } from "./012_todo_completed_at";
+import { memoryDigests } from "./013_memory_digests";
+import { memoryImportance } from "./014_memory_importance";
+import { auditLog } from "./015_audit_log";
+import { trash } from "./016_trash";
+import { trashBatches } from "./017_trash_batches";
+import { trashMovedSubtasks } from "./018_trash_moved_subtasks";
+
+export type { Migration };
+export { SchemaVersionError };
+
+// All migrations in the order they are applied
+export const migrations: Migration[] = [
+  initialSchema,
+  fullTextSearch,
+  tags,
+  memoryRevisions,
+  memoryEmbeddings,
+  namespaces,
+  todoRecurrence,
+  todoStatusPriority,
+  todoRelations,
+  memoryLinks,
+  normalizeTimestamps,
+  todoCompletedAt,
+  memoryDigests,
+  memoryImportance,
+  auditLog,
+  trash,
+  trashBatches,
+  trashMovedSubtasks,
+];
+
+/**
+ * Get the schema version stored in the database
+ */
+export function getSchemaVersion(db: Database): number {
+  const row = db.prepare("PRAGMA user_version").get() as {
+    user_version: number;
+  };
+  return row.user_version;
+}
+
+/**
+ * Get the schema version the given migrations bring a database to
+ */
+export function getLatestSchemaVersion(list: Migration[] = migrations): number {
+  return list.length > 0 ? list[list.length - 1].version : 0;
+}
+
+/**
+ * Apply every migration newer than the database's schema version
+ *
+ * Each migration runs in its own transaction together with the version bump,
+ * so a failing migration leaves the database at the previous version.
+ * @param db Database connection
+ * @param list Migrations to apply (defaults to all migrations)
+ * @returns Versions of the migrations that were applied
+ */
+export function runMigrations(
+  db: Database,
+  list: Migration[] = migrations,
+): number[] {
+  const currentVersion = getSchemaVersion(db);
+  const latestVersion = getLatestSchemaVersion(list);
+
+  if (currentVersion > latestVersion) {
+    throw new SchemaVersionError(
+      `Database schema version ${currentVersion} is newer than the latest supported version ${latestVersion}. Please upgrade tiny-memory-mcp.`,
+    );
+  }
+
+  const applied: number[] = [];
+
+  for (const migration of list) {
+    if (migration.version <= currentVersion) {
+      continue;
+    }
+
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        // PRAGMA does not accept bound parameters
+        db.run(`PRAGMA user_version = ${migration.version}`);
+      })();
+    } catch (error) {
+      throw new SchemaVersionError(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
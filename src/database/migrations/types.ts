@@ -0,0 +1,17 @@
+import { Database } from "bun:sqlite";
+
+export interface Migration {
+  version: number; // Schema version after this migration is applied
+  name: string;
+  up: (db: Database) => void;
+}
+
+/**
+ * Error thrown when the database cannot be migrated by this version of the code
+ */
+export class SchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Namespace handling
+ *
+ * Every memory and TODO belongs to a namespace so that one database can hold
+ * separate pools of data, e.g. one per project. Repository functions default
+ * to the namespace selected for the server.
+ */
+
+export const DEFAULT_NAMESPACE = "default";
+
+let currentNamespace = DEFAULT_NAMESPACE;
+
+/**
+ * Validate and normalize a namespace name
+ */
+export function normalizeNamespace(namespace: string): string {
+  const normalized = namespace.trim();
+
+  if (!/^[\w.:/-]{1,64}$/.test(normalized)) {
+    throw new Error(
+      `Invalid namespace "${namespace}": use 1-64 letters, digits or the characters _ . : / -`,
+    );
+  }
+
+  return normalized;
+}
+
+export function setDefaultNamespace(namespace: string) {
+  currentNamespace = normalizeNamespace(namespace);
+}
+
+export function getDefaultNamespace(): string {
+  return currentNamespace;
+}
+
+/**
+ * Resolve an optional per-call namespace, falling back to the default
+ */
+export function resolveNamespace(namespace?: string): string {
+  return namespace === undefined
+    ? currentNamespace
+    : normalizeNamespace(namespace);
+}
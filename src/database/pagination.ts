@@ -0,0 +1,166 @@
+/**
+ * Cursor-based (keyset) pagination for list and search queries
+ *
+ * A query is wrapped in a subquery and ordered by a sort key followed by the
+ * row ID as a tie-breaker. The cursor records the sort key value and ID of the
+ * last row of a page, so the next page starts right after it even when rows
+ * are added or removed in the meantime.
+ */
+import { getDatabase } from ".";
+
+export const SORT_ORDERS = ["asc", "desc"] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+export interface PageOptions<K extends string = string> {
+  limit?: number; // Maximum number of items (default: no limit)
+  cursor?: string; // Cursor returned as next_cursor by the previous page
+  sort?: K; // Sort key (default depends on the query)
+  order?: SortOrder; // Sort direction (default depends on the sort key)
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number; // Number of items matching the query across all pages
+  next_cursor: string | null; // null on the last page
+}
+
+export interface SortKey {
+  expression: string; // SQL expression over the columns of the query
+  defaultOrder: SortOrder;
+  tieBreakerOrder?: SortOrder; // Order of rows with equal keys (default: same as the key)
+}
+
+interface SortedRow {
+  id: number;
+  sort_value: string | number | null;
+  [column: string]: unknown;
+}
+
+interface Cursor {
+  sort: string;
+  order: SortOrder;
+  value: string | number | null;
+  id: number;
+}
+
+/**
+ * Error for an unknown sort key or a cursor that is malformed or belongs to a
+ * different sort order
+ */
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaginationError";
+  }
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(text: string): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(text, "base64url").toString("utf8"));
+  } catch {
+    throw new PaginationError("Invalid cursor");
+  }
+
+  if (
+    typeof cursor !== "object" ||
+    cursor === null ||
+    typeof cursor.id !== "number" ||
+    !(
+      cursor.value === null ||
+      typeof cursor.value === "string" ||
+      typeof cursor.value === "number"
+    )
+  ) {
+    throw new PaginationError("Invalid cursor");
+  }
+
+  return cursor;
+}
+
+/**
+ * Run a query one page at a time
+ *
+ * Rows whose sort key is NULL come last in either direction.
+ * @param sql Query selecting the matching rows, which must include an id column
+ * @param params Parameters of the query
+ * @param sortKeys Sort keys that can be requested
+ * @param defaultSort Sort key used when none is requested
+ * @param options Page size, cursor and sort order
+ * @returns The page of rows, the total number of matching rows and the next cursor
+ */
+export function paginate<T extends { id: number }, K extends string>(
+  sql: string,
+  params: any[],
+  sortKeys: Record<K, SortKey>,
+  defaultSort: K,
+  options: PageOptions<K> = {},
+): Page<T> {
+  const db = getDatabase();
+  const sort = options.sort ?? defaultSort;
+  const key = sortKeys[sort];
+  if (!key) {
+    throw new PaginationError(`Unsupported sort key: ${sort}`);
+  }
+
+  const order = options.order ?? key.defaultOrder;
+  const tieBreakerOrder = key.tieBreakerOrder ?? order;
+  const after = order === "asc" ? ">" : "<";
+  const idAfter = tieBreakerOrder === "asc" ? ">" : "<";
+
+  let condition = "1=1";
+  const pageParams: any[] = [...params];
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (cursor.sort !== sort || cursor.order !== order) {
+      throw new PaginationError(
+        "The cursor was created with a different sort order",
+      );
+    }
+
+    if (cursor.value === null) {
+      condition = `sort_value IS NULL AND id ${idAfter} ?`;
+      pageParams.push(cursor.id);
+    } else {
+      condition = `(sort_value IS NULL OR sort_value ${after} ? OR (sort_value = ? AND id ${idAfter} ?))`;
+      pageParams.push(cursor.value, cursor.value, cursor.id);
+    }
+  }
+
+  const limit = options.limit ?? -1;
+  const rows = db
+    .prepare(
+      `
+    SELECT * FROM (
+      SELECT page.*, ${key.expression} AS sort_value FROM (${sql}) AS page
+    )
+    WHERE ${condition}
+    ORDER BY sort_value IS NULL, sort_value ${order.toUpperCase()}, id ${tieBreakerOrder.toUpperCase()}
+    LIMIT ?
+  `,
+    )
+    .all(...pageParams, limit < 0 ? -1 : limit + 1) as SortedRow[];
+
+  const { total } = db
+    .prepare(`SELECT COUNT(*) AS total FROM (${sql})`)
+    .get(...params) as { total: number };
+
+  const hasMore = limit >= 0 && rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    items: pageRows.map(
+      ({ sort_value: _sortValue, ...row }) => row as unknown as T,
+    ),
+    total,
+    next_cursor:
+      hasMore && last
+        ? encodeCursor({ sort, order, value: last.sort_value, id: last.id })
+        : null,
+  };
+}
@@ -1,19 +0,0 @@
-import { getDatabase } from "../index";
-
-/**
- * Initialize the TODO table
- */
-export function initTodosTable() {
-  const db = getDatabase();
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS todos (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      title TEXT NOT NULL,
-      description TEXT,
-      due_date TIMESTAMP,
-      completed BOOLEAN DEFAULT 0,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-}
@@ -0,0 +1,367 @@
+/**
+ * Search query parser shared by the memory and TODO full-text search
+ *
+ * Supported syntax:
+ * - `word1 word2`        both words, in any order (implicit AND)
+ * - `"exact phrase"`     words appearing next to each other
+ * - `auth*`              prefix matching
+ * - `a AND b`, `a OR b`  boolean operators (upper case)
+ * - `a NOT b`            matches a, excluding entries that contain b
+ * - `(a OR b) c`         grouping with parentheses
+ */
+
+export type SearchNode =
+  | { type: "term"; value: string; prefix: boolean }
+  | { type: "phrase"; value: string }
+  | { type: "and"; children: SearchNode[] }
+  | { type: "or"; children: SearchNode[] }
+  | { type: "not"; include: SearchNode; exclude: SearchNode };
+
+type Token =
+  | { type: "word"; value: string; prefix: boolean }
+  | { type: "phrase"; value: string }
+  | { type: "and" | "or" | "not" | "lparen" | "rparen" };
+
+// The trigram tokenizer cannot match terms shorter than this
+const MIN_FTS_TERM_LENGTH = 3;
+
+/**
+ * Split a query string into tokens
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(") {
+      tokens.push({ type: "lparen" });
+      i++;
+    } else if (char === ")") {
+      tokens.push({ type: "rparen" });
+      i++;
+    } else if (char === '"') {
+      // An unterminated phrase extends to the end of the query
+      const end = query.indexOf('"', i + 1);
+      const value = query.slice(i + 1, end === -1 ? undefined : end).trim();
+      if (value) {
+        tokens.push({ type: "phrase", value });
+      }
+      i = end === -1 ? query.length : end + 1;
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s()"]/.test(query[end])) {
+        end++;
+      }
+      const word = query.slice(i, end);
+      i = end;
+
+      if (word === "AND") {
+        tokens.push({ type: "and" });
+      } else if (word === "OR") {
+        tokens.push({ type: "or" });
+      } else if (word === "NOT") {
+        tokens.push({ type: "not" });
+      } else {
+        const prefix = word.endsWith("*");
+        const value = word.replace(/\*+$/, "");
+        if (value) {
+          tokens.push({ type: "word", value, prefix });
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token list
+ *
+ * Operator precedence follows FTS5: NOT binds tighter than AND, which binds
+ * tighter than OR. Dangling operators are ignored rather than rejected so that
+ * free-form text typed by an agent always produces a usable query.
+ */
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): SearchNode | null {
+    const nodes: SearchNode[] = [];
+
+    // Collect top-level expressions, skipping stray closing parentheses
+    while (this.position < this.tokens.length) {
+      const node = this.parseOr();
+      if (node) {
+        nodes.push(node);
+      } else {
+        this.position++;
+      }
+    }
+
+    return combine("and", nodes);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(): SearchNode | null {
+    const children: SearchNode[] = [];
+    const first = this.parseAnd();
+    if (first) {
+      children.push(first);
+    }
+
+    while (this.peek()?.type === "or") {
+      this.position++;
+      const next = this.parseAnd();
+      if (next) {
+        children.push(next);
+      }
+    }
+
+    return combine("or", children);
+  }
+
+  private parseAnd(): SearchNode | null {
+    const children: SearchNode[] = [];
+
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type === "or" || token.type === "rparen") {
+        break;
+      }
+      if (token.type === "and") {
+        this.position++;
+        continue;
+      }
+
+      const node = this.parseNot();
+      if (node) {
+        children.push(node);
+      }
+    }
+
+    return combine("and", children);
+  }
+
+  private parseNot(): SearchNode | null {
+    let node = this.parsePrimary();
+
+    while (this.peek()?.type === "not") {
+      this.position++;
+      const exclude = this.parsePrimary();
+      if (node && exclude) {
+        node = { type: "not", include: node, exclude };
+      }
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): SearchNode | null {
+    const token = this.peek();
+    if (!token) {
+      return null;
+    }
+
+    switch (token.type) {
+      case "word":
+        this.position++;
+        return { type: "term", value: token.value, prefix: token.prefix };
+      case "phrase":
+        this.position++;
+        return { type: "phrase", value: token.value };
+      case "lparen": {
+        this.position++;
+        const node = this.parseOr();
+        if (this.peek()?.type === "rparen") {
+          this.position++;
+        }
+        return node;
+      }
+      case "not":
+        // A NOT without a left-hand side has nothing to exclude from
+        this.position++;
+        return null;
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Combine nodes with a boolean operator, collapsing single-child groups
+ */
+function combine(
+  type: "and" | "or",
+  children: SearchNode[],
+): SearchNode | null {
+  if (children.length === 0) {
+    return null;
+  }
+  if (children.length === 1) {
+    return children[0];
+  }
+  return { type, children };
+}
+
+/**
+ * Parse a search query into a syntax tree
+ * @param query Query string entered by the user
+ * @returns The parsed query, or null if it contains no search terms
+ */
+export function parseSearchQuery(query: string): SearchNode | null {
+  // FTS5 rejects control characters such as NUL inside a string, so they
+  // separate words like whitespace
+  return new Parser(tokenize(query.replace(/\p{Cc}/gu, " "))).parse();
+}
+
+/**
+ * Get every term and phrase in the query that is not excluded by NOT
+ * @param node Parsed query
+ * @returns Terms used for highlighting
+ */
+export function getPositiveTerms(node: SearchNode): string[] {
+  switch (node.type) {
+    case "term":
+    case "phrase":
+      return [node.value];
+    case "and":
+    case "or":
+      return node.children.flatMap(getPositiveTerms);
+    case "not":
+      return getPositiveTerms(node.include);
+  }
+}
+
+/**
+ * Check whether every term is long enough to be matched by the FTS index
+ * @param node Parsed query
+ * @returns true if the query can be run as an FTS5 MATCH
+ */
+export function canUseFullTextIndex(node: SearchNode): boolean {
+  switch (node.type) {
+    case "term":
+    case "phrase":
+      return [...node.value].length >= MIN_FTS_TERM_LENGTH;
+    case "and":
+    case "or":
+      return node.children.every(canUseFullTextIndex);
+    case "not":
+      return (
+        canUseFullTextIndex(node.include) && canUseFullTextIndex(node.exclude)
+      );
+  }
+}
+
+/**
+ * Convert a parsed query into an FTS5 MATCH expression
+ * @param node Parsed query
+ * @returns FTS5 query string
+ */
+export function toFtsMatchExpression(node: SearchNode): string {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  switch (node.type) {
+    case "term":
+      return node.prefix ? `${quote(node.value)}*` : quote(node.value);
+    case "phrase":
+      return quote(node.value);
+    case "and":
+      return `(${node.children.map(toFtsMatchExpression).join(" AND ")})`;
+    case "or":
+      return `(${node.children.map(toFtsMatchExpression).join(" OR ")})`;
+    case "not":
+      return `(${toFtsMatchExpression(node.include)} NOT ${toFtsMatchExpression(node.exclude)})`;
+  }
+}
+
+/**
+ * Convert a parsed query into a SQL condition using LIKE
+ *
+ * Used as a fallback when a term is too short for the trigram index.
+ * @param node Parsed query
+ * @param columns Columns to search in
+ * @returns SQL condition and its parameters
+ */
+export function toLikeCondition(
+  node: SearchNode,
+  columns: string[],
+): { sql: string; params: string[] } {
+  switch (node.type) {
+    case "term":
+    case "phrase": {
+      const pattern = `%${node.value.replace(/[\\%_]/g, "\\$&")}%`;
+      return {
+        sql: `(${columns
+          .map((column) => `COALESCE(${column}, '') LIKE ? ESCAPE '\\'`)
+          .join(" OR ")})`,
+        params: columns.map(() => pattern),
+      };
+    }
+    case "and":
+    case "or": {
+      const parts = node.children.map((child) =>
+        toLikeCondition(child, columns),
+      );
+      const operator = node.type === "and" ? " AND " : " OR ";
+      return {
+        sql: `(${parts.map((part) => part.sql).join(operator)})`,
+        params: parts.flatMap((part) => part.params),
+      };
+    }
+    case "not": {
+      const include = toLikeCondition(node.include, columns);
+      const exclude = toLikeCondition(node.exclude, columns);
+      return {
+        sql: `(${include.sql} AND NOT ${exclude.sql})`,
+        params: [...include.params, ...exclude.params],
+      };
+    }
+  }
+}
+
+/**
+ * Build a highlighted snippet without the FTS index
+ * @param text Text to take the snippet from
+ * @param terms Terms to highlight
+ * @param maxLength Approximate maximum snippet length
+ * @returns Snippet with matches wrapped in ** markers
+ */
+export function buildSnippet(
+  text: string,
+  terms: string[],
+  maxLength: number = 64,
+): string {
+  const lowerText = text.toLowerCase();
+  const positions = terms
+    .map((term) => lowerText.indexOf(term.toLowerCase()))
+    .filter((position) => position >= 0);
+
+  let start = 0;
+  let end = text.length;
+  if (text.length > maxLength) {
+    const first = positions.length > 0 ? Math.min(...positions) : 0;
+    start = Math.max(0, first - Math.floor(maxLength / 4));
+    end = Math.min(text.length, start + maxLength);
+  }
+
+  let snippet = text.slice(start, end);
+  const escaped = terms
+    .filter((term) => term.length > 0)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (escaped.length > 0) {
+    snippet = snippet.replace(
+      new RegExp(`(${escaped.join("|")})`, "gi"),
+      "**$1**",
+    );
+  }
+
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Conversion between JavaScript dates and SQLite timestamps, and display of
+ * timestamps in a time zone
+ *
+ * CURRENT_TIMESTAMP stores UTC as "YYYY-MM-DD HH:MM:SS", so timestamps
+ * written by the application use the same format to keep them comparable.
+ */
+
+/**
+ * Format a date as a SQLite timestamp in UTC
+ */
+export function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+/**
+ * Parse a SQLite timestamp or an ISO 8601 date
+ * @param value Timestamp without a time zone is read as UTC
+ * @returns The date, or null if the value is not a valid timestamp
+ */
+export function parseTimestamp(value: string): Date | null {
+  const sqliteFormat = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+  const date = sqliteFormat.test(value)
+    ? new Date(`${value.replace(" ", "T")}Z`)
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Time zone used to show timestamps and to interpret calendar dates such as
+ * "yesterday"; timestamps are always stored and compared in UTC
+ */
+export const DEFAULT_TIME_ZONE = "UTC";
+
+let displayTimeZone = DEFAULT_TIME_ZONE;
+
+/**
+ * Validate an IANA time zone name such as "Asia/Tokyo"
+ */
+export function normalizeTimeZone(timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: timeZone.trim(),
+    }).resolvedOptions().timeZone;
+  } catch {
+    throw new Error(
+      `Invalid time zone "${timeZone}": use an IANA name such as UTC or Asia/Tokyo`,
+    );
+  }
+}
+
+export function setDisplayTimeZone(timeZone: string) {
+  displayTimeZone = normalizeTimeZone(timeZone);
+}
+
+export function getDisplayTimeZone(): string {
+  return displayTimeZone;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 for Sunday
+}
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Get the wall-clock time of a date in a time zone
+ */
+export function toZonedParts(
+  date: Date,
+  timeZone: string = displayTimeZone,
+): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    weekday: "short",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)!.value;
+
+  return {
+    year: Number(part("year")),
+    month: Number(part("month")),
+    day: Number(part("day")),
+    hour: Number(part("hour")),
+    minute: Number(part("minute")),
+    second: Number(part("second")),
+    weekday: WEEKDAY_NAMES.indexOf(part("weekday")),
+  };
+}
+
+/**
+ * Get the offset of a time zone from UTC at a given moment, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const zoned = toZonedParts(date, timeZone);
+  const wallClock = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second,
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Get the moment a wall-clock time occurs in a time zone
+ *
+ * Out-of-range values roll over like Date.UTC, e.g. day 0 is the last day of
+ * the previous month.
+ */
+export function fromZonedParts(
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  minute: number = 0,
+  second: number = 0,
+  timeZone: string = displayTimeZone,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  // The offset at the guess can differ around DST changes, so look again
+  let date = new Date(
+    wallClock - getTimeZoneOffset(new Date(wallClock), timeZone),
+  );
+  date = new Date(wallClock - getTimeZoneOffset(date, timeZone));
+  return date;
+}
+
+/**
+ * Format a stored timestamp for display in the display time zone
+ * @returns "YYYY-MM-DD HH:MM:SS" in UTC, or with the UTC offset (e.g.
+ * "+09:00") appended in other time zones
+ */
+export function formatTimestamp(
+  value: string,
+  timeZone: string = displayTimeZone,
+): string {
+  const date = parseTimestamp(value);
+  if (!date) {
+    return value;
+  }
+  if (timeZone === "UTC") {
+    return toSqliteTimestamp(date);
+  }
+
+  const zoned = toZonedParts(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const offset = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+  const sign = offset < 0 ? "-" : "+";
+  return (
+    `${zoned.year}-${pad(zoned.month)}-${pad(zoned.day)} ` +
+    `${pad(zoned.hour)}:${pad(zoned.minute)}:${pad(zoned.second)} ` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  );
+}
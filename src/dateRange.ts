@@ -0,0 +1,311 @@
+/**
+ * Date ranges from ISO dates and relative expressions
+ *
+ * Calendar expressions ("yesterday", "last week") follow the display time
+ * zone; weeks start on Monday. Supported expressions:
+ *
+ * - ISO dates and times: 2025-03-01, 2025-03, 2025-03-01T09:00 (times without
+ *   an offset are in the display time zone) or 2025-03-01T09:00:00Z
+ * - today, yesterday, N days ago
+ * - this/last week, this/last month, this/last year
+ * - past N hours/days/weeks/months (also "last N days"): up to now
+ */
+import {
+  fromZonedParts,
+  toZonedParts,
+  getDisplayTimeZone,
+  ZonedParts,
+} from "./database/timestamp";
+
+/**
+ * Error for a date expression that cannot be understood
+ */
+export class DateRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DateRangeError";
+  }
+}
+
+export interface DateRange {
+  start: Date; // Inclusive
+  end: Date; // Exclusive
+}
+
+export interface DateRangeOptions {
+  now?: Date; // Reference time for relative expressions (default: now)
+  timeZone?: string; // Defaults to the display time zone
+}
+
+export const GRANULARITIES = ["hour", "day", "week", "month"] as const;
+export type Granularity = (typeof GRANULARITIES)[number];
+
+export interface DateBucket extends DateRange {
+  label: string; // Start of the period in the time zone, e.g. "2025-03-01"
+}
+
+// Most buckets a range can be split into
+export const MAX_BUCKETS = 1000;
+
+type Unit = "hour" | "day" | "week" | "month" | "year";
+
+/**
+ * Add calendar units to a wall-clock time
+ */
+function shift(parts: ZonedParts, unit: Unit, amount: number): ZonedParts {
+  const shifted = { ...parts };
+  switch (unit) {
+    case "hour":
+      shifted.hour += amount;
+      break;
+    case "day":
+      shifted.day += amount;
+      break;
+    case "week":
+      shifted.day += amount * 7;
+      break;
+    case "month":
+      shifted.month += amount;
+      break;
+    case "year":
+      shifted.year += amount;
+      break;
+  }
+  return shifted;
+}
+
+/**
+ * Get the calendar period of the given unit that contains a wall-clock time,
+ * shifted by a number of periods
+ */
+function calendarPeriod(
+  parts: ZonedParts,
+  unit: Exclude<Unit, "hour">,
+  offset: number,
+  timeZone: string,
+): DateRange {
+  let start: ZonedParts = { ...parts, hour: 0, minute: 0, second: 0 };
+  if (unit === "week") {
+    start.day -= (parts.weekday + 6) % 7;
+  } else if (unit === "month") {
+    start.day = 1;
+  } else if (unit === "year") {
+    start = { ...start, month: 1, day: 1 };
+  }
+  start = shift(start, unit, offset);
+  const end = shift(start, unit, 1);
+
+  const toDate = (p: ZonedParts) =>
+    fromZonedParts(
+      p.year,
+      p.month,
+      p.day,
+      p.hour,
+      p.minute,
+      p.second,
+      timeZone,
+    );
+  return { start: toDate(start), end: toDate(end) };
+}
+
+/**
+ * Parse an ISO date or time
+ * @returns The period the value names (a day, a month, or a single second),
+ * or null if the value is not in ISO format
+ */
+function parseIsoRange(value: string, timeZone: string): DateRange | null {
+  const dateOnly = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value);
+  if (dateOnly) {
+    const [year, month, day] = [
+      Number(dateOnly[1]),
+      Number(dateOnly[2]),
+      dateOnly[3] ? Number(dateOnly[3]) : undefined,
+    ];
+    if (
+      month < 1 ||
+      month > 12 ||
+      (day !== undefined && (day < 1 || day > 31))
+    ) {
+      throw new DateRangeError(`Invalid date: "${value}"`);
+    }
+    return day !== undefined
+      ? {
+          start: fromZonedParts(year, month, day, 0, 0, 0, timeZone),
+          end: fromZonedParts(year, month, day + 1, 0, 0, 0, timeZone),
+        }
+      : {
+          start: fromZonedParts(year, month, 1, 0, 0, 0, timeZone),
+          end: fromZonedParts(year, month + 1, 1, 0, 0, 0, timeZone),
+        };
+  }
+
+  const dateTime =
+    /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.exec(
+      value,
+    );
+  if (!dateTime) {
+    return null;
+  }
+
+  let start: Date;
+  if (dateTime[7]) {
+    start = new Date(value.replace(" ", "T"));
+  } else {
+    const [year, month, day, hour, minute, second] = dateTime
+      .slice(1, 7)
+      .map((part) => Number(part ?? 0));
+    start = fromZonedParts(year, month, day, hour, minute, second, timeZone);
+  }
+  if (isNaN(start.getTime())) {
+    throw new DateRangeError(`Invalid date: "${value}"`);
+  }
+  start = new Date(Math.floor(start.getTime() / 1000) * 1000);
+  return { start, end: new Date(start.getTime() + 1000) };
+}
+
+/**
+ * Parse a date expression into the range of time it names
+ * @param expression ISO date or relative expression (see the top of this file)
+ * @param options Reference time and time zone
+ * @throws DateRangeError if the expression is not understood
+ */
+export function parseDateRange(
+  expression: string,
+  options: DateRangeOptions = {},
+): DateRange {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone ?? getDisplayTimeZone();
+  const value = expression.trim().toLowerCase().replace(/\s+/g, " ");
+
+  const iso = parseIsoRange(value.toUpperCase(), timeZone);
+  if (iso) {
+    return iso;
+  }
+
+  const parts = toZonedParts(now, timeZone);
+  // Rolling ranges end after the current second
+  const endOfNow = new Date(Math.floor(now.getTime() / 1000) * 1000 + 1000);
+
+  if (value === "today") {
+    return calendarPeriod(parts, "day", 0, timeZone);
+  }
+  if (value === "yesterday") {
+    return calendarPeriod(parts, "day", -1, timeZone);
+  }
+
+  const ago = /^(\d+) days? ago$/.exec(value);
+  if (ago) {
+    return calendarPeriod(parts, "day", -Number(ago[1]), timeZone);
+  }
+
+  const period = /^(this|last) (week|month|year)$/.exec(value);
+  if (period) {
+    return calendarPeriod(
+      parts,
+      period[2] as "week" | "month" | "year",
+      period[1] === "this" ? 0 : -1,
+      timeZone,
+    );
+  }
+
+  const rolling = /^(?:past|last) (\d+) (hour|day|week|month|year)s?$/.exec(
+    value,
+  );
+  if (rolling) {
+    const start = shift(parts, rolling[2] as Unit, -Number(rolling[1]));
+    return {
+      start: fromZonedParts(
+        start.year,
+        start.month,
+        start.day,
+        start.hour,
+        start.minute,
+        start.second,
+        timeZone,
+      ),
+      end: endOfNow,
+    };
+  }
+
+  throw new DateRangeError(
+    `Unknown date "${expression}": use an ISO date (2025-03-01), today, yesterday, "N days ago", this/last week, this/last month, this/last year or "past N hours/days/weeks/months"`,
+  );
+}
+
+/**
+ * Label a period by its start, e.g. "2025-03-01 09:00" for an hour, the
+ * Monday for a week or "2025-03" for a month
+ */
+function formatBucketLabel(
+  start: Date,
+  granularity: Granularity,
+  timeZone: string,
+): string {
+  const parts = toZonedParts(start, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const month = `${parts.year}-${pad(parts.month)}`;
+  if (granularity === "month") {
+    return month;
+  }
+  const day = `${month}-${pad(parts.day)}`;
+  return granularity === "hour" ? `${day} ${pad(parts.hour)}:00` : day;
+}
+
+/**
+ * Get the calendar period of the time zone that contains a moment
+ *
+ * Hours are measured in real time, so a day with a DST change has 23 or 25
+ * of them.
+ */
+export function getPeriod(
+  date: Date,
+  granularity: Granularity,
+  timeZone: string = getDisplayTimeZone(),
+): DateBucket {
+  const parts = toZonedParts(date, timeZone);
+  let period: DateRange;
+  if (granularity === "hour") {
+    const start = new Date(
+      Math.floor(date.getTime() / 1000) * 1000 -
+        (parts.minute * 60 + parts.second) * 1000,
+    );
+    period = { start, end: new Date(start.getTime() + 60 * 60 * 1000) };
+  } else {
+    period = calendarPeriod(parts, granularity, 0, timeZone);
+  }
+
+  return {
+    label: formatBucketLabel(period.start, granularity, timeZone),
+    ...period,
+  };
+}
+
+/**
+ * Split a range into calendar periods of the time zone (see getPeriod)
+ *
+ * The first and last buckets are cut to the range.
+ * @throws DateRangeError if the range needs more than MAX_BUCKETS buckets
+ */
+export function splitDateRange(
+  range: DateRange,
+  granularity: Granularity,
+  timeZone: string = getDisplayTimeZone(),
+): DateBucket[] {
+  const buckets: DateBucket[] = [];
+  let cursor = range.start;
+
+  while (cursor < range.end) {
+    if (buckets.length >= MAX_BUCKETS) {
+      throw new DateRangeError(
+        `The range has more than ${MAX_BUCKETS} ${granularity}s; use a coarser granularity or a shorter range`,
+      );
+    }
+
+    const period = getPeriod(cursor, granularity, timeZone);
+    const end = period.end < range.end ? period.end : range.end;
+    buckets.push({ label: period.label, start: cursor, end });
+    cursor = end;
+  }
+
+  return buckets;
+}
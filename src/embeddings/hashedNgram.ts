@@ -0,0 +1,76 @@
+import { EmbeddingProvider } from "./types";
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Extract weighted features from text: whole words and character trigrams
+ *
+ * Character trigrams let texts without word boundaries (e.g. Japanese) and
+ * inflected forms ("decide" / "decided") share features.
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) =>
+    features.set(feature, (features.get(feature) || 0) + weight);
+
+  const words = text
+    .normalize("NFKC")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu);
+
+  for (const word of words || []) {
+    add(`w:${word}`, 1);
+
+    const chars = [...` ${word} `];
+    for (let i = 0; i + 3 <= chars.length; i++) {
+      add(`c:${chars.slice(i, i + 3).join("")}`, 0.5);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Deterministic offline embedding provider based on feature hashing
+ *
+ * Needs no model or network access. It captures lexical rather than true
+ * semantic similarity, which is enough to find related memories that share
+ * words or word fragments in any order.
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private dimensions: number = 512) {
+    this.id = `hashed-ngram-${dimensions}`;
+  }
+
+  embedSync(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const [feature, weight] of extractFeatures(text)) {
+      const hash = fnv1a(feature);
+      // Use the top bit as the sign so that collisions tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight;
+    }
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0),
+    );
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedSync(text));
+  }
+}
@@ -0,0 +1,40 @@
+import { EmbeddingProvider } from "./types";
+import { HashedNgramEmbeddingProvider } from "./hashedNgram";
+import { OllamaEmbeddingProvider } from "./ollama";
+
+export type { EmbeddingProvider };
+export { HashedNgramEmbeddingProvider, OllamaEmbeddingProvider };
+
+// Provider used for semantic search (offline default)
+let provider: EmbeddingProvider = new HashedNgramEmbeddingProvider();
+
+export function setEmbeddingProvider(newProvider: EmbeddingProvider) {
+  provider = newProvider;
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return provider;
+}
+
+/**
+ * Create an embedding provider from its name
+ * @param name "hashed" (default) or "ollama"
+ * @param options Model name and server URL for model-backed providers
+ * @returns The embedding provider
+ */
+export function createEmbeddingProvider(
+  name: string,
+  options: { model?: string; url?: string } = {},
+): EmbeddingProvider {
+  switch (name) {
+    case "hashed":
+      return new HashedNgramEmbeddingProvider();
+    case "ollama":
+      if (!options.model) {
+        throw new Error("The ollama embedding provider requires a model name");
+      }
+      return new OllamaEmbeddingProvider(options.model, options.url);
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
@@ -0,0 +1,46 @@
+import { EmbeddingProvider } from "./types";
+
+/**
+ * Embedding provider backed by a locally running model server
+ *
+ * Talks to the Ollama embedding API (`POST /api/embed`), which is also
+ * implemented by several other local model servers.
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private model: string,
+    private baseUrl: string = "http://localhost:11434",
+  ) {
+    this.id = `ollama:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/+$/, "")}/api/embed`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.model, input: texts }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Embedding request to ${this.baseUrl} failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const body = (await response.json()) as { embeddings?: number[][] };
+    if (!body.embeddings || body.embeddings.length !== texts.length) {
+      throw new Error("Embedding server returned an unexpected response");
+    }
+
+    return body.embeddings;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Converts text into embedding vectors for semantic search
+ */
+export interface EmbeddingProvider {
+  // Identifies the vectors produced by this provider (e.g. "hashed-ngram-512")
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
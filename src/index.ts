@@ -5,27 +5,93 @@
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
+import {
+  startHttpServer,
+  HttpServerHandle,
+  MCP_ENDPOINT,
+  SSE_ENDPOINT,
+} from "./transports/http";
+import * as fs from "fs";
 
 // Database initialization
 import { setupDatabase, initializeDatabase, closeDatabase } from "./database";
+import { setDefaultNamespace, getDefaultNamespace } from "./database/namespace";
+import { setDisplayTimeZone, getDisplayTimeZone } from "./database/timestamp";
+import {
+  CliCommand,
+  Config,
+  resolveConfig,
+  HELP_TEXT,
+  SERVER_NAME,
+  SERVER_VERSION,
+} from "./config";
+import { log, setLogLevel } from "./logger";
+import { setToolAccessPolicy } from "./accessControl";
 import * as todoRepo from "./repositories/todoRepository";
 import * as memoryRepo from "./repositories/memoryRepository";
+import * as tagRepo from "./repositories/tagRepository";
 import * as todoService from "./services/todoService";
 import * as memoryService from "./services/memoryService";
+import * as exportService from "./services/exportService";
+import * as auditService from "./services/auditService";
+import { createEmbeddingProvider, setEmbeddingProvider } from "./embeddings";
+import { registerAllTools } from "./tools";
+import { getRegisteredToolNames } from "./tools/response";
+import { registerAllResources } from "./resources";
+import { registerAllPrompts } from "./prompts";
 
-// Process command line arguments
-const args = process.argv.slice(2);
-let dbPath = "tiny-memory.db"; // Default path
+// Resolve the configuration from flags, environment variables and config file
+let command: CliCommand;
+let config: Config;
+try {
+  command = resolveConfig(process.argv.slice(2));
 
-// Display current directory and default path
-console.error(`[INFO] Current working directory: ${process.cwd()}`);
-console.error(`[INFO] Default database path: ${process.cwd()}/tiny-memory.db`);
+  if (command.command === "help") {
+    console.log(HELP_TEXT);
+    process.exit(0);
+  }
+  if (command.command === "version") {
+    console.log(SERVER_VERSION);
+    process.exit(0);
+  }
+
+  config = command.config;
+  setLogLevel(config.logLevel);
+  setDefaultNamespace(config.namespace);
+  setDisplayTimeZone(config.timeZone);
+  setToolAccessPolicy({ allow: config.allowTools, deny: config.denyTools });
+  auditService.setAuditOptions(config.audit);
+
+  if (command.configFile) {
+    log("info", `Loaded config file: ${command.configFile}`);
+  }
+} catch (error) {
+  console.error(
+    `[ERROR] ${error instanceof Error ? error.message : String(error)}`,
+  );
+  process.exit(1);
+}
 
-// Use the first argument as database path if provided
-if (args.length > 0) {
-  dbPath = args[0];
-  console.error(`[INFO] Setting database path: ${dbPath}`);
+log("info", `Current working directory: ${process.cwd()}`);
+log(
+  "info",
+  `Database path: ${config.db}${config.readOnly ? " (read-only)" : ""}`,
+);
+log("info", `Using namespace: ${getDefaultNamespace()}`);
+log("info", `Display time zone: ${getDisplayTimeZone()}`);
+if (config.allowTools) {
+  log("info", `Allowed tools: ${config.allowTools.join(", ") || "(none)"}`);
+}
+if (config.denyTools) {
+  log("info", `Denied tools: ${config.denyTools.join(", ") || "(none)"}`);
+}
+if (config.audit.enabled) {
+  log(
+    "info",
+    `Audit log: ${config.audit.retentionDays > 0 ? `kept for ${config.audit.retentionDays} days` : "kept forever"}${config.audit.redact.length > 0 ? `, redacting ${config.audit.redact.join(", ")}` : ""}`,
+  );
+} else {
+  log("info", "Audit log: disabled");
 }
 
 // Exports
@@ -34,187 +100,113 @@ export {
   closeDatabase,
   todoRepo,
   memoryRepo,
+  tagRepo,
   todoService,
   memoryService,
 };
 
 // Initialize database
-setupDatabase(dbPath);
-initializeDatabase();
-
-// Logger utility
-function log(level: string, ...args: any[]) {
-  console.error(`[${level.toUpperCase()}]`, ...args);
+try {
+  setupDatabase(config.db, { readOnly: config.readOnly });
+  initializeDatabase();
+} catch (error) {
+  console.error(
+    `[ERROR] Failed to initialize database: ${error instanceof Error ? error.message : String(error)}`,
+  );
+  process.exit(1);
 }
 
-const MemoryCreateSchema = z.object({
-  content: z.string().describe("The content of the memory"),
-});
-
-const MemorySearchSchema = z.object({
-  search_text: z.string().describe("Text to search for in memories"),
-});
-
-const MemoryAroundSchema = z.object({
-  id: z.number().describe("The ID of the memory to get context for"),
-  range: z
-    .number()
-    .optional()
-    .describe("The number of memories to get before and after"),
-});
-
-// Initialize MCP server
-const server = new McpServer({
-  name: "tiny-memory-mcp-server",
-  version: "1.0.0",
-  description:
-    "A specialized Model Context Protocol server that provides TODO and memory management functionality.",
-});
-
-// Memory tools
-server.tool(
-  "create_memory",
-  "Stores a new text entry in the memory system with the current timestamp. Memories serve as a persistent record of actions, thoughts, and events. This function allows creating standalone memories, while other todo operations automatically create associated memories. Each memory entry is assigned a unique ID for future reference.",
-  MemoryCreateSchema.shape,
-  async (args) => {
-    try {
-      const memoryId = memoryService.createMemory(args.content);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Successfully created memory with ID: ${memoryId}`,
-          },
-        ],
-        isError: false,
-      };
-    } catch (error) {
-      log("error", "Create memory error:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `An error occurred: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  },
-);
-
-server.tool(
-  "search_memories",
-  "Searches through all stored memories for entries containing the specified text. The search is case-insensitive and matches partial text within the memory content. Results are returned in reverse chronological order (newest first) and include the full content and creation timestamp of each matching memory.",
-  MemorySearchSchema.shape,
-  async (args) => {
-    try {
-      const memories = memoryRepo.searchMemories(args.search_text);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Found ${memories.length} memories containing "${args.search_text}":\n\n${JSON.stringify(memories, null, 2)}`,
-          },
-        ],
-        isError: false,
-      };
-    } catch (error) {
-      log("error", "Search memories error:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `An error occurred: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      };
+// Run the export, import or audit command instead of the server
+if (
+  command.command === "export" ||
+  command.command === "import" ||
+  command.command === "audit"
+) {
+  try {
+    if (command.command === "export") {
+      const data = exportService.exportData({
+        format: command.format,
+        allNamespaces: command.allNamespaces,
+      });
+      if (command.output) {
+        fs.writeFileSync(command.output, data);
+        log("info", `Exported data to ${command.output}`);
+      } else {
+        process.stdout.write(data);
+      }
+    } else if (command.command === "import") {
+      const report = exportService.importData(
+        fs.readFileSync(command.file, "utf8"),
+        { format: command.format, dryRun: command.dryRun },
+      );
+      console.log(JSON.stringify(report, null, 2));
+    } else if (command.prune) {
+      const deleted = auditService.pruneAuditLog();
+      log("info", `Deleted ${deleted} expired audit entries`);
+    } else {
+      const page = auditService.getAuditLog({
+        tool: command.tool,
+        status: command.status,
+        from: command.from,
+        to: command.to,
+        page: { limit: command.limit },
+      });
+      if (command.format === "json") {
+        console.log(JSON.stringify(page.items, null, 2));
+      } else {
+        for (const entry of page.items) {
+          console.log(auditService.formatAuditEntry(entry));
+        }
+        log("info", `Listed ${page.items.length} of ${page.total} tool calls`);
+      }
     }
-  },
-);
+  } catch (error) {
+    console.error(
+      `[ERROR] ${command.command} failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    closeDatabase();
+    process.exit(1);
+  }
 
-server.tool(
-  "get_memory_context",
-  "Retrieves a specific memory by ID along with surrounding memories (before and after) to provide context. You can specify how many surrounding memories to include (default is 5). The result is formatted as Markdown with clear sections for previous memories, the current memory, and subsequent memories, making it easy to understand the sequence of events.",
-  MemoryAroundSchema.shape,
-  async (args) => {
-    try {
-      const range = args.range || 5;
-      const context = memoryRepo.getMemoriesAroundId(args.id, range);
+  closeDatabase();
+  process.exit(0);
+}
 
-      if (!context.current) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `No memory found with ID: ${args.id}`,
-            },
-          ],
-          isError: false,
-        };
-      }
+// Configure the embedding provider used for semantic search
+try {
+  const { provider, model, url } = config.embedding;
+  setEmbeddingProvider(createEmbeddingProvider(provider, { model, url }));
+  log("info", `Using embedding provider: ${provider}`);
+} catch (error) {
+  console.error(
+    `[ERROR] Failed to configure embedding provider: ${error instanceof Error ? error.message : String(error)}`,
+  );
+  process.exit(1);
+}
 
-      const markdown = memoryService.getMemoryContextAsMarkdown(args.id, range);
+/**
+ * Create an MCP server with every tool, resource and prompt registered
+ *
+ * Each HTTP session is served by its own server instance; all of them share
+ * the database connection.
+ */
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+    description:
+      "A specialized Model Context Protocol server that provides TODO and memory management functionality.",
+  });
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: markdown,
-          },
-        ],
-        isError: false,
-      };
-    } catch (error) {
-      log("error", "Get memory context error:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `An error occurred: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  },
-);
+  registerAllTools(server);
+  registerAllResources(server);
+  registerAllPrompts(server);
 
-server.tool(
-  "get_memory_stats",
-  "Generates statistics about memory creation activity over a specified time period (default is 30 days). Returns daily counts of memories created, allowing you to track usage patterns and activity levels over time. The statistics are returned as an array of date and count pairs, sorted chronologically from oldest to newest.",
-  z.object({ days: z.number().optional() }).shape,
-  async (args) => {
-    try {
-      const days = args.days || 30;
-      const stats = memoryService.getMemoryStatsByDate(days);
+  return server;
+}
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Memory statistics for the past ${days} days:\n\n${JSON.stringify(stats, null, 2)}`,
-          },
-        ],
-        isError: false,
-      };
-    } catch (error) {
-      log("error", "Get memory stats error:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `An error occurred: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  },
-);
+// HTTP server, when the http transport is used
+let httpServer: HttpServerHandle | undefined;
 
 // Server start function
 async function main() {
@@ -222,24 +214,40 @@ async function main() {
     log("info", "Starting Tiny Memory MCP server...");
 
     // Configure transport
-    const transport = new StdioServerTransport();
-
-    // Connect server to transport
-    await server.connect(transport);
+    let tools: string[];
+    if (config.transport === "http") {
+      httpServer = await startHttpServer(createServer, {
+        host: config.host,
+        port: config.port,
+        authToken: config.authToken,
+      });
+      log(
+        "info",
+        `Serving streamable HTTP at ${httpServer.url}${MCP_ENDPOINT} and SSE at ${httpServer.url}${SSE_ENDPOINT}`,
+      );
+      if (!config.authToken) {
+        log(
+          "warn",
+          "No auth token is set; any client that can reach the server can use it",
+        );
+      }
+      // Every session gets a server offering the same tools. Registering only
+      // the tools lists them without subscribing resources to data changes.
+      const toolServer = new McpServer({
+        name: SERVER_NAME,
+        version: SERVER_VERSION,
+      });
+      registerAllTools(toolServer);
+      tools = getRegisteredToolNames(toolServer);
+    } else {
+      const server = createServer();
+      await server.connect(new StdioServerTransport());
+      tools = getRegisteredToolNames(server);
+    }
 
     // Display startup messages
     log("info", "Tiny Memory MCP Server started");
-    log("info", "Available tools:");
-    log("info", " - create_todo: Create a new TODO");
-    log("info", " - update_todo_status: Update TODO completion status");
-    log("info", " - delete_todo: Delete a TODO");
-    log("info", " - search_todos: Search for TODOs");
-    log("info", " - get_upcoming_todos: Get upcoming TODOs");
-    log("info", " - get_overdue_todos: Get overdue TODOs");
-    log("info", " - create_memory: Create a new memory");
-    log("info", " - search_memories: Search for memories");
-    log("info", " - get_memory_context: Get context around a memory");
-    log("info", " - get_memory_stats: Get memory statistics");
+    log("info", `Available tools (${tools.length}): ${tools.join(", ")}`);
     log("info", "Listening for requests...");
   } catch (error) {
     log("error", "Failed to start Tiny Memory MCP Server:", error);
@@ -248,10 +256,25 @@ async function main() {
 }
 
 // Process termination handler
-process.on("SIGINT", () => {
-  log("info", "Server shutting down...");
+let shuttingDown = false;
+async function shutdown(signal: string) {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  log("info", `Received ${signal}, server shutting down...`);
+
+  try {
+    await httpServer?.close();
+  } catch (error) {
+    log("error", "Error while stopping the HTTP server:", error);
+  }
+  closeDatabase();
   process.exit(0);
-});
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
 
 // Error handler
 process.on("uncaughtException", (error) => {
@@ -0,0 +1,27 @@
+/**
+ * Logging to stderr (stdout is reserved for the MCP stdio transport)
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+let minimumLevel: LogLevel = "info";
+
+export function setLogLevel(level: LogLevel) {
+  minimumLevel = level;
+}
+
+export function getLogLevel(): LogLevel {
+  return minimumLevel;
+}
+
+/**
+ * Write a log message if its level is at or above the configured level
+ */
+export function log(level: LogLevel, ...args: any[]) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimumLevel)) {
+    return;
+  }
+  console.error(`[${level.toUpperCase()}]`, ...args);
+}
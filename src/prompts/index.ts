@@ -0,0 +1,9 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerWorkPrompts } from "./workPrompts";
+
+/**
+ * Register every prompt on an MCP server
+ */
+export function registerAllPrompts(server: McpServer) {
+  registerWorkPrompts(server);
+}
@@ -0,0 +1,233 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { Memory } from "../repositories/memoryRepository";
+import { Todo } from "../repositories/todoRepository";
+import * as memoryService from "../services/memoryService";
+import * as todoService from "../services/todoService";
+import * as statsService from "../services/statsService";
+import * as retrievalService from "../services/retrievalService";
+import {
+  NamespaceSchema,
+  MAX_PAGE_SIZE,
+  toMemoryOutput,
+  toTodoOutput,
+  formatMemoryLine,
+  formatTodoLine,
+} from "../tools/schemas";
+
+// TODOs listed per section
+const TODO_LIMIT = 20;
+
+// Estimated tokens of the memories recalled by resume_session
+const RESUME_TOKEN_BUDGET = 2000;
+
+/**
+ * Format a Markdown section of list lines, or a note if there are none
+ */
+function section(heading: string, lines: string[], empty: string): string {
+  return `## ${heading}\n\n${lines.length > 0 ? lines.join("\n") : empty}`;
+}
+
+function memoryLines(memories: Memory[]): string[] {
+  return memories.map((memory) =>
+    formatMemoryLine(toMemoryOutput(memory), memory.content),
+  );
+}
+
+function todoLines(todos: Todo[]): string[] {
+  return todos.map((todo) => formatTodoLine(toTodoOutput(todo)));
+}
+
+/**
+ * Build a prompt of one user message: the request followed by its context
+ */
+function userPrompt(
+  description: string,
+  request: string,
+  sections: string[],
+): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: `${request}\n\n${sections.join("\n\n")}`,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Get the memories of a period, oldest first
+ * @throws DateRangeError if an expression is not understood or the range is empty
+ */
+function getJournal(from: string, to?: string, namespace?: string): Memory[] {
+  return memoryService.getMemoriesByDate(from, to, namespace, {
+    sort: "created_at",
+    order: "asc",
+    limit: MAX_PAGE_SIZE,
+  }).page.items;
+}
+
+export function registerWorkPrompts(server: McpServer) {
+  server.registerPrompt(
+    "daily_standup",
+    {
+      title: "Daily standup",
+      description:
+        "Drafts a daily standup from the memories of the previous day and the overdue, upcoming and actionable TODOs.",
+      argsSchema: {
+        date: z
+          .string()
+          .optional()
+          .describe(
+            'The day to report on: an ISO date or a relative expression such as "2 days ago" (default is yesterday)',
+          ),
+        namespace: NamespaceSchema,
+      },
+    },
+    (args) => {
+      const date = args.date ?? "yesterday";
+      const ns = args.namespace;
+      const page = { limit: TODO_LIMIT };
+
+      return userPrompt(
+        `Daily standup for ${date}`,
+        `Write my daily standup from the records below: what I did ${date}, what I will do today, and what is blocking me. Keep it short, one bullet per item, and call out overdue TODOs.`,
+        [
+          section(
+            `Memories from ${date}`,
+            memoryLines(getJournal(date, undefined, ns)),
+            "Nothing was recorded.",
+          ),
+          section(
+            "Overdue TODOs",
+            todoLines(todoService.getOverdueTodos(ns, page).items),
+            "None.",
+          ),
+          section(
+            "Due in the next 3 days",
+            todoLines(todoService.getUpcomingTodos(3, ns, page).items),
+            "None.",
+          ),
+          section(
+            "Ready to work on",
+            todoLines(todoService.getActionableTodos(ns, page).items),
+            "None.",
+          ),
+        ],
+      );
+    },
+  );
+
+  server.registerPrompt(
+    "weekly_review",
+    {
+      title: "Weekly review",
+      description:
+        "Drafts a review of a period (the past 7 days by default) from its activity report and memories, with the TODOs that slipped and the ones coming up.",
+      argsSchema: {
+        from: z
+          .string()
+          .optional()
+          .describe(
+            'The start of the period: an ISO date or a relative expression such as "last week" (default is 6 days ago)',
+          ),
+        to: z
+          .string()
+          .optional()
+          .describe(
+            "The end of the period, in the same format (default is today)",
+          ),
+        namespace: NamespaceSchema,
+      },
+    },
+    (args) => {
+      const from = args.from ?? "6 days ago";
+      const to = args.to ?? "today";
+      const ns = args.namespace;
+      const page = { limit: TODO_LIMIT };
+      const report = statsService.getActivityReport({
+        from,
+        to,
+        namespace: ns,
+      });
+
+      return userPrompt(
+        `Weekly review from ${from} to ${to}`,
+        `Write a review of the period from ${from} to ${to} from the records below: what was accomplished, what slipped and why, recurring themes, and the priorities for the next week.`,
+        [
+          // The report is a Markdown document; demote its headings
+          statsService
+            .formatActivityReportAsMarkdown(report)
+            .trim()
+            .replace(/^#/gm, "##"),
+          section(
+            "Memories",
+            memoryLines(getJournal(from, to, ns)),
+            "Nothing was recorded.",
+          ),
+          section(
+            "Overdue TODOs",
+            todoLines(todoService.getOverdueTodos(ns, page).items),
+            "None.",
+          ),
+          section(
+            "Due in the next 7 days",
+            todoLines(todoService.getUpcomingTodos(7, ns, page).items),
+            "None.",
+          ),
+        ],
+      );
+    },
+  );
+
+  server.registerPrompt(
+    "resume_session",
+    {
+      title: "Resume session",
+      description:
+        "Recaps where work left off: the most relevant memories for a topic (or the latest, important and pinned ones) and the TODOs that are in progress or ready to work on.",
+      argsSchema: {
+        topic: z
+          .string()
+          .optional()
+          .describe(
+            "What the session is about, to recall the memories relevant to it (default is the latest work)",
+          ),
+        namespace: NamespaceSchema,
+      },
+    },
+    async (args) => {
+      const ns = args.namespace;
+      const topic = args.topic?.trim() ?? "";
+      const relevant = await retrievalService.getRelevantMemories(topic, {
+        tokenBudget: RESUME_TOKEN_BUDGET,
+        namespace: ns,
+      });
+
+      return userPrompt(
+        topic ? `Resume session on ${topic}` : "Resume session",
+        `I am resuming work${topic ? ` on ${topic}` : ""}. From the records below, recap the context in a few sentences, list the open threads, and suggest the next step.`,
+        [
+          section(
+            "Relevant memories",
+            memoryLines(relevant.memories),
+            "Nothing was recorded.",
+          ),
+          section(
+            "Ready to work on",
+            todoLines(
+              todoService.getActionableTodos(ns, { limit: TODO_LIMIT }).items,
+            ),
+            "None.",
+          ),
+        ],
+      );
+    },
+  );
+}
@@ -0,0 +1,418 @@
+/**
+ * Recurrence rules for repeating TODOs
+ *
+ * Rules are stored as a subset of the iCalendar RRULE syntax (RFC 5545):
+ * FREQ (DAILY, WEEKLY, MONTHLY or YEARLY), INTERVAL, BYDAY (weekly rules
+ * only), BYMONTHDAY (monthly rules only), COUNT and UNTIL. Shorthands such as
+ * "weekly" or "every 2 weeks" are accepted as input. Dates are computed in UTC
+ * and keep the time of day of the previous occurrence. Monthly and yearly
+ * occurrences fall on the day of the series' first occurrence, clamped to the
+ * length of shorter months.
+ */
+
+export const FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type Frequency = (typeof FREQUENCIES)[number];
+
+// Weekday codes in the order of Date.getUTCDay()
+export const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  frequency: Frequency;
+  interval: number; // Number of periods between occurrences
+  byDay?: Weekday[]; // Days of the week (weekly rules)
+  byMonthDay?: number; // Day of the month, -1 for the last day (monthly rules)
+  count?: number; // Remaining occurrences, including the current one
+  until?: Date; // No occurrences after this time
+}
+
+export interface Occurrence {
+  due: Date;
+  rule: RecurrenceRule; // Rule of the new occurrence (COUNT is decremented)
+}
+
+/**
+ * Error for a recurrence rule that cannot be parsed
+ */
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceError";
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on the occurrences skipped when catching up with the present
+const MAX_SKIPPED_OCCURRENCES = 10000;
+
+const SHORTHANDS: Record<string, Frequency> = {
+  daily: "DAILY",
+  weekly: "WEEKLY",
+  monthly: "MONTHLY",
+  yearly: "YEARLY",
+  annually: "YEARLY",
+};
+
+const UNITS: Record<string, Frequency> = {
+  day: "DAILY",
+  week: "WEEKLY",
+  month: "MONTHLY",
+  year: "YEARLY",
+};
+
+function parsePositiveInteger(value: string, name: string): number {
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new RecurrenceError(`${name} must be a positive integer: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseUntil(value: string): Date {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/,
+  );
+  if (!match) {
+    throw new RecurrenceError(
+      `UNTIL must be a date such as 20250131 or 20250131T235959Z: ${value}`,
+    );
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+  // A date without a time includes the whole day
+  const until = hour
+    ? Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+    : Date.UTC(+year, +month - 1, +day, 23, 59, 59);
+  if (isNaN(until)) {
+    throw new RecurrenceError(`Invalid UNTIL date: ${value}`);
+  }
+  return new Date(until);
+}
+
+function parseRRule(text: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of text.replace(/^RRULE:/i, "").split(";")) {
+    if (!part.trim()) {
+      continue;
+    }
+    const [name, value] = part.split("=").map((item) => item.trim());
+    if (!name || value === undefined || value === "") {
+      throw new RecurrenceError(`Invalid recurrence rule part: ${part}`);
+    }
+    parts.set(name.toUpperCase(), value.toUpperCase());
+  }
+
+  const frequency = parts.get("FREQ");
+  if (!frequency || !FREQUENCIES.includes(frequency as Frequency)) {
+    throw new RecurrenceError(
+      `FREQ must be one of ${FREQUENCIES.join(", ")}: ${frequency ?? "missing"}`,
+    );
+  }
+
+  const rule: RecurrenceRule = {
+    frequency: frequency as Frequency,
+    interval: 1,
+  };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parsePositiveInteger(value, "INTERVAL");
+        break;
+      case "BYDAY": {
+        if (rule.frequency !== "WEEKLY") {
+          throw new RecurrenceError("BYDAY is only supported with FREQ=WEEKLY");
+        }
+        const days = value.split(",");
+        for (const day of days) {
+          if (!WEEKDAYS.includes(day as Weekday)) {
+            throw new RecurrenceError(
+              `BYDAY must list days such as MO,WE,FR: ${day}`,
+            );
+          }
+        }
+        // Keep the days in calendar order without duplicates
+        rule.byDay = WEEKDAYS.filter((day) => days.includes(day));
+        break;
+      }
+      case "BYMONTHDAY": {
+        if (rule.frequency !== "MONTHLY") {
+          throw new RecurrenceError(
+            "BYMONTHDAY is only supported with FREQ=MONTHLY",
+          );
+        }
+        const day = Number(value);
+        if (!Number.isInteger(day) || day === 0 || day < -1 || day > 31) {
+          throw new RecurrenceError(
+            `BYMONTHDAY must be 1 to 31, or -1 for the last day: ${value}`,
+          );
+        }
+        rule.byMonthDay = day;
+        break;
+      }
+      case "COUNT":
+        rule.count = parsePositiveInteger(value, "COUNT");
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      default:
+        throw new RecurrenceError(`Unsupported recurrence rule part: ${name}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceError("COUNT and UNTIL cannot be used together");
+  }
+
+  return rule;
+}
+
+/**
+ * Parse a recurrence rule
+ * @param text An RRULE such as "FREQ=WEEKLY;BYDAY=MO,TH", or a shorthand such
+ * as "daily", "weekly", "monthly", "yearly" or "every 2 weeks"
+ * @returns The parsed rule
+ */
+export function parseRecurrence(text: string): RecurrenceRule {
+  const value = text.trim();
+  const shorthand = SHORTHANDS[value.toLowerCase()];
+  if (shorthand) {
+    return { frequency: shorthand, interval: 1 };
+  }
+
+  const every = value.toLowerCase().match(/^every\s+(\d+\s+)?(\w+?)s?$/);
+  if (every && UNITS[every[2]]) {
+    return {
+      frequency: UNITS[every[2]],
+      interval: every[1]
+        ? parsePositiveInteger(every[1].trim(), "Interval")
+        : 1,
+    };
+  }
+
+  if (!/FREQ=/i.test(value)) {
+    throw new RecurrenceError(
+      `Unrecognized recurrence: "${text}". Use daily, weekly, monthly, yearly, "every N days/weeks/months/years" or an RRULE such as FREQ=WEEKLY;BYDAY=MO`,
+    );
+  }
+
+  return parseRRule(value);
+}
+
+function formatUntil(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format a rule in the normalized RRULE form stored in the database
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  }
+  if (rule.byMonthDay !== undefined) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== undefined) {
+    parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Parse a recurrence and return it in the normalized RRULE form
+ */
+export function normalizeRecurrence(text: string): string {
+  return formatRecurrence(parseRecurrence(text));
+}
+
+/**
+ * Describe a rule in words, e.g. "every 2 weeks on MO, TH"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = {
+    DAILY: "day",
+    WEEKLY: "week",
+    MONTHLY: "month",
+    YEARLY: "year",
+  }[rule.frequency];
+  let text =
+    rule.interval > 1 ? `every ${rule.interval} ${unit}s` : `every ${unit}`;
+
+  if (rule.byDay && rule.byDay.length > 0) {
+    text += ` on ${rule.byDay.join(", ")}`;
+  }
+  if (rule.byMonthDay !== undefined) {
+    text +=
+      rule.byMonthDay === -1
+        ? " on the last day"
+        : ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} more time${rule.count === 1 ? "" : "s"}`;
+  }
+  if (rule.until !== undefined) {
+    text += ` until ${rule.until.toISOString().slice(0, 10)}`;
+  }
+  return text;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Same time of day on another date, with the day clamped to the month's length
+function atDate(time: Date, year: number, month: number, day: number): Date {
+  const normalized = new Date(Date.UTC(year, month, 1));
+  const lastDay = daysInMonth(
+    normalized.getUTCFullYear(),
+    normalized.getUTCMonth(),
+  );
+  const result = new Date(time);
+  result.setUTCFullYear(
+    normalized.getUTCFullYear(),
+    normalized.getUTCMonth(),
+    day === -1 ? lastDay : Math.min(day, lastDay),
+  );
+  return result;
+}
+
+// Monday-based week number since the epoch
+function weekNumber(date: Date): number {
+  const days = Math.floor(date.getTime() / DAY_MS);
+  // 1970-01-01 was a Thursday, so Monday-based weeks start 3 days earlier
+  return Math.floor((days + 3) / 7);
+}
+
+function nextWeekly(rule: RecurrenceRule, from: Date): Date {
+  if (!rule.byDay || rule.byDay.length === 0) {
+    return new Date(from.getTime() + 7 * rule.interval * DAY_MS);
+  }
+
+  const startWeek = weekNumber(from);
+  for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+    const candidate = new Date(from.getTime() + offset * DAY_MS);
+    const weeks = weekNumber(candidate) - startWeek;
+    if (
+      weeks % rule.interval === 0 &&
+      rule.byDay.includes(WEEKDAYS[candidate.getUTCDay()])
+    ) {
+      return candidate;
+    }
+  }
+
+  // Not reached: every interval contains each listed day
+  throw new RecurrenceError("No next occurrence found");
+}
+
+// Day of the month of the occurrence following a date: the day of the series'
+// first occurrence if the date was clamped to the end of a shorter month
+function anchorDay(from: Date, start: Date): number {
+  const day = from.getUTCDate();
+  const lastDay = daysInMonth(from.getUTCFullYear(), from.getUTCMonth());
+  return day === lastDay && start.getUTCDate() > day ? start.getUTCDate() : day;
+}
+
+function nextMonthly(rule: RecurrenceRule, from: Date, start: Date): Date {
+  const day = rule.byMonthDay ?? anchorDay(from, start);
+  // A day of the month later in the same month comes first
+  for (let months = 0; ; months += rule.interval) {
+    const candidate = atDate(
+      from,
+      from.getUTCFullYear(),
+      from.getUTCMonth() + months,
+      day,
+    );
+    if (candidate.getTime() > from.getTime()) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Get the date of the occurrence following a date, ignoring COUNT and UNTIL
+ * @param start First occurrence of the series, whose day a date clamped to a
+ * shorter month goes back to
+ */
+function nextDate(rule: RecurrenceRule, from: Date, start: Date): Date {
+  switch (rule.frequency) {
+    case "DAILY":
+      return new Date(from.getTime() + rule.interval * DAY_MS);
+    case "WEEKLY":
+      return nextWeekly(rule, from);
+    case "MONTHLY":
+      return nextMonthly(rule, from, start);
+    case "YEARLY":
+      return atDate(
+        from,
+        from.getUTCFullYear() + rule.interval,
+        from.getUTCMonth(),
+        anchorDay(from, start),
+      );
+  }
+}
+
+/**
+ * Whether two rules repeat on the same schedule, ignoring the remaining COUNT
+ */
+export function isSameSchedule(a: RecurrenceRule, b: RecurrenceRule): boolean {
+  return (
+    formatRecurrence({ ...a, count: undefined }) ===
+    formatRecurrence({ ...b, count: undefined })
+  );
+}
+
+/**
+ * Get the next occurrence of a repeating TODO
+ *
+ * Occurrences that are already in the past when the TODO is completed late
+ * are skipped, and count towards COUNT.
+ * @param rule Rule of the current occurrence
+ * @param due Due date of the current occurrence (the completion time if it
+ * has none)
+ * @param now Current time
+ * @param start Due date of the first occurrence of the series, whose day of
+ * the month monthly and yearly occurrences keep (default: due)
+ * @returns The next due date and its rule, or null if the series has ended
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  due: Date,
+  now: Date = new Date(),
+  start: Date = due,
+): Occurrence | null {
+  let next = due;
+  let count = rule.count;
+
+  for (let i = 0; i < MAX_SKIPPED_OCCURRENCES; i++) {
+    if (count !== undefined) {
+      if (count <= 1) {
+        return null;
+      }
+      count--;
+    }
+
+    next = nextDate(rule, next, start);
+    if (rule.until && next.getTime() > rule.until.getTime()) {
+      return null;
+    }
+    if (next.getTime() > now.getTime()) {
+      return { due: next, rule: { ...rule, count } };
+    }
+  }
+
+  return null;
+}
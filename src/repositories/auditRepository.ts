@@ -0,0 +1,120 @@
+import { getDatabase } from "../database";
+import { toSqliteTimestamp } from "../database/timestamp";
+import { paginate, Page, PageOptions, SortKey } from "../database/pagination";
+import { AuditStatus } from "../constants";
+
+export const AUDIT_SORT_KEYS = ["created_at", "duration_ms"] as const;
+export type AuditSortKey = (typeof AUDIT_SORT_KEYS)[number];
+
+export interface AuditEntry {
+  id: number;
+  tool: string;
+  arguments: string; // JSON of the (redacted) arguments
+  namespace: string; // Namespace the call operated on
+  client: string | null; // Client name and version, e.g. "claude-desktop/1.2.0"
+  session_id: string | null; // HTTP session; null over stdio
+  status: AuditStatus;
+  error: string | null; // Error message of a failed call
+  duration_ms: number;
+  created_at: string;
+}
+
+export type AuditEntryInput = Omit<AuditEntry, "id" | "created_at">;
+
+export interface AuditSearchOptions extends PageOptions<AuditSortKey> {
+  tool?: string;
+  status?: AuditStatus;
+  sessionId?: string;
+  namespace?: string; // Default: every namespace
+  createdFrom?: Date; // Only include calls made at or after this time
+  createdBefore?: Date; // Only include calls made before this time
+}
+
+const auditSortKeys: Record<AuditSortKey, SortKey> = {
+  created_at: { expression: "created_at", defaultOrder: "desc" },
+  duration_ms: { expression: "duration_ms", defaultOrder: "desc" },
+};
+
+/**
+ * Record a tool call
+ * @returns ID of the audit entry
+ */
+export function createAuditEntry(entry: AuditEntryInput): number {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `INSERT INTO audit_log
+         (tool, arguments, namespace, client, session_id, status, error, duration_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      entry.tool,
+      entry.arguments,
+      entry.namespace,
+      entry.client,
+      entry.session_id,
+      entry.status,
+      entry.error,
+      entry.duration_ms,
+    );
+
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Search the audit log, newest first by default
+ */
+export function searchAuditLog(
+  options: AuditSearchOptions = {},
+): Page<AuditEntry> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (options.tool !== undefined) {
+    conditions.push("tool = ?");
+    params.push(options.tool);
+  }
+  if (options.status !== undefined) {
+    conditions.push("status = ?");
+    params.push(options.status);
+  }
+  if (options.sessionId !== undefined) {
+    conditions.push("session_id = ?");
+    params.push(options.sessionId);
+  }
+  if (options.namespace !== undefined) {
+    conditions.push("namespace = ?");
+    params.push(options.namespace);
+  }
+  if (options.createdFrom) {
+    conditions.push("created_at >= ?");
+    params.push(toSqliteTimestamp(options.createdFrom));
+  }
+  if (options.createdBefore) {
+    conditions.push("created_at < ?");
+    params.push(toSqliteTimestamp(options.createdBefore));
+  }
+
+  const where =
+    conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+  return paginate<AuditEntry, AuditSortKey>(
+    `SELECT * FROM audit_log${where}`,
+    params,
+    auditSortKeys,
+    "created_at",
+    options,
+  );
+}
+
+/**
+ * Delete the audit entries recorded before a time
+ * @returns Number of deleted entries
+ */
+export function deleteAuditEntriesBefore(before: Date): number {
+  const db = getDatabase();
+  const result = db
+    .prepare("DELETE FROM audit_log WHERE created_at < ?")
+    .run(toSqliteTimestamp(before));
+
+  return result.changes;
+}
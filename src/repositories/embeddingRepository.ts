@@ -0,0 +1,82 @@
+import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+
+export interface MemoryEmbedding {
+  memory_id: number;
+  vector: Float32Array;
+}
+
+/**
+ * Save the embedding of a memory, replacing any previous one
+ */
+export function saveEmbedding(
+  memoryId: number,
+  provider: string,
+  vector: number[],
+) {
+  const db = getDatabase();
+  db.prepare(
+    `
+    INSERT OR REPLACE INTO memory_embeddings (memory_id, provider, dimensions, vector)
+    VALUES (?, ?, ?, ?)
+  `,
+  ).run(
+    memoryId,
+    provider,
+    vector.length,
+    new Uint8Array(new Float32Array(vector).buffer),
+  );
+}
+
+/**
+ * Get memories outside the trash that have no embedding from the given
+ * provider yet
+ */
+export function getMemoriesWithoutEmbedding(
+  provider: string,
+  limit: number = 100,
+): { id: number; content: string }[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+    SELECT id, content FROM memories
+    WHERE id NOT IN (SELECT memory_id FROM memory_embeddings WHERE provider = ?)
+      AND deleted_at IS NULL
+    ORDER BY id
+    LIMIT ?
+  `,
+    )
+    .all(provider, limit) as { id: number; content: string }[];
+}
+
+/**
+ * Get every embedding produced by the given provider for the memories of a
+ * namespace that are neither archived nor in the trash
+ */
+export function getEmbeddings(
+  provider: string,
+  namespace?: string,
+): MemoryEmbedding[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `
+    SELECT memory_embeddings.memory_id, memory_embeddings.vector
+    FROM memory_embeddings
+    JOIN memories ON memories.id = memory_embeddings.memory_id
+    WHERE memory_embeddings.provider = ? AND memories.namespace = ?
+      AND memories.archived_at IS NULL AND memories.deleted_at IS NULL
+  `,
+    )
+    .all(provider, resolveNamespace(namespace)) as {
+    memory_id: number;
+    vector: Uint8Array;
+  }[];
+
+  // Copy the bytes so the Float32Array is correctly aligned
+  return rows.map((row) => ({
+    memory_id: row.memory_id,
+    vector: new Float32Array(new Uint8Array(row.vector).buffer),
+  }));
+}
@@ -0,0 +1,86 @@
+import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+
+export interface JournalEntry {
+  id: number;
+  namespace: string;
+  description: string; // What the change did, e.g. "Deleted memory 12"
+  undo_steps: string; // JSON of the steps that revert the change, or null if it cannot be undone
+  created_at: string;
+  undone_at: string | null;
+}
+
+// Changes kept per namespace; older ones can no longer be undone
+export const JOURNAL_LIMIT = 100;
+
+/**
+ * Record a change, forgetting the oldest changes beyond JOURNAL_LIMIT
+ * @returns ID of the journal entry
+ */
+export function createJournalEntry(
+  description: string,
+  undoSteps: string,
+  namespace?: string,
+): number {
+  const db = getDatabase();
+  const scope = resolveNamespace(namespace);
+
+  return db.transaction(() => {
+    const result = db
+      .prepare(
+        "INSERT INTO operation_journal (namespace, description, undo_steps) VALUES (?, ?, ?)",
+      )
+      .run(scope, description, undoSteps);
+
+    db.prepare(
+      `DELETE FROM operation_journal WHERE namespace = ? AND id NOT IN (
+         SELECT id FROM operation_journal WHERE namespace = ?
+         ORDER BY id DESC LIMIT ?
+       )`,
+    ).run(scope, scope, JOURNAL_LIMIT);
+
+    return Number(result.lastInsertRowid);
+  })();
+}
+
+/**
+ * Get the namespaces that have journaled changes
+ */
+export function getJournalNamespaces(): string[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      "SELECT DISTINCT namespace FROM operation_journal ORDER BY namespace",
+    )
+    .all() as { namespace: string }[];
+
+  return rows.map((row) => row.namespace);
+}
+
+/**
+ * Get the latest change of a namespace that has not been undone
+ */
+export function getLastJournalEntry(namespace?: string): JournalEntry | null {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `SELECT * FROM operation_journal
+       WHERE namespace = ? AND undone_at IS NULL
+       ORDER BY id DESC LIMIT 1`,
+    )
+    .get(resolveNamespace(namespace)) as JournalEntry | null;
+}
+
+/**
+ * Mark a change as undone
+ */
+export function markJournalEntryUndone(id: number): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "UPDATE operation_journal SET undone_at = CURRENT_TIMESTAMP WHERE id = ? AND undone_at IS NULL",
+    )
+    .run(id);
+
+  return result.changes > 0;
+}
@@ -0,0 +1,208 @@
+import { getDatabase } from "../database";
+import type { Memory } from "./memoryRepository";
+
+// How one memory relates to another: "from_id <relation> to_id"
+export const MEMORY_RELATIONS = [
+  "relates_to",
+  "supersedes",
+  "caused_by",
+  "summarizes", // A digest consolidating the linked memory
+] as const;
+export type MemoryRelation = (typeof MEMORY_RELATIONS)[number];
+
+export interface MemoryLink {
+  from_id: number;
+  to_id: number;
+  relation: MemoryRelation;
+  created_at: string;
+}
+
+export interface TodoTimelineEntry extends Memory {
+  link: MemoryLink | null; // How the memory is related, null if linked to the TODO itself
+}
+
+/**
+ * Link a memory to a TODO it is about
+ * @returns false if the link already existed
+ */
+export function linkMemoryToTodo(memoryId: number, todoId: number): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "INSERT OR IGNORE INTO memory_todo_links (memory_id, todo_id) VALUES (?, ?)",
+    )
+    .run(memoryId, todoId);
+
+  return result.changes > 0;
+}
+
+/**
+ * Remove the link between a memory and a TODO
+ */
+export function unlinkMemoryFromTodo(
+  memoryId: number,
+  todoId: number,
+): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "DELETE FROM memory_todo_links WHERE memory_id = ? AND todo_id = ?",
+    )
+    .run(memoryId, todoId);
+
+  return result.changes > 0;
+}
+
+/**
+ * Get the IDs of the TODOs a memory is linked to, leaving out the trash
+ */
+export function getLinkedTodoIds(memoryId: number): number[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `
+    SELECT todo_id FROM memory_todo_links
+    JOIN todos ON todos.id = memory_todo_links.todo_id
+    WHERE memory_id = ? AND todos.deleted_at IS NULL
+    ORDER BY todo_id
+  `,
+    )
+    .all(memoryId) as { todo_id: number }[];
+
+  return rows.map((row) => row.todo_id);
+}
+
+/**
+ * Link two memories with a relation
+ * @returns false if the link already existed
+ */
+export function linkMemories(
+  fromId: number,
+  toId: number,
+  relation: MemoryRelation,
+): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "INSERT OR IGNORE INTO memory_links (from_id, to_id, relation) VALUES (?, ?, ?)",
+    )
+    .run(fromId, toId, relation);
+
+  return result.changes > 0;
+}
+
+/**
+ * Remove the links from one memory to another
+ * @param relation Only remove links with this relation (default: all)
+ * @returns Number of links that were removed
+ */
+export function unlinkMemories(
+  fromId: number,
+  toId: number,
+  relation?: MemoryRelation,
+): number {
+  const db = getDatabase();
+  let sql = "DELETE FROM memory_links WHERE from_id = ? AND to_id = ?";
+  const params: any[] = [fromId, toId];
+
+  if (relation) {
+    sql += " AND relation = ?";
+    params.push(relation);
+  }
+
+  return db.prepare(sql).run(...params).changes;
+}
+
+/**
+ * Get the links from and to a memory, leaving out memories in the trash
+ */
+export function getMemoryLinks(memoryId: number): MemoryLink[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+    SELECT memory_links.* FROM memory_links
+    JOIN memories AS source ON source.id = memory_links.from_id
+    JOIN memories AS target ON target.id = memory_links.to_id
+    WHERE (from_id = ? OR to_id = ?)
+      AND source.deleted_at IS NULL AND target.deleted_at IS NULL
+    ORDER BY memory_links.created_at, from_id, to_id
+  `,
+    )
+    .all(memoryId, memoryId) as MemoryLink[];
+}
+
+/**
+ * Get the memories about a TODO in chronological order
+ *
+ * The timeline contains the memories linked to the TODO and the memories
+ * linked to those memories, in either direction. Memories in the trash are
+ * left out.
+ */
+export function getTodoTimeline(todoId: number): TodoTimelineEntry[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `
+    WITH direct(id) AS (
+      SELECT memory_id FROM memory_todo_links WHERE todo_id = ?
+    ),
+    related(id, from_id, to_id, relation, linked_at) AS (
+      SELECT memory_links.to_id, memory_links.from_id, memory_links.to_id,
+        memory_links.relation, memory_links.created_at
+      FROM memory_links JOIN direct ON memory_links.from_id = direct.id
+      UNION
+      SELECT memory_links.from_id, memory_links.from_id, memory_links.to_id,
+        memory_links.relation, memory_links.created_at
+      FROM memory_links JOIN direct ON memory_links.to_id = direct.id
+    )
+    SELECT memories.*, NULL AS link_from_id, NULL AS link_to_id,
+      NULL AS link_relation, NULL AS link_created_at
+    FROM memories JOIN direct ON memories.id = direct.id
+    WHERE memories.deleted_at IS NULL
+    UNION ALL
+    SELECT memories.*, related.from_id, related.to_id, related.relation,
+      related.linked_at
+    FROM memories JOIN related ON memories.id = related.id
+    WHERE related.id NOT IN (SELECT id FROM direct)
+      AND memories.deleted_at IS NULL
+    ORDER BY created_at, id, link_created_at
+  `,
+    )
+    .all(todoId) as (Memory & {
+    link_from_id: number | null;
+    link_to_id: number | null;
+    link_relation: MemoryRelation | null;
+    link_created_at: string | null;
+  })[];
+
+  // A memory linked in several ways appears once, with its first link
+  const entries = new Map<number, TodoTimelineEntry>();
+  for (const row of rows) {
+    const {
+      link_from_id,
+      link_to_id,
+      link_relation,
+      link_created_at,
+      ...memory
+    } = row;
+    if (entries.has(memory.id)) {
+      continue;
+    }
+
+    entries.set(memory.id, {
+      ...memory,
+      link:
+        link_relation !== null
+          ? {
+              from_id: link_from_id!,
+              to_id: link_to_id!,
+              relation: link_relation,
+              created_at: link_created_at!,
+            }
+          : null,
+    });
+  }
+
+  return [...entries.values()];
+}
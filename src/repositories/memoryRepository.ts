@@ -1,13 +1,93 @@
-import { getDatabase } from "../database";
+import { getDatabase, isReadOnly } from "../database";
+import { resolveNamespace } from "../database/namespace";
+import { paginate, Page, PageOptions, SortKey } from "../database/pagination";
+import { toSqliteTimestamp } from "../database/timestamp";
+import {
+  parseSearchQuery,
+  canUseFullTextIndex,
+  toFtsMatchExpression,
+  toLikeCondition,
+  getPositiveTerms,
+  buildSnippet,
+} from "../database/searchQuery";
+import { addTags, buildTagCondition } from "./tagRepository";
+import { linkMemoryToTodo } from "./linkRepository";
 
 export interface Memory {
   id: number;
   content: string;
   created_at: string;
+  updated_at?: string | null; // Set when the content has been edited
+  namespace: string;
+  archived_at?: string | null; // Set when hidden from default lists and searches
+  importance: number; // 1 (trivial) to 5 (critical)
+  pinned: number; // 1 if the memory should always be retrieved, else 0
+  last_accessed_at?: string | null; // When a tool last returned the memory
+  access_count: number; // How many times tools have returned the memory
+  deleted_at?: string | null; // Set when moved to the trash
 }
 
+export const MIN_IMPORTANCE = 1;
+export const MAX_IMPORTANCE = 5;
+export const DEFAULT_IMPORTANCE = 3;
+
 export interface MemoryCreateInput {
   content: string;
+  tags?: string[];
+  todo_ids?: number[]; // TODOs the memory is about
+  namespace?: string; // Defaults to the server's namespace
+  created_at?: string; // Original timestamps when importing (default: now)
+  updated_at?: string | null;
+  archived_at?: string | null;
+  importance?: number; // Default: DEFAULT_IMPORTANCE
+  pinned?: boolean; // Default: false
+}
+
+export const MEMORY_SORT_KEYS = [
+  "created_at",
+  "updated_at",
+  "importance",
+  "id",
+] as const;
+export type MemorySortKey = (typeof MEMORY_SORT_KEYS)[number];
+
+export const MEMORY_SEARCH_SORT_KEYS = [
+  "relevance",
+  ...MEMORY_SORT_KEYS,
+] as const;
+export type MemorySearchSortKey = (typeof MEMORY_SEARCH_SORT_KEYS)[number];
+
+export interface MemoryListOptions extends PageOptions<MemorySortKey> {
+  createdFrom?: Date; // Only include memories created at or after this time
+  createdBefore?: Date; // Only include memories created before this time
+  includeArchived?: boolean; // Include archived memories (default: false)
+  namespace?: string; // Defaults to the server's namespace
+}
+
+export interface MemorySearchOptions extends PageOptions<MemorySearchSortKey> {
+  tags?: string[]; // Only include memories that have all of these tags
+  includeArchived?: boolean; // Include archived memories (default: false)
+  namespace?: string; // Defaults to the server's namespace
+}
+
+export interface ConsolidationCandidateOptions {
+  createdFrom?: Date;
+  createdBefore?: Date;
+  tags?: string[]; // Only include memories that have all of these tags
+  namespace?: string; // Defaults to the server's namespace
+}
+
+export interface MemorySearchResult extends Memory {
+  rank: number | null; // BM25 score (lower is more relevant), null if not ranked
+  snippet: string; // Matching part of the content with matches wrapped in **
+}
+
+export interface MemoryRevision {
+  id: number;
+  memory_id: number;
+  content: string; // Content before the edit
+  content_created_at: string; // When that content was written
+  revised_at: string; // When the edit replaced it
 }
 
 export interface MemoriesAroundId {
@@ -16,61 +96,326 @@ export interface MemoriesAroundId {
   after: Memory[];
 }
 
+const memorySortKeys: Record<MemorySortKey, SortKey> = {
+  created_at: { expression: "created_at", defaultOrder: "desc" },
+  updated_at: {
+    expression: "COALESCE(updated_at, created_at)",
+    defaultOrder: "desc",
+  },
+  // Pinned memories first, then by importance
+  importance: { expression: "pinned * 10 + importance", defaultOrder: "desc" },
+  id: { expression: "id", defaultOrder: "desc" },
+};
+
+// Unranked results (LIKE matching) have a NULL rank and are ordered newest first
+const memorySearchSortKeys: Record<MemorySearchSortKey, SortKey> = {
+  ...memorySortKeys,
+  relevance: {
+    expression: "rank",
+    defaultOrder: "asc",
+    tieBreakerOrder: "desc",
+  },
+};
+
 /**
  * Create a memory
  */
 export function createMemory(memory: MemoryCreateInput): number {
   const db = getDatabase();
-  const insert = db.prepare("INSERT INTO memories (content) VALUES (?)");
-  const result = insert.run(memory.content);
+  const insert = db.prepare(
+    `INSERT INTO memories (content, namespace, created_at, updated_at, archived_at, importance, pinned)
+     VALUES (?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?, ?, ?)`,
+  );
+
+  return db.transaction(() => {
+    const result = insert.run(
+      memory.content,
+      resolveNamespace(memory.namespace),
+      memory.created_at ?? null,
+      memory.updated_at ?? null,
+      memory.archived_at ?? null,
+      memory.importance ?? DEFAULT_IMPORTANCE,
+      memory.pinned ? 1 : 0,
+    );
+    const memoryId = Number(result.lastInsertRowid);
+
+    if (memory.tags && memory.tags.length > 0) {
+      addTags("memory", memoryId, memory.tags);
+    }
+
+    for (const todoId of memory.todo_ids ?? []) {
+      linkMemoryToTodo(memoryId, todoId);
+    }
+
+    return memoryId;
+  })();
+}
+
+/**
+ * Find a memory with the same content and creation time
+ */
+export function findDuplicateMemory(
+  content: string,
+  createdAt: string,
+  namespace?: string,
+): Memory | null {
+  const db = getDatabase();
+  return db
+    .prepare(
+      "SELECT * FROM memories WHERE content = ? AND created_at = ? AND namespace = ? AND deleted_at IS NULL",
+    )
+    .get(content, createdAt, resolveNamespace(namespace)) as Memory | null;
+}
+
+/**
+ * Get memory by ID (null if it is in the trash)
+ */
+export function getMemoryById(id: number, namespace?: string): Memory | null {
+  const db = getDatabase();
+  return db
+    .prepare(
+      "SELECT * FROM memories WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+    )
+    .get(id, resolveNamespace(namespace)) as Memory | null;
+}
+
+/**
+ * Update the content of a memory, keeping the previous content as a revision
+ */
+export function updateMemory(
+  id: number,
+  content: string,
+  namespace?: string,
+): boolean {
+  const db = getDatabase();
+
+  return db.transaction(() => {
+    const current = getMemoryById(id, namespace);
+    if (!current) {
+      return false;
+    }
+
+    db.prepare(
+      "INSERT INTO memory_revisions (memory_id, content, content_created_at) VALUES (?, ?, ?)",
+    ).run(id, current.content, current.updated_at || current.created_at);
+
+    const result = db
+      .prepare(
+        "UPDATE memories SET content = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+      )
+      .run(content, id);
+
+    return result.changes > 0;
+  })();
+}
+
+/**
+ * Move a memory to the trash
+ *
+ * Its revisions, tags and links are kept until the trash is emptied.
+ */
+export function deleteMemory(id: number, namespace?: string): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "UPDATE memories SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+    )
+    .run(id, resolveNamespace(namespace));
+
+  return result.changes > 0;
+}
+
+/**
+ * Put back the content a memory had before an edit, dropping the revision the
+ * edit created
+ * @returns Whether the memory was found
+ */
+export function revertMemoryContent(
+  id: number,
+  content: string,
+  updatedAt: string | null,
+): boolean {
+  const db = getDatabase();
 
-  return Number(result.lastInsertRowid);
+  return db.transaction(() => {
+    const result = db
+      .prepare(
+        "UPDATE memories SET content = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL",
+      )
+      .run(content, updatedAt, id);
+    if (result.changes === 0) {
+      return false;
+    }
+
+    db.prepare(
+      `DELETE FROM memory_revisions WHERE id = (
+         SELECT MAX(id) FROM memory_revisions WHERE memory_id = ?
+       )`,
+    ).run(id);
+    return true;
+  })();
 }
 
 /**
- * Get memory by ID
+ * Get the revisions of a memory, oldest first
  */
-export function getMemoryById(id: number): Memory | null {
+export function getMemoryRevisions(
+  memoryId: number,
+  namespace?: string,
+): MemoryRevision[] {
   const db = getDatabase();
   return db
-    .prepare("SELECT * FROM memories WHERE id = ?")
-    .get(id) as Memory | null;
+    .prepare(
+      `
+    SELECT memory_revisions.* FROM memory_revisions
+    JOIN memories ON memories.id = memory_revisions.memory_id
+    WHERE memory_revisions.memory_id = ? AND memories.namespace = ?
+      AND memories.deleted_at IS NULL
+    ORDER BY memory_revisions.id ASC
+  `,
+    )
+    .all(memoryId, resolveNamespace(namespace)) as MemoryRevision[];
 }
 
 /**
  * Get all memories
+ *
+ * Loads every memory of the namespace; use listMemories to read them a page
+ * at a time.
  */
-export function getAllMemories(): Memory[] {
+export function getAllMemories(namespace?: string): Memory[] {
   const db = getDatabase();
   return db
-    .prepare("SELECT * FROM memories ORDER BY created_at DESC")
-    .all() as Memory[];
+    .prepare(
+      "SELECT * FROM memories WHERE namespace = ? AND deleted_at IS NULL ORDER BY created_at DESC",
+    )
+    .all(resolveNamespace(namespace)) as Memory[];
+}
+
+/**
+ * List memories a page at a time, newest first by default
+ */
+export function listMemories(options: MemoryListOptions = {}): Page<Memory> {
+  let sql = "SELECT * FROM memories WHERE namespace = ? AND deleted_at IS NULL";
+  const params: any[] = [resolveNamespace(options.namespace)];
+
+  if (!options.includeArchived) {
+    sql += " AND archived_at IS NULL";
+  }
+
+  // Stored timestamps are UTC in the SQLite format, so compare in that format
+  if (options.createdFrom) {
+    sql += " AND created_at >= ?";
+    params.push(toSqliteTimestamp(options.createdFrom));
+  }
+
+  if (options.createdBefore) {
+    sql += " AND created_at < ?";
+    params.push(toSqliteTimestamp(options.createdBefore));
+  }
+
+  return paginate<Memory, MemorySortKey>(
+    sql,
+    params,
+    memorySortKeys,
+    "created_at",
+    options,
+  );
 }
 
 /**
  * Search memories by text
+ *
+ * Uses the FTS5 index and orders results by BM25 relevance by default. Queries
+ * containing terms too short for the trigram index fall back to LIKE matching
+ * ordered by creation date. See searchQuery.ts for the supported query syntax.
  */
-export function searchMemories(searchText: string): Memory[] {
-  const db = getDatabase();
-  const query = db.prepare(
-    "SELECT * FROM memories WHERE content LIKE ? ORDER BY created_at DESC",
+export function searchMemories(
+  searchText: string,
+  options: MemorySearchOptions = {},
+): Page<MemorySearchResult> {
+  const node = parseSearchQuery(searchText);
+  const conditions: string[] = [
+    "memories.namespace = ?",
+    "memories.deleted_at IS NULL",
+  ];
+  const params: any[] = [resolveNamespace(options.namespace)];
+
+  if (!options.includeArchived) {
+    conditions.push("memories.archived_at IS NULL");
+  }
+
+  // Filter by tags
+  if (options.tags && options.tags.length > 0) {
+    const tagCondition = buildTagCondition(
+      "memory",
+      "memories.id",
+      options.tags,
+    );
+    conditions.push(tagCondition.sql);
+    params.push(...tagCondition.params);
+  }
+
+  if (node && canUseFullTextIndex(node)) {
+    return paginate<MemorySearchResult, MemorySearchSortKey>(
+      `
+      SELECT memories.*,
+        bm25(memories_fts) AS rank,
+        snippet(memories_fts, 0, '**', '**', '…', 64) AS snippet
+      FROM memories_fts
+      JOIN memories ON memories.id = memories_fts.rowid
+      WHERE ${["memories_fts MATCH ?", ...conditions].join(" AND ")}
+    `,
+      [toFtsMatchExpression(node), ...params],
+      memorySearchSortKeys,
+      "relevance",
+      options,
+    );
+  }
+
+  if (node) {
+    const condition = toLikeCondition(node, ["content"]);
+    conditions.push(condition.sql);
+    params.push(...condition.params);
+  }
+
+  const page = paginate<Memory & { rank: null }, MemorySearchSortKey>(
+    `SELECT *, NULL AS rank FROM memories WHERE ${conditions.join(" AND ")}`,
+    params,
+    memorySearchSortKeys,
+    "created_at",
+    options,
   );
-  return query.all(`%${searchText}%`) as Memory[];
+  const terms = node ? getPositiveTerms(node) : [];
+
+  return {
+    ...page,
+    items: page.items.map((memory) => ({
+      ...memory,
+      snippet: buildSnippet(memory.content, terms),
+    })),
+  };
 }
 
 /**
  * Get memories around a specific ID
+ *
+ * Archived memories are skipped, except for the memory itself.
  */
 export function getMemoriesAroundId(
   id: number,
   range: number = 5,
+  namespace?: string,
 ): MemoriesAroundId {
   const db = getDatabase();
+  const scope = resolveNamespace(namespace);
 
   // Get the creation timestamp of the specified memory
   const targetMemory = db
-    .prepare("SELECT created_at FROM memories WHERE id = ?")
-    .get(id);
+    .prepare(
+      "SELECT created_at FROM memories WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+    )
+    .get(id, scope);
 
   if (!targetMemory) {
     return { before: [], current: null, after: [] };
@@ -81,29 +426,29 @@ export function getMemoriesAroundId(
     .prepare(
       `
     SELECT * FROM memories 
-    WHERE created_at > ? 
+    WHERE created_at > ? AND namespace = ? AND archived_at IS NULL
+      AND deleted_at IS NULL
     ORDER BY created_at ASC 
     LIMIT ?
   `,
     )
-    .all((targetMemory as Memory).created_at, range) as Memory[];
+    .all((targetMemory as Memory).created_at, scope, range) as Memory[];
 
   // The memory with the specified ID
-  const current = db
-    .prepare("SELECT * FROM memories WHERE id = ?")
-    .get(id) as Memory | null;
+  const current = getMemoryById(id, scope);
 
   // Memories after the ID (older ones, maximum range entries)
   const after = db
     .prepare(
       `
     SELECT * FROM memories 
-    WHERE created_at < ? 
+    WHERE created_at < ? AND namespace = ? AND archived_at IS NULL
+      AND deleted_at IS NULL
     ORDER BY created_at DESC 
     LIMIT ?
   `,
     )
-    .all((targetMemory as Memory).created_at, range) as Memory[];
+    .all((targetMemory as Memory).created_at, scope, range) as Memory[];
 
   return {
     before: before.reverse(), // Sort by oldest first
@@ -113,18 +458,162 @@ export function getMemoriesAroundId(
 }
 
 /**
- * Get memories within a date range
+ * Move memories to another namespace
+ * @returns Number of memories that were moved
+ */
+export function moveMemories(
+  ids: number[],
+  targetNamespace: string,
+  sourceNamespace?: string,
+): number {
+  const db = getDatabase();
+  const update = db.prepare(
+    "UPDATE memories SET namespace = ? WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+  );
+  const target = resolveNamespace(targetNamespace);
+  const source = resolveNamespace(sourceNamespace);
+
+  return db.transaction(() => {
+    let moved = 0;
+    for (const id of ids) {
+      moved += update.run(target, id, source).changes;
+    }
+    return moved;
+  })();
+}
+
+/**
+ * Archive or restore memories
+ * @param archived true to hide the memories from default lists and searches,
+ * false to restore them
+ * @returns Number of memories that changed
  */
-export function getMemoriesByDateRange(
-  startDate: Date,
-  endDate: Date,
+export function setMemoriesArchived(
+  ids: number[],
+  archived: boolean,
+  namespace?: string,
+): number {
+  const db = getDatabase();
+  const update = db.prepare(
+    archived
+      ? "UPDATE memories SET archived_at = CURRENT_TIMESTAMP WHERE id = ? AND namespace = ? AND archived_at IS NULL AND deleted_at IS NULL"
+      : "UPDATE memories SET archived_at = NULL WHERE id = ? AND namespace = ? AND archived_at IS NOT NULL AND deleted_at IS NULL",
+  );
+  const scope = resolveNamespace(namespace);
+
+  return db.transaction(() => {
+    let changed = 0;
+    for (const id of ids) {
+      changed += update.run(id, scope).changes;
+    }
+    return changed;
+  })();
+}
+
+/**
+ * Get the memories that can be consolidated into digests, oldest first:
+ * memories that are neither archived nor digests themselves
+ */
+export function getConsolidationCandidates(
+  options: ConsolidationCandidateOptions = {},
 ): Memory[] {
   const db = getDatabase();
-  const query = db.prepare(`
-    SELECT * FROM memories 
-    WHERE created_at >= ? AND created_at <= ? 
-    ORDER BY created_at DESC
-  `);
+  const conditions = [
+    "memories.namespace = ?",
+    "memories.archived_at IS NULL",
+    "memories.deleted_at IS NULL",
+    `NOT EXISTS (
+      SELECT 1 FROM memory_links
+      WHERE memory_links.from_id = memories.id AND memory_links.relation = 'summarizes'
+    )`,
+  ];
+  const params: any[] = [resolveNamespace(options.namespace)];
+
+  if (options.createdFrom) {
+    conditions.push("memories.created_at >= ?");
+    params.push(toSqliteTimestamp(options.createdFrom));
+  }
+  if (options.createdBefore) {
+    conditions.push("memories.created_at < ?");
+    params.push(toSqliteTimestamp(options.createdBefore));
+  }
+  if (options.tags && options.tags.length > 0) {
+    const tagCondition = buildTagCondition(
+      "memory",
+      "memories.id",
+      options.tags,
+    );
+    conditions.push(tagCondition.sql);
+    params.push(...tagCondition.params);
+  }
+
+  return db
+    .prepare(
+      `SELECT * FROM memories WHERE ${conditions.join(" AND ")}
+       ORDER BY created_at ASC, id ASC`,
+    )
+    .all(...params) as Memory[];
+}
+
+/**
+ * Set the importance or pinned flag of a memory
+ * @returns Whether the memory was found
+ */
+export function updateMemoryImportance(
+  id: number,
+  input: { importance?: number; pinned?: boolean },
+  namespace?: string,
+): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `UPDATE memories
+       SET importance = COALESCE(?, importance), pinned = COALESCE(?, pinned)
+       WHERE id = ? AND namespace = ? AND deleted_at IS NULL`,
+    )
+    .run(
+      input.importance ?? null,
+      input.pinned === undefined ? null : input.pinned ? 1 : 0,
+      id,
+      resolveNamespace(namespace),
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get the pinned memories that are not archived, most important first
+ */
+export function getPinnedMemories(namespace?: string): Memory[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `SELECT * FROM memories
+       WHERE namespace = ? AND pinned = 1 AND archived_at IS NULL
+         AND deleted_at IS NULL
+       ORDER BY importance DESC, created_at DESC, id DESC`,
+    )
+    .all(resolveNamespace(namespace)) as Memory[];
+}
+
+/**
+ * Record that memories were returned to a client (skipped when the database
+ * is read-only)
+ */
+export function recordMemoryAccess(ids: number[]) {
+  if (isReadOnly()) {
+    return;
+  }
+  const db = getDatabase();
+  const update = db.prepare(
+    `UPDATE memories
+     SET access_count = access_count + 1, last_accessed_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+  );
 
-  return query.all(startDate.toISOString(), endDate.toISOString()) as Memory[];
+  db.transaction(() => {
+    for (const id of new Set(ids)) {
+      update.run(id);
+    }
+  })();
 }
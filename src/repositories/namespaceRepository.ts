@@ -0,0 +1,32 @@
+import { getDatabase } from "../database";
+
+export interface NamespaceUsage {
+  namespace: string;
+  memory_count: number;
+  todo_count: number;
+}
+
+/**
+ * Get every namespace that contains memories or TODOs, with item counts
+ * (items in the trash are not counted)
+ */
+export function getNamespacesWithUsage(): NamespaceUsage[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+    SELECT
+      namespace,
+      SUM(is_memory) AS memory_count,
+      SUM(1 - is_memory) AS todo_count
+    FROM (
+      SELECT namespace, 1 AS is_memory FROM memories WHERE deleted_at IS NULL
+      UNION ALL
+      SELECT namespace, 0 AS is_memory FROM todos WHERE deleted_at IS NULL
+    )
+    GROUP BY namespace
+    ORDER BY namespace
+  `,
+    )
+    .all() as NamespaceUsage[];
+}
@@ -0,0 +1,121 @@
+import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+import { toSqliteTimestamp } from "../database/timestamp";
+import type { DateRange } from "../dateRange";
+import { ACTIVE_TODO_STATUSES } from "./todoRepository";
+
+// Events that can be counted over time, with the timestamp column they use
+const ACTIVITY_COLUMNS = {
+  memories_created: { table: "memories", column: "created_at" },
+  todos_created: { table: "todos", column: "created_at" },
+  todos_completed: { table: "todos", column: "completed_at" },
+} as const;
+
+export type ActivityKind = keyof typeof ACTIVITY_COLUMNS;
+
+export interface TodoSnapshot {
+  open: number; // Open, in progress or blocked
+  overdue: number; // Of those, due before now
+}
+
+/**
+ * Count events in consecutive time buckets
+ * @param kind What to count
+ * @param buckets Ranges to count in, in order and without overlaps
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns The count of each bucket, in the order of the buckets
+ */
+export function countByBucket(
+  kind: ActivityKind,
+  buckets: DateRange[],
+  namespace?: string,
+): number[] {
+  if (buckets.length === 0) {
+    return [];
+  }
+
+  const db = getDatabase();
+  const { table, column } = ACTIVITY_COLUMNS[kind];
+  const values = buckets.map(() => "(?, ?, ?)").join(", ");
+  const params = buckets.flatMap((bucket, index) => [
+    index,
+    toSqliteTimestamp(bucket.start),
+    toSqliteTimestamp(bucket.end),
+  ]);
+
+  const rows = db
+    .prepare(
+      `
+    WITH buckets(idx, start, end) AS (VALUES ${values})
+    SELECT buckets.idx, COUNT(t.id) AS count
+    FROM buckets
+    LEFT JOIN ${table} AS t
+      ON t.${column} >= buckets.start AND t.${column} < buckets.end
+      AND t.namespace = ? AND t.deleted_at IS NULL
+    GROUP BY buckets.idx
+    ORDER BY buckets.idx
+  `,
+    )
+    .all(...params, resolveNamespace(namespace)) as {
+    idx: number;
+    count: number;
+  }[];
+
+  return rows.map((row) => row.count);
+}
+
+/**
+ * Get the average time from creation to completion of the TODOs completed in
+ * a range
+ * @returns Hours, or null if no TODO with a known completion time was
+ * completed in the range
+ */
+export function getAverageCompletionHours(
+  range: DateRange,
+  namespace?: string,
+): number | null {
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      `
+    SELECT AVG((julianday(completed_at) - julianday(created_at)) * 24) AS hours
+    FROM todos
+    WHERE completed_at >= ? AND completed_at < ? AND namespace = ?
+      AND deleted_at IS NULL
+  `,
+    )
+    .get(
+      toSqliteTimestamp(range.start),
+      toSqliteTimestamp(range.end),
+      resolveNamespace(namespace),
+    ) as { hours: number | null };
+
+  return row.hours;
+}
+
+/**
+ * Count the TODOs that still need work, and those past their due date
+ * @param now Reference time for overdue TODOs
+ * @param namespace Namespace (defaults to the server's namespace)
+ */
+export function getTodoSnapshot(now: Date, namespace?: string): TodoSnapshot {
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      `
+    SELECT
+      COUNT(*) AS open,
+      COUNT(CASE WHEN due_date IS NOT NULL AND due_date < ? THEN 1 END) AS overdue
+    FROM todos
+    WHERE status IN (${ACTIVE_TODO_STATUSES.map(() => "?").join(", ")})
+      AND namespace = ? AND deleted_at IS NULL
+  `,
+    )
+    .get(
+      now.toISOString(),
+      ...ACTIVE_TODO_STATUSES,
+      resolveNamespace(namespace),
+    ) as TodoSnapshot;
+
+  return row;
+}
@@ -0,0 +1,256 @@
+import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+
+export type TaggableType = "memory" | "todo";
+
+export interface Tag {
+  id: number;
+  name: string;
+  created_at: string;
+}
+
+export interface TagUsage {
+  name: string;
+  memory_count: number;
+  todo_count: number;
+  total_count: number;
+}
+
+export interface TagRenameResult {
+  merged: boolean; // true if the new name already existed and the tags were merged
+  memory_count: number;
+  todo_count: number;
+}
+
+// Link table and ID column for each taggable item type
+const LINK_TABLES: Record<TaggableType, { table: string; column: string }> = {
+  memory: { table: "memory_tags", column: "memory_id" },
+  todo: { table: "todo_tags", column: "todo_id" },
+};
+
+/**
+ * Normalize a tag name (tags are case-insensitive and trimmed)
+ */
+export function normalizeTagName(name: string): string {
+  const normalized = name.trim().replace(/\s+/g, " ").toLowerCase();
+
+  if (!normalized) {
+    throw new Error("Tag name must not be empty");
+  }
+
+  return normalized;
+}
+
+/**
+ * Get tag by name
+ */
+export function getTagByName(name: string): Tag | null {
+  const db = getDatabase();
+  return db
+    .prepare("SELECT * FROM tags WHERE name = ?")
+    .get(normalizeTagName(name)) as Tag | null;
+}
+
+/**
+ * Get the ID of a tag, creating it if it does not exist
+ */
+function getOrCreateTagId(name: string): number {
+  const db = getDatabase();
+  const normalized = normalizeTagName(name);
+
+  db.prepare("INSERT OR IGNORE INTO tags (name) VALUES (?)").run(normalized);
+  const tag = db
+    .prepare("SELECT id FROM tags WHERE name = ?")
+    .get(normalized) as { id: number };
+
+  return tag.id;
+}
+
+/**
+ * Add tags to a memory or TODO
+ * @returns Number of tags that were newly added
+ */
+export function addTags(
+  type: TaggableType,
+  itemId: number,
+  tags: string[],
+): number {
+  const db = getDatabase();
+  const { table, column } = LINK_TABLES[type];
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO ${table} (${column}, tag_id) VALUES (?, ?)`,
+  );
+
+  return db.transaction(() => {
+    let added = 0;
+    for (const tag of tags) {
+      added += insert.run(itemId, getOrCreateTagId(tag)).changes;
+    }
+    return added;
+  })();
+}
+
+/**
+ * Remove tags from a memory or TODO
+ * @returns Number of tags that were removed
+ */
+export function removeTags(
+  type: TaggableType,
+  itemId: number,
+  tags: string[],
+): number {
+  const db = getDatabase();
+  const { table, column } = LINK_TABLES[type];
+  const del = db.prepare(`
+    DELETE FROM ${table}
+    WHERE ${column} = ? AND tag_id = (SELECT id FROM tags WHERE name = ?)
+  `);
+
+  return db.transaction(() => {
+    let removed = 0;
+    for (const tag of tags) {
+      removed += del.run(itemId, normalizeTagName(tag)).changes;
+    }
+    return removed;
+  })();
+}
+
+/**
+ * Get the tags of a memory or TODO
+ */
+export function getTags(type: TaggableType, itemId: number): string[] {
+  const db = getDatabase();
+  const { table, column } = LINK_TABLES[type];
+  const rows = db
+    .prepare(
+      `
+    SELECT tags.name FROM ${table}
+    JOIN tags ON tags.id = ${table}.tag_id
+    WHERE ${table}.${column} = ?
+    ORDER BY tags.name
+  `,
+    )
+    .all(itemId) as { name: string }[];
+
+  return rows.map((row) => row.name);
+}
+
+/**
+ * Get all tags with the number of memories and TODOs in a namespace using
+ * them, not counting the trash
+ */
+export function getAllTagsWithUsage(namespace?: string): TagUsage[] {
+  const db = getDatabase();
+  const scope = resolveNamespace(namespace);
+  return db
+    .prepare(
+      `
+    SELECT
+      tags.name,
+      (
+        SELECT COUNT(*) FROM memory_tags
+        JOIN memories ON memories.id = memory_tags.memory_id
+        WHERE memory_tags.tag_id = tags.id AND memories.namespace = ?
+          AND memories.deleted_at IS NULL
+      ) AS memory_count,
+      (
+        SELECT COUNT(*) FROM todo_tags
+        JOIN todos ON todos.id = todo_tags.todo_id
+        WHERE todo_tags.tag_id = tags.id AND todos.namespace = ?
+          AND todos.deleted_at IS NULL
+      ) AS todo_count
+    FROM tags
+    ORDER BY tags.name
+  `,
+    )
+    .all(scope, scope)
+    .map((row: any) => ({
+      ...row,
+      total_count: row.memory_count + row.todo_count,
+    })) as TagUsage[];
+}
+
+/**
+ * Rename a tag on every item, merging it into the new name if that tag exists
+ * @returns Result of the rename, or null if the tag does not exist
+ */
+export function renameTag(
+  oldName: string,
+  newName: string,
+): TagRenameResult | null {
+  const db = getDatabase();
+  const source = getTagByName(oldName);
+  const normalizedNew = normalizeTagName(newName);
+
+  if (!source) {
+    return null;
+  }
+
+  return db.transaction(() => {
+    const counts = {
+      memory_count: (
+        db
+          .prepare("SELECT COUNT(*) AS count FROM memory_tags WHERE tag_id = ?")
+          .get(source.id) as { count: number }
+      ).count,
+      todo_count: (
+        db
+          .prepare("SELECT COUNT(*) AS count FROM todo_tags WHERE tag_id = ?")
+          .get(source.id) as { count: number }
+      ).count,
+    };
+
+    const target = getTagByName(normalizedNew);
+    if (!target) {
+      db.prepare("UPDATE tags SET name = ? WHERE id = ?").run(
+        normalizedNew,
+        source.id,
+      );
+      return { merged: false, ...counts };
+    }
+
+    if (target.id === source.id) {
+      return { merged: false, ...counts };
+    }
+
+    // Move links to the existing tag, skipping items that already have it
+    for (const { table, column } of Object.values(LINK_TABLES)) {
+      db.prepare(
+        `
+        INSERT OR IGNORE INTO ${table} (${column}, tag_id)
+        SELECT ${column}, ? FROM ${table} WHERE tag_id = ?
+      `,
+      ).run(target.id, source.id);
+    }
+    db.prepare("DELETE FROM tags WHERE id = ?").run(source.id);
+
+    return { merged: true, ...counts };
+  })();
+}
+
+/**
+ * Build a SQL condition matching items that have all of the given tags
+ * @param type Item type
+ * @param idColumn Column holding the item ID in the outer query
+ * @param tags Tags the items must have
+ * @returns SQL condition and its parameters
+ */
+export function buildTagCondition(
+  type: TaggableType,
+  idColumn: string,
+  tags: string[],
+): { sql: string; params: any[] } {
+  const { table, column } = LINK_TABLES[type];
+  const names = [...new Set(tags.map(normalizeTagName))];
+
+  return {
+    sql: `${idColumn} IN (
+      SELECT ${table}.${column} FROM ${table}
+      JOIN tags ON tags.id = ${table}.tag_id
+      WHERE tags.name IN (${names.map(() => "?").join(", ")})
+      GROUP BY ${table}.${column}
+      HAVING COUNT(*) = ?
+    )`,
+    params: [...names, names.length],
+  };
+}
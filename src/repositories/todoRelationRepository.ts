@@ -0,0 +1,320 @@
+import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+import type { Todo } from "./todoRepository";
+
+export interface TodoTreeNode extends Todo {
+  depth: number; // 0 for the root of the tree
+}
+
+export interface TodoTreeOptions {
+  rootId?: number; // Subtree of this TODO (default: every top-level TODO)
+  includeClosed?: boolean; // Include done and cancelled TODOs (default: false)
+  maxDepth?: number; // Deepest level to include (default: unlimited)
+  namespace?: string; // Defaults to the server's namespace
+}
+
+// Statuses that no longer block other TODOs
+const CLOSED_STATUSES = "('done', 'cancelled')";
+
+/**
+ * Set or clear the parent of a TODO
+ *
+ * Callers must check for cycles with isInSubtree first.
+ */
+export function setParent(
+  id: number,
+  parentId: number | null,
+  namespace?: string,
+): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "UPDATE todos SET parent_id = ? WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+    )
+    .run(parentId, id, resolveNamespace(namespace));
+
+  return result.changes > 0;
+}
+
+/**
+ * Check whether a TODO is the given TODO or one of its subtasks at any depth
+ */
+export function isInSubtree(rootId: number, id: number): boolean {
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      `
+    WITH RECURSIVE subtree(id) AS (
+      SELECT ?
+      UNION
+      SELECT todos.id FROM todos JOIN subtree ON todos.parent_id = subtree.id
+    )
+    SELECT 1 FROM subtree WHERE id = ?
+  `,
+    )
+    .get(rootId, id);
+
+  return row !== null;
+}
+
+/**
+ * Get a tree of TODOs in depth-first order, subtasks ordered by creation
+ *
+ * Subtasks of a TODO in the trash are shown as top-level TODOs.
+ */
+export function getTodoTree(options: TodoTreeOptions = {}): TodoTreeNode[] {
+  const db = getDatabase();
+  const namespace = resolveNamespace(options.namespace);
+  const openCondition =
+    " AND todos.deleted_at IS NULL" +
+    (options.includeClosed
+      ? ""
+      : ` AND todos.status NOT IN ${CLOSED_STATUSES}`);
+  const rootCondition =
+    options.rootId !== undefined
+      ? "todos.id = ?"
+      : `(todos.parent_id IS NULL OR NOT EXISTS (
+          SELECT 1 FROM todos AS parent
+          WHERE parent.id = todos.parent_id AND parent.deleted_at IS NULL
+        ))`;
+  const params: any[] = options.rootId !== undefined ? [options.rootId] : [];
+
+  return db
+    .prepare(
+      `
+    WITH RECURSIVE tree(id, depth, path) AS (
+      SELECT todos.id, 0, printf('%010d', todos.id) FROM todos
+      WHERE ${rootCondition} AND todos.namespace = ?${openCondition}
+      UNION ALL
+      SELECT todos.id, tree.depth + 1, tree.path || '/' || printf('%010d', todos.id)
+      FROM todos JOIN tree ON todos.parent_id = tree.id
+      WHERE tree.depth < ?${openCondition}
+    )
+    SELECT todos.*, tree.depth FROM tree JOIN todos ON todos.id = tree.id
+    ORDER BY tree.path
+  `,
+    )
+    .all(
+      ...params,
+      namespace,
+      options.maxDepth ?? Number.MAX_SAFE_INTEGER,
+    ) as TodoTreeNode[];
+}
+
+/**
+ * Get the subtasks of a TODO at any depth that are not done or cancelled
+ */
+export function getOpenDescendants(id: number): Todo[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+    WITH RECURSIVE subtree(id) AS (
+      SELECT id FROM todos WHERE parent_id = ? AND deleted_at IS NULL
+      UNION
+      SELECT todos.id FROM todos JOIN subtree ON todos.parent_id = subtree.id
+      WHERE todos.deleted_at IS NULL
+    )
+    SELECT todos.* FROM todos JOIN subtree ON todos.id = subtree.id
+    WHERE todos.status NOT IN ${CLOSED_STATUSES}
+    ORDER BY todos.id
+  `,
+    )
+    .all(id) as Todo[];
+}
+
+/**
+ * Get the IDs of the direct subtasks of a TODO
+ */
+export function getChildIds(id: number): number[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      "SELECT id FROM todos WHERE parent_id = ? AND deleted_at IS NULL ORDER BY id",
+    )
+    .all(id) as { id: number }[];
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Move the direct subtasks of a TODO to another parent
+ * @param batch Deletion batch of the TODO when it is being deleted; the moved
+ * subtasks are recorded under it so that restoring the TODO moves them back
+ * @returns Number of subtasks that were moved
+ */
+export function moveChildren(
+  id: number,
+  parentId: number | null,
+  batch?: number,
+): number {
+  const db = getDatabase();
+  if (batch !== undefined) {
+    db.prepare(
+      `INSERT OR REPLACE INTO todo_moved_subtasks (parent_id, todo_id, deletion_batch)
+       SELECT ?, id, ? FROM todos WHERE parent_id = ? AND deleted_at IS NULL`,
+    ).run(id, batch, id);
+  }
+  return db
+    .prepare(
+      "UPDATE todos SET parent_id = ? WHERE parent_id = ? AND deleted_at IS NULL",
+    )
+    .run(parentId, id).changes;
+}
+
+/**
+ * Move the subtasks of a TODO at any depth to the trash
+ * @param batch Deletion batch of the TODO the subtasks are deleted with
+ * @returns IDs of the subtasks that were moved
+ */
+export function deleteDescendants(id: number, batch: number): number[] {
+  const db = getDatabase();
+
+  return db.transaction(() => {
+    const rows = db
+      .prepare(
+        `
+      WITH RECURSIVE subtree(id) AS (
+        SELECT id FROM todos WHERE parent_id = ? AND deleted_at IS NULL
+        UNION
+        SELECT todos.id FROM todos JOIN subtree ON todos.parent_id = subtree.id
+        WHERE todos.deleted_at IS NULL
+      )
+      SELECT id FROM subtree ORDER BY id
+    `,
+      )
+      .all(id) as { id: number }[];
+
+    const trash = db.prepare(
+      "UPDATE todos SET deleted_at = CURRENT_TIMESTAMP, deletion_batch = ? WHERE id = ?",
+    );
+    for (const row of rows) {
+      trash.run(batch, row.id);
+    }
+    return rows.map((row) => row.id);
+  })();
+}
+
+/**
+ * Record that a TODO is blocked by another
+ * @returns false if the dependency already existed or a TODO was permanently
+ * deleted
+ */
+export function addDependency(todoId: number, dependsOnId: number): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO todo_dependencies (todo_id, depends_on_id)
+       SELECT ?, ? WHERE (SELECT COUNT(*) FROM todos WHERE id IN (?, ?)) = 2`,
+    )
+    .run(todoId, dependsOnId, todoId, dependsOnId);
+
+  return result.changes > 0;
+}
+
+/**
+ * Remove a dependency between two TODOs
+ */
+export function removeDependency(todoId: number, dependsOnId: number): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "DELETE FROM todo_dependencies WHERE todo_id = ? AND depends_on_id = ?",
+    )
+    .run(todoId, dependsOnId);
+
+  return result.changes > 0;
+}
+
+/**
+ * Check whether a TODO depends on another, directly or through other TODOs
+ */
+export function dependsOn(todoId: number, dependsOnId: number): boolean {
+  const db = getDatabase();
+  const row = db
+    .prepare(
+      `
+    WITH RECURSIVE blockers(id) AS (
+      SELECT depends_on_id FROM todo_dependencies WHERE todo_id = ?
+      UNION
+      SELECT todo_dependencies.depends_on_id FROM todo_dependencies
+      JOIN blockers ON todo_dependencies.todo_id = blockers.id
+    )
+    SELECT 1 FROM blockers WHERE id = ?
+  `,
+    )
+    .get(todoId, dependsOnId);
+
+  return row !== null;
+}
+
+/**
+ * Get the TODOs a TODO directly depends on
+ */
+export function getBlockers(todoId: number): Todo[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+    SELECT todos.* FROM todo_dependencies
+    JOIN todos ON todos.id = todo_dependencies.depends_on_id
+    WHERE todo_dependencies.todo_id = ? AND todos.deleted_at IS NULL
+    ORDER BY todos.id
+  `,
+    )
+    .all(todoId) as Todo[];
+}
+
+/**
+ * Get the IDs of the TODOs that block a TODO (not yet done or cancelled)
+ */
+export function getOpenBlockerIds(todoId: number): number[] {
+  return getBlockers(todoId)
+    .filter((todo) => todo.status !== "done" && todo.status !== "cancelled")
+    .map((todo) => todo.id);
+}
+
+/**
+ * Get every dependency between TODOs of a namespace
+ */
+export function getDependencies(
+  namespace?: string,
+): { todo_id: number; depends_on_id: number }[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+    SELECT todo_dependencies.todo_id, todo_dependencies.depends_on_id
+    FROM todo_dependencies
+    JOIN todos ON todos.id = todo_dependencies.todo_id
+    JOIN todos AS blocker ON blocker.id = todo_dependencies.depends_on_id
+    WHERE todos.namespace = ? AND todos.deleted_at IS NULL
+      AND blocker.deleted_at IS NULL
+    ORDER BY todo_dependencies.todo_id, todo_dependencies.depends_on_id
+  `,
+    )
+    .all(resolveNamespace(namespace)) as {
+    todo_id: number;
+    depends_on_id: number;
+  }[];
+}
+
+/**
+ * SQL condition for TODOs that can be worked on now: open or in progress, with
+ * no unfinished dependencies and no unfinished subtasks
+ */
+export const ACTIONABLE_CONDITION = `
+  todos.status IN ('open', 'in_progress')
+  AND NOT EXISTS (
+    SELECT 1 FROM todo_dependencies
+    JOIN todos AS blocker ON blocker.id = todo_dependencies.depends_on_id
+    WHERE todo_dependencies.todo_id = todos.id
+      AND blocker.status NOT IN ${CLOSED_STATUSES}
+      AND blocker.deleted_at IS NULL
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM todos AS child
+    WHERE child.parent_id = todos.id AND child.status NOT IN ${CLOSED_STATUSES}
+      AND child.deleted_at IS NULL
+  )
+`;
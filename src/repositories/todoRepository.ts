@@ -1,68 +1,255 @@
 import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+import { paginate, Page, PageOptions, SortKey } from "../database/pagination";
+import {
+  parseSearchQuery,
+  canUseFullTextIndex,
+  toFtsMatchExpression,
+  toLikeCondition,
+} from "../database/searchQuery";
+import { addTags, buildTagCondition } from "./tagRepository";
+import { ACTIONABLE_CONDITION } from "./todoRelationRepository";
+
+export const TODO_STATUSES = [
+  "open",
+  "in_progress",
+  "blocked",
+  "done",
+  "cancelled",
+] as const;
+export type TodoStatus = (typeof TODO_STATUSES)[number];
+
+// Statuses of TODOs that still need work
+export const ACTIVE_TODO_STATUSES: TodoStatus[] = [
+  "open",
+  "in_progress",
+  "blocked",
+];
+
+export const TODO_PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+export type TodoPriority = (typeof TODO_PRIORITIES)[number];
 
 export interface Todo {
   id: number;
   title: string;
   description?: string;
   due_date?: string; // Date string in ISO format
-  completed: number; // SQLite doesn't have boolean type, so use 0/1
+  completed: number; // SQLite doesn't have boolean type, so use 0/1 (1 when done)
   created_at: string;
+  namespace: string;
+  recurrence?: string | null; // Normalized RRULE of a repeating TODO
+  previous_todo_id?: number | null; // Occurrence this one was created from
+  status: TodoStatus;
+  priority: TodoPriority;
+  parent_id?: number | null; // Parent of a subtask
+  completed_at?: string | null; // When the TODO was last marked done
+  deleted_at?: string | null; // Set when moved to the trash
+  deletion_batch?: number | null; // Shared by the TODOs trashed together
 }
 
+// Fields of a TODO that changes can be reverted to (see revertTodo)
+export type TodoState = Pick<
+  Todo,
+  | "title"
+  | "description"
+  | "due_date"
+  | "status"
+  | "priority"
+  | "parent_id"
+  | "completed_at"
+  | "recurrence"
+>;
+
 export interface TodoCreateInput {
   title: string;
   description?: string;
   due_date?: Date;
+  tags?: string[];
+  namespace?: string; // Defaults to the server's namespace
+  completed?: boolean; // Initial state when importing (default: false)
+  created_at?: string; // Original timestamp when importing (default: now)
+  recurrence?: string | null; // Normalized RRULE (see recurrence.ts)
+  previous_todo_id?: number | null;
+  status?: TodoStatus; // Default: "done" if completed, otherwise "open"
+  priority?: TodoPriority; // Default: "medium"
+  parent_id?: number | null; // Makes the TODO a subtask of this TODO
+  completed_at?: string | null; // Completion time of a done TODO when importing
+}
+
+// Fields that can be changed after creation; null clears an optional field
+export interface TodoUpdateInput {
+  title?: string;
+  description?: string | null;
+  due_date?: Date | null;
+  status?: TodoStatus;
+  priority?: TodoPriority;
 }
 
-export interface TodoSearchOptions {
+export const TODO_SORT_KEYS = [
+  "relevance",
+  "due_date",
+  "created_at",
+  "priority",
+  "status",
+  "title",
+  "id",
+] as const;
+export type TodoSortKey = (typeof TODO_SORT_KEYS)[number];
+
+export interface TodoSearchOptions extends PageOptions<TodoSortKey> {
   completed?: boolean;
+  statuses?: TodoStatus[]; // Only include TODOs with one of these statuses
+  priorities?: TodoPriority[]; // Only include TODOs with one of these priorities
+  actionable?: boolean; // Only include TODOs that are not blocked (see todoRelationRepository.ts)
+  parentId?: number; // Only include direct subtasks of this TODO
   dueBefore?: Date;
   dueAfter?: Date;
   searchText?: string;
+  tags?: string[]; // Only include TODOs that have all of these tags
+  namespace?: string; // Defaults to the server's namespace
 }
 
+// TODOs with the same key are ordered newest first; TODOs without a due date
+// come last, and unranked results (no full-text query) have a NULL rank
+const todoSortKeys: Record<TodoSortKey, SortKey> = {
+  relevance: {
+    expression: "rank",
+    defaultOrder: "asc",
+    tieBreakerOrder: "desc",
+  },
+  due_date: {
+    expression: "due_date",
+    defaultOrder: "asc",
+    tieBreakerOrder: "desc",
+  },
+  created_at: { expression: "created_at", defaultOrder: "desc" },
+  // Most urgent first by default
+  priority: {
+    expression:
+      "CASE priority WHEN 'urgent' THEN 3 WHEN 'high' THEN 2 WHEN 'medium' THEN 1 ELSE 0 END",
+    defaultOrder: "desc",
+    tieBreakerOrder: "desc",
+  },
+  // Workflow order: open, in_progress, blocked, done, cancelled
+  status: {
+    expression:
+      "CASE status WHEN 'open' THEN 0 WHEN 'in_progress' THEN 1 WHEN 'blocked' THEN 2 WHEN 'done' THEN 3 ELSE 4 END",
+    defaultOrder: "asc",
+    tieBreakerOrder: "desc",
+  },
+  title: { expression: "lower(title)", defaultOrder: "asc" },
+  id: { expression: "id", defaultOrder: "desc" },
+};
+
 /**
  * Create a TODO
  */
 export function createTodo(todo: TodoCreateInput): number {
   const db = getDatabase();
   const insert = db.prepare(
-    "INSERT INTO todos (title, description, due_date) VALUES (?, ?, ?)",
-  );
-  const result = insert.run(
-    todo.title,
-    todo.description || null,
-    todo.due_date ? todo.due_date.toISOString() : null,
+    `INSERT INTO todos (title, description, due_date, namespace, completed, created_at, recurrence, previous_todo_id, status, priority, parent_id, completed_at)
+     VALUES (?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?, ?, ?, ?, ?)`,
   );
 
-  return Number(result.lastInsertRowid);
+  const status = todo.status ?? (todo.completed ? "done" : "open");
+
+  return db.transaction(() => {
+    const result = insert.run(
+      todo.title,
+      todo.description || null,
+      todo.due_date ? todo.due_date.toISOString() : null,
+      resolveNamespace(todo.namespace),
+      status === "done" ? 1 : 0,
+      todo.created_at ?? null,
+      todo.recurrence ?? null,
+      todo.previous_todo_id ?? null,
+      status,
+      todo.priority ?? "medium",
+      todo.parent_id ?? null,
+      status === "done" ? (todo.completed_at ?? null) : null,
+    );
+    const todoId = Number(result.lastInsertRowid);
+
+    if (todo.tags && todo.tags.length > 0) {
+      addTags("todo", todoId, todo.tags);
+    }
+
+    return todoId;
+  })();
 }
 
 /**
- * Get TODO by ID
+ * Find a TODO with the same title and creation time
  */
-export function getTodoById(id: number): Todo | null {
+export function findDuplicateTodo(
+  title: string,
+  createdAt: string,
+  namespace?: string,
+): Todo | null {
   const db = getDatabase();
-  return db.prepare("SELECT * FROM todos WHERE id = ?").get(id) as Todo | null;
+  return db
+    .prepare(
+      "SELECT * FROM todos WHERE title = ? AND created_at = ? AND namespace = ? AND deleted_at IS NULL",
+    )
+    .get(title, createdAt, resolveNamespace(namespace)) as Todo | null;
+}
+
+/**
+ * Get TODO by ID (null if it is in the trash)
+ */
+export function getTodoById(id: number, namespace?: string): Todo | null {
+  const db = getDatabase();
+  return db
+    .prepare(
+      "SELECT * FROM todos WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+    )
+    .get(id, resolveNamespace(namespace)) as Todo | null;
 }
 
 /**
  * Get all TODOs
+ *
+ * Loads every TODO of the namespace; use searchTodos to read them a page at a
+ * time.
  */
-export function getAllTodos(): Todo[] {
+export function getAllTodos(namespace?: string): Todo[] {
   const db = getDatabase();
   return db
-    .prepare("SELECT * FROM todos ORDER BY created_at DESC")
-    .all() as Todo[];
+    .prepare(
+      "SELECT * FROM todos WHERE namespace = ? AND deleted_at IS NULL ORDER BY created_at DESC",
+    )
+    .all(resolveNamespace(namespace)) as Todo[];
 }
 
 /**
  * Search TODOs
+ *
+ * Full-text matches are ordered by relevance by default; otherwise TODOs are
+ * ordered by due date.
  */
-export function searchTodos(options: TodoSearchOptions = {}): Todo[] {
-  let sql = "SELECT * FROM todos WHERE 1=1";
+export function searchTodos(options: TodoSearchOptions = {}): Page<Todo> {
+  let sql: string;
   const params: any[] = [];
+  let defaultSort: TodoSortKey = "due_date";
+
+  // Text search (see searchQuery.ts for the supported syntax)
+  const node = options.searchText ? parseSearchQuery(options.searchText) : null;
+  if (node && canUseFullTextIndex(node)) {
+    sql =
+      "SELECT todos.*, bm25(todos_fts) AS rank FROM todos JOIN todos_fts ON todos_fts.rowid = todos.id WHERE todos_fts MATCH ?";
+    params.push(toFtsMatchExpression(node));
+    defaultSort = "relevance";
+  } else if (node) {
+    const condition = toLikeCondition(node, ["title", "description"]);
+    sql = `SELECT todos.*, NULL AS rank FROM todos WHERE ${condition.sql}`;
+    params.push(...condition.params);
+  } else {
+    sql = "SELECT todos.*, NULL AS rank FROM todos WHERE 1=1";
+  }
+
+  // Filter by namespace, leaving out the trash
+  sql += " AND todos.namespace = ? AND todos.deleted_at IS NULL";
+  params.push(resolveNamespace(options.namespace));
 
   // Filter by completion status
   if (options.completed !== undefined) {
@@ -70,6 +257,34 @@ export function searchTodos(options: TodoSearchOptions = {}): Todo[] {
     params.push(options.completed ? 1 : 0);
   }
 
+  // Filter by workflow status and priority
+  if (options.statuses && options.statuses.length > 0) {
+    sql += ` AND status IN (${options.statuses.map(() => "?").join(", ")})`;
+    params.push(...options.statuses);
+  }
+
+  if (options.priorities && options.priorities.length > 0) {
+    sql += ` AND priority IN (${options.priorities.map(() => "?").join(", ")})`;
+    params.push(...options.priorities);
+  }
+
+  // Filter by relations
+  if (options.actionable) {
+    sql += ` AND ${ACTIONABLE_CONDITION}`;
+  }
+
+  if (options.parentId !== undefined) {
+    sql += " AND todos.parent_id = ?";
+    params.push(options.parentId);
+  }
+
+  // Filter by tags
+  if (options.tags && options.tags.length > 0) {
+    const tagCondition = buildTagCondition("todo", "todos.id", options.tags);
+    sql += ` AND ${tagCondition.sql}`;
+    params.push(...tagCondition.params);
+  }
+
   // Filter by due date
   if (options.dueBefore) {
     sql += " AND due_date IS NOT NULL AND due_date <= ?";
@@ -81,38 +296,230 @@ export function searchTodos(options: TodoSearchOptions = {}): Todo[] {
     params.push(options.dueAfter.toISOString());
   }
 
-  // Text search
-  if (options.searchText) {
-    sql += " AND (title LIKE ? OR description LIKE ?)";
-    const searchParam = `%${options.searchText}%`;
-    params.push(searchParam, searchParam);
-  }
+  const page = paginate<Todo & { rank: number | null }, TodoSortKey>(
+    sql,
+    params,
+    todoSortKeys,
+    defaultSort,
+    options,
+  );
 
-  sql += " ORDER BY due_date IS NULL, due_date ASC, created_at DESC";
+  return {
+    ...page,
+    items: page.items.map(({ rank: _rank, ...todo }) => todo),
+  };
+}
 
+/**
+ * Update completion status
+ *
+ * Completing a TODO sets its status to done; marking it incomplete reopens it.
+ */
+export function updateTodoStatus(
+  id: number,
+  completed: boolean,
+  namespace?: string,
+): boolean {
+  return updateTodo(id, { status: completed ? "done" : "open" }, namespace);
+}
+
+/**
+ * Update the given fields of a TODO
+ *
+ * The completed flag follows the status.
+ * @returns Whether the TODO was found
+ */
+export function updateTodo(
+  id: number,
+  input: TodoUpdateInput,
+  namespace?: string,
+): boolean {
   const db = getDatabase();
-  const query = db.prepare(sql);
-  return query.all(...params) as Todo[];
+  const assignments: string[] = [];
+  const params: any[] = [];
+
+  if (input.title !== undefined) {
+    assignments.push("title = ?");
+    params.push(input.title);
+  }
+  if (input.description !== undefined) {
+    assignments.push("description = ?");
+    params.push(input.description || null);
+  }
+  if (input.due_date !== undefined) {
+    assignments.push("due_date = ?");
+    params.push(input.due_date ? input.due_date.toISOString() : null);
+  }
+  if (input.status !== undefined) {
+    assignments.push("status = ?", "completed = ?");
+    params.push(input.status, input.status === "done" ? 1 : 0);
+  }
+  if (input.priority !== undefined) {
+    assignments.push("priority = ?");
+    params.push(input.priority);
+  }
+
+  if (assignments.length === 0) {
+    return getTodoById(id, namespace) !== null;
+  }
+
+  const result = db
+    .prepare(
+      `UPDATE todos SET ${assignments.join(", ")} WHERE id = ? AND namespace = ? AND deleted_at IS NULL`,
+    )
+    .run(...params, id, resolveNamespace(namespace));
+
+  return result.changes > 0;
 }
 
 /**
- * Update completion status
+ * Set or clear the recurrence rule of a TODO
  */
-export function updateTodoStatus(id: number, completed: boolean): boolean {
+export function updateTodoRecurrence(
+  id: number,
+  recurrence: string | null,
+  namespace?: string,
+): boolean {
   const db = getDatabase();
-  const update = db.prepare("UPDATE todos SET completed = ? WHERE id = ?");
-  const result = update.run(completed ? 1 : 0, id);
+  const update = db.prepare(
+    "UPDATE todos SET recurrence = ? WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+  );
+  const result = update.run(recurrence, id, resolveNamespace(namespace));
 
   return result.changes > 0;
 }
 
 /**
- * Delete a TODO
+ * Get the occurrence of a repeating TODO that was created from the given one
+ */
+export function getNextOccurrence(id: number, namespace?: string): Todo | null {
+  const db = getDatabase();
+  return db
+    .prepare(
+      "SELECT * FROM todos WHERE previous_todo_id = ? AND namespace = ? AND deleted_at IS NULL ORDER BY id LIMIT 1",
+    )
+    .get(id, resolveNamespace(namespace)) as Todo | null;
+}
+
+/**
+ * Get the earlier occurrences of a repeating TODO that it was created from,
+ * most recent first, including those in the trash
+ */
+export function getPreviousOccurrences(id: number): Todo[] {
+  const db = getDatabase();
+  return db
+    .prepare(
+      `
+    WITH RECURSIVE chain(id, previous_todo_id, depth) AS (
+      SELECT id, previous_todo_id, 0 FROM todos WHERE id = ?
+      UNION
+      SELECT todos.id, todos.previous_todo_id, chain.depth + 1 FROM todos
+      JOIN chain ON todos.id = chain.previous_todo_id
+    )
+    SELECT todos.* FROM chain
+    JOIN todos ON todos.id = chain.id
+    WHERE chain.depth > 0
+    ORDER BY chain.depth
+  `,
+    )
+    .all(id) as Todo[];
+}
+
+/**
+ * Get an unused deletion batch number for TODOs moved to the trash together
  */
-export function deleteTodo(id: number): boolean {
+export function getNextDeletionBatch(): number {
   const db = getDatabase();
-  const del = db.prepare("DELETE FROM todos WHERE id = ?");
-  const result = del.run(id);
+  const row = db
+    .prepare("SELECT COALESCE(MAX(deletion_batch), 0) + 1 AS batch FROM todos")
+    .get() as { batch: number };
+
+  return row.batch;
+}
+
+/**
+ * Move a TODO to the trash
+ *
+ * Its tags, links and dependencies are kept until the trash is emptied.
+ * @param batch Deletion batch shared with the subtasks deleted with it
+ * (default: a new batch)
+ */
+export function deleteTodo(
+  id: number,
+  namespace?: string,
+  batch: number = getNextDeletionBatch(),
+): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare(
+      "UPDATE todos SET deleted_at = CURRENT_TIMESTAMP, deletion_batch = ? WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+    )
+    .run(batch, id, resolveNamespace(namespace));
 
   return result.changes > 0;
 }
+
+/**
+ * Put back the fields a TODO had before a change, including its completion
+ * time
+ * @returns Whether the TODO was found
+ */
+export function revertTodo(id: number, state: TodoState): boolean {
+  const db = getDatabase();
+
+  return db.transaction(() => {
+    const result = db
+      .prepare(
+        `UPDATE todos
+         SET title = ?, description = ?, due_date = ?, status = ?, completed = ?,
+           priority = ?, parent_id = ?, recurrence = ?
+         WHERE id = ? AND deleted_at IS NULL`,
+      )
+      .run(
+        state.title,
+        state.description ?? null,
+        state.due_date ?? null,
+        state.status,
+        state.status === "done" ? 1 : 0,
+        state.priority,
+        state.parent_id ?? null,
+        state.recurrence ?? null,
+        id,
+      );
+    if (result.changes === 0) {
+      return false;
+    }
+
+    // Written after the status, whose trigger sets completed_at
+    db.prepare("UPDATE todos SET completed_at = ? WHERE id = ?").run(
+      state.completed_at ?? null,
+      id,
+    );
+    return true;
+  })();
+}
+
+/**
+ * Move TODOs to another namespace
+ * @returns Number of TODOs that were moved
+ */
+export function moveTodos(
+  ids: number[],
+  targetNamespace: string,
+  sourceNamespace?: string,
+): number {
+  const db = getDatabase();
+  const update = db.prepare(
+    "UPDATE todos SET namespace = ? WHERE id = ? AND namespace = ? AND deleted_at IS NULL",
+  );
+  const target = resolveNamespace(targetNamespace);
+  const source = resolveNamespace(sourceNamespace);
+
+  return db.transaction(() => {
+    let moved = 0;
+    for (const id of ids) {
+      moved += update.run(target, id, source).changes;
+    }
+    return moved;
+  })();
+}
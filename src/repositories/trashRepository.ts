@@ -0,0 +1,223 @@
+import { getDatabase } from "../database";
+import * as memoryRepo from "./memoryRepository";
+import * as todoRepo from "./todoRepository";
+import { resolveNamespace } from "../database/namespace";
+import { paginate, Page, PageOptions, SortKey } from "../database/pagination";
+import { toSqliteTimestamp } from "../database/timestamp";
+
+export const TRASH_ITEM_TYPES = ["memory", "todo"] as const;
+export type TrashItemType = (typeof TRASH_ITEM_TYPES)[number];
+
+export const TRASH_SORT_KEYS = ["deleted_at", "created_at"] as const;
+export type TrashSortKey = (typeof TRASH_SORT_KEYS)[number];
+
+export interface TrashedItem {
+  type: TrashItemType;
+  id: number;
+  title: string; // Content of a memory, title of a TODO
+  namespace: string;
+  created_at: string;
+  deleted_at: string;
+}
+
+export interface TrashListOptions extends PageOptions<TrashSortKey> {
+  type?: TrashItemType; // Default: both
+  namespace?: string; // Defaults to the server's namespace
+}
+
+export interface TrashPurgeOptions {
+  type?: TrashItemType; // Default: both
+  deletedBefore?: Date; // Only purge items deleted at or before this time
+  namespace?: string; // Defaults to the server's namespace
+}
+
+// Table and title column for each item type
+const TRASH_TABLES: Record<TrashItemType, { table: string; title: string }> = {
+  memory: { table: "memories", title: "content" },
+  todo: { table: "todos", title: "title" },
+};
+
+const trashSortKeys: Record<TrashSortKey, SortKey> = {
+  deleted_at: { expression: "deleted_at", defaultOrder: "desc" },
+  created_at: { expression: "created_at", defaultOrder: "desc" },
+};
+
+function selectedTypes(type?: TrashItemType): TrashItemType[] {
+  return type ? [type] : [...TRASH_ITEM_TYPES];
+}
+
+/**
+ * List the memories and TODOs in the trash, most recently deleted first by
+ * default
+ */
+export function listTrash(options: TrashListOptions = {}): Page<TrashedItem> {
+  const namespace = resolveNamespace(options.namespace);
+  const types = selectedTypes(options.type);
+
+  // Memory and TODO IDs overlap, so pages are keyed by a row key that does not
+  const sql = types
+    .map((type, index) => {
+      const { table, title } = TRASH_TABLES[type];
+      return `SELECT '${type}' AS type, id AS item_id, id * 2 + ${index} AS id,
+        ${title} AS title, namespace, created_at, deleted_at
+        FROM ${table} WHERE namespace = ? AND deleted_at IS NOT NULL`;
+    })
+    .join(" UNION ALL ");
+
+  const page = paginate<TrashedItem & { item_id: number }, TrashSortKey>(
+    sql,
+    types.map(() => namespace),
+    trashSortKeys,
+    "deleted_at",
+    options,
+  );
+
+  return {
+    ...page,
+    items: page.items.map(({ item_id, ...item }) => ({ ...item, id: item_id })),
+  };
+}
+
+/**
+ * Get the time an item was moved to the trash
+ * @returns The deletion time, or null if the item is not in the trash
+ */
+export function getDeletedAt(
+  type: TrashItemType,
+  id: number,
+  namespace?: string,
+): string | null {
+  const db = getDatabase();
+  const { table } = TRASH_TABLES[type];
+  const row = db
+    .prepare(
+      `SELECT deleted_at FROM ${table} WHERE id = ? AND namespace = ? AND deleted_at IS NOT NULL`,
+    )
+    .get(id, resolveNamespace(namespace)) as { deleted_at: string } | null;
+
+  return row?.deleted_at ?? null;
+}
+
+/**
+ * Take an item out of the trash
+ * @returns Whether the item was in the trash
+ */
+export function restoreItem(
+  type: TrashItemType,
+  id: number,
+  namespace?: string,
+): boolean {
+  const db = getDatabase();
+  const { table } = TRASH_TABLES[type];
+  const batch = type === "todo" ? ", deletion_batch = NULL" : "";
+  const result = db
+    .prepare(
+      `UPDATE ${table} SET deleted_at = NULL${batch} WHERE id = ? AND namespace = ? AND deleted_at IS NOT NULL`,
+    )
+    .run(id, resolveNamespace(namespace));
+
+  if (type === "todo" && result.changes > 0) {
+    db.prepare("DELETE FROM todo_moved_subtasks WHERE parent_id = ?").run(id);
+  }
+  return result.changes > 0;
+}
+
+/**
+ * Move an item to the trash
+ * @returns Whether the item was found outside the trash
+ */
+export function trashItem(
+  type: TrashItemType,
+  id: number,
+  namespace?: string,
+): boolean {
+  return type === "todo"
+    ? todoRepo.deleteTodo(id, namespace)
+    : memoryRepo.deleteMemory(id, namespace);
+}
+
+/**
+ * Get the subtasks of a TODO at any depth that were moved to the trash
+ * together with it, in the same deletion batch
+ */
+export function getSubtasksDeletedWith(todoId: number): number[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `
+    WITH RECURSIVE subtree(id, deletion_batch) AS (
+      SELECT id, deletion_batch FROM todos
+      WHERE id = ? AND deleted_at IS NOT NULL
+      UNION
+      SELECT todos.id, todos.deletion_batch FROM todos
+      JOIN subtree ON todos.parent_id = subtree.id
+      WHERE todos.deleted_at IS NOT NULL
+        AND todos.deletion_batch = subtree.deletion_batch
+    )
+    SELECT id FROM subtree WHERE id != ? ORDER BY id
+  `,
+    )
+    .all(todoId, todoId) as { id: number }[];
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Get the subtasks that were moved up a level when a TODO in the trash was
+ * deleted, leaving out those that were deleted or moved elsewhere since
+ */
+export function getSubtasksMovedUpFrom(todoId: number): number[] {
+  const db = getDatabase();
+  const rows = db
+    .prepare(
+      `
+    SELECT moved.todo_id AS id FROM todo_moved_subtasks AS moved
+    JOIN todos AS parent ON parent.id = moved.parent_id
+    JOIN todos AS child ON child.id = moved.todo_id
+    WHERE moved.parent_id = ?
+      AND parent.deleted_at IS NOT NULL
+      AND moved.deletion_batch = parent.deletion_batch
+      AND child.deleted_at IS NULL
+      AND child.parent_id IS parent.parent_id
+    ORDER BY moved.todo_id
+  `,
+    )
+    .all(todoId) as { id: number }[];
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Permanently delete the items in the trash, with their revisions, tags,
+ * links and embeddings
+ * @returns Number of memories and TODOs that were deleted
+ */
+export function purgeTrash(options: TrashPurgeOptions = {}): {
+  memories: number;
+  todos: number;
+} {
+  const db = getDatabase();
+  const namespace = resolveNamespace(options.namespace);
+  const types = selectedTypes(options.type);
+  let condition = "namespace = ? AND deleted_at IS NOT NULL";
+  const params: any[] = [namespace];
+
+  if (options.deletedBefore) {
+    condition += " AND deleted_at <= ?";
+    params.push(toSqliteTimestamp(options.deletedBefore));
+  }
+
+  return db.transaction(() => {
+    const counts = { memories: 0, todos: 0 };
+    for (const type of types) {
+      const { table } = TRASH_TABLES[type];
+      // Row counts of run() include rows changed by triggers, so count the
+      // deleted IDs instead
+      const deleted = db
+        .prepare(`DELETE FROM ${table} WHERE ${condition} RETURNING id`)
+        .all(...params);
+      counts[type === "memory" ? "memories" : "todos"] = deleted.length;
+    }
+    return counts;
+  })();
+}
@@ -0,0 +1,11 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerMarkdownResources } from "./markdownResource";
+import { memoryResources } from "./memoryResources";
+import { todoResources } from "./todoResources";
+
+/**
+ * Register every resource on an MCP server
+ */
+export function registerAllResources(server: McpServer) {
+  registerMarkdownResources(server, [...memoryResources, ...todoResources]);
+}
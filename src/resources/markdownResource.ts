@@ -0,0 +1,197 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { NotFoundError } from "../tools/response";
+import { DateRangeError } from "../dateRange";
+import { onDataChange } from "../changes";
+import { log } from "../logger";
+
+/**
+ * A resource rendered as Markdown from the database on every read
+ */
+export interface MarkdownResource {
+  name: string;
+  uri: string; // Fixed URI, or a URI template such as memory://{id}
+  title: string;
+  description: string;
+  // Resources matching a template, for resources/list
+  list?: () => { uri: string; name: string }[];
+  // Render the resource from the template variables
+  // (throws NotFoundError if it does not exist)
+  render: (variables: Record<string, string>) => string;
+}
+
+const MIME_TYPE = "text/markdown";
+
+function isTemplate(resource: MarkdownResource): boolean {
+  return resource.uri.includes("{");
+}
+
+/**
+ * Find the resource a URI refers to and its template variables
+ *
+ * Fixed URIs take precedence, so memory://recent is not read as memory://{id}.
+ */
+function matchResource(
+  resources: MarkdownResource[],
+  uri: string,
+): { resource: MarkdownResource; variables: Record<string, string> } | null {
+  const fixed = resources.find(
+    (resource) => !isTemplate(resource) && resource.uri === uri,
+  );
+  if (fixed) {
+    return { resource: fixed, variables: {} };
+  }
+
+  for (const resource of resources.filter(isTemplate)) {
+    const match = new UriTemplate(resource.uri).match(uri);
+    if (match) {
+      const variables: Record<string, string> = {};
+      for (const [name, value] of Object.entries(match)) {
+        variables[name] = decodeURIComponent(
+          Array.isArray(value) ? value.join(",") : value,
+        );
+      }
+      return { resource, variables };
+    }
+  }
+  return null;
+}
+
+/**
+ * Render the resource a URI refers to
+ * @throws NotFoundError if no resource matches the URI or it does not exist
+ */
+function renderResource(resources: MarkdownResource[], uri: string): string {
+  const match = matchResource(resources, uri);
+  if (!match) {
+    throw new NotFoundError(`Resource ${uri} not found`);
+  }
+  return match.resource.render(match.variables);
+}
+
+/**
+ * Build the result of reading a resource, reporting a missing item or a period
+ * that is not understood as an invalid parameter like the SDK does for unknown
+ * URIs
+ */
+function readResult(
+  render: () => string,
+  uri: URL,
+  name: string,
+): ReadResourceResult {
+  try {
+    return {
+      contents: [{ uri: uri.href, mimeType: MIME_TYPE, text: render() }],
+    };
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof DateRangeError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    log("error", `${name} resource error:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Register Markdown resources on an MCP server and let clients subscribe to
+ * them
+ *
+ * A subscribed resource is rendered again whenever data may have changed (see
+ * changes.ts), and the client is sent a resources/updated notification when
+ * its Markdown differs from the last rendering, so edits that do not show in a
+ * resource (e.g. access counts) do not notify. A resource that stops existing
+ * is reported as updated once.
+ * @param server MCP server to register the resources on
+ * @param resources Resources to register
+ */
+export function registerMarkdownResources(
+  server: McpServer,
+  resources: MarkdownResource[],
+) {
+  for (const resource of resources) {
+    const metadata = {
+      title: resource.title,
+      description: resource.description,
+      mimeType: MIME_TYPE,
+    };
+    if (isTemplate(resource)) {
+      const list = resource.list;
+      server.registerResource(
+        resource.name,
+        new ResourceTemplate(resource.uri, {
+          list: list
+            ? () => ({
+                resources: list().map((item) => ({
+                  ...item,
+                  mimeType: MIME_TYPE,
+                })),
+              })
+            : undefined,
+        }),
+        metadata,
+        (uri) =>
+          readResult(
+            () => renderResource(resources, uri.href),
+            uri,
+            resource.name,
+          ),
+      );
+    } else {
+      server.registerResource(resource.name, resource.uri, metadata, (uri) =>
+        readResult(() => resource.render({}), uri, resource.name),
+      );
+    }
+  }
+
+  // Last rendering of each subscribed URI, null if it did not exist
+  const subscriptions = new Map<string, string | null>();
+  const tryRender = (uri: string): string | null => {
+    try {
+      return renderResource(resources, uri);
+    } catch {
+      return null;
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    const { uri } = request.params;
+    if (!matchResource(resources, uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+    }
+    subscriptions.set(uri, tryRender(uri));
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const removeListener = onDataChange(() => {
+    for (const [uri, previous] of subscriptions) {
+      const current = tryRender(uri);
+      if (current === previous) {
+        continue;
+      }
+      subscriptions.set(uri, current);
+      server.server.sendResourceUpdated({ uri }).catch((error) => {
+        log("warn", `Failed to notify the update of ${uri}:`, error);
+      });
+    }
+  });
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListener();
+    onclose?.();
+  };
+}
@@ -0,0 +1,85 @@
+import * as memoryRepo from "../repositories/memoryRepository";
+import { Memory } from "../repositories/memoryRepository";
+import * as memoryService from "../services/memoryService";
+import { formatTimestamp, toSqliteTimestamp } from "../database/timestamp";
+import { parseDateRange } from "../dateRange";
+import { NotFoundError } from "../tools/response";
+import {
+  MAX_PAGE_SIZE,
+  toMemoryOutput,
+  formatMemoryLine,
+  formatList,
+} from "../tools/schemas";
+import { MarkdownResource } from "./markdownResource";
+
+// Memories shown by memory://recent and listed as memory://{id}
+const RECENT_LIMIT = 20;
+
+/**
+ * Format memories as Markdown list lines
+ */
+function formatMemories(memories: Memory[]): string[] {
+  return memories.map((memory) =>
+    formatMemoryLine(toMemoryOutput(memory), memory.content),
+  );
+}
+
+export const memoryResources: MarkdownResource[] = [
+  {
+    name: "recent_memories",
+    uri: "memory://recent",
+    title: "Recent memories",
+    description: `The ${RECENT_LIMIT} latest memories, newest first`,
+    render: () =>
+      formatList(
+        "# Recent Memories",
+        formatMemories(memoryService.getLatestMemories(RECENT_LIMIT)),
+      ),
+  },
+  {
+    name: "memory",
+    uri: "memory://{id}",
+    title: "Memory",
+    description:
+      "A memory with the memories written just before and after it, as Markdown",
+    list: () =>
+      memoryService.getLatestMemories(RECENT_LIMIT).map((memory) => ({
+        uri: `memory://${memory.id}`,
+        name: memory.content.split("\n")[0].slice(0, 80),
+      })),
+    render: ({ id }) => {
+      if (!/^\d+$/.test(id) || !memoryRepo.getMemoryById(Number(id))) {
+        throw new NotFoundError(`No memory found with ID: ${id}`);
+      }
+      return memoryService.getMemoryContextAsMarkdown(Number(id));
+    },
+  },
+  {
+    name: "journal",
+    uri: "journal://{date}",
+    title: "Journal",
+    description:
+      "The memories of a period, oldest first: an ISO date (2025-03-01, 2025-03) or a relative expression such as today, yesterday or last%20week, with spaces encoded as %20",
+    render: ({ date }) => {
+      const { start, end } = parseDateRange(date);
+      const page = memoryRepo.listMemories({
+        createdFrom: start,
+        createdBefore: end,
+        sort: "created_at",
+        order: "asc",
+        limit: MAX_PAGE_SIZE,
+      });
+      const range = `${formatTimestamp(toSqliteTimestamp(start))} to ${formatTimestamp(toSqliteTimestamp(end))}`;
+      const more =
+        page.total > page.items.length
+          ? `\n\n…and ${page.total - page.items.length} more memories`
+          : "";
+      return (
+        formatList(
+          `# Journal: ${date}\n\n${range}, ${page.total} memories`,
+          formatMemories(page.items),
+        ) + more
+      );
+    },
+  },
+];
@@ -0,0 +1,77 @@
+import * as todoRepo from "../repositories/todoRepository";
+import { Todo } from "../repositories/todoRepository";
+import * as relationRepo from "../repositories/todoRelationRepository";
+import * as linkRepo from "../repositories/linkRepository";
+import * as todoService from "../services/todoService";
+import { NotFoundError } from "../tools/response";
+import {
+  MAX_PAGE_SIZE,
+  toTodoOutput,
+  toMemoryOutput,
+  formatTodoLine,
+  formatMemoryLine,
+  formatList,
+} from "../tools/schemas";
+import { MarkdownResource } from "./markdownResource";
+
+/**
+ * Format a TODO as Markdown with its description, blockers and timeline
+ */
+function formatTodoAsMarkdown(todo: Todo): string {
+  let markdown = `# TODO ${todo.id}: ${todo.title}\n\n`;
+  markdown += `${formatTodoLine(toTodoOutput(todo))}\n`;
+
+  if (todo.description) {
+    markdown += `\n## Description\n\n${todo.description}\n`;
+  }
+
+  const blockers = relationRepo.getBlockers(todo.id);
+  if (blockers.length > 0) {
+    markdown += "\n## Blocked By\n\n";
+    markdown += `${blockers.map((blocker) => formatTodoLine(toTodoOutput(blocker))).join("\n")}\n`;
+  }
+
+  const timeline = linkRepo.getTodoTimeline(todo.id);
+  markdown += "\n## Timeline\n\n";
+  markdown +=
+    timeline.length > 0
+      ? `${timeline.map((memory) => formatMemoryLine(toMemoryOutput(memory), memory.content)).join("\n")}\n`
+      : "No memories yet.\n";
+
+  return markdown;
+}
+
+export const todoResources: MarkdownResource[] = [
+  {
+    name: "overdue_todos",
+    uri: "todo://overdue",
+    title: "Overdue TODOs",
+    description:
+      "TODOs past their due date that still need work, earliest due first",
+    render: () =>
+      formatList(
+        "# Overdue TODOs",
+        todoService
+          .getOverdueTodos(undefined, { limit: MAX_PAGE_SIZE })
+          .items.map((todo) => formatTodoLine(toTodoOutput(todo))),
+      ),
+  },
+  {
+    name: "todo",
+    uri: "todo://{id}",
+    title: "TODO",
+    description:
+      "A TODO with its description, the TODOs blocking it and the timeline of memories about it, as Markdown",
+    list: () =>
+      todoService
+        .getAllIncompleteTodos(undefined, { limit: MAX_PAGE_SIZE })
+        .items.map((todo) => ({ uri: `todo://${todo.id}`, name: todo.title })),
+    render: ({ id }) => {
+      const todo = /^\d+$/.test(id) ? todoRepo.getTodoById(Number(id)) : null;
+      if (!todo) {
+        throw new NotFoundError(`No TODO found with ID: ${id}`);
+      }
+      return formatTodoAsMarkdown(todo);
+    },
+  },
+];
@@ -0,0 +1,184 @@
+import * as auditRepo from "../repositories/auditRepository";
+import { AuditEntry, AuditSortKey } from "../repositories/auditRepository";
+import { AuditStatus } from "../constants";
+import { isReadOnly } from "../database";
+import { assertWritable } from "../accessControl";
+import { getDefaultNamespace } from "../database/namespace";
+import { formatTimestamp } from "../database/timestamp";
+import { PageOptions } from "../database/pagination";
+import { parseDateRange, DateRangeError } from "../dateRange";
+import { log } from "../logger";
+
+export interface AuditOptions {
+  enabled: boolean;
+  retentionDays: number; // Entries older than this are deleted; 0 keeps them
+  redact: string[]; // Names of arguments whose values are not recorded
+}
+
+export const DEFAULT_AUDIT_OPTIONS: AuditOptions = {
+  enabled: true,
+  retentionDays: 90,
+  redact: [],
+};
+
+// Replaces the value of a redacted argument
+export const REDACTED = "[redacted]";
+
+// Longer string arguments (e.g. imported data) are truncated
+const MAX_STRING_LENGTH = 1000;
+
+// Minimum time between two automatic deletions of old entries
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+let auditOptions: AuditOptions = DEFAULT_AUDIT_OPTIONS;
+let lastPrunedAt = 0;
+
+export function setAuditOptions(options: Partial<AuditOptions>) {
+  auditOptions = { ...DEFAULT_AUDIT_OPTIONS, ...options };
+  lastPrunedAt = 0;
+}
+
+export function getAuditOptions(): AuditOptions {
+  return auditOptions;
+}
+
+export interface ToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+  client?: string; // Client name and version
+  sessionId?: string;
+  error?: string; // Error message if the call failed
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  status?: AuditStatus;
+  sessionId?: string;
+  namespace?: string; // Default: every namespace
+  from?: string; // Date expression starting the range (default: no limit)
+  to?: string; // Date expression ending the range (default: no limit)
+  page?: PageOptions<AuditSortKey>;
+}
+
+/**
+ * Replace the values of redacted arguments, at any depth, and truncate long
+ * strings
+ * @param value Arguments of a tool call
+ * @param redact Names of the arguments to redact
+ */
+export function redactArguments(value: unknown, redact: string[]): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}…(${value.length} characters)`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item, redact));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redact.includes(key) ? REDACTED : redactArguments(item, redact),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Record a tool call in the audit log
+ *
+ * Nothing is recorded when auditing is disabled or the database is read-only.
+ * Old entries are deleted at most once an hour while calls are recorded.
+ * Failing to record is logged rather than failing the call.
+ */
+export function recordToolCall(call: ToolCall) {
+  if (!auditOptions.enabled || isReadOnly()) {
+    return;
+  }
+
+  try {
+    const namespace = call.args.namespace;
+    auditRepo.createAuditEntry({
+      tool: call.tool,
+      arguments: JSON.stringify(
+        redactArguments(call.args, auditOptions.redact),
+      ),
+      namespace:
+        typeof namespace === "string" ? namespace : getDefaultNamespace(),
+      client: call.client ?? null,
+      session_id: call.sessionId ?? null,
+      status: call.error === undefined ? "success" : "error",
+      error: call.error ?? null,
+      duration_ms: Math.round(call.durationMs),
+    });
+
+    if (Date.now() - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      pruneAuditLog();
+    }
+  } catch (error) {
+    log(
+      "warn",
+      `Failed to record the ${call.tool} call in the audit log:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Delete the audit entries older than the retention period
+ * @param now Reference time (default: now)
+ * @returns Number of deleted entries
+ * @throws AccessDeniedError if the server is read-only
+ */
+export function pruneAuditLog(now: Date = new Date()): number {
+  assertWritable("prune the audit log");
+  lastPrunedAt = now.getTime();
+  if (auditOptions.retentionDays <= 0) {
+    return 0;
+  }
+
+  return auditRepo.deleteAuditEntriesBefore(
+    new Date(now.getTime() - auditOptions.retentionDays * 24 * 60 * 60 * 1000),
+  );
+}
+
+/**
+ * Search the audit log
+ * @param query Filters, period and page
+ * @returns Page of entries, newest first by default
+ * @throws DateRangeError if an expression is not understood or the range is empty
+ */
+export function getAuditLog(query: AuditQuery = {}) {
+  const start = query.from ? parseDateRange(query.from).start : undefined;
+  const end = query.to ? parseDateRange(query.to).end : undefined;
+  if (start && end && end <= start) {
+    throw new DateRangeError(
+      `"${query.to}" ends before "${query.from}" starts`,
+    );
+  }
+
+  return auditRepo.searchAuditLog({
+    ...query.page,
+    tool: query.tool,
+    status: query.status,
+    sessionId: query.sessionId,
+    namespace: query.namespace,
+    createdFrom: start,
+    createdBefore: end,
+  });
+}
+
+/**
+ * Format an audit entry as a single list line
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+  const who = [entry.client, entry.session_id && `session ${entry.session_id}`]
+    .filter(Boolean)
+    .join(", ");
+  const status =
+    entry.status === "error" ? `failed: ${entry.error}` : "succeeded";
+  return `- [${entry.id}] ${formatTimestamp(entry.created_at)} ${entry.tool} in ${entry.namespace} ${status} (${entry.duration_ms} ms${who ? `, ${who}` : ""}): ${entry.arguments}`;
+}
@@ -0,0 +1,200 @@
+import { getDatabase } from "../database";
+import * as memoryRepo from "../repositories/memoryRepository";
+import * as linkRepo from "../repositories/linkRepository";
+import * as tagRepo from "../repositories/tagRepository";
+import { Memory } from "../repositories/memoryRepository";
+import {
+  getDisplayTimeZone,
+  normalizeTimeZone,
+  parseTimestamp,
+} from "../database/timestamp";
+import { parseDateRange, getPeriod, DateRangeError } from "../dateRange";
+import { getSummarizer } from "../summarizers";
+import { assertWritable } from "../accessControl";
+import { recordIrreversibleChange } from "./journalService";
+
+export const CONSOLIDATION_GROUPINGS = ["day", "week", "tag"] as const;
+export type ConsolidationGrouping = (typeof CONSOLIDATION_GROUPINGS)[number];
+
+// Tag added to every digest memory
+export const DIGEST_TAG = "digest";
+
+export interface ConsolidationOptions {
+  groupBy?: ConsolidationGrouping; // Default: "day"
+  from?: string; // Date expression starting the range (default: no limit)
+  to?: string; // Date expression ending the range (default: up to yesterday)
+  tags?: string[]; // Only consolidate memories that have all of these tags
+  minGroupSize?: number; // Smallest group that gets a digest (default: 2)
+  archive?: boolean; // Archive the consolidated memories (default: false)
+  dryRun?: boolean; // Build the digests without saving anything
+  timeZone?: string; // Calendar of day and week groups (default: display time zone)
+  namespace?: string; // Defaults to the server's namespace
+  now?: Date; // Reference time for relative expressions (default: now)
+}
+
+export interface DigestGroup {
+  key: string; // Day, Monday of the week or tag the memories share
+  source_ids: number[]; // Consolidated memories, oldest first
+  content: string; // Content of the digest memory
+  created_at: string; // Date of the digest: that of the newest source
+  digest_id: number | null; // null in a dry run
+}
+
+export interface ConsolidationResult {
+  groups: DigestGroup[];
+  archived: number; // Memories that were archived
+}
+
+/**
+ * Group memories by the day or week they were created, or by tag
+ *
+ * A memory with several tags joins the group of the tag most of the memories
+ * share, so that each memory is consolidated once. Untagged memories are left
+ * alone when grouping by tag.
+ */
+function groupMemories(
+  memories: Memory[],
+  groupBy: ConsolidationGrouping,
+  timeZone: string,
+): Map<string, Memory[]> {
+  const tagsById = new Map<number, string[]>();
+  const tagCounts = new Map<string, number>();
+  if (groupBy === "tag") {
+    for (const memory of memories) {
+      const tags = tagRepo.getTags("memory", memory.id);
+      tagsById.set(memory.id, tags);
+      tags.forEach((tag) => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1));
+    }
+  }
+  const mostCommonTag = (tags: string[]) =>
+    [...tags].sort(
+      (a, b) => tagCounts.get(b)! - tagCounts.get(a)! || a.localeCompare(b),
+    )[0];
+
+  const groups = new Map<string, Memory[]>();
+  for (const memory of memories) {
+    const key =
+      groupBy === "tag"
+        ? mostCommonTag(tagsById.get(memory.id)!)
+        : getPeriod(parseTimestamp(memory.created_at)!, groupBy, timeZone)
+            .label;
+    if (key === undefined) {
+      continue;
+    }
+    groups.set(key, [...(groups.get(key) ?? []), memory]);
+  }
+  return groups;
+}
+
+/**
+ * Consolidate memories into digest memories
+ *
+ * Memories are grouped by day, week or tag, and each group with enough
+ * memories is condensed by the configured summarizer into a digest memory.
+ * The digest takes the tags and TODO links of its sources, is dated like the
+ * newest of them so it keeps their place in the timeline, and is linked to
+ * each source with the "summarizes" relation. Archived memories and existing
+ * digests are never consolidated again.
+ * @param options Grouping, range, archiving and namespace
+ * @returns The digests that were created (or would be, in a dry run)
+ * @throws DateRangeError if an expression is not understood or the range is empty
+ * @throws AccessDeniedError if the server is read-only or the tool is denied, and this is not a dry run
+ */
+export async function consolidateMemories(
+  options: ConsolidationOptions = {},
+): Promise<ConsolidationResult> {
+  if (!options.dryRun) {
+    assertWritable("consolidate memories", "consolidate_memories");
+  }
+  const groupBy = options.groupBy ?? "day";
+  const minGroupSize = Math.max(2, options.minGroupSize ?? 2);
+  const now = options.now ?? new Date();
+  const timeZone = normalizeTimeZone(options.timeZone ?? getDisplayTimeZone());
+  const rangeOptions = { now, timeZone };
+
+  const start = options.from
+    ? parseDateRange(options.from, rangeOptions).start
+    : undefined;
+  // Today's memories are still being written, so leave them by default
+  const end = options.to
+    ? parseDateRange(options.to, rangeOptions).end
+    : parseDateRange("today", rangeOptions).start;
+  if (start && end <= start) {
+    throw new DateRangeError(
+      `"${options.to ?? "today"}" ends before "${options.from}" starts`,
+    );
+  }
+
+  const memories = memoryRepo.getConsolidationCandidates({
+    createdFrom: start,
+    createdBefore: end,
+    tags: options.tags,
+    namespace: options.namespace,
+  });
+
+  const summarizer = getSummarizer();
+  const groups: DigestGroup[] = [];
+  for (const [key, sources] of groupMemories(memories, groupBy, timeZone)) {
+    if (sources.length < minGroupSize) {
+      continue;
+    }
+    const heading =
+      groupBy === "tag"
+        ? `Digest of ${sources.length} memories tagged #${key}`
+        : `Digest of ${sources.length} memories from ${groupBy === "week" ? "the week of " : ""}${key}`;
+    const summary = await summarizer.summarize(
+      sources.map((memory) => memory.content),
+    );
+    groups.push({
+      key,
+      source_ids: sources.map((memory) => memory.id),
+      content: `${heading}:\n\n${summary}`,
+      created_at: sources[sources.length - 1].created_at,
+      digest_id: null,
+    });
+  }
+
+  if (options.dryRun) {
+    return { groups, archived: 0 };
+  }
+
+  let archived = 0;
+  getDatabase().transaction(() => {
+    for (const group of groups) {
+      const tags = new Set<string>([DIGEST_TAG]);
+      const todoIds = new Set<number>();
+      for (const id of group.source_ids) {
+        tagRepo.getTags("memory", id).forEach((tag) => tags.add(tag));
+        linkRepo.getLinkedTodoIds(id).forEach((todoId) => todoIds.add(todoId));
+      }
+
+      group.digest_id = memoryRepo.createMemory({
+        content: group.content,
+        tags: [...tags],
+        todo_ids: [...todoIds],
+        namespace: options.namespace,
+        created_at: group.created_at,
+      });
+      for (const id of group.source_ids) {
+        linkRepo.linkMemories(group.digest_id, id, "summarizes");
+      }
+
+      if (options.archive) {
+        archived += memoryRepo.setMemoriesArchived(
+          group.source_ids,
+          true,
+          options.namespace,
+        );
+      }
+    }
+
+    if (groups.length > 0) {
+      recordIrreversibleChange(
+        `Consolidated memories into ${groups.length} digests`,
+        options.namespace,
+      );
+    }
+  })();
+
+  return { groups, archived };
+}
@@ -0,0 +1,154 @@
+import * as embeddingRepo from "../repositories/embeddingRepository";
+import * as memoryRepo from "../repositories/memoryRepository";
+import { Memory } from "../repositories/memoryRepository";
+import { getEmbeddingProvider } from "../embeddings";
+import { isReadOnly } from "../database";
+
+export type SemanticSearchMode = "semantic" | "hybrid";
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  mode?: SemanticSearchMode;
+  semanticWeight?: number; // Weight of the semantic score in hybrid mode (0-1)
+  namespace?: string;
+}
+
+export interface SemanticSearchResult extends Memory {
+  similarity: number; // Cosine similarity to the query (-1 to 1)
+  keyword_score: number | null; // Normalized keyword relevance (0-1), hybrid mode only
+  score: number; // Final score used for ordering
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Compute embeddings for memories that do not have one yet
+ * @param batchSize Number of memories embedded per provider call
+ * @returns Number of memories that were embedded
+ */
+export async function indexMemoryEmbeddings(
+  batchSize: number = 64,
+): Promise<number> {
+  const provider = getEmbeddingProvider();
+  let indexed = 0;
+
+  for (;;) {
+    const memories = embeddingRepo.getMemoriesWithoutEmbedding(
+      provider.id,
+      batchSize,
+    );
+    if (memories.length === 0) {
+      break;
+    }
+
+    const vectors = await provider.embed(
+      memories.map((memory) => memory.content),
+    );
+    memories.forEach((memory, index) => {
+      embeddingRepo.saveEmbedding(memory.id, provider.id, vectors[index]);
+    });
+    indexed += memories.length;
+  }
+
+  return indexed;
+}
+
+/**
+ * Find the memories most similar in meaning to a query
+ *
+ * In hybrid mode the semantic similarity is blended with the normalized BM25
+ * score from the full-text search, so exact keyword matches rank higher.
+ * @param query Natural language query
+ * @param options Number of results, search mode and hybrid weighting
+ * @returns Memories ordered by score, highest first
+ */
+export async function semanticSearchMemories(
+  query: string,
+  options: SemanticSearchOptions = {},
+): Promise<SemanticSearchResult[]> {
+  const limit = options.limit ?? 10;
+  const mode = options.mode ?? "semantic";
+  const semanticWeight = Math.min(
+    1,
+    Math.max(0, options.semanticWeight ?? 0.5),
+  );
+  const provider = getEmbeddingProvider();
+
+  // Make sure memories created since the last search can be found (a
+  // read-only database only finds the memories indexed before)
+  if (!isReadOnly()) {
+    await indexMemoryEmbeddings();
+  }
+
+  const [queryVector] = await provider.embed([query]);
+  const similarities = new Map<number, number>();
+  for (const embedding of embeddingRepo.getEmbeddings(
+    provider.id,
+    options.namespace,
+  )) {
+    similarities.set(
+      embedding.memory_id,
+      cosineSimilarity(queryVector, embedding.vector),
+    );
+  }
+
+  const keywordScores = new Map<number, number>();
+  if (mode === "hybrid") {
+    const matches = memoryRepo.searchMemories(query, {
+      namespace: options.namespace,
+    }).items;
+    // BM25 scores are negative; the best match has the lowest score
+    const bestRank = Math.min(...matches.map((match) => match.rank ?? 0));
+    for (const match of matches) {
+      keywordScores.set(
+        match.id,
+        match.rank !== null && bestRank < 0 ? match.rank / bestRank : 1,
+      );
+    }
+  }
+
+  const scored = [...similarities].map(([memoryId, similarity]) => {
+    const keywordScore =
+      mode === "hybrid" ? keywordScores.get(memoryId) || 0 : null;
+    const score =
+      keywordScore === null
+        ? similarity
+        : semanticWeight * similarity + (1 - semanticWeight) * keywordScore;
+    return { memoryId, similarity, keywordScore, score };
+  });
+
+  scored.sort((a, b) => b.score - a.score || b.memoryId - a.memoryId);
+
+  const results: SemanticSearchResult[] = [];
+  for (const entry of scored.slice(0, limit)) {
+    const memory = memoryRepo.getMemoryById(entry.memoryId, options.namespace);
+    if (memory) {
+      results.push({
+        ...memory,
+        similarity: entry.similarity,
+        keyword_score: entry.keywordScore,
+        score: entry.score,
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,662 @@
+import { z } from "zod";
+import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+import { parseTimestamp, toSqliteTimestamp } from "../database/timestamp";
+import * as memoryRepo from "../repositories/memoryRepository";
+import {
+  MIN_IMPORTANCE,
+  MAX_IMPORTANCE,
+} from "../repositories/memoryRepository";
+import * as todoRepo from "../repositories/todoRepository";
+import {
+  TodoStatus,
+  TodoPriority,
+  TODO_STATUSES,
+  TODO_PRIORITIES,
+} from "../repositories/todoRepository";
+import * as tagRepo from "../repositories/tagRepository";
+import * as relationRepo from "../repositories/todoRelationRepository";
+import * as linkRepo from "../repositories/linkRepository";
+import {
+  MEMORY_RELATIONS,
+  MemoryRelation,
+} from "../repositories/linkRepository";
+import * as namespaceRepo from "../repositories/namespaceRepository";
+import { normalizeRecurrence } from "../recurrence";
+import { ExportFormat, ImportFormat } from "../constants";
+import { assertWritable } from "../accessControl";
+import { recordIrreversibleChange } from "./journalService";
+
+// Identifies export files and the version of their layout
+const EXPORT_FORMAT_NAME = "tiny-memory-export";
+const EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportedMemory {
+  id: number;
+  content: string;
+  created_at: string;
+  updated_at: string | null;
+  archived_at: string | null;
+  importance: number;
+  pinned: boolean;
+  namespace: string;
+  tags: string[];
+  todo_ids: number[]; // TODOs the memory is about
+  links: { to_id: number; relation: MemoryRelation }[]; // Links to other memories
+}
+
+export interface ExportedTodo {
+  id: number;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  completed: boolean;
+  completed_at: string | null;
+  status: TodoStatus;
+  priority: TodoPriority;
+  created_at: string;
+  namespace: string;
+  tags: string[];
+  recurrence: string | null;
+  previous_todo_id: number | null;
+  parent_id: number | null;
+  blocked_by: number[];
+}
+
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT_NAME;
+  version: number;
+  exported_at: string;
+  namespaces: string[];
+  memories: ExportedMemory[];
+  todos: ExportedTodo[];
+}
+
+export interface ExportOptions {
+  format?: ExportFormat; // Defaults to json
+  namespace?: string; // Namespace to export (defaults to the server's namespace)
+  allNamespaces?: boolean; // Export every namespace instead of one
+}
+
+export interface ImportOptions {
+  format?: ImportFormat; // Detected from the data if omitted
+  namespace?: string; // Import everything into this namespace instead of each item's own
+  dryRun?: boolean; // Only report what would be imported
+}
+
+export interface ImportCounts {
+  total: number;
+  imported: number;
+  duplicates: number;
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  memories: ImportCounts;
+  todos: ImportCounts;
+  // Old ID -> new ID of every imported item (empty for a dry run)
+  id_map: {
+    memories: Record<number, number>;
+    todos: Record<number, number>;
+  };
+  // Items skipped because they already exist (existing_id is null for
+  // duplicates within the imported data itself)
+  duplicates: {
+    type: "memory" | "todo";
+    id: number;
+    existing_id: number | null;
+  }[];
+}
+
+/**
+ * Error thrown when import data cannot be read
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// Timestamps are stored in the SQLite format whatever format the file uses
+const TimestampSchema = z.string().transform((value, ctx) => {
+  const date = parseTimestamp(value);
+  if (!date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid timestamp: ${value}`,
+    });
+    return z.NEVER;
+  }
+  return toSqliteTimestamp(date);
+});
+
+const ImportedMemorySchema = z.object({
+  id: z.number().int(),
+  content: z.string().min(1),
+  created_at: TimestampSchema,
+  updated_at: TimestampSchema.nullable().optional(),
+  archived_at: TimestampSchema.nullable().optional(),
+  importance: z
+    .number()
+    .int()
+    .min(MIN_IMPORTANCE)
+    .max(MAX_IMPORTANCE)
+    .optional(),
+  pinned: z.boolean().optional(),
+  namespace: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  todo_ids: z.array(z.number().int()).default([]),
+  links: z
+    .array(
+      z.object({
+        to_id: z.number().int(),
+        relation: z.enum(MEMORY_RELATIONS),
+      }),
+    )
+    .default([]),
+});
+
+const ImportedTodoSchema = z.object({
+  id: z.number().int(),
+  title: z.string().min(1),
+  description: z.string().nullable().optional(),
+  due_date: z
+    .string()
+    .nullable()
+    .optional()
+    .refine((value) => !value || parseTimestamp(value) !== null, {
+      message: "Invalid due date",
+    }),
+  completed: z.union([z.boolean(), z.number()]).optional(),
+  completed_at: TimestampSchema.nullable().optional(),
+  status: z.enum(TODO_STATUSES).optional(),
+  priority: z.enum(TODO_PRIORITIES).optional(),
+  created_at: TimestampSchema,
+  namespace: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  recurrence: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) {
+        return null;
+      }
+      try {
+        return normalizeRecurrence(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return z.NEVER;
+      }
+    }),
+  previous_todo_id: z.number().int().nullable().optional(),
+  parent_id: z.number().int().nullable().optional(),
+  blocked_by: z.array(z.number().int()).default([]),
+});
+
+const HeaderSchema = z.object({
+  format: z.literal(EXPORT_FORMAT_NAME),
+  version: z
+    .number()
+    .int()
+    .max(EXPORT_FORMAT_VERSION, "Export was created by a newer version"),
+});
+
+const ImportDocumentSchema = HeaderSchema.extend({
+  memories: z.array(ImportedMemorySchema).default([]),
+  todos: z.array(ImportedTodoSchema).default([]),
+});
+
+type ImportedMemory = z.infer<typeof ImportedMemorySchema>;
+type ImportedTodo = z.infer<typeof ImportedTodoSchema>;
+
+/**
+ * Collect the memories and TODOs to export
+ * @param options Namespace selection
+ * @returns Export document with items sorted from oldest to newest
+ */
+export function getExportDocument(
+  options: Omit<ExportOptions, "format"> = {},
+): ExportDocument {
+  const namespaces = options.allNamespaces
+    ? namespaceRepo.getNamespacesWithUsage().map((usage) => usage.namespace)
+    : [resolveNamespace(options.namespace)];
+
+  const byCreation = (
+    a: { created_at: string; id: number },
+    b: { created_at: string; id: number },
+  ) => a.created_at.localeCompare(b.created_at) || a.id - b.id;
+
+  const memories = namespaces
+    .flatMap((namespace) => memoryRepo.getAllMemories(namespace))
+    .sort(byCreation)
+    .map((memory) => ({
+      id: memory.id,
+      content: memory.content,
+      created_at: memory.created_at,
+      updated_at: memory.updated_at ?? null,
+      archived_at: memory.archived_at ?? null,
+      importance: memory.importance,
+      pinned: Boolean(memory.pinned),
+      namespace: memory.namespace,
+      tags: tagRepo.getTags("memory", memory.id),
+      todo_ids: linkRepo.getLinkedTodoIds(memory.id),
+      links: linkRepo
+        .getMemoryLinks(memory.id)
+        .filter((link) => link.from_id === memory.id)
+        .map((link) => ({ to_id: link.to_id, relation: link.relation })),
+    }));
+
+  const todos = namespaces
+    .flatMap((namespace) => todoRepo.getAllTodos(namespace))
+    .sort(byCreation)
+    .map((todo) => ({
+      id: todo.id,
+      title: todo.title,
+      description: todo.description ?? null,
+      due_date: todo.due_date ?? null,
+      completed: Boolean(todo.completed),
+      completed_at: todo.completed_at ?? null,
+      status: todo.status,
+      priority: todo.priority,
+      created_at: todo.created_at,
+      namespace: todo.namespace,
+      tags: tagRepo.getTags("todo", todo.id),
+      recurrence: todo.recurrence ?? null,
+      previous_todo_id: todo.previous_todo_id ?? null,
+      parent_id: todo.parent_id ?? null,
+      blocked_by: relationRepo
+        .getBlockers(todo.id)
+        .map((blocker) => blocker.id),
+    }));
+
+  return {
+    format: EXPORT_FORMAT_NAME,
+    version: EXPORT_FORMAT_VERSION,
+    exported_at: toSqliteTimestamp(new Date()),
+    namespaces,
+    memories,
+    todos,
+  };
+}
+
+/**
+ * Export memories and TODOs
+ *
+ * JSON and JSONL keep everything needed to import the data again. The
+ * Markdown journal is meant for reading and cannot be imported.
+ * @param options Output format and namespace selection
+ * @returns The exported data
+ */
+export function exportData(options: ExportOptions = {}): string {
+  return formatExport(getExportDocument(options), options.format ?? "json");
+}
+
+/**
+ * Serialize an export document in the given format
+ */
+export function formatExport(
+  document: ExportDocument,
+  format: ExportFormat,
+): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(document, null, 2)}\n`;
+    case "jsonl": {
+      const { memories, todos, ...header } = document;
+      const lines = [
+        { type: "header", ...header },
+        ...memories.map((memory) => ({ type: "memory", ...memory })),
+        ...todos.map((todo) => ({ type: "todo", ...todo })),
+      ];
+      return lines.map((line) => `${JSON.stringify(line)}\n`).join("");
+    }
+    case "markdown":
+      return formatJournal(document);
+  }
+}
+
+/**
+ * Format an export as a Markdown journal grouped by day
+ */
+function formatJournal(document: ExportDocument): string {
+  const showNamespace = document.namespaces.length > 1;
+  const entries = [
+    ...document.memories.map((memory) => ({
+      created_at: memory.created_at,
+      heading: `Memory #${memory.id}`,
+      body: memory.content,
+      namespace: memory.namespace,
+      tags: memory.tags,
+    })),
+    ...document.todos.map((todo) => ({
+      created_at: todo.created_at,
+      heading: `TODO #${todo.id} [${todo.completed ? "x" : " "}] ${todo.title}${
+        todo.due_date ? ` (due ${todo.due_date.slice(0, 10)})` : ""
+      }`,
+      body: todo.description ?? "",
+      namespace: todo.namespace,
+      tags: todo.tags,
+    })),
+  ].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  let markdown = "# Tiny Memory Journal\n\n";
+  markdown += `Exported ${document.exported_at} UTC from ${document.namespaces.join(", ") || "(no namespaces)"}: `;
+  markdown += `${document.memories.length} memories, ${document.todos.length} TODOs\n`;
+
+  let currentDay = "";
+  for (const entry of entries) {
+    const day = entry.created_at.slice(0, 10);
+    if (day !== currentDay) {
+      markdown += `\n## ${day}\n\n`;
+      currentDay = day;
+    }
+
+    const labels = [
+      ...(showNamespace ? [`@${entry.namespace}`] : []),
+      ...entry.tags.map((tag) => `#${tag}`),
+    ];
+    markdown += `- **${entry.created_at.slice(11, 16)}** ${entry.heading}`;
+    markdown +=
+      labels.length > 0
+        ? ` ${labels.map((l) => `\`${l}\``).join(" ")}\n`
+        : "\n";
+
+    for (const line of entry.body.split("\n").filter((line) => line.trim())) {
+      markdown += `  ${line}\n`;
+    }
+  }
+
+  return markdown;
+}
+
+/**
+ * Describe the first validation problems of a zod error
+ */
+function describeIssues(error: z.ZodError, location: string): string {
+  return error.issues
+    .slice(0, 5)
+    .map(
+      (issue) =>
+        `${location}${issue.path.length > 0 ? `.${issue.path.join(".")}` : ""}: ${issue.message}`,
+    )
+    .join("; ");
+}
+
+/**
+ * Read and validate exported data
+ * @param text JSON or JSONL export
+ * @param format Format of the text, detected if omitted
+ * @returns The memories and TODOs in the data
+ */
+export function parseImportData(
+  text: string,
+  format?: ImportFormat,
+): { memories: ImportedMemory[]; todos: ImportedTodo[] } {
+  let json: unknown;
+  if (format !== "jsonl") {
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      if (format === "json") {
+        throw new ImportError(
+          `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+  }
+
+  // A single JSON document that is not a JSONL record
+  if (
+    json !== undefined &&
+    !(typeof json === "object" && json && "type" in json)
+  ) {
+    const result = ImportDocumentSchema.safeParse(json);
+    if (!result.success) {
+      throw new ImportError(
+        `Invalid export data: ${describeIssues(result.error, "data")}`,
+      );
+    }
+    return { memories: result.data.memories, todos: result.data.todos };
+  }
+
+  const memories: ImportedMemory[] = [];
+  const todos: ImportedTodo[] = [];
+
+  text.split("\n").forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    const location = `line ${index + 1}`;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new ImportError(`Invalid JSON on ${location}`);
+    }
+
+    const { type, ...fields } = record ?? {};
+    const schema =
+      type === "header"
+        ? HeaderSchema
+        : type === "memory"
+          ? ImportedMemorySchema
+          : type === "todo"
+            ? ImportedTodoSchema
+            : null;
+    if (!schema) {
+      throw new ImportError(`Unknown record type on ${location}: ${type}`);
+    }
+
+    const result = schema.safeParse(fields);
+    if (!result.success) {
+      throw new ImportError(
+        `Invalid export data: ${describeIssues(result.error, location)}`,
+      );
+    }
+
+    if (type === "memory") {
+      memories.push(result.data as ImportedMemory);
+    } else if (type === "todo") {
+      todos.push(result.data as ImportedTodo);
+    }
+  });
+
+  return { memories, todos };
+}
+
+/**
+ * Import exported memories and TODOs
+ *
+ * Items get new IDs; the report maps the exported IDs to the new ones. An
+ * item is a duplicate, and skipped, if its namespace already contains an item
+ * with the same content (memories) or title (TODOs) and creation time. The
+ * import runs in one transaction, so invalid data imports nothing.
+ * @param text JSON or JSONL export
+ * @param options Format, target namespace and dry-run mode
+ * @returns Report of imported and skipped items
+ * @throws AccessDeniedError if the server is read-only or the tool is denied, and this is not a dry run
+ */
+export function importData(
+  text: string,
+  options: ImportOptions = {},
+): ImportReport {
+  const dryRun = options.dryRun ?? false;
+  if (!dryRun) {
+    assertWritable("import data", "import_data");
+  }
+  const { memories, todos } = parseImportData(text, options.format);
+  const report: ImportReport = {
+    dry_run: dryRun,
+    memories: { total: memories.length, imported: 0, duplicates: 0 },
+    todos: { total: todos.length, imported: 0, duplicates: 0 },
+    id_map: { memories: {}, todos: {} },
+    duplicates: [],
+  };
+
+  // Namespace of an item, validated before anything is written
+  const targetNamespace = (namespace?: string) =>
+    resolveNamespace(options.namespace ?? namespace);
+
+  // Keys of the items seen so far, to catch duplicates within the data
+  const seen = new Set<string>();
+  // Namespaces that items were imported into
+  const changedNamespaces = new Set<string>();
+
+  const db = getDatabase();
+  db.transaction(() => {
+    for (const memory of memories) {
+      const namespace = targetNamespace(memory.namespace);
+      const key = JSON.stringify([
+        "memory",
+        namespace,
+        memory.content,
+        memory.created_at,
+      ]);
+      // Items imported earlier in this run count as duplicates within the data
+      const existing = seen.has(key)
+        ? null
+        : memoryRepo.findDuplicateMemory(
+            memory.content,
+            memory.created_at,
+            namespace,
+          );
+
+      if (existing || seen.has(key)) {
+        report.memories.duplicates++;
+        report.duplicates.push({
+          type: "memory",
+          id: memory.id,
+          existing_id: existing ? existing.id : null,
+        });
+        continue;
+      }
+      seen.add(key);
+
+      report.memories.imported++;
+      if (!dryRun) {
+        changedNamespaces.add(namespace);
+        report.id_map.memories[memory.id] = memoryRepo.createMemory({
+          content: memory.content,
+          tags: memory.tags,
+          namespace,
+          created_at: memory.created_at,
+          updated_at: memory.updated_at,
+          archived_at: memory.archived_at,
+          importance: memory.importance,
+          pinned: memory.pinned,
+        });
+      }
+    }
+
+    for (const todo of todos) {
+      const namespace = targetNamespace(todo.namespace);
+      const key = JSON.stringify([
+        "todo",
+        namespace,
+        todo.title,
+        todo.created_at,
+      ]);
+      // Items imported earlier in this run count as duplicates within the data
+      const existing = seen.has(key)
+        ? null
+        : todoRepo.findDuplicateTodo(todo.title, todo.created_at, namespace);
+
+      if (existing || seen.has(key)) {
+        report.todos.duplicates++;
+        report.duplicates.push({
+          type: "todo",
+          id: todo.id,
+          existing_id: existing ? existing.id : null,
+        });
+        continue;
+      }
+      seen.add(key);
+
+      report.todos.imported++;
+      if (!dryRun) {
+        changedNamespaces.add(namespace);
+        report.id_map.todos[todo.id] = todoRepo.createTodo({
+          title: todo.title,
+          description: todo.description ?? undefined,
+          due_date: todo.due_date ? parseTimestamp(todo.due_date)! : undefined,
+          tags: todo.tags,
+          namespace,
+          completed: Boolean(todo.completed),
+          completed_at: todo.completed_at,
+          status: todo.status,
+          priority: todo.priority,
+          created_at: todo.created_at,
+          recurrence: todo.recurrence,
+          // Earlier occurrences are exported first, so they are already mapped
+          previous_todo_id:
+            todo.previous_todo_id != null
+              ? (report.id_map.todos[todo.previous_todo_id] ?? null)
+              : null,
+        });
+      }
+    }
+
+    // Subtasks and dependencies can point to any TODO, so they are linked
+    // once every TODO has been created. Links to TODOs that were not
+    // imported, and links that would form a cycle, are dropped.
+    for (const todo of todos) {
+      const id = report.id_map.todos[todo.id];
+      if (id === undefined) {
+        continue;
+      }
+
+      const parentId =
+        todo.parent_id != null ? report.id_map.todos[todo.parent_id] : null;
+      if (parentId != null && !relationRepo.isInSubtree(id, parentId)) {
+        relationRepo.setParent(id, parentId, targetNamespace(todo.namespace));
+      }
+
+      for (const blockerId of todo.blocked_by) {
+        const dependsOnId = report.id_map.todos[blockerId];
+        if (
+          dependsOnId !== undefined &&
+          dependsOnId !== id &&
+          !relationRepo.dependsOn(dependsOnId, id)
+        ) {
+          relationRepo.addDependency(id, dependsOnId);
+        }
+      }
+    }
+
+    // Links from memories are restored once every item has been created
+    for (const memory of memories) {
+      const id = report.id_map.memories[memory.id];
+      if (id === undefined) {
+        continue;
+      }
+
+      for (const todoId of memory.todo_ids) {
+        if (report.id_map.todos[todoId] !== undefined) {
+          linkRepo.linkMemoryToTodo(id, report.id_map.todos[todoId]);
+        }
+      }
+
+      for (const link of memory.links) {
+        const toId = report.id_map.memories[link.to_id];
+        if (toId !== undefined && toId !== id) {
+          linkRepo.linkMemories(id, toId, link.relation);
+        }
+      }
+    }
+
+    for (const namespace of changedNamespaces) {
+      recordIrreversibleChange(
+        `Imported ${report.memories.imported} memories and ${report.todos.imported} TODOs`,
+        namespace,
+      );
+    }
+  })();
+
+  return report;
+}
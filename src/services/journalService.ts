@@ -0,0 +1,169 @@
+import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+import * as journalRepo from "../repositories/journalRepository";
+import * as trashRepo from "../repositories/trashRepository";
+import * as memoryRepo from "../repositories/memoryRepository";
+import * as todoRepo from "../repositories/todoRepository";
+import * as relationRepo from "../repositories/todoRelationRepository";
+import { TrashItemType } from "../repositories/trashRepository";
+import { Todo, TodoState } from "../repositories/todoRepository";
+import { assertWritable } from "../accessControl";
+
+/**
+ * One step reverting part of a change
+ */
+export type UndoStep =
+  | { action: "restore"; type: TrashItemType; id: number } // Reverts a deletion
+  | { action: "trash"; type: TrashItemType; id: number } // Reverts a creation
+  | {
+      action: "revert_memory"; // Reverts an edit
+      id: number;
+      content: string;
+      updated_at: string | null;
+    }
+  | { action: "revert_todo"; id: number; state: TodoState } // Reverts an update
+  | { action: "add_dependency"; id: number; blocker_id: number } // Reverts a removal
+  | { action: "remove_dependency"; id: number; blocker_id: number }; // Reverts an addition
+
+/**
+ * Error for a change that cannot be undone
+ */
+export class UndoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UndoError";
+  }
+}
+
+export interface UndoResult {
+  id: number; // ID of the journal entry
+  description: string;
+  created_at: string; // When the change was made
+  reverted: number; // Steps that were applied
+  skipped: number; // Steps whose item no longer exists (e.g. the trash was emptied)
+}
+
+/**
+ * Get the fields of a TODO that an update can be reverted to
+ */
+export function getTodoState(todo: Todo): TodoState {
+  return {
+    title: todo.title,
+    description: todo.description,
+    due_date: todo.due_date,
+    status: todo.status,
+    priority: todo.priority,
+    parent_id: todo.parent_id,
+    completed_at: todo.completed_at,
+    recurrence: todo.recurrence,
+  };
+}
+
+/**
+ * Record a change in the journal so that it can be undone
+ * @param description What the change did
+ * @param steps Steps reverting the change, in the order the change was made;
+ * undoing applies them last first
+ * @param namespace Namespace (defaults to the server's namespace)
+ */
+export function recordChange(
+  description: string,
+  steps: UndoStep[],
+  namespace?: string,
+) {
+  if (steps.length === 0) {
+    return;
+  }
+  journalRepo.createJournalEntry(description, JSON.stringify(steps), namespace);
+}
+
+/**
+ * Record a change that the journal cannot revert, such as a tag change
+ *
+ * Undo stops at this change instead of skipping it and reverting the changes
+ * made before it.
+ * @param description What the change did
+ * @param namespace Namespace (defaults to the server's namespace), or null for
+ * a change to every namespace
+ */
+export function recordIrreversibleChange(
+  description: string,
+  namespace?: string | null,
+) {
+  const namespaces =
+    namespace === null ? journalRepo.getJournalNamespaces() : [namespace];
+  for (const scope of namespaces) {
+    journalRepo.createJournalEntry(description, JSON.stringify(null), scope);
+  }
+}
+
+/**
+ * Apply one undo step
+ * @returns Whether the item the step applies to still exists
+ */
+function applyStep(step: UndoStep, namespace: string): boolean {
+  switch (step.action) {
+    case "restore":
+      return trashRepo.restoreItem(step.type, step.id, namespace);
+    case "trash":
+      return trashRepo.trashItem(step.type, step.id, namespace);
+    case "revert_memory":
+      return memoryRepo.revertMemoryContent(
+        step.id,
+        step.content,
+        step.updated_at,
+      );
+    case "revert_todo":
+      return todoRepo.revertTodo(step.id, step.state);
+    case "add_dependency":
+      return relationRepo.addDependency(step.id, step.blocker_id);
+    case "remove_dependency":
+      return relationRepo.removeDependency(step.id, step.blocker_id);
+  }
+}
+
+/**
+ * Undo the latest change of a namespace that has not been undone yet
+ *
+ * Creations, updates, deletions and restorations of memories and TODOs are
+ * journaled; repeated calls go further back. Steps whose item no longer
+ * exists, or has since been deleted, are skipped. Undo stops at a change that
+ * cannot be reverted (see recordIrreversibleChange).
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns What was undone, or null if there is nothing to undo
+ * @throws AccessDeniedError if the server is read-only or the tool is denied
+ * @throws UndoError if the latest change cannot be undone
+ */
+export function undoLastChange(namespace?: string): UndoResult | null {
+  assertWritable("undo a change", "undo_last_change");
+  const scope = resolveNamespace(namespace);
+
+  return getDatabase().transaction(() => {
+    const entry = journalRepo.getLastJournalEntry(scope);
+    if (!entry) {
+      return null;
+    }
+
+    const steps = JSON.parse(entry.undo_steps) as UndoStep[] | null;
+    if (!steps) {
+      throw new UndoError(
+        `Cannot undo "${entry.description}" (${entry.created_at}): this change is not journaled, so neither it nor the changes before it can be undone`,
+      );
+    }
+    let reverted = 0;
+    for (const step of [...steps].reverse()) {
+      if (applyStep(step, scope)) {
+        reverted++;
+      }
+    }
+    journalRepo.markJournalEntryUndone(entry.id);
+
+    return {
+      id: entry.id,
+      description: entry.description,
+      created_at: entry.created_at,
+      reverted,
+      skipped: steps.length - reverted,
+    };
+  })();
+}
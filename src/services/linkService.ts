@@ -0,0 +1,108 @@
+import { getDatabase } from "../database";
+import * as linkRepo from "../repositories/linkRepository";
+import { MemoryRelation } from "../repositories/linkRepository";
+import { assertWritable } from "../accessControl";
+import { recordIrreversibleChange } from "./journalService";
+
+/**
+ * Link a memory to a TODO it is about
+ * @param memoryId ID of the memory, which must exist in the namespace
+ * @param todoId ID of the TODO, which must exist in the namespace
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns false if the link already existed
+ */
+export function linkMemoryToTodo(
+  memoryId: number,
+  todoId: number,
+  namespace?: string,
+): boolean {
+  assertWritable("link a memory to a TODO", "link_memory_to_todo");
+
+  return getDatabase().transaction(() => {
+    if (!linkRepo.linkMemoryToTodo(memoryId, todoId)) {
+      return false;
+    }
+    recordIrreversibleChange(
+      `Linked memory ${memoryId} to TODO ${todoId}`,
+      namespace,
+    );
+    return true;
+  })();
+}
+
+/**
+ * Remove the link between a memory and a TODO
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns false if there was no such link
+ */
+export function unlinkMemoryFromTodo(
+  memoryId: number,
+  todoId: number,
+  namespace?: string,
+): boolean {
+  assertWritable("unlink a memory from a TODO", "unlink_memory_from_todo");
+
+  return getDatabase().transaction(() => {
+    if (!linkRepo.unlinkMemoryFromTodo(memoryId, todoId)) {
+      return false;
+    }
+    recordIrreversibleChange(
+      `Unlinked memory ${memoryId} from TODO ${todoId}`,
+      namespace,
+    );
+    return true;
+  })();
+}
+
+/**
+ * Link two memories with a relation
+ * @param fromId ID of the memory the link starts from
+ * @param toId ID of the memory the link points to
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns false if the link already existed
+ */
+export function linkMemories(
+  fromId: number,
+  toId: number,
+  relation: MemoryRelation,
+  namespace?: string,
+): boolean {
+  assertWritable("link memories", "link_memories");
+
+  return getDatabase().transaction(() => {
+    if (!linkRepo.linkMemories(fromId, toId, relation)) {
+      return false;
+    }
+    recordIrreversibleChange(
+      `Linked memory ${fromId} to memory ${toId} (${relation})`,
+      namespace,
+    );
+    return true;
+  })();
+}
+
+/**
+ * Remove the links from one memory to another
+ * @param relation Only remove links with this relation (default: all)
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Number of links that were removed
+ */
+export function unlinkMemories(
+  fromId: number,
+  toId: number,
+  relation?: MemoryRelation,
+  namespace?: string,
+): number {
+  assertWritable("unlink memories", "unlink_memories");
+
+  return getDatabase().transaction(() => {
+    const removed = linkRepo.unlinkMemories(fromId, toId, relation);
+    if (removed > 0) {
+      recordIrreversibleChange(
+        `Unlinked memory ${fromId} from memory ${toId}`,
+        namespace,
+      );
+    }
+    return removed;
+  })();
+}
@@ -1,32 +1,246 @@
+import { getDatabase } from "../database";
 import * as memoryRepo from "../repositories/memoryRepository";
-import { Memory, MemoryCreateInput } from "../repositories/memoryRepository";
+import {
+  Memory,
+  MemoryCreateInput,
+  MemorySortKey,
+} from "../repositories/memoryRepository";
+import { Page, PageOptions } from "../database/pagination";
+import * as statsRepo from "../repositories/statsRepository";
+import {
+  formatTimestamp,
+  getDisplayTimeZone,
+  normalizeTimeZone,
+} from "../database/timestamp";
+import {
+  parseDateRange,
+  splitDateRange,
+  DateRangeError,
+  Granularity,
+} from "../dateRange";
+import { assertWritable } from "../accessControl";
+import { recordChange, recordIrreversibleChange } from "./journalService";
 
 /**
  * Create a memory
  * @param content Memory content
+ * @param tags Tags to attach to the memory
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param todoIds TODOs the memory is about
+ * @param importance From 1 (trivial) to 5 (critical), default 3
+ * @param pinned Whether the memory is always retrieved first
  * @returns ID of the created memory
  */
-export function createMemory(content: string): number {
-  const memoryInput: MemoryCreateInput = {
-    content,
-  };
+export function createMemory(
+  content: string,
+  tags?: string[],
+  namespace?: string,
+  todoIds?: number[],
+  importance?: number,
+  pinned?: boolean,
+): number {
+  assertWritable("create a memory", "create_memory");
+
+  return getDatabase().transaction(() => {
+    const memoryInput: MemoryCreateInput = {
+      content,
+      tags,
+      todo_ids: todoIds,
+      namespace,
+      importance,
+      pinned,
+    };
+
+    const id = memoryRepo.createMemory(memoryInput);
+    recordChange(
+      `Created memory ${id}`,
+      [{ action: "trash", type: "memory", id }],
+      namespace,
+    );
+
+    return id;
+  })();
+}
+
+/**
+ * Replace the content of a memory
+ * @param id Memory ID
+ * @param content New content
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Whether the memory was found and updated
+ */
+export function updateMemory(
+  id: number,
+  content: string,
+  namespace?: string,
+): boolean {
+  assertWritable("update a memory", "update_memory");
+
+  return getDatabase().transaction(() => {
+    const before = memoryRepo.getMemoryById(id, namespace);
+    if (!before || !memoryRepo.updateMemory(id, content, namespace)) {
+      return false;
+    }
+
+    recordChange(
+      `Updated memory ${id}`,
+      [
+        {
+          action: "revert_memory",
+          id,
+          content: before.content,
+          updated_at: before.updated_at ?? null,
+        },
+      ],
+      namespace,
+    );
+    return true;
+  })();
+}
+
+/**
+ * Move a memory to the trash, from which it can be restored until the trash
+ * is emptied
+ * @param id Memory ID
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Whether the memory was found and deleted
+ */
+export function deleteMemory(id: number, namespace?: string): boolean {
+  assertWritable("delete a memory", "delete_memory");
 
-  return memoryRepo.createMemory(memoryInput);
+  return getDatabase().transaction(() => {
+    if (!memoryRepo.deleteMemory(id, namespace)) {
+      return false;
+    }
+
+    recordChange(
+      `Deleted memory ${id}`,
+      [{ action: "restore", type: "memory", id }],
+      namespace,
+    );
+    return true;
+  })();
+}
+
+/**
+ * Archive or restore memories
+ * @param ids Memory IDs
+ * @param archived true to hide the memories from default lists and searches,
+ * false to restore them
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Number of memories that changed
+ */
+export function setMemoriesArchived(
+  ids: number[],
+  archived: boolean,
+  namespace?: string,
+): number {
+  assertWritable(
+    archived ? "archive memories" : "unarchive memories",
+    archived ? "archive_memories" : "unarchive_memories",
+  );
+
+  return getDatabase().transaction(() => {
+    const changed = memoryRepo.setMemoriesArchived(ids, archived, namespace);
+    if (changed > 0) {
+      recordIrreversibleChange(
+        `${archived ? "Archived" : "Unarchived"} ${changed} memories`,
+        namespace,
+      );
+    }
+    return changed;
+  })();
+}
+
+/**
+ * Set the importance or pinned flag of a memory
+ * @param id Memory ID
+ * @param input New importance (1 to 5) and pinned flag; omitted fields are kept
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Whether the memory was found
+ */
+export function setMemoryImportance(
+  id: number,
+  input: { importance?: number; pinned?: boolean },
+  namespace?: string,
+): boolean {
+  assertWritable("change the importance of a memory", "set_memory_importance");
+
+  return getDatabase().transaction(() => {
+    if (!memoryRepo.updateMemoryImportance(id, input, namespace)) {
+      return false;
+    }
+    recordIrreversibleChange(
+      `Changed the importance of memory ${id}`,
+      namespace,
+    );
+    return true;
+  })();
+}
+
+/**
+ * Get the edit history of a memory formatted as Markdown
+ * @param id Memory ID
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns History formatted as Markdown, or null if the memory does not exist
+ */
+export function getMemoryHistoryAsMarkdown(
+  id: number,
+  namespace?: string,
+): string | null {
+  const memory = memoryRepo.getMemoryById(id, namespace);
+
+  if (!memory) {
+    return null;
+  }
+
+  const revisions = memoryRepo.getMemoryRevisions(id, namespace);
+  let markdown = `# Memory History (ID: ${id})\n\n`;
+
+  markdown += "## Current Version\n\n";
+  const currentDate = formatTimestamp(memory.updated_at || memory.created_at);
+  markdown += `**${currentDate}**: ${memory.content}\n\n`;
+
+  if (revisions.length === 0) {
+    markdown += "This memory has never been edited.\n";
+    return markdown;
+  }
+
+  markdown += "## Previous Versions\n\n";
+  [...revisions].reverse().forEach((revision, index) => {
+    const date = formatTimestamp(revision.content_created_at);
+    const replaced = formatTimestamp(revision.revised_at);
+    markdown += `${index + 1}. **${date}** (replaced ${replaced}): ${revision.content}\n`;
+  });
+
+  return markdown;
 }
 
 /**
  * Get a summary of memories containing a keyword
  * @param keyword Search keyword
+ * @param namespace Namespace (defaults to the server's namespace)
  * @returns Summary of search results
  */
-export function getMemorySummary(keyword: string) {
-  // Search memories using repository
-  const memories = memoryRepo.searchMemories(keyword);
+export function getMemorySummary(keyword: string, namespace?: string) {
+  // Only the newest and oldest matches are loaded
+  const newest = memoryRepo.searchMemories(keyword, {
+    namespace,
+    sort: "created_at",
+    order: "desc",
+    limit: 1,
+  });
+  const oldest = memoryRepo.searchMemories(keyword, {
+    namespace,
+    sort: "created_at",
+    order: "asc",
+    limit: 1,
+  });
 
   return {
-    count: memories.length,
-    latest: memories.length > 0 ? memories[0] : null,
-    oldest: memories.length > 0 ? memories[memories.length - 1] : null,
+    count: newest.total,
+    latest: newest.items[0] ?? null,
+    oldest: oldest.items[0] ?? null,
     keywords: keyword,
   };
 }
@@ -34,26 +248,30 @@ export function getMemorySummary(keyword: string) {
 /**
  * Get the latest memories
  * @param limit Number of memories to retrieve
+ * @param namespace Namespace (defaults to the server's namespace)
  * @returns List of the latest memories
  */
-export function getLatestMemories(limit: number = 10): Memory[] {
-  // Get all memories using repository
-  const memories = memoryRepo.getAllMemories();
-  return memories.slice(0, limit);
+export function getLatestMemories(
+  limit: number = 10,
+  namespace?: string,
+): Memory[] {
+  return memoryRepo.listMemories({ limit, namespace }).items;
 }
 
 /**
  * Get the context around a memory and format it as Markdown
  * @param id Memory ID
  * @param range Range of surrounding memories to include
+ * @param namespace Namespace (defaults to the server's namespace)
  * @returns Context formatted as Markdown
  */
 export function getMemoryContextAsMarkdown(
   id: number,
   range: number = 5,
+  namespace?: string,
 ): string {
   // Get memory context using repository
-  const context = memoryRepo.getMemoriesAroundId(id, range);
+  const context = memoryRepo.getMemoriesAroundId(id, range, namespace);
 
   if (!context.current) {
     return "No memory found with the specified ID.";
@@ -64,20 +282,20 @@ export function getMemoryContextAsMarkdown(
   if (context.before.length > 0) {
     markdown += "## Previous Memories\n\n";
     context.before.forEach((memory) => {
-      const date = new Date(memory.created_at).toLocaleString();
+      const date = formatTimestamp(memory.created_at);
       markdown += `- **${date}**: ${memory.content}\n`;
     });
     markdown += "\n";
   }
 
   markdown += "## Current Memory\n\n";
-  const currentDate = new Date(context.current.created_at).toLocaleString();
+  const currentDate = formatTimestamp(context.current.created_at);
   markdown += `**${currentDate}**: ${context.current.content}\n\n`;
 
   if (context.after.length > 0) {
     markdown += "## Subsequent Memories\n\n";
     context.after.forEach((memory) => {
-      const date = new Date(memory.created_at).toLocaleString();
+      const date = formatTimestamp(memory.created_at);
       markdown += `- **${date}**: ${memory.content}\n`;
     });
   }
@@ -86,50 +304,46 @@ export function getMemoryContextAsMarkdown(
 }
 
 /**
- * Count memories by date
- * @param days How many past days to include
- * @returns Memory counts by date
+ * Count memories created per calendar period
+ * @param days How many past days to include, today included
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param granularity Length of the periods (default: day)
+ * @param timeZone Time zone of the calendar (defaults to the display time zone)
+ * @returns Memory counts labeled by the start of each period, oldest first
  */
-export function getMemoryStatsByDate(days: number = 30) {
-  // Get all memories using repository
-  const memories = memoryRepo.getAllMemories();
-
-  // Create date range
-  const stats: Record<string, number> = {};
-  const today = new Date();
-
-  // Initialize dates for the past 'days' days
-  for (let i = 0; i < days; i++) {
-    const date = new Date();
-    date.setDate(today.getDate() - i);
-    const dateStr = date.toISOString().split("T")[0]; // YYYY-MM-DD format
-    stats[dateStr] = 0;
-  }
-
-  // Count memories by date
-  memories.forEach((memory) => {
-    const dateStr = new Date(memory.created_at).toISOString().split("T")[0];
-
-    // Add to count if within target date range
-    if (stats[dateStr] !== undefined) {
-      stats[dateStr]++;
-    }
-  });
+export function getMemoryStatsByDate(
+  days: number = 30,
+  namespace?: string,
+  granularity: Granularity = "day",
+  timeZone: string = getDisplayTimeZone(),
+) {
+  const options = { timeZone: normalizeTimeZone(timeZone) };
+  const range = {
+    start: parseDateRange(`${days - 1} days ago`, options).start,
+    end: parseDateRange("today", options).end,
+  };
+  const buckets = splitDateRange(range, granularity, options.timeZone);
+  const counts = statsRepo.countByBucket(
+    "memories_created",
+    buckets,
+    namespace,
+  );
 
-  // Return results sorted by date
-  return Object.entries(stats)
-    .sort(([dateA], [dateB]) => dateA.localeCompare(dateB))
-    .map(([date, count]) => ({ date, count }));
+  return buckets.map((bucket, index) => ({
+    date: bucket.label,
+    count: counts[index],
+  }));
 }
 
 /**
  * Group memories by a specific pattern
  * @param pattern Search pattern
+ * @param namespace Namespace (defaults to the server's namespace)
  * @returns Grouped memories
  */
-export function groupMemoriesByPattern(pattern: string) {
+export function groupMemoriesByPattern(pattern: string, namespace?: string) {
   // Search memories using repository
-  const memories = memoryRepo.searchMemories(pattern);
+  const memories = memoryRepo.searchMemories(pattern, { namespace }).items;
 
   // Group memories by pattern
   const groups: Record<string, Memory[]> = {};
@@ -150,15 +364,57 @@ export function groupMemoriesByPattern(pattern: string) {
 }
 
 /**
- * Get memories within a specific date range
- * @param startDate Start date
- * @param endDate End date
- * @returns Memories within the date range
+ * Get memories created within a date range
+ * @param startDate Start of the range (inclusive)
+ * @param endDate End of the range (exclusive)
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param page Page size, cursor and sort order
+ * @param includeArchived Include archived memories
+ * @returns Page of memories within the date range, newest first by default
  */
 export function getMemoriesByDateRange(
   startDate: Date,
   endDate: Date,
-): Memory[] {
-  // Get memories by date range using repository
-  return memoryRepo.getMemoriesByDateRange(startDate, endDate);
+  namespace?: string,
+  page: PageOptions<MemorySortKey> = {},
+  includeArchived: boolean = false,
+): Page<Memory> {
+  return memoryRepo.listMemories({
+    ...page,
+    createdFrom: startDate,
+    createdBefore: endDate,
+    includeArchived,
+    namespace,
+  });
+}
+
+/**
+ * Get memories created in the period named by date expressions
+ * @param from ISO date or relative expression such as "yesterday" or "past 3
+ * days" (see dateRange.ts); the range starts where the named period starts
+ * @param to Expression whose period ends the range (default: the end of from)
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param page Page size, cursor and sort order
+ * @param includeArchived Include archived memories
+ * @returns The resolved range and a page of memories
+ * @throws DateRangeError if an expression is not understood or the range is empty
+ */
+export function getMemoriesByDate(
+  from: string,
+  to?: string,
+  namespace?: string,
+  page: PageOptions<MemorySortKey> = {},
+  includeArchived: boolean = false,
+) {
+  const start = parseDateRange(from).start;
+  const end = parseDateRange(to ?? from).end;
+  if (end <= start) {
+    throw new DateRangeError(`"${to}" ends before "${from}" starts`);
+  }
+
+  return {
+    start,
+    end,
+    page: getMemoriesByDateRange(start, end, namespace, page, includeArchived),
+  };
 }
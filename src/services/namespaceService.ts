@@ -0,0 +1,44 @@
+import { getDatabase } from "../database";
+import { resolveNamespace } from "../database/namespace";
+import * as memoryRepo from "../repositories/memoryRepository";
+import * as todoRepo from "../repositories/todoRepository";
+import { assertWritable } from "../accessControl";
+import { recordIrreversibleChange } from "./journalService";
+
+/**
+ * Move memories or TODOs to another namespace
+ * @param type Whether to move memories or TODOs
+ * @param ids IDs of the items; items that are not in the source namespace are
+ * skipped
+ * @param toNamespace Namespace to move the items to
+ * @param fromNamespace Namespace the items are in (defaults to the server's
+ * namespace)
+ * @returns Number of items that were moved
+ */
+export function moveItems(
+  type: "memory" | "todo",
+  ids: number[],
+  toNamespace: string,
+  fromNamespace?: string,
+): number {
+  assertWritable("move items to another namespace", "move_items");
+
+  return getDatabase().transaction(() => {
+    const from = resolveNamespace(fromNamespace);
+    const to = resolveNamespace(toNamespace);
+    const moved =
+      type === "memory"
+        ? memoryRepo.moveMemories(ids, to, from)
+        : todoRepo.moveTodos(ids, to, from);
+
+    if (moved > 0) {
+      // Both namespaces lose the ability to undo past the move
+      const description = `Moved ${moved} ${type === "memory" ? "memories" : "TODOs"} from namespace "${from}" to "${to}"`;
+      recordIrreversibleChange(description, from);
+      if (to !== from) {
+        recordIrreversibleChange(description, to);
+      }
+    }
+    return moved;
+  })();
+}
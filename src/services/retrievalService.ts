@@ -0,0 +1,175 @@
+import * as memoryRepo from "../repositories/memoryRepository";
+import {
+  Memory,
+  MIN_IMPORTANCE,
+  MAX_IMPORTANCE,
+} from "../repositories/memoryRepository";
+import { parseTimestamp } from "../database/timestamp";
+import { semanticSearchMemories } from "./embeddingService";
+
+export interface RankingWeights {
+  relevance: number; // Match with the query (hybrid semantic and keyword score)
+  recency: number; // Decays with the time since the memory was last written or read
+  importance: number;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  relevance: 0.6,
+  recency: 0.2,
+  importance: 0.2,
+};
+
+// Days after which the recency of a memory has halved
+export const DEFAULT_RECENCY_HALF_LIFE_DAYS = 30;
+
+// Memories considered for ranking besides the pinned ones
+const CANDIDATE_LIMIT = 50;
+
+export interface RelevantMemoryOptions {
+  limit?: number; // Maximum number of memories (default: 10)
+  tokenBudget?: number; // Maximum estimated tokens of their content (default: no limit)
+  weights?: Partial<RankingWeights>;
+  halfLifeDays?: number; // Default: DEFAULT_RECENCY_HALF_LIFE_DAYS
+  namespace?: string; // Defaults to the server's namespace
+  now?: Date; // Reference time for recency (default: now)
+}
+
+export interface RankedMemory extends Memory {
+  relevance: number; // 0-1
+  recency: number; // 0-1
+  score: number; // Weighted average of relevance, recency and importance
+  tokens: number; // Estimated tokens of the content
+}
+
+export interface RelevantMemories {
+  memories: RankedMemory[];
+  tokens: number; // Estimated tokens of all returned memories
+  omitted: number; // Ranked memories left out because they did not fit the budget
+}
+
+/**
+ * Estimate the number of tokens of a text
+ *
+ * Counts about four ASCII characters per token and one token per other
+ * character (e.g. Japanese), which is close enough for common tokenizers.
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+/**
+ * Get the recency of a memory: 1 when just written or read, halving every
+ * half-life since
+ */
+function getRecency(memory: Memory, now: Date, halfLifeDays: number): number {
+  const latest = Math.max(
+    ...[memory.created_at, memory.updated_at, memory.last_accessed_at]
+      .map((value) => (value ? parseTimestamp(value)?.getTime() : undefined))
+      .filter((time): time is number => time !== undefined),
+  );
+  const ageDays = Math.max(0, now.getTime() - latest) / (24 * 60 * 60 * 1000);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Get the memories most worth recalling for a query
+ *
+ * Candidates are found with a hybrid semantic and keyword search (or are the
+ * latest memories for an empty query) and ranked by a weighted average of
+ * relevance, recency and importance. Pinned memories always come first.
+ * Memories are taken in rank order while they fit the token budget; a memory
+ * too large for the remaining budget is skipped in favor of smaller ones.
+ * @param query Natural language query, or an empty string for no query
+ * @param options Limit, token budget, weights and namespace
+ * @returns The selected memories in rank order
+ */
+export async function getRelevantMemories(
+  query: string,
+  options: RelevantMemoryOptions = {},
+): Promise<RelevantMemories> {
+  const limit = options.limit ?? 10;
+  const weights = { ...DEFAULT_RANKING_WEIGHTS, ...options.weights };
+  const halfLifeDays = options.halfLifeDays ?? DEFAULT_RECENCY_HALF_LIFE_DAYS;
+  const now = options.now ?? new Date();
+
+  const relevance = new Map<number, number>();
+  const candidates: Memory[] = [];
+  if (query.trim()) {
+    const results = await semanticSearchMemories(query, {
+      limit: CANDIDATE_LIMIT,
+      mode: "hybrid",
+      namespace: options.namespace,
+    });
+    for (const result of results) {
+      relevance.set(result.id, Math.min(1, Math.max(0, result.score)));
+      candidates.push(result);
+    }
+  } else {
+    candidates.push(
+      ...memoryRepo.listMemories({
+        limit: CANDIDATE_LIMIT,
+        namespace: options.namespace,
+      }).items,
+    );
+  }
+
+  const pinned = memoryRepo.getPinnedMemories(options.namespace);
+  const pinnedIds = new Set(pinned.map((memory) => memory.id));
+  const totalWeight =
+    weights.relevance + weights.recency + weights.importance || 1;
+
+  const ranked = [
+    ...pinned,
+    ...candidates.filter((memory) => !pinnedIds.has(memory.id)),
+  ].map((memory): RankedMemory => {
+    const memoryRelevance = relevance.get(memory.id) ?? 0;
+    const recency = getRecency(memory, now, halfLifeDays);
+    const importance =
+      (memory.importance - MIN_IMPORTANCE) / (MAX_IMPORTANCE - MIN_IMPORTANCE);
+    const score =
+      (weights.relevance * memoryRelevance +
+        weights.recency * recency +
+        weights.importance * importance) /
+      totalWeight;
+    return {
+      ...memory,
+      relevance: memoryRelevance,
+      recency,
+      score,
+      tokens: estimateTokens(memory.content),
+    };
+  });
+
+  ranked.sort(
+    (a, b) => b.pinned - a.pinned || b.score - a.score || b.id - a.id,
+  );
+
+  const selected: RankedMemory[] = [];
+  let tokens = 0;
+  let omitted = 0;
+  for (const memory of ranked) {
+    if (selected.length >= limit) {
+      break;
+    }
+    if (
+      options.tokenBudget !== undefined &&
+      tokens + memory.tokens > options.tokenBudget
+    ) {
+      omitted++;
+      continue;
+    }
+    selected.push(memory);
+    tokens += memory.tokens;
+  }
+
+  return { memories: selected, tokens, omitted };
+}
@@ -0,0 +1,154 @@
+import * as statsRepo from "../repositories/statsRepository";
+import { ActivityKind, TodoSnapshot } from "../repositories/statsRepository";
+import {
+  formatTimestamp,
+  getDisplayTimeZone,
+  normalizeTimeZone,
+  toSqliteTimestamp,
+} from "../database/timestamp";
+import {
+  parseDateRange,
+  splitDateRange,
+  DateRangeError,
+  Granularity,
+} from "../dateRange";
+
+export interface ActivityReportOptions {
+  from?: string; // Date expression starting the range (default: "6 days ago")
+  to?: string; // Date expression ending the range (default: "today")
+  granularity?: Granularity; // Default: "day"
+  timeZone?: string; // Defaults to the display time zone
+  namespace?: string; // Defaults to the server's namespace
+  now?: Date; // Reference time for relative expressions (default: now)
+}
+
+export type ActivityCounts = Record<ActivityKind, number>;
+
+export interface ActivityBucket extends ActivityCounts {
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export interface ActivityReport {
+  start: Date;
+  end: Date;
+  granularity: Granularity;
+  time_zone: string;
+  totals: ActivityCounts;
+  // TODOs that need work now, whatever the range
+  todos: TodoSnapshot & {
+    average_completion_hours: number | null; // Of TODOs completed in the range
+  };
+  buckets: ActivityBucket[];
+}
+
+const ACTIVITY_KINDS: ActivityKind[] = [
+  "memories_created",
+  "todos_created",
+  "todos_completed",
+];
+
+/**
+ * Count memory and TODO activity over a period, split into calendar periods
+ * @param options Range, granularity, time zone and namespace
+ * @returns Counts per period and for the whole range, with a snapshot of the
+ * TODOs that are open now
+ * @throws DateRangeError if an expression is not understood, the range is
+ * empty or it has too many periods
+ */
+export function getActivityReport(
+  options: ActivityReportOptions = {},
+): ActivityReport {
+  const timeZone = normalizeTimeZone(options.timeZone ?? getDisplayTimeZone());
+  const granularity = options.granularity ?? "day";
+  const now = options.now ?? new Date();
+  const from = options.from ?? "6 days ago";
+  const to = options.to ?? "today";
+
+  const start = parseDateRange(from, { now, timeZone }).start;
+  const end = parseDateRange(to, { now, timeZone }).end;
+  if (end <= start) {
+    throw new DateRangeError(`"${to}" ends before "${from}" starts`);
+  }
+
+  const periods = splitDateRange({ start, end }, granularity, timeZone);
+  const counts = ACTIVITY_KINDS.map((kind) =>
+    statsRepo.countByBucket(kind, periods, options.namespace),
+  );
+  const buckets = periods.map((period, index) => ({
+    ...period,
+    memories_created: counts[0][index],
+    todos_created: counts[1][index],
+    todos_completed: counts[2][index],
+  }));
+
+  const totals = {} as ActivityCounts;
+  ACTIVITY_KINDS.forEach((kind, index) => {
+    totals[kind] = counts[index].reduce((sum, count) => sum + count, 0);
+  });
+
+  const hours = statsRepo.getAverageCompletionHours(
+    { start, end },
+    options.namespace,
+  );
+
+  return {
+    start,
+    end,
+    granularity,
+    time_zone: timeZone,
+    totals,
+    todos: {
+      ...statsRepo.getTodoSnapshot(now, options.namespace),
+      average_completion_hours: hours === null ? null : roundHours(hours),
+    },
+    buckets,
+  };
+}
+
+/**
+ * Round a number of hours to one decimal place
+ */
+function roundHours(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
+
+/**
+ * Format a duration in hours for display, e.g. "5.5 hours" or "2.3 days"
+ */
+function formatDuration(hours: number): string {
+  return hours < 48
+    ? `${hours} hours`
+    : `${Math.round((hours / 24) * 10) / 10} days`;
+}
+
+/**
+ * Format an activity report as a Markdown summary with a table of periods
+ */
+export function formatActivityReportAsMarkdown(report: ActivityReport): string {
+  const format = (date: Date) =>
+    formatTimestamp(toSqliteTimestamp(date), report.time_zone);
+  const period =
+    report.granularity.charAt(0).toUpperCase() + report.granularity.slice(1);
+  const average = report.todos.average_completion_hours;
+
+  let markdown = "# Activity Report\n\n";
+  markdown += `${format(report.start)} to ${format(report.end)} (${report.time_zone})\n\n`;
+
+  markdown += "## Summary\n\n";
+  markdown += `- Memories created: ${report.totals.memories_created}\n`;
+  markdown += `- TODOs created: ${report.totals.todos_created}\n`;
+  markdown += `- TODOs completed: ${report.totals.todos_completed}\n`;
+  markdown += `- Average time to complete: ${average === null ? "n/a" : formatDuration(average)}\n`;
+  markdown += `- Open TODOs: ${report.todos.open} (${report.todos.overdue} overdue)\n\n`;
+
+  markdown += `## By ${period}\n\n`;
+  markdown += `| ${period} | Memories | TODOs created | TODOs completed |\n`;
+  markdown += "| --- | ---: | ---: | ---: |\n";
+  report.buckets.forEach((bucket) => {
+    markdown += `| ${bucket.label} | ${bucket.memories_created} | ${bucket.todos_created} | ${bucket.todos_completed} |\n`;
+  });
+
+  return markdown;
+}
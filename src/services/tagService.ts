@@ -0,0 +1,96 @@
+import { getDatabase } from "../database";
+import * as tagRepo from "../repositories/tagRepository";
+import { TaggableType, TagRenameResult } from "../repositories/tagRepository";
+import { assertWritable } from "../accessControl";
+import { recordIrreversibleChange } from "./journalService";
+
+/**
+ * Add tags to a memory or TODO
+ * @param type Whether the item is a memory or a TODO
+ * @param id ID of the item, which must exist in the namespace
+ * @param tags Tags to add; tags the item already has are ignored
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Number of tags that were newly added
+ */
+export function addTags(
+  type: TaggableType,
+  id: number,
+  tags: string[],
+  namespace?: string,
+): number {
+  assertWritable("add tags", "add_tags");
+
+  return getDatabase().transaction(() => {
+    const added = tagRepo.addTags(type, id, tags);
+    if (added > 0) {
+      recordIrreversibleChange(`Added tags to ${type} ${id}`, namespace);
+    }
+    return added;
+  })();
+}
+
+/**
+ * Remove tags from a memory or TODO
+ * @param type Whether the item is a memory or a TODO
+ * @param id ID of the item, which must exist in the namespace
+ * @param tags Tags to remove; tags the item does not have are ignored
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Number of tags that were removed
+ */
+export function removeTags(
+  type: TaggableType,
+  id: number,
+  tags: string[],
+  namespace?: string,
+): number {
+  assertWritable("remove tags", "remove_tags");
+
+  return getDatabase().transaction(() => {
+    const removed = tagRepo.removeTags(type, id, tags);
+    if (removed > 0) {
+      recordIrreversibleChange(`Removed tags from ${type} ${id}`, namespace);
+    }
+    return removed;
+  })();
+}
+
+/**
+ * Rename a tag on every item, merging it into the new name if that tag exists
+ * @returns Result of the rename, or null if the tag does not exist
+ */
+export function renameTag(from: string, to: string): TagRenameResult | null {
+  assertWritable("rename a tag", "rename_tag");
+
+  return getDatabase().transaction(() => {
+    const result = tagRepo.renameTag(from, to);
+    if (result) {
+      // Tags are shared by every namespace
+      recordIrreversibleChange(`Renamed tag ${from} to ${to}`, null);
+    }
+    return result;
+  })();
+}
+
+/**
+ * Merge several tags into a target tag on every item
+ * @param sources Tags to merge, which are removed afterwards
+ * @param target Tag that remains (created if needed)
+ * @returns The source tags that were merged and those that do not exist
+ */
+export function mergeTags(sources: string[], target: string) {
+  assertWritable("merge tags", "merge_tags");
+
+  return getDatabase().transaction(() => {
+    const merged: string[] = [];
+    const missing: string[] = [];
+    for (const source of sources) {
+      const result = tagRepo.renameTag(source, target);
+      (result ? merged : missing).push(source);
+    }
+
+    if (merged.length > 0) {
+      recordIrreversibleChange(`Merged tags into ${target}`, null);
+    }
+    return { merged, missing };
+  })();
+}
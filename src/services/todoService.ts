@@ -1,162 +1,807 @@
+import { getDatabase } from "../database";
 import * as todoRepo from "../repositories/todoRepository";
 import * as memoryRepo from "../repositories/memoryRepository";
-import { TodoCreateInput } from "../repositories/todoRepository";
+import * as tagRepo from "../repositories/tagRepository";
+import * as relationRepo from "../repositories/todoRelationRepository";
+import {
+  Todo,
+  TodoCreateInput,
+  TodoUpdateInput,
+  TodoPriority,
+  TodoSortKey,
+  ACTIVE_TODO_STATUSES,
+} from "../repositories/todoRepository";
 import { MemoryCreateInput } from "../repositories/memoryRepository";
+import { PageOptions } from "../database/pagination";
+import { parseTimestamp } from "../database/timestamp";
+import {
+  parseRecurrence,
+  formatRecurrence,
+  describeRecurrence,
+  getNextOccurrence,
+  isSameSchedule,
+  RecurrenceRule,
+} from "../recurrence";
+import { assertWritable } from "../accessControl";
+import { recordChange, getTodoState, UndoStep } from "./journalService";
+
+/**
+ * Error for a subtask or dependency change that would break the TODO graph
+ */
+export class TodoRelationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TodoRelationError";
+  }
+}
+
+export interface TodoCompleteOptions {
+  cascade?: boolean; // Also complete unfinished subtasks instead of failing
+}
+
+export interface TodoDeleteOptions {
+  deleteSubtasks?: boolean; // Delete subtasks instead of moving them up a level
+}
 
 /**
  * Create a new TODO and also save its creation as a memory
  * @param title TODO title
  * @param description TODO description
  * @param dueDate Due date
+ * @param tags Tags to attach to the TODO and its creation memory
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param recurrence Recurrence rule or shorthand such as "weekly" (see recurrence.ts)
+ * @param priority Priority (defaults to medium)
+ * @param parentId Parent TODO, making the new TODO a subtask
  * @returns The ID of the created TODO
  */
 export function createTodoWithMemory(
   title: string,
   description?: string,
   dueDate?: Date,
+  tags?: string[],
+  namespace?: string,
+  recurrence?: string,
+  priority?: TodoPriority,
+  parentId?: number,
 ) {
-  // Prepare data for TODO creation
-  const todoInput: TodoCreateInput = {
-    title,
-    description,
-    due_date: dueDate,
-  };
+  assertWritable("create a TODO", "create_todo");
+
+  return getDatabase().transaction(() => {
+    const rule = recurrence ? parseRecurrence(recurrence) : null;
+    const parent =
+      parentId !== undefined ? getRelatedTodo(parentId, namespace) : null;
+
+    // Prepare data for TODO creation
+    const todoInput: TodoCreateInput = {
+      title,
+      description,
+      due_date: dueDate,
+      tags,
+      namespace,
+      recurrence: rule ? formatRecurrence(rule) : null,
+      priority,
+      parent_id: parent?.id,
+    };
+
+    // Create TODO using repository
+    const todoId = todoRepo.createTodo(todoInput);
+
+    // Record to memory
+    const dueDateStr = dueDate ? ` (Due: ${dueDate.toLocaleDateString()})` : "";
+    const repeatStr = rule ? ` (Repeats ${describeRecurrence(rule)})` : "";
+    const parentStr = parent ? ` (Subtask of: ${parent.title})` : "";
+    const memoryInput: MemoryCreateInput = {
+      content: `Created TODO: ${title}${dueDateStr}${repeatStr}${parentStr}`,
+      tags,
+      todo_ids: parent ? [todoId, parent.id] : [todoId],
+      namespace,
+    };
+
+    const memoryId = memoryRepo.createMemory(memoryInput);
+    recordChange(
+      `Created TODO ${todoId}: ${title}`,
+      [
+        { action: "trash", type: "todo", id: todoId },
+        { action: "trash", type: "memory", id: memoryId },
+      ],
+      namespace,
+    );
+
+    return todoId;
+  })();
+}
+
+/**
+ * Get the due date of the first occurrence of a repeating TODO's series,
+ * going back while earlier occurrences repeat on the same schedule
+ * @param due Due date of the TODO
+ */
+function getSeriesStart(todo: Todo, rule: RecurrenceRule, due: Date): Date {
+  let start = due;
+  for (const previous of todoRepo.getPreviousOccurrences(todo.id)) {
+    const previousDue = previous.due_date && parseTimestamp(previous.due_date);
+    if (
+      !previous.recurrence ||
+      !previousDue ||
+      !isSameSchedule(parseRecurrence(previous.recurrence), rule)
+    ) {
+      break;
+    }
+    start = previousDue;
+  }
+  return start;
+}
+
+/**
+ * Create the next occurrence of a repeating TODO
+ *
+ * Nothing is created if the series has ended or the next occurrence already
+ * exists (e.g. when a TODO is completed again after being reopened).
+ * @param todo The occurrence that was completed
+ * @returns The ID and due date of the new occurrence, or null
+ */
+function createNextOccurrence(todo: Todo) {
+  if (!todo.recurrence || todoRepo.getNextOccurrence(todo.id, todo.namespace)) {
+    return null;
+  }
+
+  const due = (todo.due_date && parseTimestamp(todo.due_date)) || new Date();
+  const rule = parseRecurrence(todo.recurrence);
+  const next = getNextOccurrence(
+    rule,
+    due,
+    new Date(),
+    getSeriesStart(todo, rule, due),
+  );
+  if (!next) {
+    return null;
+  }
 
-  // Create TODO using repository
-  const todoId = todoRepo.createTodo(todoInput);
+  // A repeating subtask stays under its parent while the parent is open
+  const parent = todo.parent_id
+    ? todoRepo.getTodoById(todo.parent_id, todo.namespace)
+    : null;
+  const parentOpen =
+    parent !== null &&
+    parent.status !== "done" &&
+    parent.status !== "cancelled";
 
-  // Record to memory
-  const dueDateStr = dueDate ? ` (Due: ${dueDate.toLocaleDateString()})` : "";
-  const memoryInput: MemoryCreateInput = {
-    content: `Created TODO: ${title}${dueDateStr}`,
-  };
+  const nextId = todoRepo.createTodo({
+    title: todo.title,
+    description: todo.description,
+    due_date: next.due,
+    tags: tagRepo.getTags("todo", todo.id),
+    namespace: todo.namespace,
+    recurrence: formatRecurrence(next.rule),
+    previous_todo_id: todo.id,
+    priority: todo.priority,
+    parent_id: parentOpen ? parent.id : null,
+  });
 
-  memoryRepo.createMemory(memoryInput);
+  return { id: nextId, due: next.due };
+}
 
-  return todoId;
+/**
+ * Get a TODO referenced by a subtask or dependency, failing if it does not
+ * exist in the namespace
+ */
+function getRelatedTodo(id: number, namespace?: string): Todo {
+  const todo = todoRepo.getTodoById(id, namespace);
+  if (!todo) {
+    throw new TodoRelationError(`No related TODO found with ID: ${id}`);
+  }
+  return todo;
+}
+
+/**
+ * Check that a TODO can be completed and complete its subtasks if cascading
+ *
+ * A TODO with unfinished subtasks can only be completed together with them.
+ * Subtasks completed this way do not create next occurrences.
+ * @returns The subtasks that were completed, as they were before
+ */
+function completeSubtasks(
+  todo: Todo,
+  options: TodoCompleteOptions = {},
+): Todo[] {
+  const open = relationRepo.getOpenDescendants(todo.id);
+  if (open.length > 0 && !options.cascade) {
+    throw new TodoRelationError(
+      `TODO ${todo.id} has ${open.length} unfinished subtasks (${open.map((subtask) => subtask.id).join(", ")}); complete them first or cascade`,
+    );
+  }
+
+  for (const subtask of open) {
+    todoRepo.updateTodo(subtask.id, { status: "done" }, subtask.namespace);
+  }
+  return open;
+}
+
+/**
+ * Build the steps reverting an update of TODOs and the records it created
+ * @param before The changed TODOs as they were before
+ * @param created IDs of the TODOs and memories the update created
+ */
+function revertSteps(
+  before: Todo[],
+  created: { todoIds?: number[]; memoryIds?: number[] } = {},
+): UndoStep[] {
+  return [
+    ...before.map(
+      (todo): UndoStep => ({
+        action: "revert_todo",
+        id: todo.id,
+        state: getTodoState(todo),
+      }),
+    ),
+    ...(created.todoIds ?? []).map(
+      (id): UndoStep => ({ action: "trash", type: "todo", id }),
+    ),
+    ...(created.memoryIds ?? []).map(
+      (id): UndoStep => ({ action: "trash", type: "memory", id }),
+    ),
+  ];
 }
 
 /**
  * Mark a TODO as completed and record it in memory
+ *
+ * Completing a repeating TODO creates its next occurrence, which can be found
+ * with todoRepo.getNextOccurrence.
  * @param id TODO ID
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param options Whether to also complete unfinished subtasks
  * @returns Whether the update was successful
+ * @throws TodoRelationError if the TODO has unfinished subtasks and cascade is not set
  */
-export function completeTodoWithMemory(id: number) {
-  // Update TODO status using repository
-  const success = todoRepo.updateTodoStatus(id, true);
+export function completeTodoWithMemory(
+  id: number,
+  namespace?: string,
+  options: TodoCompleteOptions = {},
+) {
+  assertWritable("complete a TODO", "update_todo_status");
 
-  if (success) {
-    // Get information about the target TODO
-    const todo = todoRepo.getTodoById(id);
+  return getDatabase().transaction(() => {
+    const current = todoRepo.getTodoById(id, namespace);
+    const subtasks = current ? completeSubtasks(current, options) : [];
+    const subtaskIds = subtasks.map((subtask) => subtask.id);
 
-    if (todo) {
-      // Prepare data for memory entry
-      const memoryInput: MemoryCreateInput = {
-        content: `Completed TODO: ${todo.title}`,
-      };
+    // Update TODO status using repository
+    const success = todoRepo.updateTodoStatus(id, true, namespace);
 
-      // Create memory using repository
-      memoryRepo.createMemory(memoryInput);
+    if (success) {
+      // Get information about the target TODO
+      const todo = todoRepo.getTodoById(id, namespace);
+
+      if (todo) {
+        const next = createNextOccurrence(todo);
+        const nextStr = next
+          ? ` (Next occurrence: TODO ${next.id} due ${next.due.toLocaleDateString()})`
+          : "";
+        const subtaskStr =
+          subtaskIds.length > 0 ? ` (and ${subtaskIds.length} subtasks)` : "";
+
+        // Prepare data for memory entry
+        const memoryInput: MemoryCreateInput = {
+          content: `Completed TODO: ${todo.title}${subtaskStr}${nextStr}`,
+          todo_ids: [todo.id, ...subtaskIds, ...(next ? [next.id] : [])],
+          namespace: todo.namespace,
+        };
+
+        // Create memory using repository
+        const memoryId = memoryRepo.createMemory(memoryInput);
+        recordChange(
+          `Completed TODO ${todo.id}: ${todo.title}`,
+          revertSteps([...subtasks, current!], {
+            todoIds: next ? [next.id] : [],
+            memoryIds: [memoryId],
+          }),
+          todo.namespace,
+        );
+      }
     }
+
+    return success;
+  })();
+}
+
+/**
+ * Describe the changes between two versions of a TODO
+ */
+function describeTodoChanges(before: Todo, after: Todo): string[] {
+  const changes: string[] = [];
+  const formatDue = (due?: string) =>
+    due ? new Date(due).toLocaleDateString() : "none";
+
+  if (before.title !== after.title) {
+    changes.push(`title "${before.title}" → "${after.title}"`);
+  }
+  if ((before.description ?? null) !== (after.description ?? null)) {
+    changes.push(
+      after.description ? "description updated" : "description cleared",
+    );
+  }
+  if ((before.due_date ?? null) !== (after.due_date ?? null)) {
+    changes.push(
+      `due date ${formatDue(before.due_date)} → ${formatDue(after.due_date)}`,
+    );
+  }
+  if (before.status !== after.status) {
+    changes.push(`status ${before.status} → ${after.status}`);
+  }
+  if (before.priority !== after.priority) {
+    changes.push(`priority ${before.priority} → ${after.priority}`);
   }
 
-  return success;
+  return changes;
+}
+
+/**
+ * Update the fields of a TODO and record the changes in memory
+ *
+ * Setting the status to done follows the same rules as completeTodoWithMemory:
+ * unfinished subtasks must be completed first or cascaded, and a repeating
+ * TODO creates its next occurrence.
+ * @param id TODO ID
+ * @param input Fields to change; null clears the description or due date
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param options Whether to also complete unfinished subtasks
+ * @returns Whether the TODO was found
+ * @throws TodoRelationError if the TODO has unfinished subtasks and cascade is not set
+ */
+export function updateTodoWithMemory(
+  id: number,
+  input: TodoUpdateInput,
+  namespace?: string,
+  options: TodoCompleteOptions = {},
+) {
+  assertWritable("update a TODO", "update_todo");
+
+  return getDatabase().transaction(() => {
+    const before = todoRepo.getTodoById(id, namespace);
+    if (!before) {
+      return false;
+    }
+
+    const subtasks =
+      before.status !== "done" && input.status === "done"
+        ? completeSubtasks(before, options)
+        : [];
+    const subtaskIds = subtasks.map((subtask) => subtask.id);
+    if (!todoRepo.updateTodo(id, input, namespace)) {
+      return false;
+    }
+
+    const after = todoRepo.getTodoById(id, namespace)!;
+    const changes = describeTodoChanges(before, after);
+    if (subtaskIds.length > 0) {
+      changes.push(`${subtaskIds.length} subtasks completed`);
+    }
+    if (changes.length === 0) {
+      return true;
+    }
+
+    const next =
+      before.status !== "done" && after.status === "done"
+        ? createNextOccurrence(after)
+        : null;
+    const nextStr = next
+      ? ` (Next occurrence: TODO ${next.id} due ${next.due.toLocaleDateString()})`
+      : "";
+
+    const memoryId = memoryRepo.createMemory({
+      content: `Updated TODO: ${after.title} (${changes.join("; ")})${nextStr}`,
+      todo_ids: [after.id, ...subtaskIds, ...(next ? [next.id] : [])],
+      namespace: after.namespace,
+    });
+    recordChange(
+      `Updated TODO ${after.id}: ${after.title}`,
+      revertSteps([...subtasks, before], {
+        todoIds: next ? [next.id] : [],
+        memoryIds: [memoryId],
+      }),
+      after.namespace,
+    );
+
+    return true;
+  })();
 }
 
 /**
  * Mark a TODO as incomplete and record it in memory
  * @param id TODO ID
+ * @param namespace Namespace (defaults to the server's namespace)
  * @returns Whether the update was successful
  */
-export function uncompleteTodoWithMemory(id: number) {
-  // Update TODO status using repository
-  const success = todoRepo.updateTodoStatus(id, false);
+export function uncompleteTodoWithMemory(id: number, namespace?: string) {
+  assertWritable("reopen a TODO", "update_todo_status");
 
-  if (success) {
-    // Get information about the target TODO
-    const todo = todoRepo.getTodoById(id);
+  return getDatabase().transaction(() => {
+    const before = todoRepo.getTodoById(id, namespace);
 
-    if (todo) {
-      // Prepare data for memory entry
-      const memoryInput: MemoryCreateInput = {
-        content: `Marked TODO as incomplete: ${todo.title}`,
-      };
+    // Update TODO status using repository
+    const success = todoRepo.updateTodoStatus(id, false, namespace);
 
-      // Create memory using repository
-      memoryRepo.createMemory(memoryInput);
+    if (success) {
+      // Get information about the target TODO
+      const todo = todoRepo.getTodoById(id, namespace);
+
+      if (todo) {
+        // Prepare data for memory entry
+        const memoryInput: MemoryCreateInput = {
+          content: `Marked TODO as incomplete: ${todo.title}`,
+          todo_ids: [todo.id],
+          namespace: todo.namespace,
+        };
+
+        // Create memory using repository
+        const memoryId = memoryRepo.createMemory(memoryInput);
+        recordChange(
+          `Reopened TODO ${todo.id}: ${todo.title}`,
+          revertSteps([before!], { memoryIds: [memoryId] }),
+          todo.namespace,
+        );
+      }
     }
-  }
 
-  return success;
+    return success;
+  })();
+}
+
+/**
+ * Set or stop the recurrence of a TODO and record it in memory
+ * @param id TODO ID
+ * @param recurrence Recurrence rule or shorthand, or null to stop repeating
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Whether the TODO was found and updated
+ */
+export function setTodoRecurrenceWithMemory(
+  id: number,
+  recurrence: string | null,
+  namespace?: string,
+) {
+  assertWritable(
+    "change the recurrence of a TODO",
+    recurrence === null ? "stop_todo_recurrence" : "set_todo_recurrence",
+  );
+
+  return getDatabase().transaction(() => {
+    const rule = recurrence ? parseRecurrence(recurrence) : null;
+    const before = todoRepo.getTodoById(id, namespace);
+    const success = todoRepo.updateTodoRecurrence(
+      id,
+      rule ? formatRecurrence(rule) : null,
+      namespace,
+    );
+
+    if (success) {
+      const todo = todoRepo.getTodoById(id, namespace);
+
+      if (todo) {
+        const memoryId = memoryRepo.createMemory({
+          content: rule
+            ? `Set TODO to repeat ${describeRecurrence(rule)}: ${todo.title}`
+            : `Stopped repeating TODO: ${todo.title}`,
+          todo_ids: [todo.id],
+          namespace: todo.namespace,
+        });
+        recordChange(
+          `Changed the recurrence of TODO ${todo.id}: ${todo.title}`,
+          revertSteps([before!], { memoryIds: [memoryId] }),
+          todo.namespace,
+        );
+      }
+    }
+
+    return success;
+  })();
+}
+
+/**
+ * Make a TODO a subtask of another, or a top-level TODO, and record it in memory
+ * @param id TODO ID
+ * @param parentId New parent TODO, or null for a top-level TODO
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Whether the TODO was found
+ * @throws TodoRelationError if the parent does not exist or is the TODO itself or one of its subtasks
+ */
+export function setTodoParentWithMemory(
+  id: number,
+  parentId: number | null,
+  namespace?: string,
+) {
+  assertWritable("move a TODO", "set_todo_parent");
+
+  return getDatabase().transaction(() => {
+    const todo = todoRepo.getTodoById(id, namespace);
+    if (!todo) {
+      return false;
+    }
+
+    const parent =
+      parentId !== null ? getRelatedTodo(parentId, namespace) : null;
+    if (parent && relationRepo.isInSubtree(id, parent.id)) {
+      throw new TodoRelationError(
+        `TODO ${parent.id} cannot be the parent of TODO ${id} because it is the TODO itself or one of its subtasks`,
+      );
+    }
+
+    relationRepo.setParent(id, parent?.id ?? null, namespace);
+    const memoryId = memoryRepo.createMemory({
+      content: parent
+        ? `Made TODO a subtask of ${parent.title}: ${todo.title}`
+        : `Made TODO a top-level TODO: ${todo.title}`,
+      todo_ids: parent ? [todo.id, parent.id] : [todo.id],
+      namespace: todo.namespace,
+    });
+    recordChange(
+      `Moved TODO ${todo.id}: ${todo.title}`,
+      revertSteps([todo], { memoryIds: [memoryId] }),
+      todo.namespace,
+    );
+
+    return true;
+  })();
+}
+
+/**
+ * Record that a TODO is blocked by another and record it in memory
+ * @param id TODO ID
+ * @param blockerId TODO that has to be finished first
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Whether the TODO was found
+ * @throws TodoRelationError if the blocker does not exist or the dependency would create a cycle
+ */
+export function addTodoDependencyWithMemory(
+  id: number,
+  blockerId: number,
+  namespace?: string,
+) {
+  assertWritable("add a dependency", "add_todo_dependency");
+
+  return getDatabase().transaction(() => {
+    const todo = todoRepo.getTodoById(id, namespace);
+    if (!todo) {
+      return false;
+    }
+
+    const blocker = getRelatedTodo(blockerId, namespace);
+    if (blocker.id === id || relationRepo.dependsOn(blocker.id, id)) {
+      throw new TodoRelationError(
+        `TODO ${id} cannot depend on TODO ${blocker.id} because that would create a dependency cycle`,
+      );
+    }
+
+    if (relationRepo.addDependency(id, blocker.id)) {
+      const memoryId = memoryRepo.createMemory({
+        content: `Marked TODO as blocked by ${blocker.title}: ${todo.title}`,
+        todo_ids: [todo.id, blocker.id],
+        namespace: todo.namespace,
+      });
+      recordChange(
+        `Made TODO ${todo.id} depend on TODO ${blocker.id}`,
+        [
+          { action: "remove_dependency", id: todo.id, blocker_id: blocker.id },
+          { action: "trash", type: "memory", id: memoryId },
+        ],
+        todo.namespace,
+      );
+    }
+
+    return true;
+  })();
+}
+
+/**
+ * Remove a dependency between two TODOs and record it in memory
+ * @param id TODO ID
+ * @param blockerId TODO that no longer blocks it
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns Whether the dependency existed
+ */
+export function removeTodoDependencyWithMemory(
+  id: number,
+  blockerId: number,
+  namespace?: string,
+) {
+  assertWritable("remove a dependency", "remove_todo_dependency");
+
+  return getDatabase().transaction(() => {
+    const todo = todoRepo.getTodoById(id, namespace);
+    const blocker = todoRepo.getTodoById(blockerId, namespace);
+    if (!todo || !blocker || !relationRepo.removeDependency(id, blockerId)) {
+      return false;
+    }
+
+    const memoryId = memoryRepo.createMemory({
+      content: `Removed blocker ${blocker.title} from TODO: ${todo.title}`,
+      todo_ids: [todo.id, blocker.id],
+      namespace: todo.namespace,
+    });
+    recordChange(
+      `Removed the dependency of TODO ${todo.id} on TODO ${blocker.id}`,
+      [
+        { action: "add_dependency", id: todo.id, blocker_id: blocker.id },
+        { action: "trash", type: "memory", id: memoryId },
+      ],
+      todo.namespace,
+    );
+
+    return true;
+  })();
+}
+
+/**
+ * Get TODOs that can be worked on now: open or in progress, with every
+ * dependency and subtask finished
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param page Page size, cursor and sort order (default: priority)
+ * @returns Page of actionable TODOs
+ */
+export function getActionableTodos(
+  namespace?: string,
+  page: PageOptions<TodoSortKey> = {},
+) {
+  return todoRepo.searchTodos({
+    ...page,
+    sort: page.sort ?? "priority",
+    actionable: true,
+    namespace,
+  });
 }
 
 /**
  * Get all incomplete TODOs
- * @returns List of incomplete TODOs
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param page Page size, cursor and sort order
+ * @returns Page of incomplete TODOs
  */
-export function getAllIncompleteTodos() {
-  return todoRepo.searchTodos({ completed: false });
+export function getAllIncompleteTodos(
+  namespace?: string,
+  page: PageOptions<TodoSortKey> = {},
+) {
+  return todoRepo.searchTodos({ ...page, completed: false, namespace });
 }
 
 /**
  * Get all completed TODOs
- * @returns List of completed TODOs
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param page Page size, cursor and sort order
+ * @returns Page of completed TODOs
  */
-export function getAllCompletedTodos() {
-  return todoRepo.searchTodos({ completed: true });
+export function getAllCompletedTodos(
+  namespace?: string,
+  page: PageOptions<TodoSortKey> = {},
+) {
+  return todoRepo.searchTodos({ ...page, completed: true, namespace });
 }
 
 /**
- * Get TODOs that are due soon
+ * Get TODOs that are due soon and still need work (not done or cancelled)
  * @param days Number of days until due
- * @returns List of upcoming TODOs
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param page Page size, cursor and sort order
+ * @returns Page of upcoming TODOs
  */
-export function getUpcomingTodos(days: number = 3) {
+export function getUpcomingTodos(
+  days: number = 3,
+  namespace?: string,
+  page: PageOptions<TodoSortKey> = {},
+) {
   const today = new Date();
   const futureDate = new Date();
   futureDate.setDate(today.getDate() + days);
 
   return todoRepo.searchTodos({
-    completed: false,
+    ...page,
+    statuses: ACTIVE_TODO_STATUSES,
     dueBefore: futureDate,
     dueAfter: today,
+    namespace,
   });
 }
 
 /**
- * Get overdue TODOs
- * @returns List of overdue TODOs
+ * Get overdue TODOs that still need work (not done or cancelled)
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param page Page size, cursor and sort order
+ * @returns Page of overdue TODOs
  */
-export function getOverdueTodos() {
+export function getOverdueTodos(
+  namespace?: string,
+  page: PageOptions<TodoSortKey> = {},
+) {
   const today = new Date();
 
   return todoRepo.searchTodos({
-    completed: false,
+    ...page,
+    statuses: ACTIVE_TODO_STATUSES,
     dueBefore: today,
+    namespace,
   });
 }
 
 /**
- * Delete a TODO and record the deletion in memory
+ * Move a TODO to the trash and record the deletion in memory
+ *
+ * Subtasks of the deleted TODO move up to its parent unless they are deleted
+ * with it.
  * @param id ID of the TODO to delete
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param options Whether to delete the subtasks as well
  * @returns Whether the deletion was successful
  */
-export function deleteTodoWithMemory(id: number) {
-  // Get TODO information before deletion
-  const todo = todoRepo.getTodoById(id);
+export function deleteTodoWithMemory(
+  id: number,
+  namespace?: string,
+  options: TodoDeleteOptions = {},
+) {
+  assertWritable("delete a TODO", "delete_todo");
 
-  // Delete TODO using repository
-  const success = todoRepo.deleteTodo(id);
+  return getDatabase().transaction(() => {
+    // Get TODO information before deletion
+    const todo = todoRepo.getTodoById(id, namespace);
 
-  if (success && todo) {
-    // Prepare data for memory entry
-    const memoryInput: MemoryCreateInput = {
-      content: `Deleted TODO: ${todo.title}`,
-    };
+    // Handle subtasks before the parent disappears. Subtasks deleted with it
+    // share its deletion batch, so that they are restored with it.
+    const batch = todoRepo.getNextDeletionBatch();
+    let subtaskStr = "";
+    const steps: UndoStep[] = [];
+    if (todo) {
+      if (options.deleteSubtasks) {
+        const deleted = relationRepo.deleteDescendants(id, batch);
+        subtaskStr =
+          deleted.length > 0 ? ` (and ${deleted.length} subtasks)` : "";
+        steps.push(
+          ...deleted.map(
+            (subtaskId): UndoStep => ({
+              action: "restore",
+              type: "todo",
+              id: subtaskId,
+            }),
+          ),
+        );
+      } else {
+        const children = relationRepo
+          .getChildIds(id)
+          .map((childId) => todoRepo.getTodoById(childId, todo.namespace))
+          .filter((child): child is Todo => child !== null);
+        const moved = relationRepo.moveChildren(
+          id,
+          todo.parent_id ?? null,
+          batch,
+        );
+        subtaskStr = moved > 0 ? ` (${moved} subtasks moved up)` : "";
+        steps.push(...revertSteps(children));
+      }
+    }
 
-    // Create memory using repository
-    memoryRepo.createMemory(memoryInput);
-  }
+    // Delete TODO using repository
+    const success = todoRepo.deleteTodo(id, namespace, batch);
+
+    if (success && todo) {
+      // Prepare data for memory entry. A TODO in the trash is left out of
+      // timelines, so the memory is also linked to its parent, if any.
+      const memoryInput: MemoryCreateInput = {
+        content: `Deleted TODO: ${todo.title}${subtaskStr}`,
+        todo_ids: todo.parent_id ? [todo.id, todo.parent_id] : [todo.id],
+        namespace: todo.namespace,
+      };
+
+      // Create memory using repository
+      const memoryId = memoryRepo.createMemory(memoryInput);
+      recordChange(
+        `Deleted TODO ${todo.id}: ${todo.title}`,
+        [
+          ...steps,
+          { action: "restore", type: "todo", id: todo.id },
+          { action: "trash", type: "memory", id: memoryId },
+        ],
+        todo.namespace,
+      );
+    }
 
-  return success;
+    return success;
+  })();
 }
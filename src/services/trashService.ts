@@ -0,0 +1,139 @@
+import { getDatabase } from "../database";
+import * as trashRepo from "../repositories/trashRepository";
+import * as todoRepo from "../repositories/todoRepository";
+import * as memoryRepo from "../repositories/memoryRepository";
+import * as relationRepo from "../repositories/todoRelationRepository";
+import { TrashItemType, TrashSortKey } from "../repositories/trashRepository";
+import { Todo } from "../repositories/todoRepository";
+import { PageOptions } from "../database/pagination";
+import { assertWritable } from "../accessControl";
+import { recordChange, getTodoState, UndoStep } from "./journalService";
+
+export interface RestoreResult {
+  type: TrashItemType;
+  id: number;
+  subtask_ids: number[]; // Subtasks restored with a TODO
+  moved_subtask_ids: number[]; // Subtasks moved back under a TODO
+}
+
+export interface EmptyTrashOptions {
+  type?: TrashItemType; // Default: memories and TODOs
+  olderThanDays?: number; // Only items deleted at least this many days ago
+  namespace?: string; // Defaults to the server's namespace
+  now?: Date; // Reference time for olderThanDays (default: now)
+}
+
+/**
+ * List the items in the trash
+ * @param type Only list memories or TODOs (default: both)
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @param page Page size, cursor and sort order
+ * @returns Page of items, most recently deleted first by default
+ */
+export function listTrash(
+  type?: TrashItemType,
+  namespace?: string,
+  page: PageOptions<TrashSortKey> = {},
+) {
+  return trashRepo.listTrash({ ...page, type, namespace });
+}
+
+/**
+ * Take a memory or TODO out of the trash
+ *
+ * A TODO comes back with the subtasks that were deleted with it, the
+ * subtasks that were moved up a level when it was deleted are moved back
+ * under it, and its restoration is recorded in memory.
+ * @param type Item type
+ * @param id Item ID
+ * @param namespace Namespace (defaults to the server's namespace)
+ * @returns What was restored, or null if the item is not in the trash
+ * @throws AccessDeniedError if the server is read-only or the tool is denied
+ */
+export function restoreItem(
+  type: TrashItemType,
+  id: number,
+  namespace?: string,
+): RestoreResult | null {
+  assertWritable("restore an item", "restore_item");
+
+  return getDatabase().transaction(() => {
+    const subtaskIds =
+      type === "todo" ? trashRepo.getSubtasksDeletedWith(id) : [];
+    const movedSubtasks =
+      type === "todo"
+        ? trashRepo
+            .getSubtasksMovedUpFrom(id)
+            .map((subtaskId) => todoRepo.getTodoById(subtaskId, namespace))
+            .filter((subtask): subtask is Todo => subtask !== null)
+        : [];
+    if (!trashRepo.restoreItem(type, id, namespace)) {
+      return null;
+    }
+    for (const subtaskId of subtaskIds) {
+      trashRepo.restoreItem("todo", subtaskId, namespace);
+    }
+    for (const subtask of movedSubtasks) {
+      relationRepo.setParent(subtask.id, id, namespace);
+    }
+
+    const steps: UndoStep[] = [id, ...subtaskIds].map((itemId) => ({
+      action: "trash",
+      type,
+      id: itemId,
+    }));
+    steps.push(
+      ...movedSubtasks.map(
+        (subtask): UndoStep => ({
+          action: "revert_todo",
+          id: subtask.id,
+          state: getTodoState(subtask),
+        }),
+      ),
+    );
+    const todo = type === "todo" ? todoRepo.getTodoById(id, namespace) : null;
+    if (todo) {
+      const subtaskStr =
+        (subtaskIds.length > 0 ? ` (and ${subtaskIds.length} subtasks)` : "") +
+        (movedSubtasks.length > 0
+          ? ` (${movedSubtasks.length} subtasks moved back)`
+          : "");
+      const memoryId = memoryRepo.createMemory({
+        content: `Restored TODO: ${todo.title}${subtaskStr}`,
+        todo_ids: [todo.id, ...subtaskIds],
+        namespace: todo.namespace,
+      });
+      steps.push({ action: "trash", type: "memory", id: memoryId });
+    }
+    recordChange(`Restored ${type} ${id}`, steps, namespace);
+
+    return {
+      type,
+      id,
+      subtask_ids: subtaskIds,
+      moved_subtask_ids: movedSubtasks.map((subtask) => subtask.id),
+    };
+  })();
+}
+
+/**
+ * Permanently delete the items in the trash
+ *
+ * This cannot be undone; changes journaled before skip the deleted items.
+ * @param options Item type, minimum age and namespace
+ * @returns Number of memories and TODOs that were deleted
+ * @throws AccessDeniedError if the server is read-only or the tool is denied
+ */
+export function emptyTrash(options: EmptyTrashOptions = {}) {
+  assertWritable("empty the trash", "empty_trash");
+  const now = options.now ?? new Date();
+
+  return trashRepo.purgeTrash({
+    type: options.type,
+    namespace: options.namespace,
+    deletedBefore:
+      options.olderThanDays !== undefined
+        ? new Date(now.getTime() - options.olderThanDays * 24 * 60 * 60 * 1000)
+        : undefined,
+  });
+}
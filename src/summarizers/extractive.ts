@@ -0,0 +1,85 @@
+import { Summarizer } from "./types";
+
+// Longest line taken from a memory, in characters
+const MAX_LINE_LENGTH = 200;
+
+interface Entry {
+  text: string;
+  count: number; // How many memories have this text
+  order: number; // Position of the first of them
+  words: Set<string>;
+}
+
+/**
+ * Deterministic offline summarizer that picks representative memories
+ *
+ * Needs no model or network access. Identical memories are merged and counted,
+ * then the memories sharing the most words with the others are kept and
+ * listed in their original order, one line each.
+ */
+export class ExtractiveSummarizer implements Summarizer {
+  readonly id = "extractive";
+
+  constructor(private readonly maxLines: number = 5) {}
+
+  async summarize(texts: string[]): Promise<string> {
+    const entries = new Map<string, Entry>();
+    texts.forEach((text, order) => {
+      const line = text.trim().replace(/\s+/g, " ");
+      const key = line.normalize("NFKC").toLowerCase();
+      const entry = entries.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        entries.set(key, {
+          text: line,
+          count: 1,
+          order,
+          words: new Set(key.match(/[\p{L}\p{N}]+/gu) ?? []),
+        });
+      }
+    });
+
+    // Number of distinct memories each word appears in
+    const frequency = new Map<string, number>();
+    for (const entry of entries.values()) {
+      for (const word of entry.words) {
+        frequency.set(word, (frequency.get(word) || 0) + 1);
+      }
+    }
+
+    const score = (entry: Entry) => {
+      let total = 0;
+      for (const word of entry.words) {
+        total += frequency.get(word)!;
+      }
+      return entry.words.size > 0
+        ? (total / entry.words.size) * entry.count
+        : 0;
+    };
+
+    const ranked = [...entries.values()]
+      .map((entry) => ({ entry, score: score(entry) }))
+      .sort((a, b) => b.score - a.score || a.entry.order - b.entry.order);
+    const kept = ranked
+      .slice(0, this.maxLines)
+      .map(({ entry }) => entry)
+      .sort((a, b) => a.order - b.order);
+
+    const lines = kept.map((entry) => {
+      const text =
+        entry.text.length > MAX_LINE_LENGTH
+          ? `${entry.text.slice(0, MAX_LINE_LENGTH - 1)}…`
+          : entry.text;
+      return entry.count > 1 ? `- ${text} (x${entry.count})` : `- ${text}`;
+    });
+
+    const omitted =
+      texts.length - kept.reduce((sum, entry) => sum + entry.count, 0);
+    if (omitted > 0) {
+      lines.push(`- …and ${omitted} more`);
+    }
+
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,16 @@
+import { Summarizer } from "./types";
+import { ExtractiveSummarizer } from "./extractive";
+
+export type { Summarizer };
+export { ExtractiveSummarizer };
+
+// Summarizer used for digest memories (offline default)
+let summarizer: Summarizer = new ExtractiveSummarizer();
+
+export function setSummarizer(newSummarizer: Summarizer) {
+  summarizer = newSummarizer;
+}
+
+export function getSummarizer(): Summarizer {
+  return summarizer;
+}
@@ -0,0 +1,9 @@
+/**
+ * Condenses the contents of several memories into the text of a digest
+ */
+export interface Summarizer {
+  // Identifies the summarizer (e.g. "extractive")
+  id: string;
+  // Texts are given oldest first
+  summarize(texts: string[]): Promise<string>;
+}
@@ -0,0 +1,106 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AuditEntry, AUDIT_SORT_KEYS } from "../repositories/auditRepository";
+import { AUDIT_STATUSES } from "../constants";
+import * as auditService from "../services/auditService";
+import { registerTool } from "./response";
+import {
+  pageInputShape,
+  PageOutputShape,
+  toPageOptions,
+  formatPage,
+} from "./schemas";
+
+const AuditLogSchema = z.object({
+  tool: z.string().optional().describe("Only include calls of this tool"),
+  status: z
+    .enum(AUDIT_STATUSES)
+    .optional()
+    .describe("Only include calls that succeeded or failed"),
+  session_id: z
+    .string()
+    .optional()
+    .describe("Only include calls made in this HTTP session"),
+  namespace: z
+    .string()
+    .optional()
+    .describe(
+      "Only include calls that operated on this namespace (default is every namespace)",
+    ),
+  from: z
+    .string()
+    .optional()
+    .describe(
+      "Only include calls made in or after this period: an ISO date or a relative expression such as yesterday or last week",
+    ),
+  to: z
+    .string()
+    .optional()
+    .describe("Only include calls made in or before this period"),
+  ...pageInputShape(AUDIT_SORT_KEYS, "created_at, newest first"),
+});
+
+const AuditEntryOutputSchema = z.object({
+  id: z.number(),
+  tool: z.string(),
+  arguments: z.unknown().describe("The arguments, with redacted values"),
+  namespace: z.string(),
+  client: z.string().nullable(),
+  session_id: z.string().nullable(),
+  status: z.enum(AUDIT_STATUSES),
+  error: z.string().nullable(),
+  duration_ms: z.number(),
+  created_at: z.string(),
+});
+
+function toAuditEntryOutput(entry: AuditEntry) {
+  let args: unknown;
+  try {
+    args = JSON.parse(entry.arguments);
+  } catch {
+    args = entry.arguments;
+  }
+  return { ...entry, arguments: args };
+}
+
+export function registerAuditTools(server: McpServer) {
+  registerTool(
+    server,
+    "get_audit_log",
+    {
+      description:
+        "Browses the audit log of tool calls: which tool was called with which arguments (with configured values redacted), by which client and HTTP session, whether it succeeded and how long it took. Filter by tool, status, session, namespace and period. Results are ordered newest first and paginated; sort by duration_ms to find slow calls.",
+      inputSchema: AuditLogSchema.shape,
+      outputSchema: {
+        ...PageOutputShape,
+        entries: z.array(AuditEntryOutputSchema),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const page = auditService.getAuditLog({
+        tool: args.tool,
+        status: args.status,
+        sessionId: args.session_id,
+        namespace: args.namespace,
+        from: args.from,
+        to: args.to,
+        page: toPageOptions(args),
+      });
+
+      return {
+        text: formatPage(
+          `Found ${page.total} tool calls:`,
+          page.items.map(auditService.formatAuditEntry),
+          page,
+        ),
+        data: {
+          count: page.items.length,
+          total: page.total,
+          next_cursor: page.next_cursor,
+          entries: page.items.map(toAuditEntryOutput),
+        },
+      };
+    },
+  );
+}
@@ -0,0 +1,121 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as exportService from "../services/exportService";
+import { EXPORT_FORMATS, IMPORT_FORMATS } from "../constants";
+import { registerTool } from "./response";
+import { NamespaceSchema } from "./schemas";
+
+const ExportDataSchema = z.object({
+  format: z
+    .enum(EXPORT_FORMATS)
+    .optional()
+    .describe(
+      "json (default) or jsonl to back up or migrate the data, markdown for a readable journal",
+    ),
+  all_namespaces: z
+    .boolean()
+    .optional()
+    .describe("Export every namespace instead of a single one"),
+  namespace: NamespaceSchema,
+});
+
+const ImportDataSchema = z.object({
+  data: z.string().describe("The JSON or JSONL produced by export_data"),
+  format: z
+    .enum(IMPORT_FORMATS)
+    .optional()
+    .describe("Format of the data (detected if omitted)"),
+  namespace: z
+    .string()
+    .optional()
+    .describe(
+      "Namespace to import everything into. Defaults to the namespace each item was exported from",
+    ),
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe("Only report what would be imported without changing anything"),
+});
+
+const ImportCountsSchema = z.object({
+  total: z.number(),
+  imported: z.number(),
+  duplicates: z.number(),
+});
+
+export function registerDataTools(server: McpServer) {
+  registerTool(
+    server,
+    "export_data",
+    {
+      description:
+        "Exports the memories and TODOs of a namespace (or of all namespaces) with their tags, original creation times and completion state. JSON and JSONL exports can be imported again with import_data; the Markdown journal lists everything by day for reading.",
+      inputSchema: ExportDataSchema.shape,
+      outputSchema: {
+        format: z.enum(EXPORT_FORMATS),
+        memory_count: z.number(),
+        todo_count: z.number(),
+        data: z.string().describe("The exported data"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const format = args.format ?? "json";
+      const document = exportService.getExportDocument({
+        namespace: args.namespace,
+        allNamespaces: args.all_namespaces,
+      });
+      const data = exportService.formatExport(document, format);
+
+      return {
+        text: data,
+        data: {
+          format,
+          memory_count: document.memories.length,
+          todo_count: document.todos.length,
+          data,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "import_data",
+    {
+      description:
+        "Imports memories and TODOs from a JSON or JSONL export, keeping their creation times, completion state and tags. Imported items get new IDs; the report maps the exported IDs to the new ones. Items whose content (memories) or title (TODOs) and creation time already exist in the namespace are skipped as duplicates. Use dry_run to see the report without importing anything.",
+      inputSchema: ImportDataSchema.shape,
+      outputSchema: {
+        dry_run: z.boolean(),
+        memories: ImportCountsSchema,
+        todos: ImportCountsSchema,
+        id_map: z
+          .object({
+            memories: z.record(z.string(), z.number()),
+            todos: z.record(z.string(), z.number()),
+          })
+          .describe("Exported ID -> new ID of every imported item"),
+        duplicates: z.array(
+          z.object({
+            type: z.enum(["memory", "todo"]),
+            id: z.number(),
+            existing_id: z.number().nullable(),
+          }),
+        ),
+      },
+    },
+    (args) => {
+      const report = exportService.importData(args.data, {
+        format: args.format,
+        namespace: args.namespace,
+        dryRun: args.dry_run,
+      });
+
+      return {
+        text: `${report.dry_run ? "Dry run: would import" : "Imported"} ${report.memories.imported} of ${report.memories.total} memories and ${report.todos.imported} of ${report.todos.total} TODOs (${report.memories.duplicates + report.todos.duplicates} duplicates skipped)`,
+        data: report,
+      };
+    },
+  );
+}
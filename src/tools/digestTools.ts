@@ -0,0 +1,168 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as consolidationService from "../services/consolidationService";
+import * as memoryService from "../services/memoryService";
+import { CONSOLIDATION_GROUPINGS } from "../services/consolidationService";
+import { registerTool } from "./response";
+import { NamespaceSchema, TimeZoneSchema, formatList } from "./schemas";
+
+const ConsolidateSchema = z.object({
+  group_by: z
+    .enum(CONSOLIDATION_GROUPINGS)
+    .optional()
+    .describe(
+      "Group memories by the day or week they were created, or by their first tag (default is day)",
+    ),
+  from: z
+    .string()
+    .optional()
+    .describe(
+      'Only consolidate memories from this period on: an ISO date (2025-03-01, 2025-03) or a relative expression such as "7 days ago" or last month (default is no limit)',
+    ),
+  to: z
+    .string()
+    .optional()
+    .describe(
+      "Only consolidate memories up to the end of this period, in the same format (default is up to yesterday, so today's memories are left alone)",
+    ),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only consolidate memories that have all of these tags"),
+  min_group_size: z
+    .number()
+    .int()
+    .min(2)
+    .optional()
+    .describe(
+      "The smallest number of memories that gets a digest (default is 2)",
+    ),
+  archive: z
+    .boolean()
+    .optional()
+    .describe(
+      "Archive the consolidated memories so that only the digest shows up in searches (default is false)",
+    ),
+  dry_run: z
+    .boolean()
+    .optional()
+    .describe("Show the digests that would be created without saving anything"),
+  time_zone: TimeZoneSchema,
+  namespace: NamespaceSchema,
+});
+
+const ArchiveSchema = z.object({
+  ids: z.array(z.number()).min(1).describe("The IDs of the memories"),
+  namespace: NamespaceSchema,
+});
+
+export function registerDigestTools(server: McpServer) {
+  registerTool(
+    server,
+    "consolidate_memories",
+    {
+      description:
+        "Consolidates many small memories into digest memories, one per day, week or tag. Each digest summarizes its memories (repeated entries are merged and counted), takes over their tags and TODO links, is tagged #digest and is linked to each of them with the summarizes relation. Optionally archives the consolidated memories so that searches and get_memory_context show the digest instead; archived memories can still be found with include_archived or through the digest's links. Memories that are archived or are digests themselves are not consolidated again.",
+      inputSchema: ConsolidateSchema.shape,
+      outputSchema: {
+        dry_run: z.boolean(),
+        archived: z.number().describe("The number of memories archived"),
+        digests: z.array(
+          z.object({
+            key: z
+              .string()
+              .describe("The day, the Monday of the week or the tag"),
+            digest_id: z
+              .number()
+              .nullable()
+              .describe("The ID of the digest memory, null in a dry run"),
+            source_ids: z.array(z.number()),
+            content: z.string(),
+            created_at: z.string(),
+          }),
+        ),
+      },
+    },
+    async (args) => {
+      const dryRun = args.dry_run ?? false;
+      const result = await consolidationService.consolidateMemories({
+        groupBy: args.group_by,
+        from: args.from,
+        to: args.to,
+        tags: args.tags,
+        minGroupSize: args.min_group_size,
+        archive: args.archive,
+        dryRun,
+        timeZone: args.time_zone,
+        namespace: args.namespace,
+      });
+      const sources = result.groups.reduce(
+        (sum, group) => sum + group.source_ids.length,
+        0,
+      );
+      const heading = dryRun
+        ? `Would create ${result.groups.length} digests of ${sources} memories:`
+        : `Created ${result.groups.length} digests of ${sources} memories (${result.archived} archived):`;
+
+      return {
+        text: formatList(
+          heading,
+          result.groups.map((group) =>
+            group.digest_id === null
+              ? `- ${group.key}: ${group.source_ids.length} memories`
+              : `- [${group.digest_id}] ${group.key}: ${group.source_ids.length} memories`,
+          ),
+        ),
+        data: {
+          dry_run: dryRun,
+          archived: result.archived,
+          digests: result.groups,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "archive_memories",
+    {
+      description:
+        "Archives memories: they stay in the database and can still be retrieved by ID, through links or with include_archived, but are hidden from default searches, lists and get_memory_context.",
+      inputSchema: ArchiveSchema.shape,
+      outputSchema: { archived: z.number() },
+    },
+    (args) => {
+      const archived = memoryService.setMemoriesArchived(
+        args.ids,
+        true,
+        args.namespace,
+      );
+      return {
+        text: `Archived ${archived} of ${args.ids.length} memories`,
+        data: { archived },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "unarchive_memories",
+    {
+      description:
+        "Restores archived memories so that they show up in searches and lists again.",
+      inputSchema: ArchiveSchema.shape,
+      outputSchema: { restored: z.number() },
+    },
+    (args) => {
+      const restored = memoryService.setMemoriesArchived(
+        args.ids,
+        false,
+        args.namespace,
+      );
+      return {
+        text: `Restored ${restored} of ${args.ids.length} memories`,
+        data: { restored },
+      };
+    },
+  );
+}
@@ -0,0 +1,29 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTodoTools } from "./todoTools";
+import { registerMemoryTools } from "./memoryTools";
+import { registerTagTools } from "./tagTools";
+import { registerNamespaceTools } from "./namespaceTools";
+import { registerDataTools } from "./dataTools";
+import { registerLinkTools } from "./linkTools";
+import { registerReportTools } from "./reportTools";
+import { registerDigestTools } from "./digestTools";
+import { registerRetrievalTools } from "./retrievalTools";
+import { registerAuditTools } from "./auditTools";
+import { registerTrashTools } from "./trashTools";
+
+/**
+ * Register every tool on an MCP server
+ */
+export function registerAllTools(server: McpServer) {
+  registerTodoTools(server);
+  registerMemoryTools(server);
+  registerTagTools(server);
+  registerNamespaceTools(server);
+  registerDataTools(server);
+  registerLinkTools(server);
+  registerReportTools(server);
+  registerDigestTools(server);
+  registerRetrievalTools(server);
+  registerAuditTools(server);
+  registerTrashTools(server);
+}
@@ -0,0 +1,316 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as memoryRepo from "../repositories/memoryRepository";
+import * as todoRepo from "../repositories/todoRepository";
+import * as linkRepo from "../repositories/linkRepository";
+import * as linkService from "../services/linkService";
+import { MEMORY_RELATIONS, MemoryLink } from "../repositories/linkRepository";
+import { registerTool, NotFoundError } from "./response";
+import {
+  NamespaceSchema,
+  MemoryOutputSchema,
+  TodoOutputSchema,
+  toMemoryOutput,
+  toTodoOutput,
+  formatMemoryLine,
+  formatList,
+} from "./schemas";
+
+const RelationSchema = z
+  .enum(MEMORY_RELATIONS)
+  .describe(
+    "How the first memory relates to the second: relates_to, supersedes (replaces an outdated memory), caused_by or summarizes (a digest of the second)",
+  );
+
+const MemoryTodoLinkSchema = z.object({
+  memory_id: z.number().describe("The ID of the memory"),
+  todo_id: z.number().describe("The ID of the TODO the memory is about"),
+  namespace: NamespaceSchema,
+});
+
+const MemoryLinkSchema = z.object({
+  from_id: z.number().describe("The ID of the memory the link starts from"),
+  to_id: z.number().describe("The ID of the memory the link points to"),
+  relation: RelationSchema,
+  namespace: NamespaceSchema,
+});
+
+const MemoryUnlinkSchema = MemoryLinkSchema.extend({
+  relation: RelationSchema.optional().describe(
+    "Only remove the link with this relation (default is every link from the first memory to the second)",
+  ),
+});
+
+const MemoryLinksInputSchema = z.object({
+  memory_id: z.number().describe("The ID of the memory"),
+  namespace: NamespaceSchema,
+});
+
+const TodoTimelineSchema = z.object({
+  todo_id: z.number().describe("The ID of the TODO"),
+  namespace: NamespaceSchema,
+});
+
+const MemoryLinkOutputSchema = z.object({
+  from_id: z.number(),
+  to_id: z.number(),
+  relation: z.enum(MEMORY_RELATIONS),
+  created_at: z.string(),
+});
+
+const MemoryLinksResultSchema = z.object({
+  memory: MemoryOutputSchema,
+  todo_ids: z
+    .array(z.number())
+    .describe("IDs of the TODOs the memory is about"),
+  links: z
+    .array(MemoryLinkOutputSchema)
+    .describe("Links from and to other memories"),
+});
+
+const TodoTimelineResultSchema = z.object({
+  todo: TodoOutputSchema,
+  count: z.number(),
+  memories: z
+    .array(
+      MemoryOutputSchema.extend({
+        link: MemoryLinkOutputSchema.nullable().describe(
+          "The link to a memory about the TODO, or null if the memory is linked to the TODO itself",
+        ),
+      }),
+    )
+    .describe("The memories in chronological order"),
+});
+
+/**
+ * Fail if the memory does not exist in the namespace
+ */
+function assertMemoryExists(id: number, namespace?: string) {
+  if (!memoryRepo.getMemoryById(id, namespace)) {
+    throw new NotFoundError(`No memory found with ID: ${id}`);
+  }
+}
+
+/**
+ * Fail if the TODO does not exist in the namespace
+ */
+function assertTodoExists(id: number, namespace?: string) {
+  if (!todoRepo.getTodoById(id, namespace)) {
+    throw new NotFoundError(`No TODO found with ID: ${id}`);
+  }
+}
+
+/**
+ * Describe a link between memories, e.g. "memory 5 supersedes memory 3"
+ */
+function describeLink(
+  link: Pick<MemoryLink, "from_id" | "to_id" | "relation">,
+): string {
+  return `memory ${link.from_id} ${link.relation.replace("_", " ")} memory ${link.to_id}`;
+}
+
+/**
+ * Build the output of a tool returning the links of a memory
+ */
+function memoryLinks(text: string, memoryId: number, namespace?: string) {
+  const memory = memoryRepo.getMemoryById(memoryId, namespace)!;
+  return {
+    text,
+    data: {
+      memory: toMemoryOutput(memory),
+      todo_ids: linkRepo.getLinkedTodoIds(memoryId),
+      links: linkRepo.getMemoryLinks(memoryId),
+    },
+  };
+}
+
+export function registerLinkTools(server: McpServer) {
+  registerTool(
+    server,
+    "link_memory_to_todo",
+    {
+      description:
+        "Links a memory to a TODO it is about, so that it appears in the TODO's timeline. Memories recorded automatically by TODO operations are linked already. Linking an already linked pair does nothing. Returns the memory with the IDs of its TODOs and its links to other memories.",
+      inputSchema: MemoryTodoLinkSchema.shape,
+      outputSchema: MemoryLinksResultSchema.shape,
+    },
+    (args) => {
+      assertMemoryExists(args.memory_id, args.namespace);
+      assertTodoExists(args.todo_id, args.namespace);
+
+      linkService.linkMemoryToTodo(
+        args.memory_id,
+        args.todo_id,
+        args.namespace,
+      );
+
+      return memoryLinks(
+        `Successfully linked memory ${args.memory_id} to TODO ${args.todo_id}`,
+        args.memory_id,
+        args.namespace,
+      );
+    },
+  );
+
+  registerTool(
+    server,
+    "unlink_memory_from_todo",
+    {
+      description:
+        "Removes the link between a memory and a TODO. The memory and the TODO are kept. Returns the memory with the IDs of its remaining TODOs and its links to other memories.",
+      inputSchema: MemoryTodoLinkSchema.shape,
+      outputSchema: MemoryLinksResultSchema.shape,
+    },
+    (args) => {
+      assertMemoryExists(args.memory_id, args.namespace);
+
+      if (
+        !linkService.unlinkMemoryFromTodo(
+          args.memory_id,
+          args.todo_id,
+          args.namespace,
+        )
+      ) {
+        throw new NotFoundError(
+          `No link found between memory ${args.memory_id} and TODO ${args.todo_id}`,
+        );
+      }
+
+      return memoryLinks(
+        `Successfully unlinked memory ${args.memory_id} from TODO ${args.todo_id}`,
+        args.memory_id,
+        args.namespace,
+      );
+    },
+  );
+
+  registerTool(
+    server,
+    "link_memories",
+    {
+      description:
+        "Links one memory to another with a relation: relates_to, supersedes (the first memory replaces the outdated second one) or caused_by (the first memory is a consequence of the second). Linking an already linked pair does nothing. Returns the first memory with its TODOs and links.",
+      inputSchema: MemoryLinkSchema.shape,
+      outputSchema: MemoryLinksResultSchema.shape,
+    },
+    (args) => {
+      if (args.from_id === args.to_id) {
+        throw new Error("A memory cannot be linked to itself");
+      }
+      assertMemoryExists(args.from_id, args.namespace);
+      assertMemoryExists(args.to_id, args.namespace);
+
+      linkService.linkMemories(
+        args.from_id,
+        args.to_id,
+        args.relation,
+        args.namespace,
+      );
+
+      return memoryLinks(
+        `Successfully linked ${describeLink(args)}`,
+        args.from_id,
+        args.namespace,
+      );
+    },
+  );
+
+  registerTool(
+    server,
+    "unlink_memories",
+    {
+      description:
+        "Removes the links from one memory to another, either every link or only the one with the given relation. The memories are kept. Returns the first memory with its remaining TODOs and links.",
+      inputSchema: MemoryUnlinkSchema.shape,
+      outputSchema: MemoryLinksResultSchema.shape,
+    },
+    (args) => {
+      assertMemoryExists(args.from_id, args.namespace);
+
+      const removed = linkService.unlinkMemories(
+        args.from_id,
+        args.to_id,
+        args.relation,
+        args.namespace,
+      );
+      if (removed === 0) {
+        throw new NotFoundError(
+          `No link found from memory ${args.from_id} to memory ${args.to_id}`,
+        );
+      }
+
+      return memoryLinks(
+        `Successfully removed ${removed} links from memory ${args.from_id} to memory ${args.to_id}`,
+        args.from_id,
+        args.namespace,
+      );
+    },
+  );
+
+  registerTool(
+    server,
+    "get_memory_links",
+    {
+      description:
+        "Retrieves a memory together with the IDs of the TODOs it is about and its links from and to other memories.",
+      inputSchema: MemoryLinksInputSchema.shape,
+      outputSchema: MemoryLinksResultSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      assertMemoryExists(args.memory_id, args.namespace);
+
+      const todoIds = linkRepo.getLinkedTodoIds(args.memory_id);
+      const lines = [
+        ...todoIds.map((todoId) => `- about TODO ${todoId}`),
+        ...linkRepo
+          .getMemoryLinks(args.memory_id)
+          .map((link) => `- ${describeLink(link)}`),
+      ];
+
+      return memoryLinks(
+        formatList(`Links of memory ${args.memory_id}:`, lines),
+        args.memory_id,
+        args.namespace,
+      );
+    },
+  );
+
+  registerTool(
+    server,
+    "get_todo_timeline",
+    {
+      description:
+        "Retrieves the full history of a TODO: every memory linked to it, including the memories recorded automatically when it was created, updated, completed or related to other TODOs, plus the memories linked to those memories. The memories are returned in chronological order, oldest first.",
+      inputSchema: TodoTimelineSchema.shape,
+      outputSchema: TodoTimelineResultSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const todo = todoRepo.getTodoById(args.todo_id, args.namespace);
+      if (!todo) {
+        throw new NotFoundError(`No TODO found with ID: ${args.todo_id}`);
+      }
+
+      const memories = linkRepo
+        .getTodoTimeline(todo.id)
+        .map(({ link, ...memory }) => ({ ...toMemoryOutput(memory), link }));
+      memoryRepo.recordMemoryAccess(memories.map((memory) => memory.id));
+
+      return {
+        text: formatList(
+          `Timeline of TODO ${todo.id} (${todo.title}), ${memories.length} memories:`,
+          memories.map((memory) =>
+            formatMemoryLine(
+              memory,
+              memory.link
+                ? `${memory.content} (${describeLink(memory.link)})`
+                : memory.content,
+            ),
+          ),
+        ),
+        data: { todo: toTodoOutput(todo), count: memories.length, memories },
+      };
+    },
+  );
+}
@@ -0,0 +1,526 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as memoryRepo from "../repositories/memoryRepository";
+import * as todoRepo from "../repositories/todoRepository";
+import {
+  MEMORY_SORT_KEYS,
+  MEMORY_SEARCH_SORT_KEYS,
+} from "../repositories/memoryRepository";
+import {
+  toSqliteTimestamp,
+  formatTimestamp,
+  getDisplayTimeZone,
+  normalizeTimeZone,
+} from "../database/timestamp";
+import { GRANULARITIES } from "../dateRange";
+import * as memoryService from "../services/memoryService";
+import * as embeddingService from "../services/embeddingService";
+import { registerTool, NotFoundError } from "./response";
+import {
+  NamespaceSchema,
+  TagsSchema,
+  IncludeArchivedSchema,
+  ImportanceSchema,
+  GranularitySchema,
+  TimeZoneSchema,
+  MemoryOutputSchema,
+  MemoryOutput,
+  pageInputShape,
+  toPageOptions,
+  PageOutputShape,
+  toMemoryOutput,
+  formatMemoryLine,
+  formatList,
+  formatPage,
+} from "./schemas";
+
+const MemoryCreateSchema = z.object({
+  content: z.string().describe("The content of the memory"),
+  tags: TagsSchema,
+  todo_ids: z
+    .array(z.number())
+    .optional()
+    .describe("IDs of TODOs the memory is about, shown in their timelines"),
+  importance: ImportanceSchema.optional(),
+  pinned: z
+    .boolean()
+    .optional()
+    .describe(
+      "Pin the memory so that get_relevant_memories always returns it first (default is false)",
+    ),
+  namespace: NamespaceSchema,
+});
+
+const MemorySearchSchema = z.object({
+  ...pageInputShape(
+    MEMORY_SEARCH_SORT_KEYS,
+    "relevance, or created_at (newest first) for an empty query",
+  ),
+  search_text: z
+    .string()
+    .describe(
+      'Search query. Words match in any order; supports "exact phrases", prefix*, AND, OR, NOT and parentheses. Use an empty string to match every memory',
+    ),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only include memories that have all of these tags"),
+  include_archived: IncludeArchivedSchema,
+  namespace: NamespaceSchema,
+});
+
+const MemoryUpdateSchema = z.object({
+  id: z.number().describe("The ID of the memory to update"),
+  content: z.string().describe("The new content of the memory"),
+  namespace: NamespaceSchema,
+});
+
+const MemoryIdSchema = z.object({
+  id: z.number().describe("The ID of the memory"),
+  namespace: NamespaceSchema,
+});
+
+const MemorySemanticSearchSchema = z.object({
+  query: z
+    .string()
+    .describe("A natural language description of what you are looking for"),
+  limit: z
+    .number()
+    .optional()
+    .describe("The maximum number of memories to return (default is 10)"),
+  mode: z
+    .enum(["semantic", "hybrid"])
+    .optional()
+    .describe(
+      "semantic ranks by similarity only; hybrid blends similarity with keyword relevance (default is semantic)",
+    ),
+  semantic_weight: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(
+      "In hybrid mode, the weight of the similarity score between 0 and 1 (default is 0.5)",
+    ),
+  namespace: NamespaceSchema,
+});
+
+const MemoryAroundSchema = z.object({
+  id: z.number().describe("The ID of the memory to get context for"),
+  range: z
+    .number()
+    .optional()
+    .describe("The number of memories to get before and after"),
+  namespace: NamespaceSchema,
+});
+
+const MemoryByDateSchema = z.object({
+  ...pageInputShape(MEMORY_SORT_KEYS, "created_at, newest first"),
+  from: z
+    .string()
+    .describe(
+      'The period to get memories from: an ISO date or time (2025-03-01, 2025-03, 2025-03-01T09:00) or a relative expression: today, yesterday, "N days ago", this/last week, this/last month, this/last year, or "past N hours/days/weeks/months"',
+    ),
+  to: z
+    .string()
+    .optional()
+    .describe(
+      "The period to get memories until, in the same format; its end is the end of the range (default is the end of from)",
+    ),
+  include_archived: IncludeArchivedSchema,
+  namespace: NamespaceSchema,
+});
+
+const MemoryStatsSchema = z.object({
+  days: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("The number of past days to include, today included"),
+  granularity: GranularitySchema,
+  time_zone: TimeZoneSchema,
+  namespace: NamespaceSchema,
+});
+
+const MemoryResultSchema = z.object({ memory: MemoryOutputSchema });
+
+/**
+ * Get a memory as tool output, failing if it does not exist
+ */
+function getMemoryOutput(id: number, namespace?: string): MemoryOutput {
+  const memory = memoryRepo.getMemoryById(id, namespace);
+  if (!memory) {
+    throw new NotFoundError(`No memory found with ID: ${id}`);
+  }
+  return toMemoryOutput(memory);
+}
+
+export function registerMemoryTools(server: McpServer) {
+  registerTool(
+    server,
+    "create_memory",
+    {
+      description:
+        "Stores a new text entry in the memory system with the current timestamp. Memories serve as a persistent record of actions, thoughts, and events. This function allows creating standalone memories, while other todo operations automatically create associated memories. Each memory entry is assigned a unique ID for future reference and can optionally be tagged (e.g. with a project name) to keep related memories together, and linked to the TODOs it is about. An importance from 1 to 5 (default 3) and a pin raise the memory in get_relevant_memories.",
+      inputSchema: MemoryCreateSchema.shape,
+      outputSchema: MemoryResultSchema.shape,
+    },
+    (args) => {
+      for (const todoId of args.todo_ids ?? []) {
+        if (!todoRepo.getTodoById(todoId, args.namespace)) {
+          throw new NotFoundError(`No TODO found with ID: ${todoId}`);
+        }
+      }
+
+      const memoryId = memoryService.createMemory(
+        args.content,
+        args.tags,
+        args.namespace,
+        args.todo_ids,
+        args.importance,
+        args.pinned,
+      );
+
+      return {
+        text: `Successfully created memory with ID: ${memoryId}`,
+        data: { memory: getMemoryOutput(memoryId, args.namespace) },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "search_memories",
+    {
+      description:
+        'Searches through all stored memories using a full-text index. The search is case-insensitive and matches partial text within the memory content. Multiple words match in any order, and the query may use "exact phrases", prefix* matching and the AND, OR and NOT operators. Results can be restricted to memories that have all of the given tags. Archived memories are skipped unless include_archived is set. Results are ranked by relevance (BM25) unless another sort key is given, and include a snippet with the matching text highlighted in **bold**, along with the full content and creation timestamp of each matching memory. Results are paginated: pass the returned next_cursor to get the next page. The total number of matches is always reported.',
+      inputSchema: MemorySearchSchema.shape,
+      outputSchema: {
+        ...PageOutputShape,
+        memories: z.array(
+          MemoryOutputSchema.extend({
+            snippet: z.string(),
+            rank: z
+              .number()
+              .nullable()
+              .describe("BM25 score (lower is more relevant)"),
+          }),
+        ),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const page = memoryRepo.searchMemories(args.search_text, {
+        ...toPageOptions(args),
+        tags: args.tags,
+        includeArchived: args.include_archived,
+        namespace: args.namespace,
+      });
+      const memories = page.items.map((memory) => ({
+        ...toMemoryOutput(memory),
+        snippet: memory.snippet,
+        rank: memory.rank,
+      }));
+      memoryRepo.recordMemoryAccess(memories.map((memory) => memory.id));
+
+      return {
+        text: formatPage(
+          `Found ${page.total} memories matching "${args.search_text}":`,
+          memories.map((memory) => formatMemoryLine(memory, memory.snippet)),
+          page,
+        ),
+        data: {
+          count: memories.length,
+          total: page.total,
+          next_cursor: page.next_cursor,
+          memories,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "semantic_search_memories",
+    {
+      description:
+        "Finds the memories closest in meaning to a natural language query using vector embeddings, even when they do not contain the exact words. Returns the top results with their similarity scores (cosine similarity, higher is closer). In hybrid mode the similarity is blended with full-text keyword relevance so that exact matches rank higher. Memories that have not been embedded yet are indexed automatically before searching.",
+      inputSchema: MemorySemanticSearchSchema.shape,
+      outputSchema: {
+        count: z.number(),
+        memories: z.array(
+          MemoryOutputSchema.extend({
+            similarity: z.number(),
+            keyword_score: z.number().nullable(),
+            score: z.number(),
+          }),
+        ),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async (args) => {
+      const results = await embeddingService.semanticSearchMemories(
+        args.query,
+        {
+          limit: args.limit,
+          mode: args.mode,
+          semanticWeight: args.semantic_weight,
+          namespace: args.namespace,
+        },
+      );
+      const memories = results.map((result) => ({
+        ...toMemoryOutput(result),
+        similarity: result.similarity,
+        keyword_score: result.keyword_score,
+        score: result.score,
+      }));
+      memoryRepo.recordMemoryAccess(memories.map((memory) => memory.id));
+
+      return {
+        text: formatList(
+          `Found ${memories.length} memories similar to "${args.query}":`,
+          memories.map((memory) =>
+            formatMemoryLine(
+              memory,
+              `(score ${memory.score.toFixed(3)}) ${memory.content}`,
+            ),
+          ),
+        ),
+        data: { count: memories.length, memories },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "get_memory_context",
+    {
+      description:
+        "Retrieves a specific memory by ID along with surrounding memories (before and after) to provide context. You can specify how many surrounding memories to include (default is 5). The text is formatted as Markdown with clear sections for previous memories, the current memory, and subsequent memories, making it easy to understand the sequence of events. Archived memories are left out of the surrounding memories.",
+      inputSchema: MemoryAroundSchema.shape,
+      outputSchema: {
+        before: z.array(MemoryOutputSchema),
+        current: MemoryOutputSchema,
+        after: z.array(MemoryOutputSchema),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const range = args.range || 5;
+      const context = memoryRepo.getMemoriesAroundId(
+        args.id,
+        range,
+        args.namespace,
+      );
+
+      if (!context.current) {
+        throw new NotFoundError(`No memory found with ID: ${args.id}`);
+      }
+      memoryRepo.recordMemoryAccess(
+        [...context.before, context.current, ...context.after].map(
+          (memory) => memory.id,
+        ),
+      );
+
+      return {
+        text: memoryService.getMemoryContextAsMarkdown(
+          args.id,
+          range,
+          args.namespace,
+        ),
+        data: {
+          before: context.before.map(toMemoryOutput),
+          current: toMemoryOutput(context.current),
+          after: context.after.map(toMemoryOutput),
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "get_memories_by_date",
+    {
+      description:
+        "Retrieves the memories created in a period, given as ISO dates or relative expressions such as yesterday, last week or past 3 days. Calendar expressions and dates without a time zone use the server's display time zone; the resolved range is returned in UTC. Results are ordered newest first and paginated like search_memories; archived memories are skipped unless include_archived is set.",
+      inputSchema: MemoryByDateSchema.shape,
+      outputSchema: {
+        start: z.string().describe("Start of the range (inclusive, UTC)"),
+        end: z.string().describe("End of the range (exclusive, UTC)"),
+        time_zone: z.string().describe("The time zone used for calendar dates"),
+        ...PageOutputShape,
+        memories: z.array(MemoryOutputSchema),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const { start, end, page } = memoryService.getMemoriesByDate(
+        args.from,
+        args.to,
+        args.namespace,
+        toPageOptions(args),
+        args.include_archived,
+      );
+      const memories = page.items.map(toMemoryOutput);
+      memoryRepo.recordMemoryAccess(memories.map((memory) => memory.id));
+      const range = `${formatTimestamp(toSqliteTimestamp(start))} to ${formatTimestamp(toSqliteTimestamp(end))}`;
+
+      return {
+        text: formatPage(
+          `Found ${page.total} memories from ${range}:`,
+          memories.map((memory) => formatMemoryLine(memory, memory.content)),
+          page,
+        ),
+        data: {
+          start: toSqliteTimestamp(start),
+          end: toSqliteTimestamp(end),
+          time_zone: getDisplayTimeZone(),
+          count: memories.length,
+          total: page.total,
+          next_cursor: page.next_cursor,
+          memories,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "get_memory_stats",
+    {
+      description:
+        "Generates statistics about memory creation activity over a specified number of past days (default is 30). Returns the number of memories created per hour, day, week or month of the given time zone, allowing you to track usage patterns and activity levels over time. The counts are sorted chronologically from oldest to newest, each labeled with the start of its period.",
+      inputSchema: MemoryStatsSchema.shape,
+      outputSchema: {
+        days: z.number(),
+        granularity: z.enum(GRANULARITIES),
+        time_zone: z.string(),
+        total: z.number(),
+        stats: z.array(z.object({ date: z.string(), count: z.number() })),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const days = args.days || 30;
+      const granularity = args.granularity ?? "day";
+      const timeZone = normalizeTimeZone(
+        args.time_zone ?? getDisplayTimeZone(),
+      );
+      const stats = memoryService.getMemoryStatsByDate(
+        days,
+        args.namespace,
+        granularity,
+        timeZone,
+      );
+      const total = stats.reduce((sum, period) => sum + period.count, 0);
+      const activePeriods = stats
+        .filter((period) => period.count > 0)
+        .map((period) => `- ${period.date}: ${period.count}`);
+
+      return {
+        text: formatList(
+          `${total} memories created in the past ${days} days (${timeZone}):`,
+          activePeriods,
+        ),
+        data: { days, granularity, time_zone: timeZone, total, stats },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "update_memory",
+    {
+      description:
+        "Replaces the content of an existing memory, for example to correct a mistake. The previous content and its timestamp are kept in the memory's edit history, which can be viewed with get_memory_history. The original creation timestamp of the memory is preserved.",
+      inputSchema: MemoryUpdateSchema.shape,
+      outputSchema: MemoryResultSchema.shape,
+    },
+    (args) => {
+      const success = memoryService.updateMemory(
+        args.id,
+        args.content,
+        args.namespace,
+      );
+
+      if (!success) {
+        throw new NotFoundError(`No memory found with ID: ${args.id}`);
+      }
+
+      return {
+        text: `Successfully updated memory with ID: ${args.id}`,
+        data: { memory: getMemoryOutput(args.id, args.namespace) },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "delete_memory",
+    {
+      description:
+        "Deletes a memory by ID by moving it to the trash, where it is hidden from every other tool. Use this to remove memories that are wrong. Restore it with restore_item or undo_last_change; to remove sensitive information for good, also call empty_trash.",
+      inputSchema: MemoryIdSchema.shape,
+      outputSchema: { id: z.number(), deleted: z.boolean() },
+    },
+    (args) => {
+      const success = memoryService.deleteMemory(args.id, args.namespace);
+
+      if (!success) {
+        throw new NotFoundError(`No memory found with ID: ${args.id}`);
+      }
+
+      return {
+        text: `Successfully deleted memory with ID: ${args.id}`,
+        data: { id: args.id, deleted: true },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "get_memory_history",
+    {
+      description:
+        "Retrieves the edit history of a memory. The text is formatted as Markdown, showing the current content followed by every previous version (newest first) with the time each version was written and the time it was replaced.",
+      inputSchema: MemoryIdSchema.shape,
+      outputSchema: {
+        memory: MemoryOutputSchema,
+        revisions: z
+          .array(
+            z.object({
+              content: z.string(),
+              content_created_at: z.string(),
+              revised_at: z.string(),
+            }),
+          )
+          .describe("Previous versions, oldest first"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const markdown = memoryService.getMemoryHistoryAsMarkdown(
+        args.id,
+        args.namespace,
+      );
+
+      if (!markdown) {
+        throw new NotFoundError(`No memory found with ID: ${args.id}`);
+      }
+
+      const revisions = memoryRepo
+        .getMemoryRevisions(args.id, args.namespace)
+        .map(({ content, content_created_at, revised_at }) => ({
+          content,
+          content_created_at,
+          revised_at,
+        }));
+
+      return {
+        text: markdown,
+        data: { memory: getMemoryOutput(args.id, args.namespace), revisions },
+      };
+    },
+  );
+}
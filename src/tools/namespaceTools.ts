@@ -0,0 +1,91 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getDefaultNamespace } from "../database/namespace";
+import * as namespaceRepo from "../repositories/namespaceRepository";
+import * as namespaceService from "../services/namespaceService";
+import { registerTool } from "./response";
+import { formatList } from "./schemas";
+
+const MoveItemsSchema = z.object({
+  item_type: z.enum(["memory", "todo"]).describe("The type of items to move"),
+  ids: z.array(z.number()).min(1).describe("The IDs of the items to move"),
+  to_namespace: z.string().describe("The namespace to move the items to"),
+  from_namespace: z
+    .string()
+    .optional()
+    .describe(
+      "The namespace the items are currently in. Defaults to the server's namespace",
+    ),
+});
+
+export function registerNamespaceTools(server: McpServer) {
+  registerTool(
+    server,
+    "list_namespaces",
+    {
+      description:
+        "Lists every namespace in the database with the number of memories and TODOs it contains, and indicates the server's default namespace. Namespaces keep the memories and TODOs of different projects apart.",
+      inputSchema: {},
+      outputSchema: {
+        default_namespace: z.string(),
+        namespaces: z.array(
+          z.object({
+            namespace: z.string(),
+            memory_count: z.number(),
+            todo_count: z.number(),
+          }),
+        ),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    () => {
+      const namespaces = namespaceRepo.getNamespacesWithUsage();
+      const defaultNamespace = getDefaultNamespace();
+
+      return {
+        text: formatList(
+          `Default namespace: ${defaultNamespace}\n\nFound ${namespaces.length} namespaces:`,
+          namespaces.map(
+            (usage) =>
+              `- ${usage.namespace}: ${usage.memory_count} memories, ${usage.todo_count} TODOs`,
+          ),
+        ),
+        data: { default_namespace: defaultNamespace, namespaces },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "move_items",
+    {
+      description:
+        "Moves memories or TODOs from one namespace to another, for example when they were stored under the wrong project. Items keep their IDs, tags and timestamps. Items that are not in the source namespace are skipped.",
+      inputSchema: MoveItemsSchema.shape,
+      outputSchema: {
+        item_type: z.enum(["memory", "todo"]),
+        moved: z.number(),
+        requested: z.number(),
+        to_namespace: z.string(),
+      },
+    },
+    (args) => {
+      const moved = namespaceService.moveItems(
+        args.item_type,
+        args.ids,
+        args.to_namespace,
+        args.from_namespace,
+      );
+
+      return {
+        text: `Moved ${moved} of ${args.ids.length} ${args.item_type === "memory" ? "memories" : "TODOs"} to namespace "${args.to_namespace}"`,
+        data: {
+          item_type: args.item_type,
+          moved,
+          requested: args.ids.length,
+          to_namespace: args.to_namespace,
+        },
+      };
+    },
+  );
+}
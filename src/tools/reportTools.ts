@@ -0,0 +1,94 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { toSqliteTimestamp } from "../database/timestamp";
+import { GRANULARITIES } from "../dateRange";
+import * as statsService from "../services/statsService";
+import { registerTool } from "./response";
+import { NamespaceSchema, GranularitySchema, TimeZoneSchema } from "./schemas";
+
+const ActivityReportSchema = z.object({
+  from: z
+    .string()
+    .optional()
+    .describe(
+      'The period the report starts with: an ISO date (2025-03-01, 2025-03) or a relative expression such as yesterday, "N days ago", this/last week or this/last month (default is "6 days ago")',
+    ),
+  to: z
+    .string()
+    .optional()
+    .describe(
+      "The period the report ends with, in the same format (default is today)",
+    ),
+  granularity: GranularitySchema,
+  time_zone: TimeZoneSchema,
+  namespace: NamespaceSchema,
+});
+
+const ActivityCountsShape = {
+  memories_created: z.number(),
+  todos_created: z.number(),
+  todos_completed: z.number(),
+};
+
+export function registerReportTools(server: McpServer) {
+  registerTool(
+    server,
+    "get_activity_report",
+    {
+      description:
+        "Reports memory and TODO activity over a period: memories created, TODOs created and completed per hour, day, week or month, the average time from creating a TODO to completing it, and the TODOs that are open and overdue now. Calendar periods follow the given time zone. Returns the numbers as structured data and as a Markdown summary with a table of periods.",
+      inputSchema: ActivityReportSchema.shape,
+      outputSchema: {
+        start: z.string().describe("Start of the report (inclusive, UTC)"),
+        end: z.string().describe("End of the report (exclusive, UTC)"),
+        granularity: z.enum(GRANULARITIES),
+        time_zone: z.string(),
+        totals: z.object(ActivityCountsShape),
+        todos: z.object({
+          open: z
+            .number()
+            .describe("TODOs that are open, in progress or blocked now"),
+          overdue: z.number().describe("Open TODOs past their due date now"),
+          average_completion_hours: z
+            .number()
+            .nullable()
+            .describe(
+              "Average hours from creation to completion of the TODOs completed in the period",
+            ),
+        }),
+        buckets: z.array(
+          z.object({
+            label: z.string().describe("Start of the period in the time zone"),
+            start: z.string(),
+            end: z.string(),
+            ...ActivityCountsShape,
+          }),
+        ),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const report = statsService.getActivityReport({
+        from: args.from,
+        to: args.to,
+        granularity: args.granularity,
+        timeZone: args.time_zone,
+        namespace: args.namespace,
+      });
+
+      return {
+        text: statsService.formatActivityReportAsMarkdown(report),
+        data: {
+          ...report,
+          start: toSqliteTimestamp(report.start),
+          end: toSqliteTimestamp(report.end),
+          buckets: report.buckets.map((bucket) => ({
+            ...bucket,
+            start: toSqliteTimestamp(bucket.start),
+            end: toSqliteTimestamp(bucket.end),
+          })),
+        },
+      };
+    },
+  );
+}
@@ -0,0 +1,149 @@
+import {
+  McpServer,
+  ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CallToolResult,
+  ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape, ZodTypeAny } from "zod";
+import { log } from "../logger";
+import { notifyDataChange } from "../changes";
+import { isToolAllowed } from "../accessControl";
+import { recordToolCall } from "../services/auditService";
+
+/**
+ * Result of a tool handler: a concise text for the model and the structured
+ * data validated against the tool's output schema
+ */
+export interface ToolOutput<T> {
+  text: string;
+  data: T;
+}
+
+/**
+ * Error for a missing item, reported to the client without being logged
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+// Names of the tools registered on each server
+const registeredToolNames = new WeakMap<McpServer, string[]>();
+
+/**
+ * Get the names of the tools registered on a server, in registration order
+ */
+export function getRegisteredToolNames(server: McpServer): string[] {
+  return [...(registeredToolNames.get(server) ?? [])];
+}
+
+/**
+ * Build the result of a failed tool call
+ */
+export function errorResult(error: unknown): CallToolResult {
+  const message =
+    error instanceof NotFoundError
+      ? error.message
+      : `An error occurred: ${error instanceof Error ? error.message : String(error)}`;
+
+  return {
+    content: [{ type: "text", text: message }],
+    isError: true,
+  };
+}
+
+/**
+ * Register a tool whose handler returns text and structured content
+ *
+ * Errors thrown by the handler are logged and returned as an error result, so
+ * handlers only contain the success path. A successful call of a mutating
+ * tool may have changed data, so it notifies the change listeners. Every call
+ * is recorded in the audit log.
+ *
+ * Tools are mutating unless annotated with readOnlyHint. A tool that is
+ * denied by the access policy, or that is mutating while the server is
+ * read-only, is not registered at all.
+ * @param server MCP server to register the tool on
+ * @param name Tool name
+ * @param config Description, input and output schemas and annotations of the
+ * tool
+ * @param handler Function producing the tool output from the parsed arguments
+ */
+export function registerTool<
+  InputArgs extends ZodRawShape,
+  OutputArgs extends ZodRawShape,
+>(
+  server: McpServer,
+  name: string,
+  config: {
+    description: string;
+    inputSchema: InputArgs;
+    outputSchema: OutputArgs;
+    annotations?: ToolAnnotations;
+  },
+  handler: (
+    args: z.objectOutputType<InputArgs, ZodTypeAny>,
+  ) =>
+    | ToolOutput<z.objectOutputType<OutputArgs, ZodTypeAny>>
+    | Promise<ToolOutput<z.objectOutputType<OutputArgs, ZodTypeAny>>>,
+) {
+  const mutating = !config.annotations?.readOnlyHint;
+  if (!isToolAllowed(name, mutating)) {
+    return undefined;
+  }
+
+  const callback = async (
+    args: z.objectOutputType<InputArgs, ZodTypeAny>,
+    extra: { sessionId?: string },
+  ): Promise<CallToolResult> => {
+    const started = performance.now();
+    const client = server.server.getClientVersion();
+    const audit = (error?: unknown) =>
+      recordToolCall({
+        tool: name,
+        args,
+        client: client ? `${client.name}/${client.version}` : undefined,
+        sessionId: extra.sessionId,
+        error:
+          error === undefined
+            ? undefined
+            : error instanceof Error
+              ? error.message
+              : String(error),
+        durationMs: performance.now() - started,
+      });
+
+    try {
+      const { text, data } = await handler(args);
+      audit();
+      if (mutating) {
+        notifyDataChange();
+      }
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
+        isError: false,
+      };
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        log("error", `${name} error:`, error);
+      }
+      audit(error);
+      return errorResult(error);
+    }
+  };
+  registeredToolNames.set(server, [
+    ...(registeredToolNames.get(server) ?? []),
+    name,
+  ]);
+  // The SDK cannot relate the generic argument types, hence the cast
+  return server.registerTool(
+    name,
+    config,
+    callback as unknown as ToolCallback<InputArgs>,
+  );
+}
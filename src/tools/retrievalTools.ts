@@ -0,0 +1,138 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as memoryRepo from "../repositories/memoryRepository";
+import * as retrievalService from "../services/retrievalService";
+import * as memoryService from "../services/memoryService";
+import { registerTool, NotFoundError } from "./response";
+import {
+  NamespaceSchema,
+  ImportanceSchema,
+  MemoryOutputSchema,
+  toMemoryOutput,
+  formatMemoryLine,
+  formatList,
+} from "./schemas";
+
+const RelevantMemoriesSchema = z.object({
+  query: z
+    .string()
+    .describe(
+      "A natural language description of the task at hand. Use an empty string to rank memories by recency and importance only",
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("The maximum number of memories to return (default is 10)"),
+  token_budget: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      "The maximum estimated number of tokens of the returned contents (default is no limit)",
+    ),
+  namespace: NamespaceSchema,
+});
+
+const MemoryImportanceSchema = z.object({
+  id: z.number().describe("The ID of the memory"),
+  importance: ImportanceSchema.optional(),
+  pinned: z.boolean().optional().describe("Pin or unpin the memory"),
+  namespace: NamespaceSchema,
+});
+
+export function registerRetrievalTools(server: McpServer) {
+  registerTool(
+    server,
+    "get_relevant_memories",
+    {
+      description:
+        "Returns the memories most worth recalling for a task, ranked by a weighted score of relevance to the query (semantic and keyword match), recency (halving every 30 days since the memory was written or last returned) and importance. Pinned memories always come first. Use token_budget to fit the memories into a context window: memories are taken in rank order while they fit, and a memory too large for the remaining budget is skipped in favor of smaller ones.",
+      inputSchema: RelevantMemoriesSchema.shape,
+      outputSchema: {
+        count: z.number(),
+        tokens: z
+          .number()
+          .describe("The estimated tokens of all returned contents"),
+        omitted: z
+          .number()
+          .describe("Ranked memories left out because of the token budget"),
+        memories: z.array(
+          MemoryOutputSchema.extend({
+            relevance: z.number(),
+            recency: z.number(),
+            score: z.number(),
+            tokens: z.number(),
+          }),
+        ),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async (args) => {
+      const result = await retrievalService.getRelevantMemories(args.query, {
+        limit: args.limit,
+        tokenBudget: args.token_budget,
+        namespace: args.namespace,
+      });
+      const memories = result.memories.map((memory) => ({
+        ...toMemoryOutput(memory),
+        relevance: memory.relevance,
+        recency: memory.recency,
+        score: memory.score,
+        tokens: memory.tokens,
+      }));
+      memoryRepo.recordMemoryAccess(memories.map((memory) => memory.id));
+
+      const omitted =
+        result.omitted > 0
+          ? ` (${result.omitted} left out to fit the token budget)`
+          : "";
+      return {
+        text: formatList(
+          `Found ${memories.length} relevant memories, about ${result.tokens} tokens${omitted}:`,
+          memories.map((memory) =>
+            formatMemoryLine(
+              memory,
+              `${memory.pinned ? "(pinned) " : ""}${memory.content} (score: ${memory.score.toFixed(2)})`,
+            ),
+          ),
+        ),
+        data: {
+          count: memories.length,
+          tokens: result.tokens,
+          omitted: result.omitted,
+          memories,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "set_memory_importance",
+    {
+      description:
+        "Sets the importance (1 to 5) of a memory and pins or unpins it. Important memories rank higher in get_relevant_memories, and pinned memories are always returned first.",
+      inputSchema: MemoryImportanceSchema.shape,
+      outputSchema: { memory: MemoryOutputSchema },
+    },
+    (args) => {
+      const updated = memoryService.setMemoryImportance(
+        args.id,
+        { importance: args.importance, pinned: args.pinned },
+        args.namespace,
+      );
+      const memory = memoryRepo.getMemoryById(args.id, args.namespace);
+      if (!updated || !memory) {
+        throw new NotFoundError(`No memory found with ID: ${args.id}`);
+      }
+
+      return {
+        text: `Memory ${args.id} has importance ${memory.importance}${memory.pinned ? " and is pinned" : ""}`,
+        data: { memory: toMemoryOutput(memory) },
+      };
+    },
+  );
+}
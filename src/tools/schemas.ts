@@ -0,0 +1,294 @@
+/**
+ * Schemas and formatting shared by the tool modules
+ */
+import { z } from "zod";
+import { SORT_ORDERS, SortOrder, PageOptions } from "../database/pagination";
+import {
+  Memory,
+  MIN_IMPORTANCE,
+  MAX_IMPORTANCE,
+} from "../repositories/memoryRepository";
+import { Todo } from "../repositories/todoRepository";
+import * as tagRepo from "../repositories/tagRepository";
+import { TODO_STATUSES, TODO_PRIORITIES } from "../repositories/todoRepository";
+import { parseRecurrence, describeRecurrence } from "../recurrence";
+import { formatTimestamp } from "../database/timestamp";
+import { GRANULARITIES } from "../dateRange";
+
+export const NamespaceSchema = z
+  .string()
+  .optional()
+  .describe(
+    "The namespace (e.g. project) to operate on. Defaults to the server's namespace",
+  );
+
+export const NamespaceOnlySchema = z.object({
+  namespace: NamespaceSchema,
+});
+
+export const GranularitySchema = z
+  .enum(GRANULARITIES)
+  .optional()
+  .describe(
+    "The length of each period: hour, day, week or month (default is day)",
+  );
+
+export const TimeZoneSchema = z
+  .string()
+  .optional()
+  .describe(
+    "The IANA time zone of the calendar, e.g. Asia/Tokyo. Defaults to the server's display time zone",
+  );
+
+export const ImportanceSchema = z
+  .number()
+  .int()
+  .min(MIN_IMPORTANCE)
+  .max(MAX_IMPORTANCE)
+  .describe(
+    `How important the memory is, from ${MIN_IMPORTANCE} (trivial) to ${MAX_IMPORTANCE} (critical)`,
+  );
+
+export const IncludeArchivedSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Include archived memories, which are hidden by default (default is false)",
+  );
+
+export const TagsSchema = z
+  .array(z.string())
+  .optional()
+  .describe("Tags such as project names or categories (case-insensitive)");
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Build the pagination arguments of a list or search tool
+ * @param sortKeys Sort keys the tool supports
+ * @param defaultSort Description of the default order
+ */
+export function pageInputShape<K extends string>(
+  sortKeys: readonly [K, ...K[]],
+  defaultSort: string,
+) {
+  return {
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_PAGE_SIZE)
+      .optional()
+      .describe(
+        `The maximum number of items to return (default is ${DEFAULT_PAGE_SIZE}, at most ${MAX_PAGE_SIZE})`,
+      ),
+    cursor: z
+      .string()
+      .optional()
+      .describe(
+        "The next_cursor returned by the previous call, to get the next page with the same filters and sort order",
+      ),
+    sort: z
+      .enum(sortKeys)
+      .optional()
+      .describe(`The sort key (default is ${defaultSort})`),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("The sort direction (default depends on the sort key)"),
+  };
+}
+
+/**
+ * Get the page options from the arguments of a list or search tool
+ */
+export function toPageOptions<K extends string>(args: {
+  limit?: number;
+  cursor?: string;
+  sort?: K;
+  order?: SortOrder;
+}): PageOptions<K> {
+  return {
+    limit: args.limit ?? DEFAULT_PAGE_SIZE,
+    cursor: args.cursor,
+    sort: args.sort,
+    order: args.order,
+  };
+}
+
+export const PageOutputShape = {
+  count: z.number().describe("Number of items in this page"),
+  total: z.number().describe("Number of matching items across all pages"),
+  next_cursor: z
+    .string()
+    .nullable()
+    .describe("Cursor for the next page, or null on the last page"),
+};
+
+export const MemoryOutputSchema = z.object({
+  id: z.number(),
+  content: z.string(),
+  created_at: z.string(),
+  updated_at: z.string().nullable(),
+  namespace: z.string(),
+  tags: z.array(z.string()),
+  archived_at: z
+    .string()
+    .nullable()
+    .describe("When the memory was archived (hidden from default searches)"),
+  importance: z.number(),
+  pinned: z.boolean(),
+  last_accessed_at: z
+    .string()
+    .nullable()
+    .describe("When a tool last returned the memory"),
+  access_count: z.number(),
+});
+
+export const TodoOutputSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string().nullable(),
+  due_date: z.string().nullable(),
+  completed: z.boolean(),
+  completed_at: z
+    .string()
+    .nullable()
+    .describe("When the TODO was marked done (UTC)"),
+  status: z.enum(TODO_STATUSES),
+  priority: z.enum(TODO_PRIORITIES),
+  created_at: z.string(),
+  namespace: z.string(),
+  tags: z.array(z.string()),
+  recurrence: z
+    .string()
+    .nullable()
+    .describe("Recurrence rule (RRULE) of a repeating TODO"),
+  previous_todo_id: z
+    .number()
+    .nullable()
+    .describe("The occurrence this TODO was created from"),
+  parent_id: z
+    .number()
+    .nullable()
+    .describe("The TODO this TODO is a subtask of"),
+});
+
+export type MemoryOutput = z.infer<typeof MemoryOutputSchema>;
+export type TodoOutput = z.infer<typeof TodoOutputSchema>;
+
+/**
+ * Parse an optional ISO 8601 date argument
+ * @param value Date string from the tool arguments
+ * @param field Argument name used in the error message
+ * @returns The parsed date, or undefined if no value was given
+ */
+export function parseDate(
+  value: string | undefined,
+  field: string,
+): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid ${field}: "${value}" is not a valid ISO 8601 date`,
+    );
+  }
+
+  return date;
+}
+
+/**
+ * Convert a memory row into tool output, including its tags
+ */
+export function toMemoryOutput(memory: Memory): MemoryOutput {
+  return {
+    id: memory.id,
+    content: memory.content,
+    created_at: memory.created_at,
+    updated_at: memory.updated_at ?? null,
+    namespace: memory.namespace,
+    tags: tagRepo.getTags("memory", memory.id),
+    archived_at: memory.archived_at ?? null,
+    importance: memory.importance,
+    pinned: Boolean(memory.pinned),
+    last_accessed_at: memory.last_accessed_at ?? null,
+    access_count: memory.access_count,
+  };
+}
+
+/**
+ * Convert a TODO row into tool output, including its tags
+ */
+export function toTodoOutput(todo: Todo): TodoOutput {
+  return {
+    id: todo.id,
+    title: todo.title,
+    description: todo.description ?? null,
+    due_date: todo.due_date ?? null,
+    completed: Boolean(todo.completed),
+    completed_at: todo.completed_at ?? null,
+    status: todo.status,
+    priority: todo.priority,
+    created_at: todo.created_at,
+    namespace: todo.namespace,
+    tags: tagRepo.getTags("todo", todo.id),
+    recurrence: todo.recurrence ?? null,
+    previous_todo_id: todo.previous_todo_id ?? null,
+    parent_id: todo.parent_id ?? null,
+  };
+}
+
+/**
+ * Format a memory as a single list line
+ */
+export function formatMemoryLine(
+  memory: { id: number; created_at: string; tags: string[] },
+  text: string,
+): string {
+  const tags = memory.tags.map((tag) => ` #${tag}`).join("");
+  return `- [${memory.id}] ${formatTimestamp(memory.created_at)}: ${text.replace(/\s*\n\s*/g, " ")}${tags}`;
+}
+
+/**
+ * Format a TODO as a single list line
+ */
+export function formatTodoLine(todo: TodoOutput): string {
+  const status =
+    todo.status === "open" || todo.status === "done" ? "" : ` [${todo.status}]`;
+  const priority =
+    todo.priority === "medium" ? "" : ` (${todo.priority} priority)`;
+  const due = todo.due_date ? ` (due ${todo.due_date})` : "";
+  const repeats = todo.recurrence
+    ? ` (repeats ${describeRecurrence(parseRecurrence(todo.recurrence))})`
+    : "";
+  const tags = todo.tags.map((tag) => ` #${tag}`).join("");
+  return `- [${todo.completed ? "x" : " "}] ${todo.id}: ${todo.title}${status}${priority}${due}${repeats}${tags}`;
+}
+
+/**
+ * Format a list of items under a heading, or a message if it is empty
+ */
+export function formatList(heading: string, lines: string[]): string {
+  return lines.length > 0 ? `${heading}\n\n${lines.join("\n")}` : heading;
+}
+
+/**
+ * Format a page of items, noting how to get the next page
+ */
+export function formatPage(
+  heading: string,
+  lines: string[],
+  page: { total: number; next_cursor: string | null },
+): string {
+  const text = formatList(heading, lines);
+  if (!page.next_cursor) {
+    return text;
+  }
+
+  return `${text}\n\nShowing ${lines.length} of ${page.total}. Pass cursor "${page.next_cursor}" for more.`;
+}
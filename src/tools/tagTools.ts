@@ -0,0 +1,218 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as memoryRepo from "../repositories/memoryRepository";
+import * as todoRepo from "../repositories/todoRepository";
+import * as tagRepo from "../repositories/tagRepository";
+import * as tagService from "../services/tagService";
+import { registerTool, NotFoundError } from "./response";
+import { NamespaceSchema, NamespaceOnlySchema, formatList } from "./schemas";
+
+const TagItemSchema = z.object({
+  item_type: z
+    .enum(["memory", "todo"])
+    .describe("The type of item to change the tags of"),
+  id: z.number().describe("The ID of the memory or TODO"),
+  tags: z.array(z.string()).min(1).describe("The tags to add or remove"),
+  namespace: NamespaceSchema,
+});
+
+const TagRenameSchema = z.object({
+  from: z.string().describe("The current name of the tag"),
+  to: z
+    .string()
+    .describe(
+      "The new name of the tag. If a tag with this name exists, the tags are merged",
+    ),
+});
+
+const TagMergeSchema = z.object({
+  sources: z
+    .array(z.string())
+    .min(1)
+    .describe("The tags to merge into the target tag"),
+  target: z
+    .string()
+    .describe("The tag that remains after merging (created if needed)"),
+});
+
+const TagChangeSchema = z.object({
+  item_type: z.enum(["memory", "todo"]),
+  id: z.number(),
+  changed: z.number().describe("Number of tags added or removed"),
+  tags: z.array(z.string()).describe("Tags of the item after the change"),
+});
+
+/**
+ * Fail if the memory or TODO does not exist in the namespace
+ */
+function assertItemExists(
+  type: tagRepo.TaggableType,
+  id: number,
+  namespace?: string,
+) {
+  const exists =
+    type === "memory"
+      ? memoryRepo.getMemoryById(id, namespace)
+      : todoRepo.getTodoById(id, namespace);
+
+  if (!exists) {
+    throw new NotFoundError(`No ${type} found with ID: ${id}`);
+  }
+}
+
+export function registerTagTools(server: McpServer) {
+  registerTool(
+    server,
+    "add_tags",
+    {
+      description:
+        "Adds one or more tags to a memory or TODO. Tags are case-insensitive and are created automatically the first time they are used. Tags the item already has are ignored.",
+      inputSchema: TagItemSchema.shape,
+      outputSchema: TagChangeSchema.shape,
+    },
+    (args) => {
+      assertItemExists(args.item_type, args.id, args.namespace);
+
+      const added = tagService.addTags(
+        args.item_type,
+        args.id,
+        args.tags,
+        args.namespace,
+      );
+      const tags = tagRepo.getTags(args.item_type, args.id);
+
+      return {
+        text: `Added ${added} tags to ${args.item_type} ${args.id}. Current tags: ${tags.join(", ")}`,
+        data: { item_type: args.item_type, id: args.id, changed: added, tags },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "remove_tags",
+    {
+      description:
+        "Removes one or more tags from a memory or TODO. Tags the item does not have are ignored. The tags themselves remain available for other items.",
+      inputSchema: TagItemSchema.shape,
+      outputSchema: TagChangeSchema.shape,
+    },
+    (args) => {
+      assertItemExists(args.item_type, args.id, args.namespace);
+
+      const removed = tagService.removeTags(
+        args.item_type,
+        args.id,
+        args.tags,
+        args.namespace,
+      );
+      const tags = tagRepo.getTags(args.item_type, args.id);
+
+      return {
+        text: `Removed ${removed} tags from ${args.item_type} ${args.id}. Current tags: ${tags.length > 0 ? tags.join(", ") : "(none)"}`,
+        data: {
+          item_type: args.item_type,
+          id: args.id,
+          changed: removed,
+          tags,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "list_tags",
+    {
+      description:
+        "Lists every tag in alphabetical order together with the number of memories and TODOs that use it. Useful for discovering which projects or categories exist before searching by tag.",
+      inputSchema: NamespaceOnlySchema.shape,
+      outputSchema: {
+        count: z.number(),
+        tags: z.array(
+          z.object({
+            name: z.string(),
+            memory_count: z.number(),
+            todo_count: z.number(),
+            total_count: z.number(),
+          }),
+        ),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const tags = tagRepo.getAllTagsWithUsage(args.namespace);
+
+      return {
+        text: formatList(
+          `Found ${tags.length} tags:`,
+          tags.map(
+            (tag) =>
+              `- ${tag.name}: ${tag.memory_count} memories, ${tag.todo_count} TODOs`,
+          ),
+        ),
+        data: { count: tags.length, tags },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "rename_tag",
+    {
+      description:
+        "Renames a tag on every memory and TODO that uses it. If a tag with the new name already exists, the two tags are merged into one.",
+      inputSchema: TagRenameSchema.shape,
+      outputSchema: {
+        from: z.string(),
+        to: z.string(),
+        merged: z
+          .boolean()
+          .describe("true if the tag was merged into an existing tag"),
+        memory_count: z.number(),
+        todo_count: z.number(),
+      },
+    },
+    (args) => {
+      const result = tagService.renameTag(args.from, args.to);
+
+      if (!result) {
+        throw new NotFoundError(`No tag found with name: ${args.from}`);
+      }
+
+      return {
+        text: `Successfully ${result.merged ? "merged" : "renamed"} tag "${args.from}" into "${args.to}" (${result.memory_count} memories, ${result.todo_count} TODOs)`,
+        data: { from: args.from, to: args.to, ...result },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "merge_tags",
+    {
+      description:
+        'Merges several tags into a single target tag across every memory and TODO. The source tags are removed afterwards. Useful for cleaning up spelling variants such as "proj-x" and "project-x".',
+      inputSchema: TagMergeSchema.shape,
+      outputSchema: {
+        target: z.string(),
+        merged: z.array(z.string()),
+        missing: z.array(z.string()).describe("Source tags that do not exist"),
+      },
+    },
+    (args) => {
+      const { merged, missing } = tagService.mergeTags(
+        args.sources,
+        args.target,
+      );
+
+      const missingText =
+        missing.length > 0 ? ` Tags not found: ${missing.join(", ")}` : "";
+
+      return {
+        text: `Merged ${merged.length} tags into "${args.target}".${missingText}`,
+        data: { target: args.target, merged, missing },
+      };
+    },
+  );
+}
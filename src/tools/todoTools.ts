@@ -0,0 +1,692 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import * as todoRepo from "../repositories/todoRepository";
+import {
+  TODO_SORT_KEYS,
+  TODO_STATUSES,
+  TODO_PRIORITIES,
+} from "../repositories/todoRepository";
+import { Page } from "../database/pagination";
+import * as relationRepo from "../repositories/todoRelationRepository";
+import * as todoService from "../services/todoService";
+import { registerTool, NotFoundError } from "./response";
+import {
+  NamespaceSchema,
+  TagsSchema,
+  TodoOutputSchema,
+  TodoOutput,
+  parseDate,
+  pageInputShape,
+  toPageOptions,
+  PageOutputShape,
+  toTodoOutput,
+  formatTodoLine,
+  formatList,
+  formatPage,
+} from "./schemas";
+
+const TodoPageSchema = z.object(
+  pageInputShape(TODO_SORT_KEYS, "due_date, or relevance for text searches"),
+);
+
+const RecurrenceSchema = z
+  .string()
+  .describe(
+    'How the TODO repeats: daily, weekly, monthly, yearly, "every N days/weeks/months/years", or an iCalendar RRULE using FREQ, INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), COUNT and UNTIL, e.g. FREQ=WEEKLY;BYDAY=MO,TH',
+  );
+
+const PrioritySchema = z
+  .enum(TODO_PRIORITIES)
+  .describe("The priority of the TODO (default is medium)");
+
+const StatusSchema = z
+  .enum(TODO_STATUSES)
+  .describe(
+    "The workflow status: open, in_progress, blocked, done or cancelled. done marks the TODO as completed",
+  );
+
+const TodoCreateSchema = z.object({
+  title: z.string().describe("The title of the TODO"),
+  description: z
+    .string()
+    .optional()
+    .describe("A detailed description of the TODO"),
+  due_date: z
+    .string()
+    .optional()
+    .describe(
+      "Due date in ISO 8601 format (e.g. 2025-04-01 or 2025-04-01T09:00:00Z)",
+    ),
+  tags: TagsSchema,
+  recurrence: RecurrenceSchema.optional(),
+  priority: PrioritySchema.optional(),
+  parent_id: z
+    .number()
+    .optional()
+    .describe("The ID of the TODO to create this TODO as a subtask of"),
+  namespace: NamespaceSchema,
+});
+
+const CascadeSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "When completing a TODO with unfinished subtasks, also complete them (default is false, which rejects the change)",
+  );
+
+const TodoUpdateSchema = z.object({
+  id: z.number().describe("The ID of the TODO to update"),
+  title: z.string().optional().describe("The new title"),
+  description: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("The new description, or null to remove it"),
+  due_date: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("The new due date in ISO 8601 format, or null to remove it"),
+  status: StatusSchema.optional(),
+  priority: PrioritySchema.optional(),
+  cascade: CascadeSchema,
+  namespace: NamespaceSchema,
+});
+
+const TodoStatusSchema = z.object({
+  id: z.number().describe("The ID of the TODO to update"),
+  completed: z
+    .boolean()
+    .describe(
+      "true to mark the TODO as completed, false to mark it as incomplete",
+    ),
+  cascade: CascadeSchema,
+  namespace: NamespaceSchema,
+});
+
+const TodoIdSchema = z.object({
+  id: z.number().describe("The ID of the TODO"),
+  namespace: NamespaceSchema,
+});
+
+const TodoRecurrenceSchema = TodoIdSchema.extend({
+  recurrence: RecurrenceSchema,
+});
+
+const TodoDeleteSchema = TodoIdSchema.extend({
+  delete_subtasks: z
+    .boolean()
+    .optional()
+    .describe(
+      "Also delete the subtasks at any depth (default is false, which moves them up to the parent of the deleted TODO)",
+    ),
+});
+
+const TodoParentSchema = TodoIdSchema.extend({
+  parent_id: z
+    .number()
+    .nullable()
+    .describe(
+      "The ID of the new parent TODO, or null to make the TODO a top-level TODO",
+    ),
+});
+
+const TodoDependencySchema = TodoIdSchema.extend({
+  blocked_by: z
+    .number()
+    .describe("The ID of the TODO that has to be finished first"),
+});
+
+const TodoTreeSchema = z.object({
+  root_id: z
+    .number()
+    .optional()
+    .describe(
+      "The ID of the TODO whose subtree to return (default is every top-level TODO)",
+    ),
+  include_closed: z
+    .boolean()
+    .optional()
+    .describe("Include done and cancelled TODOs (default is false)"),
+  max_depth: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("The deepest level of subtasks to include (0 is the root)"),
+  namespace: NamespaceSchema,
+});
+
+const TodoSearchSchema = TodoPageSchema.extend({
+  completed: z.boolean().optional().describe("Filter by completion status"),
+  status: z
+    .array(z.enum(TODO_STATUSES))
+    .optional()
+    .describe("Only include TODOs with one of these workflow statuses"),
+  priority: z
+    .array(z.enum(TODO_PRIORITIES))
+    .optional()
+    .describe("Only include TODOs with one of these priorities"),
+  due_before: z
+    .string()
+    .optional()
+    .describe("Only include TODOs due on or before this ISO 8601 date"),
+  due_after: z
+    .string()
+    .optional()
+    .describe("Only include TODOs due on or after this ISO 8601 date"),
+  search_text: z
+    .string()
+    .optional()
+    .describe(
+      'Search query for the title or description. Supports "exact phrases", prefix*, AND, OR, NOT and parentheses',
+    ),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only include TODOs that have all of these tags"),
+  namespace: NamespaceSchema,
+});
+
+const TodoUpcomingSchema = TodoPageSchema.extend({
+  days: z
+    .number()
+    .optional()
+    .describe("The number of days ahead to look for due TODOs"),
+  namespace: NamespaceSchema,
+});
+
+const TodoResultSchema = z.object({ todo: TodoOutputSchema });
+
+const TodoUpdateResultSchema = z.object({
+  todo: TodoOutputSchema,
+  next_todo: TodoOutputSchema.nullable().describe(
+    "The next occurrence of a repeating TODO",
+  ),
+});
+
+const TodoNamespacePageSchema = TodoPageSchema.extend({
+  namespace: NamespaceSchema,
+});
+
+const TodoActionablePageSchema = z
+  .object(pageInputShape(TODO_SORT_KEYS, "priority"))
+  .extend({ namespace: NamespaceSchema });
+
+const TodoBlockersSchema = z.object({
+  todo: TodoOutputSchema,
+  blocked_by: z
+    .array(z.number())
+    .describe("IDs of the unfinished TODOs this TODO depends on"),
+});
+
+const TodoListSchema = z.object({
+  ...PageOutputShape,
+  todos: z.array(TodoOutputSchema),
+});
+
+const TodoTreeResultSchema = z.object({
+  count: z.number(),
+  nodes: z
+    .array(
+      TodoOutputSchema.extend({
+        depth: z.number().describe("The level in the tree, 0 for a root"),
+        blocked_by: z
+          .array(z.number())
+          .describe("IDs of the unfinished TODOs this TODO depends on"),
+      }),
+    )
+    .describe(
+      "The TODOs in depth-first order: each TODO is followed by its subtasks",
+    ),
+});
+
+/**
+ * Get a TODO as tool output, failing if it does not exist
+ */
+function getTodoOutput(id: number, namespace?: string): TodoOutput {
+  const todo = todoRepo.getTodoById(id, namespace);
+  if (!todo) {
+    throw new NotFoundError(`No TODO found with ID: ${id}`);
+  }
+  return toTodoOutput(todo);
+}
+
+/**
+ * Build the output of a tool returning a page of TODOs
+ */
+function todoList(heading: string, page: Page<todoRepo.Todo>) {
+  const outputs = page.items.map(toTodoOutput);
+  return {
+    text: formatPage(heading, outputs.map(formatTodoLine), page),
+    data: {
+      count: outputs.length,
+      total: page.total,
+      next_cursor: page.next_cursor,
+      todos: outputs,
+    },
+  };
+}
+
+export function registerTodoTools(server: McpServer) {
+  registerTool(
+    server,
+    "create_todo",
+    {
+      description:
+        "Creates a new TODO item with a title, an optional description, an optional due date in ISO 8601 format, optional tags, an optional priority, an optional recurrence and an optional parent TODO to create it as a subtask of. New TODOs have the status open. A repeating TODO creates its next occurrence when it is completed. The creation is also recorded as a memory with the same tags so that the history of task operations can be reviewed later. Returns the newly created TODO.",
+      inputSchema: TodoCreateSchema.shape,
+      outputSchema: TodoResultSchema.shape,
+    },
+    (args) => {
+      const dueDate = parseDate(args.due_date, "due_date");
+      const todoId = todoService.createTodoWithMemory(
+        args.title,
+        args.description,
+        dueDate,
+        args.tags,
+        args.namespace,
+        args.recurrence,
+        args.priority,
+        args.parent_id,
+      );
+
+      return {
+        text: `Successfully created TODO with ID: ${todoId}`,
+        data: { todo: getTodoOutput(todoId, args.namespace) },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "update_todo_status",
+    {
+      description:
+        "Marks a TODO as completed or incomplete. The status change is also recorded as a memory. A TODO with unfinished subtasks can only be completed with cascade, which completes the subtasks too. Completing a repeating TODO creates its next occurrence with the following due date (occurrences already in the past are skipped), linked to the completed one. Returns the updated TODO and the next occurrence, if any.",
+      inputSchema: TodoStatusSchema.shape,
+      outputSchema: TodoUpdateResultSchema.shape,
+    },
+    (args) => {
+      const success = args.completed
+        ? todoService.completeTodoWithMemory(args.id, args.namespace, {
+            cascade: args.cascade,
+          })
+        : todoService.uncompleteTodoWithMemory(args.id, args.namespace);
+
+      if (!success) {
+        throw new NotFoundError(`No TODO found with ID: ${args.id}`);
+      }
+
+      const next = args.completed
+        ? todoRepo.getNextOccurrence(args.id, args.namespace)
+        : null;
+      const nextText = next
+        ? `. Next occurrence: TODO ${next.id} due ${next.due_date}`
+        : "";
+
+      return {
+        text: `Successfully marked TODO ${args.id} as ${args.completed ? "completed" : "incomplete"}${nextText}`,
+        data: {
+          todo: getTodoOutput(args.id, args.namespace),
+          next_todo: next ? toTodoOutput(next) : null,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "update_todo",
+    {
+      description:
+        "Changes any of the title, description, due date (ISO 8601), workflow status or priority of a TODO. Only the given fields are changed; pass null to remove the description or due date. The changes are recorded as a memory. Setting the status to done completes the TODO and, for a repeating TODO, creates its next occurrence; like update_todo_status, unfinished subtasks require cascade. Returns the updated TODO and the next occurrence, if any.",
+      inputSchema: TodoUpdateSchema.shape,
+      outputSchema: TodoUpdateResultSchema.shape,
+    },
+    (args) => {
+      const success = todoService.updateTodoWithMemory(
+        args.id,
+        {
+          title: args.title,
+          description: args.description,
+          due_date:
+            args.due_date === null
+              ? null
+              : parseDate(args.due_date, "due_date"),
+          status: args.status,
+          priority: args.priority,
+        },
+        args.namespace,
+        { cascade: args.cascade },
+      );
+
+      if (!success) {
+        throw new NotFoundError(`No TODO found with ID: ${args.id}`);
+      }
+
+      const next =
+        args.status === "done"
+          ? todoRepo.getNextOccurrence(args.id, args.namespace)
+          : null;
+
+      return {
+        text: `Successfully updated TODO ${args.id}${next ? `. Next occurrence: TODO ${next.id} due ${next.due_date}` : ""}`,
+        data: {
+          todo: getTodoOutput(args.id, args.namespace),
+          next_todo: next ? toTodoOutput(next) : null,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "set_todo_recurrence",
+    {
+      description:
+        "Makes a TODO repeat, or changes how it repeats. The rule is stored in normalized RRULE form and applies when the TODO is next completed. The change is recorded as a memory. Returns the updated TODO.",
+      inputSchema: TodoRecurrenceSchema.shape,
+      outputSchema: TodoResultSchema.shape,
+    },
+    (args) => {
+      const success = todoService.setTodoRecurrenceWithMemory(
+        args.id,
+        args.recurrence,
+        args.namespace,
+      );
+
+      if (!success) {
+        throw new NotFoundError(`No TODO found with ID: ${args.id}`);
+      }
+
+      return {
+        text: `Successfully set the recurrence of TODO ${args.id}`,
+        data: { todo: getTodoOutput(args.id, args.namespace) },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "stop_todo_recurrence",
+    {
+      description:
+        "Stops a TODO from repeating, so that completing it no longer creates a next occurrence. Earlier occurrences are kept. The change is recorded as a memory. Returns the updated TODO.",
+      inputSchema: TodoIdSchema.shape,
+      outputSchema: TodoResultSchema.shape,
+    },
+    (args) => {
+      const success = todoService.setTodoRecurrenceWithMemory(
+        args.id,
+        null,
+        args.namespace,
+      );
+
+      if (!success) {
+        throw new NotFoundError(`No TODO found with ID: ${args.id}`);
+      }
+
+      return {
+        text: `Successfully stopped the recurrence of TODO ${args.id}`,
+        data: { todo: getTodoOutput(args.id, args.namespace) },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "delete_todo",
+    {
+      description:
+        "Deletes a TODO by ID by moving it to the trash, from which restore_item or undo_last_change bring it back. Its subtasks move up to the parent of the deleted TODO, or are deleted as well with delete_subtasks. The deleted TODO no longer blocks the TODOs depending on it. The deletion is recorded as a memory containing the title of the deleted TODO.",
+      inputSchema: TodoDeleteSchema.shape,
+      outputSchema: { id: z.number(), deleted: z.boolean() },
+    },
+    (args) => {
+      const success = todoService.deleteTodoWithMemory(
+        args.id,
+        args.namespace,
+        {
+          deleteSubtasks: args.delete_subtasks,
+        },
+      );
+
+      if (!success) {
+        throw new NotFoundError(`No TODO found with ID: ${args.id}`);
+      }
+
+      return {
+        text: `Successfully deleted TODO with ID: ${args.id}`,
+        data: { id: args.id, deleted: true },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "set_todo_parent",
+    {
+      description:
+        "Makes a TODO a subtask of another TODO, or a top-level TODO when parent_id is null. A TODO cannot become a subtask of itself or of one of its own subtasks. The change is recorded as a memory. Returns the updated TODO.",
+      inputSchema: TodoParentSchema.shape,
+      outputSchema: TodoResultSchema.shape,
+    },
+    (args) => {
+      const success = todoService.setTodoParentWithMemory(
+        args.id,
+        args.parent_id,
+        args.namespace,
+      );
+
+      if (!success) {
+        throw new NotFoundError(`No TODO found with ID: ${args.id}`);
+      }
+
+      return {
+        text:
+          args.parent_id !== null
+            ? `Successfully made TODO ${args.id} a subtask of TODO ${args.parent_id}`
+            : `Successfully made TODO ${args.id} a top-level TODO`,
+        data: { todo: getTodoOutput(args.id, args.namespace) },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "add_todo_dependency",
+    {
+      description:
+        "Records that a TODO is blocked by another TODO, which has to be done or cancelled first. Dependencies that would form a cycle are rejected. The change is recorded as a memory. Returns the updated TODO and the IDs of its unfinished blockers.",
+      inputSchema: TodoDependencySchema.shape,
+      outputSchema: TodoBlockersSchema.shape,
+    },
+    (args) => {
+      const success = todoService.addTodoDependencyWithMemory(
+        args.id,
+        args.blocked_by,
+        args.namespace,
+      );
+
+      if (!success) {
+        throw new NotFoundError(`No TODO found with ID: ${args.id}`);
+      }
+
+      return {
+        text: `Successfully marked TODO ${args.id} as blocked by TODO ${args.blocked_by}`,
+        data: {
+          todo: getTodoOutput(args.id, args.namespace),
+          blocked_by: relationRepo.getOpenBlockerIds(args.id),
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "remove_todo_dependency",
+    {
+      description:
+        "Removes a dependency added with add_todo_dependency. The change is recorded as a memory. Returns the updated TODO and the IDs of its remaining unfinished blockers.",
+      inputSchema: TodoDependencySchema.shape,
+      outputSchema: TodoBlockersSchema.shape,
+    },
+    (args) => {
+      const success = todoService.removeTodoDependencyWithMemory(
+        args.id,
+        args.blocked_by,
+        args.namespace,
+      );
+
+      if (!success) {
+        throw new NotFoundError(
+          `No dependency found from TODO ${args.id} on TODO ${args.blocked_by}`,
+        );
+      }
+
+      return {
+        text: `Successfully removed the dependency of TODO ${args.id} on TODO ${args.blocked_by}`,
+        data: {
+          todo: getTodoOutput(args.id, args.namespace),
+          blocked_by: relationRepo.getOpenBlockerIds(args.id),
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "get_todo_tree",
+    {
+      description:
+        "Retrieves TODOs as a tree of subtasks: every top-level TODO with its subtasks, or the subtree of one TODO. Done and cancelled TODOs are left out unless include_closed is set, together with their subtasks. Each TODO lists the IDs of the unfinished TODOs blocking it. The nodes are returned in depth-first order with their depth, and the text shows them as an indented outline.",
+      inputSchema: TodoTreeSchema.shape,
+      outputSchema: TodoTreeResultSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const nodes = relationRepo
+        .getTodoTree({
+          rootId: args.root_id,
+          includeClosed: args.include_closed,
+          maxDepth: args.max_depth,
+          namespace: args.namespace,
+        })
+        .map(({ depth, ...todo }) => ({
+          ...toTodoOutput(todo),
+          depth,
+          blocked_by: relationRepo.getOpenBlockerIds(todo.id),
+        }));
+
+      if (args.root_id !== undefined && nodes.length === 0) {
+        getTodoOutput(args.root_id, args.namespace);
+      }
+
+      const lines = nodes.map((node) => {
+        const blocked =
+          node.blocked_by.length > 0
+            ? ` (blocked by ${node.blocked_by.join(", ")})`
+            : "";
+        return `${"  ".repeat(node.depth)}${formatTodoLine(node)}${blocked}`;
+      });
+
+      return {
+        text: formatList(`Found ${nodes.length} TODOs:`, lines),
+        data: { count: nodes.length, nodes },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "get_actionable_todos",
+    {
+      description:
+        "Retrieves TODOs that can be worked on right now: open or in_progress, with every TODO they depend on and every subtask done or cancelled. Results are ordered by priority, most urgent first, and paginated like search_todos.",
+      inputSchema: TodoActionablePageSchema.shape,
+      outputSchema: TodoListSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const page = todoService.getActionableTodos(
+        args.namespace,
+        toPageOptions(args),
+      );
+
+      return todoList(`Found ${page.total} actionable TODOs:`, page);
+    },
+  );
+
+  registerTool(
+    server,
+    "search_todos",
+    {
+      description:
+        "Searches TODOs using any combination of completion status, workflow status, priority, due date range (ISO 8601 dates), tags and a full-text query on the title or description. All filters are optional; calling without filters lists every TODO. Text matches are ordered by relevance; otherwise results are ordered by due date (TODOs without a due date last), then newest first. Results are paginated: pass the returned next_cursor to get the next page. The total number of matches is always reported.",
+      inputSchema: TodoSearchSchema.shape,
+      outputSchema: TodoListSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const page = todoRepo.searchTodos({
+        ...toPageOptions(args),
+        completed: args.completed,
+        statuses: args.status,
+        priorities: args.priority,
+        dueBefore: parseDate(args.due_before, "due_before"),
+        dueAfter: parseDate(args.due_after, "due_after"),
+        searchText: args.search_text,
+        tags: args.tags,
+        namespace: args.namespace,
+      });
+
+      return todoList(`Found ${page.total} TODOs:`, page);
+    },
+  );
+
+  registerTool(
+    server,
+    "get_upcoming_todos",
+    {
+      description:
+        "Retrieves TODOs that still need work (open, in_progress or blocked) and are due within the specified number of days from now (default is 3 days). Overdue TODOs are not included. Results are ordered by due date, soonest first, and paginated like search_todos.",
+      inputSchema: TodoUpcomingSchema.shape,
+      outputSchema: TodoListSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const days = args.days || 3;
+      const page = todoService.getUpcomingTodos(
+        days,
+        args.namespace,
+        toPageOptions(args),
+      );
+
+      return todoList(
+        `Found ${page.total} TODOs due in the next ${days} days:`,
+        page,
+      );
+    },
+  );
+
+  registerTool(
+    server,
+    "get_overdue_todos",
+    {
+      description:
+        "Retrieves TODOs that still need work (open, in_progress or blocked) whose due date has already passed. Results are ordered by due date, oldest first, so the most overdue TODOs appear at the top, and paginated like search_todos.",
+      inputSchema: TodoNamespacePageSchema.shape,
+      outputSchema: TodoListSchema.shape,
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const page = todoService.getOverdueTodos(
+        args.namespace,
+        toPageOptions(args),
+      );
+
+      return todoList(`Found ${page.total} overdue TODOs:`, page);
+    },
+  );
+}
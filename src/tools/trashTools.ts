@@ -0,0 +1,227 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  TrashedItem,
+  TRASH_ITEM_TYPES,
+  TRASH_SORT_KEYS,
+} from "../repositories/trashRepository";
+import * as trashService from "../services/trashService";
+import * as journalService from "../services/journalService";
+import { formatTimestamp } from "../database/timestamp";
+import { registerTool, NotFoundError } from "./response";
+import {
+  NamespaceSchema,
+  NamespaceOnlySchema,
+  pageInputShape,
+  PageOutputShape,
+  toPageOptions,
+  formatPage,
+} from "./schemas";
+
+const TrashListSchema = z.object({
+  type: z
+    .enum(TRASH_ITEM_TYPES)
+    .optional()
+    .describe("Only list memories or TODOs (default is both)"),
+  namespace: NamespaceSchema,
+  ...pageInputShape(TRASH_SORT_KEYS, "deleted_at, most recently deleted first"),
+});
+
+const RestoreItemSchema = z.object({
+  item_type: z
+    .enum(TRASH_ITEM_TYPES)
+    .describe("The type of item to take out of the trash"),
+  id: z.number().describe("The ID of the memory or TODO"),
+  namespace: NamespaceSchema,
+});
+
+const EmptyTrashSchema = z.object({
+  type: z
+    .enum(TRASH_ITEM_TYPES)
+    .optional()
+    .describe("Only delete memories or TODOs (default is both)"),
+  older_than_days: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      "Only delete items that have been in the trash for at least this many days (default is every item)",
+    ),
+  namespace: NamespaceSchema,
+});
+
+const TrashedItemOutputSchema = z.object({
+  type: z.enum(TRASH_ITEM_TYPES),
+  id: z.number(),
+  title: z.string().describe("The content of a memory or title of a TODO"),
+  namespace: z.string(),
+  created_at: z.string(),
+  deleted_at: z.string(),
+});
+
+function formatTrashedItem(item: TrashedItem): string {
+  return `- ${item.type} ${item.id} (deleted ${formatTimestamp(item.deleted_at)}): ${item.title.replace(/\s*\n\s*/g, " ")}`;
+}
+
+export function registerTrashTools(server: McpServer) {
+  registerTool(
+    server,
+    "list_trash",
+    {
+      description:
+        "Lists the memories and TODOs that were deleted and are still in the trash. Items in the trash are hidden from every other tool until they are restored with restore_item or permanently deleted with empty_trash. Results are ordered most recently deleted first and paginated.",
+      inputSchema: TrashListSchema.shape,
+      outputSchema: {
+        ...PageOutputShape,
+        items: z.array(TrashedItemOutputSchema),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    (args) => {
+      const page = trashService.listTrash(
+        args.type,
+        args.namespace,
+        toPageOptions(args),
+      );
+
+      return {
+        text: formatPage(
+          `Found ${page.total} items in the trash:`,
+          page.items.map(formatTrashedItem),
+          page,
+        ),
+        data: {
+          count: page.items.length,
+          total: page.total,
+          next_cursor: page.next_cursor,
+          items: page.items,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "restore_item",
+    {
+      description:
+        "Takes a deleted memory or TODO out of the trash. A TODO comes back together with the subtasks that were deleted with it, the subtasks that were moved up a level when it was deleted are moved back under it, and its restoration is recorded as a memory.",
+      inputSchema: RestoreItemSchema.shape,
+      outputSchema: {
+        item_type: z.enum(TRASH_ITEM_TYPES),
+        id: z.number(),
+        subtask_ids: z
+          .array(z.number())
+          .describe("Subtasks restored together with a TODO"),
+        moved_subtask_ids: z
+          .array(z.number())
+          .describe("Subtasks moved back under a TODO"),
+      },
+    },
+    (args) => {
+      const result = trashService.restoreItem(
+        args.item_type,
+        args.id,
+        args.namespace,
+      );
+
+      if (!result) {
+        throw new NotFoundError(
+          `No ${args.item_type} with ID ${args.id} found in the trash`,
+        );
+      }
+
+      const subtaskStr =
+        result.subtask_ids.length > 0
+          ? ` and its subtasks ${result.subtask_ids.join(", ")}`
+          : "";
+      const movedStr =
+        result.moved_subtask_ids.length > 0
+          ? `, moving its subtasks ${result.moved_subtask_ids.join(", ")} back under it`
+          : "";
+      return {
+        text: `Successfully restored ${args.item_type} ${args.id}${subtaskStr}${movedStr}`,
+        data: {
+          item_type: result.type,
+          id: result.id,
+          subtask_ids: result.subtask_ids,
+          moved_subtask_ids: result.moved_subtask_ids,
+        },
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "empty_trash",
+    {
+      description:
+        "Permanently deletes the memories and TODOs in the trash together with their edit history, tags, links and embeddings. Limit it to one item type or to items deleted some days ago. This operation cannot be undone.",
+      inputSchema: EmptyTrashSchema.shape,
+      outputSchema: { memories: z.number(), todos: z.number() },
+    },
+    (args) => {
+      const counts = trashService.emptyTrash({
+        type: args.type,
+        olderThanDays: args.older_than_days,
+        namespace: args.namespace,
+      });
+
+      return {
+        text: `Permanently deleted ${counts.memories} memories and ${counts.todos} TODOs from the trash`,
+        data: counts,
+      };
+    },
+  );
+
+  registerTool(
+    server,
+    "undo_last_change",
+    {
+      description:
+        "Undoes the latest change to the memories and TODOs of a namespace: a creation, update, completion, deletion or restoration. Call it repeatedly to go further back. Parts of a change whose items were permanently deleted since are skipped. Undo stops with an error at a change that cannot be reverted, such as a tag, link, archive or importance change, a namespace move, a consolidation or an import.",
+      inputSchema: NamespaceOnlySchema.shape,
+      outputSchema: {
+        undone: z.boolean().describe("Whether there was a change to undo"),
+        description: z.string().nullable().describe("What the change did"),
+        created_at: z.string().nullable().describe("When the change was made"),
+        reverted: z.number().describe("Number of items that were reverted"),
+        skipped: z
+          .number()
+          .describe("Number of items that no longer exist and were skipped"),
+      },
+    },
+    (args) => {
+      const result = journalService.undoLastChange(args.namespace);
+
+      if (!result) {
+        return {
+          text: "Nothing to undo",
+          data: {
+            undone: false,
+            description: null,
+            created_at: null,
+            reverted: 0,
+            skipped: 0,
+          },
+        };
+      }
+
+      const skippedStr =
+        result.skipped > 0
+          ? ` (${result.skipped} items no longer exist and were skipped)`
+          : "";
+      return {
+        text: `Undid "${result.description}" from ${formatTimestamp(result.created_at)}${skippedStr}`,
+        data: {
+          undone: true,
+          description: result.description,
+          created_at: result.created_at,
+          reverted: result.reverted,
+          skipped: result.skipped,
+        },
+      };
+    },
+  );
+}
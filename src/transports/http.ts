@@ -0,0 +1,253 @@
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  ServerResponse,
+} from "http";
+import { AddressInfo } from "net";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { log } from "../logger";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number; // 0 picks a free port
+  authToken?: string; // Bearer token required on every request if set
+}
+
+export interface HttpServerHandle {
+  url: string; // Base URL the server is listening on
+  sessionCount: () => number;
+  close: () => Promise<void>;
+}
+
+// Endpoints for streamable HTTP and the older SSE transport
+export const MCP_ENDPOINT = "/mcp";
+export const SSE_ENDPOINT = "/sse";
+export const SSE_MESSAGES_ENDPOINT = "/messages";
+
+// Largest accepted request body
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+type Session = StreamableHTTPServerTransport | SSEServerTransport;
+
+/**
+ * Error answered with a JSON-RPC error response
+ */
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+function sendError(res: ServerResponse, error: HttpError) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (error.status === 401) {
+    headers["WWW-Authenticate"] = 'Bearer realm="tiny-memory-mcp"';
+  }
+
+  res.writeHead(error.status, headers).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: error.code, message: error.message },
+      id: null,
+    }),
+  );
+}
+
+/**
+ * Check the bearer token in constant time
+ */
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) {
+    return false;
+  }
+
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, -32600, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, -32700, "Parse error: invalid JSON");
+  }
+}
+
+/**
+ * Serve MCP over HTTP
+ *
+ * Clients connect with streamable HTTP at /mcp or with the older SSE
+ * transport at /sse. Every session gets its own MCP server from the factory;
+ * all sessions share the process-wide database connection.
+ * @param createServer Factory creating an MCP server with all tools registered
+ * @param options Bind address, port and optional bearer token
+ * @returns Handle with the server URL and a function stopping the server
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  options: HttpServerOptions,
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  const handleStreamableHttp = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === "string") {
+      const transport = sessions.get(sessionId);
+      if (!(transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(404, -32001, "Session not found");
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new HttpError(
+        400,
+        -32000,
+        "Bad Request: no valid session ID provided",
+      );
+    }
+
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, transport);
+          log("info", `HTTP session started: ${id}`);
+        },
+      });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        log("info", `HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse) => {
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    sessions.set(transport.sessionId, transport);
+    log("info", `SSE session started: ${transport.sessionId}`);
+
+    transport.onclose = () => {
+      if (sessions.delete(transport.sessionId)) {
+        log("info", `SSE session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+  ) => {
+    const transport = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!(transport instanceof SSEServerTransport)) {
+      throw new HttpError(404, -32001, "Session not found");
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      if (!isAuthorized(req, options.authToken)) {
+        throw new HttpError(401, -32001, "Unauthorized");
+      }
+
+      const url = new URL(req.url ?? "/", "http://localhost");
+
+      if (url.pathname === MCP_ENDPOINT) {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === SSE_ENDPOINT && req.method === "GET") {
+        await handleSse(req, res);
+      } else if (
+        url.pathname === SSE_MESSAGES_ENDPOINT &&
+        req.method === "POST"
+      ) {
+        await handleSseMessage(req, res, url);
+      } else {
+        throw new HttpError(404, -32601, "Not found");
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error);
+      } else {
+        log("error", "HTTP request error:", error);
+        sendError(res, new HttpError(500, -32603, "Internal server error"));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${port}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      // Closing a transport also closes the MCP server connected to it
+      await Promise.all(
+        [...sessions.values()].map((transport) => transport.close()),
+      );
+      sessions.clear();
+
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,232 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import { AccessDeniedError, setToolAccessPolicy } from "../src/accessControl";
+import { registerAllTools } from "../src/tools";
+import { getRegisteredToolNames } from "../src/tools/response";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as memoryService from "../src/services/memoryService";
+import * as todoService from "../src/services/todoService";
+import * as exportService from "../src/services/exportService";
+import * as consolidationService from "../src/services/consolidationService";
+import * as tagService from "../src/services/tagService";
+import * as linkService from "../src/services/linkService";
+import * as namespaceService from "../src/services/namespaceService";
+import * as tagRepo from "../src/repositories/tagRepository";
+import * as linkRepo from "../src/repositories/linkRepository";
+import { connect, callTool, closeClients } from "./mcpClient";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-access.sqlite";
+
+describe("アクセス制御テスト", () => {
+  async function listToolNames(client: Client): Promise<string[]> {
+    const { tools } = await client.listTools();
+    return tools.map((tool) => tool.name);
+  }
+
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(async () => {
+    await closeClients();
+    setToolAccessPolicy({});
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("読み取り専用モードでは変更するツールを登録せず、サービスも書き込まない", async () => {
+    memoryService.createMemory("読み取り専用で読むメモ");
+    closeDatabase();
+    setupDatabase(TEST_DB_FILE, { readOnly: true });
+    initializeDatabase();
+
+    const client = await connect();
+    const names = await listToolNames(client);
+    expect(names).toContain("search_memories");
+    expect(names).toContain("get_relevant_memories");
+    expect(names).not.toContain("create_memory");
+    expect(names).not.toContain("delete_todo");
+    expect(names).not.toContain("import_data");
+
+    // 読み取りはでき、アクセスの記録は省かれる
+    const search = await callTool(client, "search_memories", {
+      search_text: "",
+    });
+    expect(search.structuredContent).toMatchObject({
+      total: 1,
+      memories: [{ id: 1, access_count: 0 }],
+    });
+    const semantic = await callTool(client, "semantic_search_memories", {
+      query: "メモ",
+    });
+    expect(semantic.isError).toBe(false);
+
+    expect(() => memoryService.createMemory("書けないメモ")).toThrow(
+      AccessDeniedError,
+    );
+    expect(() => todoService.deleteTodoWithMemory(1)).toThrow(
+      "Cannot delete a TODO: the server is read-only",
+    );
+    expect(() => exportService.importData("[]")).toThrow(AccessDeniedError);
+    await expect(
+      consolidationService.consolidateMemories({ to: "today" }),
+    ).rejects.toThrow(AccessDeniedError);
+    const preview = await consolidationService.consolidateMemories({
+      to: "today",
+      dryRun: true,
+    });
+    expect(preview.groups).toEqual([]);
+    expect(memoryRepo.getAllMemories().length).toBe(1);
+  });
+
+  test("許可・拒否リストにあるツールだけを登録する", async () => {
+    setToolAccessPolicy({
+      allow: ["search_memories", "create_memory", "delete_memory"],
+      deny: ["delete_memory"],
+    });
+    expect(await listToolNames(await connect())).toEqual([
+      "create_memory",
+      "search_memories",
+    ]);
+
+    setToolAccessPolicy({ deny: ["delete_memory", "delete_todo"] });
+    const client = await connect();
+    const names = await listToolNames(client);
+    expect(names).toContain("create_memory");
+    expect(names).not.toContain("delete_memory");
+    expect(names).not.toContain("delete_todo");
+
+    // 読み取り専用のツールには注釈が付く
+    const { tools } = await client.listTools();
+    expect(
+      tools.find((tool) => tool.name === "search_todos")?.annotations,
+    ).toEqual({ readOnlyHint: true });
+  });
+
+  test("登録されたツールの名前を取得できる", async () => {
+    setToolAccessPolicy({ deny: ["delete_todo"] });
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registerAllTools(server);
+
+    const names = getRegisteredToolNames(server);
+    expect(names).toContain("undo_last_change");
+    expect(names).toContain("get_audit_log");
+    expect(names).not.toContain("delete_todo");
+    expect([...names].sort()).toEqual(
+      [...(await listToolNames(await connect()))].sort(),
+    );
+  });
+
+  test("許可・拒否リストはサービス層でも適用される", () => {
+    const memoryId = memoryService.createMemory("消せないメモ");
+
+    setToolAccessPolicy({ deny: ["delete_memory", "stop_todo_recurrence"] });
+    expect(() => memoryService.deleteMemory(memoryId)).toThrow(
+      "Cannot delete a memory: the delete_memory tool is not allowed",
+    );
+    expect(memoryRepo.getMemoryById(memoryId)).not.toBeNull();
+
+    // 同じサービスでも変更を行うツールごとに判定する
+    const todoId = todoService.createTodoWithMemory("週次レビュー");
+    expect(todoService.setTodoRecurrenceWithMemory(todoId, "weekly")).toBe(
+      true,
+    );
+    expect(() => todoService.setTodoRecurrenceWithMemory(todoId, null)).toThrow(
+      AccessDeniedError,
+    );
+
+    // 許可リストにない変更はCLIなどツール以外の経路からも拒否される
+    setToolAccessPolicy({ allow: ["search_memories"] });
+    expect(() => memoryService.createMemory("書けないメモ")).toThrow(
+      AccessDeniedError,
+    );
+    expect(() => exportService.importData("[]")).toThrow(AccessDeniedError);
+  });
+
+  test("タグ・リンク・アーカイブ・重要度・名前空間の変更も拒否されたツールでは行えない", () => {
+    const memoryId = memoryService.createMemory("変えられないメモ", [
+      "元のタグ",
+    ]);
+    const otherId = memoryService.createMemory("関連するメモ");
+    const todoId = todoService.createTodoWithMemory("変えられないTODO");
+    linkService.linkMemories(memoryId, otherId, "relates_to");
+
+    const changes: [string, () => unknown][] = [
+      [
+        "add_tags",
+        () => tagService.addTags("memory", memoryId, ["新しいタグ"]),
+      ],
+      [
+        "remove_tags",
+        () => tagService.removeTags("memory", memoryId, ["元のタグ"]),
+      ],
+      ["rename_tag", () => tagService.renameTag("元のタグ", "別名")],
+      ["merge_tags", () => tagService.mergeTags(["元のタグ"], "別名")],
+      [
+        "link_memory_to_todo",
+        () => linkService.linkMemoryToTodo(memoryId, todoId),
+      ],
+      [
+        "unlink_memory_from_todo",
+        () => linkService.unlinkMemoryFromTodo(memoryId, todoId),
+      ],
+      [
+        "link_memories",
+        () => linkService.linkMemories(otherId, memoryId, "caused_by"),
+      ],
+      ["unlink_memories", () => linkService.unlinkMemories(memoryId, otherId)],
+      [
+        "archive_memories",
+        () => memoryService.setMemoriesArchived([memoryId], true),
+      ],
+      [
+        "unarchive_memories",
+        () => memoryService.setMemoriesArchived([memoryId], false),
+      ],
+      [
+        "set_memory_importance",
+        () => memoryService.setMemoryImportance(memoryId, { importance: 5 }),
+      ],
+      [
+        "move_items",
+        () => namespaceService.moveItems("memory", [memoryId], "project-a"),
+      ],
+    ];
+    for (const [tool, change] of changes) {
+      setToolAccessPolicy({ deny: [tool] });
+      expect(change).toThrow(`the ${tool} tool is not allowed`);
+    }
+
+    // どの変更も行われていない
+    const memory = memoryRepo.getMemoryById(memoryId);
+    expect(memory).toMatchObject({ importance: 3, archived_at: null });
+    expect(tagRepo.getTags("memory", memoryId)).toEqual(["元のタグ"]);
+    expect(linkRepo.getLinkedTodoIds(memoryId)).toEqual([]);
+    expect(linkRepo.getMemoryLinks(memoryId)).toHaveLength(1);
+
+    // 読み取り専用でも拒否される
+    setToolAccessPolicy({});
+    closeDatabase();
+    setupDatabase(TEST_DB_FILE, { readOnly: true });
+    initializeDatabase();
+    expect(() =>
+      tagService.addTags("memory", memoryId, ["新しいタグ"]),
+    ).toThrow("Cannot add tags: the server is read-only");
+  });
+});
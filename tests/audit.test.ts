@@ -0,0 +1,189 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import { AccessDeniedError } from "../src/accessControl";
+import * as auditRepo from "../src/repositories/auditRepository";
+import * as auditService from "../src/services/auditService";
+import { connect, callTool, closeClients } from "./mcpClient";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-audit.sqlite";
+
+describe("監査ログテスト", () => {
+  function listEntries(): auditRepo.AuditEntry[] {
+    return auditService.getAuditLog({
+      page: { sort: "created_at", order: "asc" },
+    }).items;
+  }
+
+  // 監査エントリの記録日時を書き換える
+  function setCreatedAt(id: number, createdAt: string) {
+    getDatabase()
+      .prepare("UPDATE audit_log SET created_at = ? WHERE id = ?")
+      .run(createdAt, id);
+  }
+
+  function createEntry(tool: string): number {
+    return auditRepo.createAuditEntry({
+      tool,
+      arguments: "{}",
+      namespace: "default",
+      client: null,
+      session_id: null,
+      status: "success",
+      error: null,
+      duration_ms: 1,
+    });
+  }
+
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(async () => {
+    await closeClients();
+    auditService.setAuditOptions({});
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("ツール呼び出しを結果・所要時間・クライアントと共に記録できる", async () => {
+    const client = await connect();
+    await callTool(client, "create_memory", {
+      content: "監査されるメモ",
+      namespace: "project-a",
+    });
+    const failed = await callTool(client, "delete_memory", { id: 999 });
+    expect(failed.isError).toBe(true);
+
+    const entries = listEntries();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      tool: "create_memory",
+      namespace: "project-a",
+      client: "test-client/1.0.0",
+      session_id: null,
+      status: "success",
+      error: null,
+    });
+    expect(JSON.parse(entries[0].arguments)).toMatchObject({
+      content: "監査されるメモ",
+    });
+    expect(entries[0].duration_ms).toBeGreaterThanOrEqual(0);
+    expect(entries[1]).toMatchObject({
+      tool: "delete_memory",
+      namespace: "default",
+      status: "error",
+    });
+    expect(entries[1].error).toContain("999");
+  });
+
+  test("指定した引数の値を伏せ、長い文字列を切り詰める", async () => {
+    auditService.setAuditOptions({ redact: ["content"] });
+    const client = await connect();
+    await callTool(client, "create_memory", { content: "秘密のメモ" });
+
+    const [entry] = listEntries();
+    expect(JSON.parse(entry.arguments)).toEqual({
+      content: auditService.REDACTED,
+    });
+    expect(entry.arguments).not.toContain("秘密");
+
+    // 入れ子の引数も伏せ、長い文字列は切り詰める
+    const redacted = auditService.redactArguments(
+      { items: [{ token: "abc", note: "x".repeat(2000) }] },
+      ["token"],
+    ) as { items: { token: string; note: string }[] };
+    expect(redacted.items[0].token).toBe(auditService.REDACTED);
+    expect(redacted.items[0].note.length).toBeLessThan(1100);
+    expect(redacted.items[0].note).toContain("2000 characters");
+  });
+
+  test("保持期間を過ぎたエントリを削除できる", () => {
+    auditService.setAuditOptions({ retentionDays: 30 });
+    const old = createEntry("search_memories");
+    const recent = createEntry("search_todos");
+    setCreatedAt(old, "2025-01-01 00:00:00");
+    setCreatedAt(recent, "2025-02-15 00:00:00");
+
+    expect(auditService.pruneAuditLog(new Date("2025-03-01T00:00:00Z"))).toBe(
+      1,
+    );
+    expect(listEntries().map((entry) => entry.id)).toEqual([recent]);
+
+    // 保持期間0ではすべて残す
+    auditService.setAuditOptions({ retentionDays: 0 });
+    expect(auditService.pruneAuditLog(new Date("2030-01-01T00:00:00Z"))).toBe(
+      0,
+    );
+    expect(listEntries()).toHaveLength(1);
+  });
+
+  test("無効化されているときと読み取り専用のときは記録しない", async () => {
+    auditService.setAuditOptions({ enabled: false });
+    const client = await connect();
+    await callTool(client, "create_memory", { content: "記録されないメモ" });
+    expect(listEntries()).toHaveLength(0);
+
+    auditService.setAuditOptions({});
+    closeDatabase();
+    setupDatabase(TEST_DB_FILE, { readOnly: true });
+    initializeDatabase();
+
+    const readOnlyClient = await connect();
+    await callTool(readOnlyClient, "search_memories", { search_text: "メモ" });
+    expect(listEntries()).toHaveLength(0);
+    expect(() => auditService.pruneAuditLog()).toThrow(AccessDeniedError);
+  });
+
+  test("get_audit_logツールで監査ログを絞り込める", async () => {
+    const client = await connect();
+    await callTool(client, "create_memory", { content: "一件目" });
+    await callTool(client, "create_memory", { content: "二件目" });
+    await callTool(client, "delete_memory", { id: 999 });
+
+    const result = await callTool(client, "get_audit_log", {
+      tool: "create_memory",
+      limit: 1,
+    });
+    const data = result.structuredContent as {
+      total: number;
+      next_cursor: string | null;
+      entries: { tool: string; arguments: { content: string } }[];
+    };
+    expect(data.total).toBe(2);
+    expect(data.next_cursor).not.toBeNull();
+    expect(data.entries[0].arguments.content).toBe("二件目");
+
+    const failed = await callTool(client, "get_audit_log", {
+      status: "error",
+    });
+    expect(failed.structuredContent).toMatchObject({
+      total: 1,
+      entries: [{ tool: "delete_memory", status: "error" }],
+    });
+    expect((failed.content[0] as { text: string }).text).toContain(
+      "delete_memory",
+    );
+
+    // 期間の指定が逆転していればエラーになる
+    const invalid = await callTool(client, "get_audit_log", {
+      from: "today",
+      to: "last week",
+    });
+    expect(invalid.isError).toBe(true);
+  });
+});
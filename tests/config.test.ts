@@ -0,0 +1,365 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  resolveConfig,
+  parseCommandLine,
+  readEnvironment,
+  loadConfigFile,
+  ConfigError,
+  DEFAULT_CONFIG,
+} from "../src/config";
+import * as fs from "fs";
+import * as path from "path";
+
+// テスト用の一時設定ファイル
+const TEST_CONFIG_DIR = "test-config";
+const JSON_CONFIG_FILE = path.join(TEST_CONFIG_DIR, "config.json");
+const TOML_CONFIG_FILE = path.join(TEST_CONFIG_DIR, "config.toml");
+
+describe("設定・コマンドライン解析テスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    fs.rmSync(TEST_CONFIG_DIR, { recursive: true, force: true });
+  });
+
+  test("引数がなければ既定値を使う", () => {
+    expect(resolveConfig([], {})).toEqual({
+      command: "serve",
+      config: DEFAULT_CONFIG,
+      configFile: undefined,
+    });
+  });
+
+  test("フラグを解析できる", () => {
+    const { layer } = parseCommandLine([
+      "--db",
+      "memo.db",
+      "--namespace=project-a",
+      "--log-level",
+      "debug",
+      "--read-only",
+      "--transport",
+      "stdio",
+    ]);
+
+    expect(layer).toEqual({
+      db: "memo.db",
+      namespace: "project-a",
+      logLevel: "debug",
+      readOnly: true,
+      transport: "stdio",
+    });
+  });
+
+  test("--no-read-only で環境変数や設定ファイルの読み取り専用を打ち消せる", () => {
+    fs.writeFileSync(JSON_CONFIG_FILE, JSON.stringify({ readOnly: true }));
+    const env = {
+      TINY_MEMORY_READ_ONLY: "true",
+      TINY_MEMORY_CONFIG: JSON_CONFIG_FILE,
+    };
+
+    const readOnly = resolveConfig([], env);
+    expect(readOnly.command === "serve" && readOnly.config.readOnly).toBe(true);
+
+    const writable = resolveConfig(["--no-read-only"], env);
+    expect(writable.command === "serve" && writable.config.readOnly).toBe(
+      false,
+    );
+
+    expect(() => parseCommandLine(["--read-only", "--no-read-only"])).toThrow(
+      ConfigError,
+    );
+  });
+
+  test("位置引数をデータベースパスとして受け付ける", () => {
+    const result = resolveConfig(["legacy.db"], {});
+    expect(result.command === "serve" && result.config.db).toBe("legacy.db");
+
+    // --db と位置引数の両方は指定できない
+    expect(() => parseCommandLine(["--db", "a.db", "b.db"])).toThrow(
+      ConfigError,
+    );
+  });
+
+  test("--help と --version を認識する", () => {
+    expect(resolveConfig(["--help"], {})).toEqual({ command: "help" });
+    expect(resolveConfig(["-v"], {})).toEqual({ command: "version" });
+  });
+
+  test("不正なフラグや値はエラーになる", () => {
+    expect(() => resolveConfig(["--unknown"], {})).toThrow(ConfigError);
+    expect(() => resolveConfig(["--log-level", "verbose"], {})).toThrow(
+      /logLevel/,
+    );
+    expect(() => resolveConfig(["--namespace", "bad name!"], {})).toThrow(
+      ConfigError,
+    );
+    expect(() => resolveConfig(["--transport", "carrier-pigeon"], {})).toThrow(
+      ConfigError,
+    );
+    expect(() => resolveConfig(["--time-zone", "Mars/Olympus"], {})).toThrow(
+      /timeZone/,
+    );
+  });
+
+  test("環境変数を読み込める", () => {
+    const layer = readEnvironment({
+      TINY_MEMORY_DB: "env.db",
+      TINY_MEMORY_NAMESPACE: "from-env",
+      TINY_MEMORY_TIME_ZONE: "asia/tokyo",
+      TINY_MEMORY_LOG_LEVEL: "warn",
+      TINY_MEMORY_READ_ONLY: "true",
+      TINY_MEMORY_EMBEDDING_PROVIDER: "ollama",
+      TINY_MEMORY_EMBEDDING_MODEL: "nomic-embed-text",
+    });
+
+    expect(layer).toEqual({
+      db: "env.db",
+      namespace: "from-env",
+      timeZone: "Asia/Tokyo",
+      logLevel: "warn",
+      readOnly: true,
+      embedding: { provider: "ollama", model: "nomic-embed-text" },
+    });
+
+    expect(() => readEnvironment({ TINY_MEMORY_READ_ONLY: "maybe" })).toThrow(
+      /TINY_MEMORY_READ_ONLY/,
+    );
+  });
+
+  test("JSONとTOMLの設定ファイルを読み込める", () => {
+    fs.writeFileSync(
+      JSON_CONFIG_FILE,
+      JSON.stringify({ db: "data/memo.db", logLevel: "error" }),
+    );
+    fs.writeFileSync(
+      TOML_CONFIG_FILE,
+      'namespace = "toml-project"\nreadOnly = true\n\n[embedding]\nprovider = "hashed"\n',
+    );
+
+    // 相対パスは設定ファイルのディレクトリを基準に解決する
+    expect(loadConfigFile(JSON_CONFIG_FILE)).toEqual({
+      db: path.resolve(TEST_CONFIG_DIR, "data/memo.db"),
+      logLevel: "error",
+    });
+    expect(loadConfigFile(TOML_CONFIG_FILE)).toEqual({
+      namespace: "toml-project",
+      readOnly: true,
+      embedding: { provider: "hashed" },
+    });
+  });
+
+  test("設定ファイルの不正なキーや構文はエラーになる", () => {
+    fs.writeFileSync(JSON_CONFIG_FILE, JSON.stringify({ database: "x.db" }));
+    expect(() => loadConfigFile(JSON_CONFIG_FILE)).toThrow(/config file/);
+
+    fs.writeFileSync(JSON_CONFIG_FILE, "{ not json");
+    expect(() => loadConfigFile(JSON_CONFIG_FILE)).toThrow(ConfigError);
+
+    expect(() =>
+      loadConfigFile(path.join(TEST_CONFIG_DIR, "missing.json")),
+    ).toThrow(/Cannot read/);
+  });
+
+  test("フラグ > 環境変数 > 設定ファイル > 既定値 の順で優先される", () => {
+    fs.writeFileSync(
+      JSON_CONFIG_FILE,
+      JSON.stringify({
+        db: "/tmp/file.db",
+        namespace: "from-file",
+        logLevel: "error",
+        embedding: { provider: "ollama", model: "file-model" },
+      }),
+    );
+
+    const result = resolveConfig(
+      ["--config", JSON_CONFIG_FILE, "--namespace", "from-cli"],
+      {
+        TINY_MEMORY_NAMESPACE: "from-env",
+        TINY_MEMORY_LOG_LEVEL: "debug",
+        TINY_MEMORY_EMBEDDING_MODEL: "env-model",
+      },
+    );
+
+    expect(result).toEqual({
+      command: "serve",
+      configFile: JSON_CONFIG_FILE,
+      config: {
+        db: "/tmp/file.db",
+        namespace: "from-cli",
+        timeZone: "UTC",
+        logLevel: "debug",
+        readOnly: false,
+        transport: "stdio",
+        host: "127.0.0.1",
+        port: 3000,
+        embedding: { provider: "ollama", model: "env-model" },
+        audit: { enabled: true, retentionDays: 90, redact: [] },
+      },
+    });
+  });
+
+  test("HTTPトランスポートの設定を解析できる", () => {
+    const result = resolveConfig(
+      ["--transport", "http", "--host", "0.0.0.0", "--port", "8080"],
+      { TINY_MEMORY_AUTH_TOKEN: "secret" },
+    );
+
+    expect(result.command === "serve" && result.config).toMatchObject({
+      transport: "http",
+      host: "0.0.0.0",
+      port: 8080,
+      authToken: "secret",
+    });
+
+    expect(() => resolveConfig(["--port", "http"], {})).toThrow(/port/);
+    expect(() => resolveConfig(["--port", "70000"], {})).toThrow(/port/);
+  });
+
+  test("exportとimportのサブコマンドを解析できる", () => {
+    expect(
+      resolveConfig(
+        ["export", "--format", "markdown", "--output", "journal.md"],
+        {},
+      ),
+    ).toMatchObject({
+      command: "export",
+      format: "markdown",
+      output: "journal.md",
+      allNamespaces: false,
+    });
+    expect(
+      resolveConfig(
+        ["import", "backup.jsonl", "--dry-run", "--db", "x.db"],
+        {},
+      ),
+    ).toMatchObject({
+      command: "import",
+      file: "backup.jsonl",
+      format: undefined,
+      dryRun: true,
+      config: { db: "x.db" },
+    });
+
+    // 不正な組み合わせはエラーになる
+    expect(() => resolveConfig(["import"], {})).toThrow(/exactly one file/);
+    expect(() =>
+      resolveConfig(["import", "a.json", "--format", "markdown"], {}),
+    ).toThrow(/--format/);
+    expect(() => resolveConfig(["--dry-run"], {})).toThrow(/--dry-run/);
+    expect(() => resolveConfig(["export", "extra"], {})).toThrow(/extra/);
+  });
+
+  test("環境変数で設定ファイルを指定できる", () => {
+    fs.writeFileSync(JSON_CONFIG_FILE, JSON.stringify({ readOnly: true }));
+
+    const result = resolveConfig([], { TINY_MEMORY_CONFIG: JSON_CONFIG_FILE });
+    expect(result.command === "serve" && result.config.readOnly).toBe(true);
+  });
+
+  test("ツールの許可・拒否リストを解析できる", () => {
+    fs.writeFileSync(
+      JSON_CONFIG_FILE,
+      JSON.stringify({ allowTools: ["search_memories", "create_memory"] }),
+    );
+
+    const result = resolveConfig(
+      ["--config", JSON_CONFIG_FILE, "--deny-tools", "create_memory, "],
+      { TINY_MEMORY_ALLOW_TOOLS: "search_memories,get_memory_context" },
+    );
+    expect(result.command === "serve" && result.config).toMatchObject({
+      allowTools: ["search_memories", "get_memory_context"],
+      denyTools: ["create_memory"],
+    });
+
+    fs.writeFileSync(JSON_CONFIG_FILE, JSON.stringify({ denyTools: [1] }));
+    expect(() => loadConfigFile(JSON_CONFIG_FILE)).toThrow(/denyTools/);
+  });
+
+  test("監査ログの設定を解析できる", () => {
+    fs.writeFileSync(
+      JSON_CONFIG_FILE,
+      JSON.stringify({ audit: { retentionDays: 30, redact: ["content"] } }),
+    );
+
+    const result = resolveConfig(["--config", JSON_CONFIG_FILE], {
+      TINY_MEMORY_AUDIT: "off",
+      TINY_MEMORY_AUDIT_REDACT: "content, data",
+    });
+    expect(result.command === "serve" && result.config.audit).toEqual({
+      enabled: false,
+      retentionDays: 30,
+      redact: ["content", "data"],
+    });
+
+    expect(() =>
+      readEnvironment({ TINY_MEMORY_AUDIT_RETENTION_DAYS: "-1" }),
+    ).toThrow(/retentionDays/);
+    expect(() => readEnvironment({ TINY_MEMORY_AUDIT: "maybe" })).toThrow(
+      /TINY_MEMORY_AUDIT/,
+    );
+  });
+
+  test("auditサブコマンドを解析できる", () => {
+    expect(resolveConfig(["audit"], {})).toMatchObject({
+      command: "audit",
+      format: "text",
+      limit: 50,
+      prune: false,
+    });
+    expect(
+      resolveConfig(
+        [
+          "audit",
+          "--tool",
+          "create_memory",
+          "--status",
+          "error",
+          "--from",
+          "yesterday",
+          "--limit",
+          "10",
+          "--format",
+          "json",
+        ],
+        {},
+      ),
+    ).toMatchObject({
+      command: "audit",
+      format: "json",
+      tool: "create_memory",
+      status: "error",
+      from: "yesterday",
+      limit: 10,
+    });
+    expect(resolveConfig(["audit", "--prune"], {})).toMatchObject({
+      command: "audit",
+      prune: true,
+    });
+
+    // 不正な値や組み合わせはエラーになる
+    expect(() => resolveConfig(["audit", "--status", "ok"], {})).toThrow(
+      /--status/,
+    );
+    expect(() => resolveConfig(["audit", "--limit", "0"], {})).toThrow(
+      /--limit/,
+    );
+    expect(() => resolveConfig(["audit", "--format", "jsonl"], {})).toThrow(
+      /--format/,
+    );
+    expect(() => resolveConfig(["export", "--prune"], {})).toThrow(/--prune/);
+    expect(() => resolveConfig(["--tool", "create_memory"], {})).toThrow(
+      /--tool/,
+    );
+  });
+
+  test("ollamaプロバイダーにはモデル名が必要", () => {
+    expect(() =>
+      resolveConfig([], { TINY_MEMORY_EMBEDDING_PROVIDER: "ollama" }),
+    ).toThrow(/requires a model/);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import {
+  ExtractiveSummarizer,
+  setSummarizer,
+  getSummarizer,
+  Summarizer,
+} from "../src/summarizers";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as linkRepo from "../src/repositories/linkRepository";
+import * as tagRepo from "../src/repositories/tagRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as consolidationService from "../src/services/consolidationService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-consolidation.sqlite";
+
+// 2025-03-05（水）12:00 UTC
+const NOW = new Date("2025-03-05T12:00:00Z");
+
+describe("抽出型要約テスト", () => {
+  test("同じ内容をまとめ、代表的なメモリーを元の順序で残す", async () => {
+    const summarizer = new ExtractiveSummarizer(2);
+    const summary = await summarizer.summarize([
+      "Deployed the API",
+      "Lunch",
+      "Deployed the API",
+      "Deployed the web app",
+    ]);
+
+    expect(summary).toBe(
+      "- Deployed the API (x2)\n- Deployed the web app\n- …and 1 more",
+    );
+  });
+});
+
+describe("メモリーの統合テスト", () => {
+  const original = getSummarizer();
+
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    setSummarizer(original);
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  // 指定した日時のメモリーを作成する
+  function createMemoryAt(
+    content: string,
+    createdAt: string,
+    tags?: string[],
+  ): number {
+    return memoryRepo.createMemory({ content, tags, created_at: createdAt });
+  }
+
+  test("日ごとにダイジェストを作成し、元のメモリーをアーカイブする", async () => {
+    const todoId = todoRepo.createTodo({ title: "リリース" });
+    const first = memoryRepo.createMemory({
+      content: "ビルドを確認",
+      tags: ["release"],
+      todo_ids: [todoId],
+      created_at: "2025-03-03 09:00:00",
+    });
+    const second = createMemoryAt("ビルドを確認", "2025-03-03 10:00:00");
+    const third = createMemoryAt(
+      "リリースノートを書いた",
+      "2025-03-03 11:00:00",
+    );
+    // 1件だけの日と今日のメモリーは統合されない
+    createMemoryAt("単独のメモ", "2025-03-04 09:00:00");
+    createMemoryAt("今日のメモ", "2025-03-05 09:00:00");
+
+    const result = await consolidationService.consolidateMemories({
+      archive: true,
+      now: NOW,
+    });
+
+    expect(result.archived).toBe(3);
+    expect(result.groups.length).toBe(1);
+    const group = result.groups[0];
+    expect(group).toMatchObject({
+      key: "2025-03-03",
+      source_ids: [first, second, third],
+      created_at: "2025-03-03 11:00:00",
+    });
+    expect(group.content).toBe(
+      "Digest of 3 memories from 2025-03-03:\n\n- ビルドを確認 (x2)\n- リリースノートを書いた",
+    );
+
+    // ダイジェストは元のタグ・TODOを引き継ぎ、元のメモリーにリンクされる
+    const digestId = group.digest_id!;
+    expect(tagRepo.getTags("memory", digestId)).toEqual(["digest", "release"]);
+    expect(linkRepo.getLinkedTodoIds(digestId)).toEqual([todoId]);
+    expect(
+      linkRepo
+        .getMemoryLinks(digestId)
+        .filter((link) => link.relation === "summarizes")
+        .map((link) => link.to_id),
+    ).toEqual([first, second, third]);
+
+    // アーカイブされたメモリーは既定の検索や前後の表示から除かれる
+    expect(
+      memoryRepo.searchMemories("ビルド").items.map((memory) => memory.id),
+    ).toEqual([digestId]);
+    expect(
+      memoryRepo.searchMemories("ビルド", { includeArchived: true }).total,
+    ).toBe(3);
+    expect(memoryRepo.listMemories().total).toBe(3);
+    const context = memoryRepo.getMemoriesAroundId(digestId, 5);
+    expect(context.after.map((memory) => memory.content)).toEqual([]);
+    expect(memoryRepo.getMemoryById(first)?.archived_at).not.toBeNull();
+
+    // ダイジェストやアーカイブ済みのメモリーは再度統合されない
+    const again = await consolidationService.consolidateMemories({
+      now: NOW,
+    });
+    expect(again.groups).toEqual([]);
+
+    expect(memoryRepo.setMemoriesArchived([first, second], false)).toBe(2);
+    expect(memoryRepo.searchMemories("ビルド").total).toBe(3);
+  });
+
+  test("タグごとに統合でき、試行では何も保存しない", async () => {
+    createMemoryAt("設計A", "2025-03-01 09:00:00", ["design"]);
+    createMemoryAt("設計B", "2025-03-02 09:00:00", ["design", "api"]);
+    createMemoryAt("API仕様", "2025-03-02 09:30:00", ["api"]);
+    createMemoryAt("設計C", "2025-03-02 09:45:00", ["design"]);
+    createMemoryAt("タグなし", "2025-03-02 10:00:00");
+    createMemoryAt("タグなし2", "2025-03-02 11:00:00");
+
+    const preview = await consolidationService.consolidateMemories({
+      groupBy: "tag",
+      dryRun: true,
+      now: NOW,
+    });
+    // 複数のタグを持つメモリーは件数の多いタグのグループに入り、
+    // タグのないメモリーはタグごとの統合では対象外
+    expect(
+      preview.groups.map((group) => [group.key, group.source_ids]),
+    ).toEqual([["design", [1, 2, 4]]]);
+    expect(preview.groups[0].digest_id).toBeNull();
+    expect(memoryRepo.listMemories().total).toBe(6);
+
+    const byTag = await consolidationService.consolidateMemories({
+      groupBy: "tag",
+      tags: ["api"],
+      now: NOW,
+    });
+    expect(byTag.groups.map((group) => [group.key, group.source_ids])).toEqual([
+      ["api", [2, 3]],
+    ]);
+    const byWeek = await consolidationService.consolidateMemories({
+      groupBy: "week",
+      now: NOW,
+    });
+    // 2025-03-01は土曜日、2025-03-02は日曜日
+    expect(byWeek.groups.map((group) => group.key)).toEqual(["2025-02-24"]);
+    expect(byWeek.groups[0].content).toStartWith(
+      "Digest of 6 memories from the week of 2025-02-24:",
+    );
+    expect(byWeek.archived).toBe(0);
+  });
+
+  test("要約器を差し替えられる", async () => {
+    const calls: string[][] = [];
+    const summarizer: Summarizer = {
+      id: "test",
+      summarize: async (texts) => {
+        calls.push(texts);
+        return "要約";
+      },
+    };
+    setSummarizer(summarizer);
+    createMemoryAt("1件目", "2025-03-01 09:00:00");
+    createMemoryAt("2件目", "2025-03-01 10:00:00");
+
+    const result = await consolidationService.consolidateMemories({
+      from: "2025-03-01",
+      to: "2025-03-01",
+      now: NOW,
+    });
+
+    expect(calls).toEqual([["1件目", "2件目"]]);
+    expect(memoryRepo.getMemoryById(result.groups[0].digest_id!)?.content).toBe(
+      "Digest of 2 memories from 2025-03-01:\n\n要約",
+    );
+    expect(
+      getDatabase().prepare("SELECT COUNT(*) AS count FROM memory_links").get(),
+    ).toEqual({ count: 2 });
+  });
+});
@@ -80,4 +80,31 @@ describe("データベース機能テスト", () => {
     expect(columnNames).toContain("content");
     expect(columnNames).toContain("created_at");
   });
+  test("全文検索テーブルが作成され、既存データが取り込まれる", () => {
+    closeDatabase();
+    fs.unlinkSync(TEST_DB_FILE);
+
+    // 全文検索テーブルがない既存データベースを再現
+    const legacyDb = setupDatabase(TEST_DB_FILE);
+    legacyDb.run(
+      "CREATE TABLE memories (id INTEGER PRIMARY KEY AUTOINCREMENT, content TEXT NOT NULL, created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP)",
+    );
+    legacyDb.run("INSERT INTO memories (content) VALUES ('existing memory')");
+
+    initializeDatabase();
+
+    const db = getDatabase();
+    const ftsTableExists = db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name='memories_fts'",
+      )
+      .get();
+    expect(ftsTableExists).toBeTruthy();
+
+    // 既存の行が検索できる
+    const rows = db
+      .prepare("SELECT rowid FROM memories_fts WHERE memories_fts MATCH ?")
+      .all('"existing"');
+    expect(rows.length).toBe(1);
+  });
 });
@@ -0,0 +1,152 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import { parseDateRange, DateRangeError } from "../src/dateRange";
+import {
+  formatTimestamp,
+  setDisplayTimeZone,
+  DEFAULT_TIME_ZONE,
+} from "../src/database/timestamp";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as memoryService from "../src/services/memoryService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-date-range.sqlite";
+
+// 2025-03-05（水）15:30:20 UTC、東京では 2025-03-06（木）00:30:20
+const NOW = new Date("2025-03-05T15:30:20Z");
+
+// 式を解析して範囲をISO形式で返す
+function range(expression: string, timeZone: string = "UTC"): string[] {
+  const { start, end } = parseDateRange(expression, { now: NOW, timeZone });
+  return [start.toISOString(), end.toISOString()];
+}
+
+describe("日付範囲テスト", () => {
+  test("相対的な日付を表示タイムゾーンの暦で解釈する", () => {
+    expect(range("today")).toEqual([
+      "2025-03-05T00:00:00.000Z",
+      "2025-03-06T00:00:00.000Z",
+    ]);
+    expect(range("Yesterday", "Asia/Tokyo")).toEqual([
+      "2025-03-04T15:00:00.000Z",
+      "2025-03-05T15:00:00.000Z",
+    ]);
+    expect(range("2 days ago")).toEqual([
+      "2025-03-03T00:00:00.000Z",
+      "2025-03-04T00:00:00.000Z",
+    ]);
+    // 週は月曜日から始まる
+    expect(range("last week")).toEqual([
+      "2025-02-24T00:00:00.000Z",
+      "2025-03-03T00:00:00.000Z",
+    ]);
+    expect(range("this month", "Asia/Tokyo")).toEqual([
+      "2025-02-28T15:00:00.000Z",
+      "2025-03-31T15:00:00.000Z",
+    ]);
+    expect(range("last year")).toEqual([
+      "2024-01-01T00:00:00.000Z",
+      "2025-01-01T00:00:00.000Z",
+    ]);
+    expect(range("past 3 days")).toEqual([
+      "2025-03-02T15:30:20.000Z",
+      "2025-03-05T15:30:21.000Z",
+    ]);
+  });
+
+  test("ISO形式の日付と日時を解釈する", () => {
+    expect(range("2025-03-01", "Asia/Tokyo")).toEqual([
+      "2025-02-28T15:00:00.000Z",
+      "2025-03-01T15:00:00.000Z",
+    ]);
+    expect(range("2025-02")).toEqual([
+      "2025-02-01T00:00:00.000Z",
+      "2025-03-01T00:00:00.000Z",
+    ]);
+    expect(range("2025-03-01T09:00", "Asia/Tokyo")[0]).toBe(
+      "2025-03-01T00:00:00.000Z",
+    );
+    expect(range("2025-03-01T09:00:00Z", "Asia/Tokyo")[0]).toBe(
+      "2025-03-01T09:00:00.000Z",
+    );
+    // 夏時間の切り替わる日は23時間
+    expect(range("2025-03-30", "Europe/Berlin")).toEqual([
+      "2025-03-29T23:00:00.000Z",
+      "2025-03-30T22:00:00.000Z",
+    ]);
+
+    expect(() => range("someday")).toThrow(DateRangeError);
+    expect(() => range("2025-13-01")).toThrow(DateRangeError);
+  });
+
+  test("保存された日時を表示タイムゾーンで表示する", () => {
+    expect(formatTimestamp("2025-03-01 08:30:00", "UTC")).toBe(
+      "2025-03-01 08:30:00",
+    );
+    expect(formatTimestamp("2025-03-01 08:30:00", "Asia/Tokyo")).toBe(
+      "2025-03-01 17:30:00 +09:00",
+    );
+    expect(formatTimestamp("2025-03-01T08:30:00Z", "America/New_York")).toBe(
+      "2025-03-01 03:30:00 -05:00",
+    );
+  });
+});
+
+describe("日付によるメモリー取得テスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    setDisplayTimeZone(DEFAULT_TIME_ZONE);
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("日付の範囲をUTCの保存形式で比較する", () => {
+    const db = getDatabase();
+    for (const createdAt of [
+      "2025-03-01 00:00:00",
+      "2025-03-01 23:59:59",
+      "2025-03-02 00:00:00",
+    ]) {
+      const id = memoryRepo.createMemory({ content: createdAt });
+      db.run("UPDATE memories SET created_at = ? WHERE id = ?", [
+        createdAt,
+        id,
+      ]);
+    }
+
+    // ISO形式（"T"区切り）との文字列比較では23:59:59が漏れていた
+    const day = memoryService.getMemoriesByDate("2025-03-01");
+    expect(day.page.items.map((memory) => memory.content)).toEqual([
+      "2025-03-01 23:59:59",
+      "2025-03-01 00:00:00",
+    ]);
+
+    const both = memoryService.getMemoriesByDate("2025-03-01", "2025-03-02");
+    expect(both.page.total).toBe(3);
+
+    // 東京の3月1日はUTCの2月28日15時から3月1日15時まで
+    setDisplayTimeZone("Asia/Tokyo");
+    expect(memoryService.getMemoriesByDate("2025-03-01").page.total).toBe(1);
+
+    expect(() =>
+      memoryService.getMemoriesByDate("2025-03-02", "2025-03-01"),
+    ).toThrow(DateRangeError);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import {
+  HashedNgramEmbeddingProvider,
+  EmbeddingProvider,
+  setEmbeddingProvider,
+} from "../src/embeddings";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as trashRepo from "../src/repositories/trashRepository";
+import * as embeddingService from "../src/services/embeddingService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-embedding.sqlite";
+
+describe("セマンティック検索機能テスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    // 既存のテストDBファイルがあれば削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+
+    // テスト用のDBファイルを作成して初期化
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+    setEmbeddingProvider(new HashedNgramEmbeddingProvider());
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    // テストDBファイルを削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("ハッシュ埋め込みは決定的で正規化されている", async () => {
+    const provider = new HashedNgramEmbeddingProvider(128);
+    const [first, second] = await provider.embed([
+      "authentication decision",
+      "authentication decision",
+    ]);
+
+    expect(first.length).toBe(128);
+    expect(first).toEqual(second);
+
+    const norm = Math.sqrt(first.reduce((sum, value) => sum + value ** 2, 0));
+    expect(norm).toBeCloseTo(1, 5);
+  });
+
+  test("意味の近いメモリーが類似度付きで上位に返る", async () => {
+    memoryRepo.createMemory({
+      content: "We decided to use JWT tokens for auth",
+    });
+    memoryRepo.createMemory({ content: "Bought groceries for the weekend" });
+    memoryRepo.createMemory({ content: "明日の会議の資料を準備した" });
+
+    const results = await embeddingService.semanticSearchMemories(
+      "what did we decide about auth tokens?",
+      { limit: 2 },
+    );
+
+    expect(results.length).toBe(2);
+    expect(results[0].content).toBe("We decided to use JWT tokens for auth");
+    expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
+    expect(results[0].keyword_score).toBeNull();
+
+    // 日本語でも文字の重なりで検索できる
+    const japanese = await embeddingService.semanticSearchMemories(
+      "会議の準備",
+      { limit: 1 },
+    );
+    expect(japanese[0].content).toBe("明日の会議の資料を準備した");
+  });
+
+  test("埋め込みは一度だけ計算され、編集すると再計算される", async () => {
+    const memoryId = memoryRepo.createMemory({ content: "first version" });
+
+    expect(await embeddingService.indexMemoryEmbeddings()).toBe(1);
+    expect(await embeddingService.indexMemoryEmbeddings()).toBe(0);
+
+    memoryRepo.updateMemory(memoryId, "second version");
+    expect(await embeddingService.indexMemoryEmbeddings()).toBe(1);
+
+    // メモリーを完全に削除すると埋め込みも削除される
+    memoryRepo.deleteMemory(memoryId);
+    trashRepo.purgeTrash();
+    const count = getDatabase()
+      .prepare("SELECT COUNT(*) AS count FROM memory_embeddings")
+      .get() as { count: number };
+    expect(count.count).toBe(0);
+  });
+
+  test("ハイブリッドモードでキーワード一致が加味される", async () => {
+    // 埋め込みでは区別できないプロバイダーでキーワードの効果だけを確認する
+    const constantProvider: EmbeddingProvider = {
+      id: "constant",
+      embed: async (texts) => texts.map(() => [1, 0, 0]),
+    };
+    setEmbeddingProvider(constantProvider);
+
+    memoryRepo.createMemory({ content: "release checklist for version 2" });
+    const target = memoryRepo.createMemory({
+      content: "rollback plan for the deployment",
+    });
+
+    const results = await embeddingService.semanticSearchMemories("rollback", {
+      mode: "hybrid",
+      semanticWeight: 0.5,
+    });
+
+    expect(results[0].id).toBe(target);
+    expect(results[0].keyword_score).toBe(1);
+    expect(results[0].score).toBeCloseTo(1, 5);
+    expect(results[1].keyword_score).toBe(0);
+    expect(results[1].score).toBeCloseTo(0.5, 5);
+  });
+});
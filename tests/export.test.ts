@@ -0,0 +1,329 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as tagRepo from "../src/repositories/tagRepository";
+import * as relationRepo from "../src/repositories/todoRelationRepository";
+import * as linkRepo from "../src/repositories/linkRepository";
+import * as exportService from "../src/services/exportService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-export.sqlite";
+
+// 別のデータベースに切り替える（エクスポート元とインポート先を分けるため）
+function resetDatabase() {
+  closeDatabase();
+  if (fs.existsSync(TEST_DB_FILE)) {
+    fs.unlinkSync(TEST_DB_FILE);
+  }
+  setupDatabase(TEST_DB_FILE);
+  initializeDatabase();
+}
+
+// 作成日時が既知のテストデータを作成する
+function createSampleData() {
+  const memoryId = memoryRepo.createMemory({
+    content: "設計レビューのメモ\n次回までに修正",
+    tags: ["design"],
+  });
+  const todoId = todoRepo.createTodo({
+    title: "レビュー指摘を修正",
+    description: "API名を統一する",
+    due_date: new Date("2025-03-10T09:00:00Z"),
+    tags: ["design", "urgent"],
+  });
+  todoRepo.createTodo({ title: "完了済みのタスク" });
+
+  const db = getDatabase();
+  db.run("UPDATE memories SET created_at = '2025-03-01 08:30:00'");
+  db.run("UPDATE todos SET created_at = '2025-03-02 10:00:00'");
+  db.run("UPDATE todos SET completed = 1 WHERE title = '完了済みのタスク'");
+
+  return { memoryId, todoId };
+}
+
+describe("エクスポート・インポートテスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    // 既存のテストDBファイルがあれば削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+
+    // テスト用のDBファイルを作成して初期化
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    // テストDBファイルを削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("JSONで作成日時・完了状態・タグをエクスポートできる", () => {
+    const { memoryId, todoId } = createSampleData();
+
+    const document = JSON.parse(exportService.exportData());
+
+    expect(document.format).toBe("tiny-memory-export");
+    expect(document.namespaces).toEqual(["default"]);
+    expect(document.memories).toEqual([
+      {
+        id: memoryId,
+        content: "設計レビューのメモ\n次回までに修正",
+        created_at: "2025-03-01 08:30:00",
+        updated_at: null,
+        archived_at: null,
+        importance: 3,
+        pinned: false,
+        namespace: "default",
+        tags: ["design"],
+        todo_ids: [],
+        links: [],
+      },
+    ]);
+    expect(document.todos.length).toBe(2);
+    expect(document.todos[0]).toMatchObject({
+      id: todoId,
+      due_date: "2025-03-10T09:00:00.000Z",
+      completed: false,
+      created_at: "2025-03-02 10:00:00",
+      tags: ["design", "urgent"],
+    });
+    expect(document.todos[1].completed).toBe(true);
+    expect(document.todos[1].completed_at).not.toBeNull();
+  });
+
+  test("別のデータベースにIDを振り直してインポートできる", () => {
+    const { memoryId, todoId } = createSampleData();
+    const data = exportService.exportData();
+    const completedAt = todoRepo.searchTodos({ completed: true }).items[0]
+      .completed_at;
+
+    resetDatabase();
+    // インポート先に既存のデータがあり、IDがずれる
+    memoryRepo.createMemory({ content: "既存のメモ" });
+    memoryRepo.createMemory({ content: "既存のメモ2" });
+
+    const report = exportService.importData(data);
+
+    expect(report.memories).toEqual({ total: 1, imported: 1, duplicates: 0 });
+    expect(report.todos).toEqual({ total: 2, imported: 2, duplicates: 0 });
+
+    const newMemoryId = report.id_map.memories[memoryId];
+    expect(newMemoryId).not.toBe(memoryId);
+    const memory = memoryRepo.getMemoryById(newMemoryId);
+    expect(memory?.content).toBe("設計レビューのメモ\n次回までに修正");
+    expect(memory?.created_at).toBe("2025-03-01 08:30:00");
+    expect(tagRepo.getTags("memory", newMemoryId)).toEqual(["design"]);
+
+    const todo = todoRepo.getTodoById(report.id_map.todos[todoId]);
+    expect(todo?.created_at).toBe("2025-03-02 10:00:00");
+    expect(todo?.due_date).toBe("2025-03-10T09:00:00.000Z");
+    const completed = todoRepo.searchTodos({ completed: true }).items;
+    expect(completed.length).toBe(1);
+    expect(completed[0].completed_at).toBe(completedAt);
+
+    // インポートしたメモリーも全文検索できる
+    expect(memoryRepo.searchMemories("設計レビュー").items.length).toBe(1);
+  });
+
+  test("繰り返しTODOのルールと前の回へのリンクを引き継げる", () => {
+    const firstId = todoRepo.createTodo({
+      title: "週次定例",
+      recurrence: "FREQ=WEEKLY",
+      completed: true,
+    });
+    const secondId = todoRepo.createTodo({
+      title: "週次定例",
+      recurrence: "FREQ=WEEKLY",
+      previous_todo_id: firstId,
+    });
+    getDatabase().run(
+      "UPDATE todos SET created_at = '2025-03-0' || id || ' 10:00:00'",
+    );
+    const data = exportService.exportData();
+
+    resetDatabase();
+    todoRepo.createTodo({ title: "既存のタスク" });
+    const report = exportService.importData(data);
+
+    const second = todoRepo.getTodoById(report.id_map.todos[secondId]);
+    expect(second?.recurrence).toBe("FREQ=WEEKLY");
+    expect(second?.previous_todo_id).toBe(report.id_map.todos[firstId]);
+
+    // 不正なルールはインポートできない
+    expect(() =>
+      exportService.importData(data.replace(/FREQ=WEEKLY/g, "FREQ=SOMETIMES"), {
+        dryRun: true,
+      }),
+    ).toThrow(exportService.ImportError);
+  });
+
+  test("サブタスクと依存関係を引き継げる", () => {
+    const parentId = todoRepo.createTodo({ title: "リリース" });
+    const childId = todoRepo.createTodo({
+      title: "テスト",
+      parent_id: parentId,
+    });
+    const blockerId = todoRepo.createTodo({ title: "レビュー" });
+    getDatabase().run(
+      "INSERT INTO todo_dependencies (todo_id, depends_on_id) VALUES (?, ?)",
+      [childId, blockerId],
+    );
+    const data = exportService.exportData();
+
+    resetDatabase();
+    todoRepo.createTodo({ title: "既存のタスク" });
+    const report = exportService.importData(data);
+
+    const child = todoRepo.getTodoById(report.id_map.todos[childId]);
+    expect(child?.parent_id).toBe(report.id_map.todos[parentId]);
+    expect(
+      relationRepo.getBlockers(child!.id).map((blocker) => blocker.id),
+    ).toEqual([report.id_map.todos[blockerId]]);
+  });
+
+  test("メモリーとTODOのリンクを引き継げる", () => {
+    const todoId = todoRepo.createTodo({ title: "調査" });
+    const oldId = memoryRepo.createMemory({ content: "古い結論" });
+    const newId = memoryRepo.createMemory({
+      content: "新しい結論",
+      todo_ids: [todoId],
+    });
+    linkRepo.linkMemories(newId, oldId, "supersedes");
+    const data = exportService.exportData();
+
+    resetDatabase();
+    memoryRepo.createMemory({ content: "既存のメモリー" });
+    const report = exportService.importData(data);
+
+    const importedId = report.id_map.memories[newId];
+    expect(linkRepo.getLinkedTodoIds(importedId)).toEqual([
+      report.id_map.todos[todoId],
+    ]);
+    expect(linkRepo.getMemoryLinks(importedId)).toMatchObject([
+      {
+        from_id: importedId,
+        to_id: report.id_map.memories[oldId],
+        relation: "supersedes",
+      },
+    ]);
+  });
+
+  test("JSONLでエクスポートし、形式を自動判別してインポートできる", () => {
+    createSampleData();
+    const data = exportService.exportData({ format: "jsonl" });
+    const lines = data.trim().split("\n");
+
+    expect(lines.length).toBe(4);
+    expect(JSON.parse(lines[0]).type).toBe("header");
+    expect(JSON.parse(lines[1]).type).toBe("memory");
+
+    resetDatabase();
+    const report = exportService.importData(data);
+    expect(report.memories.imported).toBe(1);
+    expect(report.todos.imported).toBe(2);
+  });
+
+  test("重複を検出してスキップする", () => {
+    const { memoryId } = createSampleData();
+    const data = exportService.exportData();
+
+    // 同じデータベースに再度インポートするとすべて重複になる
+    const report = exportService.importData(data);
+    expect(report.memories).toEqual({ total: 1, imported: 0, duplicates: 1 });
+    expect(report.todos.duplicates).toBe(2);
+    expect(report.duplicates[0]).toEqual({
+      type: "memory",
+      id: memoryId,
+      existing_id: memoryId,
+    });
+
+    // インポートデータ内の重複も検出する
+    resetDatabase();
+    const document = JSON.parse(data);
+    document.memories.push({ ...document.memories[0], id: 99 });
+    const secondReport = exportService.importData(JSON.stringify(document));
+    expect(secondReport.memories).toEqual({
+      total: 2,
+      imported: 1,
+      duplicates: 1,
+    });
+    expect(secondReport.duplicates[0]).toEqual({
+      type: "memory",
+      id: 99,
+      existing_id: null,
+    });
+  });
+
+  test("ドライランでは何も書き込まない", () => {
+    createSampleData();
+    const data = exportService.exportData();
+    resetDatabase();
+
+    const report = exportService.importData(data, { dryRun: true });
+
+    expect(report.dry_run).toBe(true);
+    expect(report.memories.imported).toBe(1);
+    expect(report.id_map.memories).toEqual({});
+    expect(memoryRepo.getAllMemories().length).toBe(0);
+    expect(todoRepo.getAllTodos().length).toBe(0);
+  });
+
+  test("名前空間を指定してインポートできる", () => {
+    createSampleData();
+    const data = exportService.exportData();
+    resetDatabase();
+
+    exportService.importData(data, { namespace: "archive" });
+
+    expect(memoryRepo.getAllMemories().length).toBe(0);
+    expect(memoryRepo.getAllMemories("archive").length).toBe(1);
+    expect(todoRepo.getAllTodos("archive").length).toBe(2);
+  });
+
+  test("不正なデータはエラーになり、何もインポートしない", () => {
+    const invalid = JSON.stringify({
+      format: "tiny-memory-export",
+      version: 1,
+      memories: [
+        { id: 1, content: "正しいメモ", created_at: "2025-03-01 08:30:00" },
+        { id: 2, content: "日時が不正", created_at: "yesterday-ish" },
+      ],
+    });
+
+    expect(() => exportService.importData(invalid)).toThrow(
+      exportService.ImportError,
+    );
+    expect(() => exportService.importData("not json\n{}")).toThrow(/line 1/);
+    expect(() =>
+      exportService.importData('{"type":"note","text":"x"}'),
+    ).toThrow(/Unknown record type/);
+    expect(memoryRepo.getAllMemories().length).toBe(0);
+  });
+
+  test("Markdownの日誌形式でエクスポートできる", () => {
+    createSampleData();
+
+    const markdown = exportService.exportData({ format: "markdown" });
+
+    expect(markdown).toContain("# Tiny Memory Journal");
+    expect(markdown).toContain("## 2025-03-01");
+    expect(markdown).toContain("## 2025-03-02");
+    expect(markdown).toContain("`#design`");
+    expect(markdown).toContain("  次回までに修正");
+    expect(markdown).toContain("[x] 完了済みのタスク");
+    expect(markdown).toContain("[ ] レビュー指摘を修正 (due 2025-03-10)");
+  });
+});
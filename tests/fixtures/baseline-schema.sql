@@ -0,0 +1,29 @@
+-- Schema and sample data of a database created before schema versioning
+-- (PRAGMA user_version = 0, tables created with CREATE TABLE IF NOT EXISTS)
+
+CREATE TABLE IF NOT EXISTS todos (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT NOT NULL,
+  description TEXT,
+  due_date TIMESTAMP,
+  completed BOOLEAN DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS memories (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO todos (title, description, due_date, completed, created_at)
+VALUES ('Write quarterly report', 'Summarize the results of Q1', '2025-04-01T00:00:00.000Z', 0, '2025-03-20 09:00:00');
+INSERT INTO todos (title, description, due_date, completed, created_at)
+VALUES ('Renew domain', NULL, NULL, 1, '2025-03-21 10:30:00');
+
+INSERT INTO memories (content, created_at)
+VALUES ('Created TODO: Write quarterly report', '2025-03-20 09:00:00');
+INSERT INTO memories (content, created_at)
+VALUES ('Decided to use SQLite for local storage', '2025-03-21 10:00:00');
+INSERT INTO memories (content, created_at)
+VALUES ('Completed TODO: Renew domain', '2025-03-21 10:30:00');
@@ -0,0 +1,175 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { z } from "zod";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import {
+  startHttpServer,
+  HttpServerHandle,
+  MCP_ENDPOINT,
+  SSE_ENDPOINT,
+} from "../src/transports/http";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-http.sqlite";
+const AUTH_TOKEN = "test-token";
+
+// メモリーの作成と件数取得だけを持つテスト用サーバー
+function createTestServer(): McpServer {
+  const server = new McpServer({ name: "test-server", version: "1.0.0" });
+
+  server.tool(
+    "create_memory",
+    "Create a memory",
+    { content: z.string() },
+    async (args) => {
+      const id = memoryRepo.createMemory({ content: args.content });
+      return { content: [{ type: "text", text: String(id) }] };
+    },
+  );
+  server.tool("count_memories", "Count memories", {}, async () => ({
+    content: [
+      { type: "text", text: String(memoryRepo.getAllMemories().length) },
+    ],
+  }));
+
+  return server;
+}
+
+function getText(result: any): string {
+  return result.content[0].text;
+}
+
+describe("HTTPトランスポートテスト", () => {
+  let httpServer: HttpServerHandle;
+  const clients: Client[] = [];
+
+  const connect = async (transport: "http" | "sse") => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const headers = { Authorization: `Bearer ${AUTH_TOKEN}` };
+    await client.connect(
+      transport === "http"
+        ? new StreamableHTTPClientTransport(
+            new URL(`${httpServer.url}${MCP_ENDPOINT}`),
+            { requestInit: { headers } },
+          )
+        : new SSEClientTransport(new URL(`${httpServer.url}${SSE_ENDPOINT}`), {
+            requestInit: { headers },
+            eventSourceInit: {
+              fetch: (url, init) =>
+                fetch(url, {
+                  ...init,
+                  headers: { ...(init?.headers as any), ...headers },
+                }),
+            },
+          }),
+    );
+    clients.push(client);
+    return client;
+  };
+
+  // 各テスト前に実行
+  beforeEach(async () => {
+    // 既存のテストDBファイルがあれば削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+
+    // テスト用のDBファイルを作成して初期化
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+
+    httpServer = await startHttpServer(createTestServer, {
+      host: "127.0.0.1",
+      port: 0,
+      authToken: AUTH_TOKEN,
+    });
+  });
+
+  // 各テスト後に実行
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close();
+    }
+    await httpServer.close();
+    closeDatabase();
+    // テストDBファイルを削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("複数のセッションが同じデータベースを共有できる", async () => {
+    const first = await connect("http");
+    const second = await connect("http");
+    const legacy = await connect("sse");
+
+    expect(httpServer.sessionCount()).toBe(3);
+
+    await first.callTool({
+      name: "create_memory",
+      arguments: { content: "セッション1のメモ" },
+    });
+    await legacy.callTool({
+      name: "create_memory",
+      arguments: { content: "SSEセッションのメモ" },
+    });
+
+    const result = await second.callTool({
+      name: "count_memories",
+      arguments: {},
+    });
+    expect(getText(result)).toBe("2");
+  });
+
+  test("トークンがないリクエストは拒否される", async () => {
+    const response = await fetch(`${httpServer.url}${MCP_ENDPOINT}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toContain("Bearer");
+  });
+
+  test("不明なセッションやパスはエラーになる", async () => {
+    const headers = {
+      Authorization: `Bearer ${AUTH_TOKEN}`,
+      "Content-Type": "application/json",
+      "Mcp-Session-Id": "unknown-session",
+    };
+
+    const unknownSession = await fetch(`${httpServer.url}${MCP_ENDPOINT}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+    expect(unknownSession.status).toBe(404);
+
+    const unknownPath = await fetch(`${httpServer.url}/unknown`, { headers });
+    expect(unknownPath.status).toBe(404);
+  });
+
+  test("停止するとすべてのセッションが閉じられる", async () => {
+    await connect("http");
+    await connect("sse");
+
+    await httpServer.close();
+    expect(httpServer.sessionCount()).toBe(0);
+
+    // afterEach で再度 close しても問題ないように新しいサーバーを起動する
+    httpServer = await startHttpServer(createTestServer, {
+      host: "127.0.0.1",
+      port: 0,
+    });
+  });
+});
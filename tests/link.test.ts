@@ -0,0 +1,115 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as linkRepo from "../src/repositories/linkRepository";
+import * as todoService from "../src/services/todoService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-link.sqlite";
+
+describe("メモリーとTODOのリンクテスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("TODO操作で記録されたメモリーがTODOにリンクされる", () => {
+    const todoId = todoService.createTodoWithMemory("請求書を送る");
+    const otherId = todoService.createTodoWithMemory("別のタスク");
+    todoService.updateTodoWithMemory(todoId, { priority: "high" });
+    todoService.completeTodoWithMemory(todoId);
+
+    const timeline = linkRepo.getTodoTimeline(todoId);
+    expect(timeline.map((memory) => memory.content)).toEqual([
+      "Created TODO: 請求書を送る",
+      "Updated TODO: 請求書を送る (priority medium → high)",
+      "Completed TODO: 請求書を送る",
+    ]);
+    expect(timeline.every((memory) => memory.link === null)).toBe(true);
+
+    // 依存関係のメモリーは両方のTODOにリンクされる
+    todoService.addTodoDependencyWithMemory(otherId, todoId);
+    expect(linkRepo.getTodoTimeline(todoId).length).toBe(4);
+    expect(linkRepo.getTodoTimeline(otherId).length).toBe(2);
+  });
+
+  test("メモリー同士のリンクをたどってタイムラインに含める", () => {
+    const todoId = todoRepo.createTodo({ title: "障害対応" });
+    const reportId = memoryRepo.createMemory({
+      content: "障害を報告",
+      todo_ids: [todoId],
+    });
+    const causeId = memoryRepo.createMemory({ content: "設定ミスが原因" });
+    const unrelatedId = memoryRepo.createMemory({ content: "関係のないメモ" });
+
+    expect(linkRepo.linkMemories(reportId, causeId, "caused_by")).toBe(true);
+    expect(linkRepo.linkMemories(reportId, causeId, "caused_by")).toBe(false);
+
+    const timeline = linkRepo.getTodoTimeline(todoId);
+    expect(timeline.map((memory) => memory.id)).toEqual([reportId, causeId]);
+    expect(timeline[1].link).toMatchObject({
+      from_id: reportId,
+      to_id: causeId,
+      relation: "caused_by",
+    });
+    expect(timeline.map((memory) => memory.id)).not.toContain(unrelatedId);
+
+    expect(linkRepo.getMemoryLinks(causeId).length).toBe(1);
+    expect(linkRepo.unlinkMemories(reportId, causeId, "supersedes")).toBe(0);
+    expect(linkRepo.unlinkMemories(reportId, causeId)).toBe(1);
+    expect(linkRepo.unlinkMemoryFromTodo(reportId, todoId)).toBe(true);
+    expect(linkRepo.getTodoTimeline(todoId)).toEqual([]);
+  });
+
+  test("削除されたメモリーやTODOのリンクは削除される", () => {
+    const parentId = todoRepo.createTodo({ title: "親タスク" });
+    const childId = todoService.createTodoWithMemory(
+      "子タスク",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      parentId,
+    );
+    const memoryId = memoryRepo.createMemory({
+      content: "メモ",
+      todo_ids: [childId],
+    });
+
+    todoService.deleteTodoWithMemory(childId);
+    expect(linkRepo.getLinkedTodoIds(memoryId)).toEqual([]);
+
+    // 削除の記録は親のタイムラインに残る
+    expect(
+      linkRepo.getTodoTimeline(parentId).map((memory) => memory.content),
+    ).toEqual([
+      "Created TODO: 子タスク (Subtask of: 親タスク)",
+      "Deleted TODO: 子タスク",
+    ]);
+
+    const otherId = memoryRepo.createMemory({ content: "別のメモ" });
+    linkRepo.linkMemories(otherId, memoryId, "supersedes");
+    memoryRepo.deleteMemory(memoryId);
+    expect(linkRepo.getMemoryLinks(otherId)).toEqual([]);
+  });
+});
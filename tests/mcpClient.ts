@@ -0,0 +1,47 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { registerAllTools } from "../src/tools";
+
+// テスト中に接続したクライアント
+const clients: Client[] = [];
+
+/**
+ * ツールを登録したサーバーにインメモリで接続する
+ */
+export async function connect(): Promise<Client> {
+  const server = new McpServer({ name: "test", version: "1.0.0" });
+  registerAllTools(server);
+
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  clients.push(client);
+  return client;
+}
+
+/**
+ * ツールを呼び出す
+ */
+export async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>,
+): Promise<CallToolResult> {
+  return (await client.callTool({
+    name,
+    arguments: args,
+  })) as CallToolResult;
+}
+
+/**
+ * 接続したクライアントをすべて閉じる
+ */
+export async function closeClients() {
+  for (const client of clients.splice(0)) {
+    await client.close();
+  }
+}
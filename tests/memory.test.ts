@@ -43,7 +43,7 @@ describe("Memory機能テスト", () => {
     expect(memoryId).toBeGreaterThan(0);
 
     // 追加したメモリーを検索して内容を確認
-    const memories = memoryRepo.searchMemories("テスト");
+    const memories = memoryRepo.searchMemories("テスト").items;
     expect(memories.length).toBe(1);
     expect(memories[0].content).toBe("テストメモリーの内容");
   });
@@ -57,11 +57,12 @@ describe("Memory機能テスト", () => {
     memoryRepo.createMemory({ content: "天気予報によると明日は雨" });
 
     // 特定のキーワードで検索
-    const weatherMemories = memoryRepo.searchMemories("天気");
+    const weatherMemories = memoryRepo.searchMemories("天気").items;
     expect(weatherMemories.length).toBe(2);
 
     // 存在しないキーワードで検索
-    const nonExistingMemories = memoryRepo.searchMemories("存在しない単語");
+    const nonExistingMemories =
+      memoryRepo.searchMemories("存在しない単語").items;
     expect(nonExistingMemories.length).toBe(0);
   });
 
@@ -150,4 +151,107 @@ describe("Memory機能テスト", () => {
     expect(todayStat).toBeDefined();
     expect(todayStat.count).toBe(5);
   });
+  test("複数の単語を順不同で全文検索できる", () => {
+    memoryRepo.createMemory({ content: "We chose JWT over sessions for auth" });
+    memoryRepo.createMemory({ content: "Sessions are stored in Redis" });
+    memoryRepo.createMemory({ content: "Lunch with the design team" });
+
+    // 語順に関係なく両方の単語を含むメモリーがヒットする
+    const results = memoryRepo.searchMemories("sessions JWT").items;
+    expect(results.length).toBe(1);
+    expect(results[0].content).toBe("We chose JWT over sessions for auth");
+  });
+
+  test("フレーズ・前方一致・AND/OR/NOTで検索できる", () => {
+    memoryRepo.createMemory({ content: "authentication design review" });
+    memoryRepo.createMemory({ content: "design of the authorization flow" });
+    memoryRepo.createMemory({ content: "weekly review meeting" });
+
+    expect(memoryRepo.searchMemories('"design review"').items.length).toBe(1);
+    expect(memoryRepo.searchMemories("auth*").items.length).toBe(2);
+    expect(memoryRepo.searchMemories("design AND review").items.length).toBe(1);
+    expect(
+      memoryRepo.searchMemories("authentication OR weekly").items.length,
+    ).toBe(2);
+
+    const excluded = memoryRepo.searchMemories("review NOT weekly").items;
+    expect(excluded.length).toBe(1);
+    expect(excluded[0].content).toBe("authentication design review");
+  });
+
+  test("制御文字を含むクエリでもエラーにならずに検索できる", () => {
+    memoryRepo.createMemory({ content: "We chose JWT over sessions for auth" });
+
+    expect(memoryRepo.searchMemories("jwt\u0000").items.length).toBe(1);
+    expect(memoryRepo.searchMemories('"jwt\u0000over"').items.length).toBe(1);
+    expect(() => memoryRepo.searchMemories("\u0000\u0007")).not.toThrow();
+  });
+
+  test("検索結果が関連度順に並び、スニペットが強調表示される", () => {
+    memoryRepo.createMemory({
+      content: "deploy notes: nothing about the topic",
+    });
+    memoryRepo.createMemory({
+      content:
+        "database migration plan: migration steps and migration rollback",
+    });
+
+    const results = memoryRepo.searchMemories("migration").items;
+    expect(results.length).toBe(1);
+    expect(results[0].rank).not.toBeNull();
+    expect(results[0].snippet).toContain("**migration**");
+
+    // 短い語ではLIKE検索にフォールバックしてもスニペットが付く
+    memoryRepo.createMemory({ content: "今日はいい天気だった" });
+    const shortResults = memoryRepo.searchMemories("天気").items;
+    expect(shortResults.length).toBe(1);
+    expect(shortResults[0].rank).toBeNull();
+    expect(shortResults[0].snippet).toContain("**天気**");
+  });
+  test("メモリーを更新すると以前の内容が履歴に残る", () => {
+    const memoryId = memoryRepo.createMemory({ content: "誤った内容" });
+    const original = memoryRepo.getMemoryById(memoryId);
+
+    expect(memoryRepo.updateMemory(memoryId, "修正した内容")).toBe(true);
+    expect(memoryRepo.updateMemory(memoryId, "再修正した内容")).toBe(true);
+
+    const updated = memoryRepo.getMemoryById(memoryId);
+    expect(updated?.content).toBe("再修正した内容");
+    expect(updated?.created_at).toBe(original!.created_at);
+    expect(updated?.updated_at).not.toBeNull();
+
+    // 更新前の内容と書かれた時刻が古い順に残っている
+    const revisions = memoryRepo.getMemoryRevisions(memoryId);
+    expect(revisions.map((revision) => revision.content)).toEqual([
+      "誤った内容",
+      "修正した内容",
+    ]);
+    expect(revisions[0].content_created_at).toBe(original!.created_at);
+
+    // 更新後の内容で検索できる
+    expect(memoryRepo.searchMemories("再修正").items.length).toBe(1);
+    expect(memoryRepo.searchMemories("誤った").items.length).toBe(0);
+
+    const markdown = memoryService.getMemoryHistoryAsMarkdown(memoryId);
+    expect(markdown).toContain("再修正した内容");
+    expect(markdown).toContain("誤った内容");
+
+    // 存在しないIDは更新できない
+    expect(memoryRepo.updateMemory(999, "内容")).toBe(false);
+  });
+
+  test("メモリーを削除できる", () => {
+    const memoryId = memoryRepo.createMemory({ content: "機密情報を含むメモ" });
+    memoryRepo.updateMemory(memoryId, "機密情報を含むメモ（編集）");
+
+    expect(memoryRepo.deleteMemory(memoryId)).toBe(true);
+
+    // メモリーも履歴も検索結果からも消える
+    expect(memoryRepo.getMemoryById(memoryId)).toBeNull();
+    expect(memoryRepo.getMemoryRevisions(memoryId).length).toBe(0);
+    expect(memoryRepo.searchMemories("機密情報").items.length).toBe(0);
+    expect(memoryService.getMemoryHistoryAsMarkdown(memoryId)).toBeNull();
+
+    expect(memoryRepo.deleteMemory(memoryId)).toBe(false);
+  });
 });
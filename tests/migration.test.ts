@@ -0,0 +1,176 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import {
+  runMigrations,
+  migrations,
+  getSchemaVersion,
+  getLatestSchemaVersion,
+  SchemaVersionError,
+  Migration,
+} from "../src/database/migrations";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as fs from "fs";
+import * as path from "path";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-migration.sqlite";
+
+// バージョン管理導入前のスキーマとデータ
+const BASELINE_FIXTURE = path.join(
+  import.meta.dir,
+  "fixtures",
+  "baseline-schema.sql",
+);
+
+describe("マイグレーション機能テスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    // 既存のテストDBファイルがあれば削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+
+    // テスト用のDBファイルを作成（初期化は各テストで行う）
+    setupDatabase(TEST_DB_FILE);
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    // テストDBファイルを削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("新しいデータベースが最新バージョンまで移行される", () => {
+    initializeDatabase();
+
+    const db = getDatabase();
+    expect(getSchemaVersion(db)).toBe(getLatestSchemaVersion());
+  });
+
+  test("既存のデータベースをデータを保ったまま移行できる", () => {
+    const db = getDatabase();
+    db.run(fs.readFileSync(BASELINE_FIXTURE, "utf-8"));
+    expect(getSchemaVersion(db)).toBe(0);
+
+    initializeDatabase();
+
+    expect(getSchemaVersion(db)).toBe(getLatestSchemaVersion());
+
+    // 既存のデータがそのまま残っている
+    const todos = todoRepo.getAllTodos();
+    expect(todos.length).toBe(2);
+    const report = todoRepo.getTodoById(1);
+    expect(report?.title).toBe("Write quarterly report");
+    expect(report?.due_date).toBe("2025-04-01T00:00:00.000Z");
+    expect(todoRepo.getTodoById(2)?.completed).toBe(1);
+    // 完了済みのTODOはdone、それ以外はopenになる
+    expect(report?.status).toBe("open");
+    expect(todoRepo.getTodoById(2)?.status).toBe("done");
+
+    const memories = memoryRepo.getAllMemories();
+    expect(memories.length).toBe(3);
+    expect(memories[0].created_at).toBe("2025-03-21 10:30:00");
+
+    // 既存のデータが全文検索の対象になっている
+    const results = memoryRepo.searchMemories("SQLite storage").items;
+    expect(results.length).toBe(1);
+    expect(results[0].id).toBe(2);
+  });
+
+  test("他の形式で保存された日時がUTCのSQLite形式に正規化される", () => {
+    const db = getDatabase();
+    db.run(fs.readFileSync(BASELINE_FIXTURE, "utf-8"));
+    db.run(
+      "INSERT INTO memories (content, created_at) VALUES ('ISO', '2025-03-22T09:15:00+09:00')",
+    );
+
+    initializeDatabase();
+
+    const memories = memoryRepo.getAllMemories();
+    expect(memories.map((memory) => memory.created_at)).toEqual([
+      "2025-03-22 00:15:00",
+      "2025-03-21 10:30:00",
+      "2025-03-21 10:00:00",
+      "2025-03-20 09:00:00",
+    ]);
+  });
+
+  test("ゴミ箱にあるTODOは削除日時ごとに削除のまとまりへ振り分けられる", () => {
+    const db = getDatabase();
+    runMigrations(
+      db,
+      migrations.filter((migration) => migration.version <= 16),
+    );
+    const insert = db.prepare(
+      "INSERT INTO todos (title, deleted_at) VALUES (?, ?)",
+    );
+    insert.run("親", "2025-01-02 00:00:00");
+    insert.run("子", "2025-01-02 00:00:00");
+    insert.run("別", "2025-01-01 00:00:00");
+    insert.run("残す", null);
+
+    initializeDatabase();
+
+    const batches = db
+      .prepare("SELECT deletion_batch FROM todos ORDER BY id")
+      .all()
+      .map((row: any) => row.deletion_batch);
+    expect(batches).toEqual([2, 2, 1, null]);
+    expect(todoRepo.getNextDeletionBatch()).toBe(3);
+  });
+
+  test("マイグレーションを繰り返し実行しても変化しない", () => {
+    initializeDatabase();
+    memoryRepo.createMemory({ content: "after first run" });
+
+    const applied = runMigrations(getDatabase());
+
+    expect(applied).toEqual([]);
+    expect(memoryRepo.getAllMemories().length).toBe(1);
+  });
+
+  test("コードより新しいスキーマのデータベースは開けない", () => {
+    const db = getDatabase();
+    db.run(`PRAGMA user_version = ${getLatestSchemaVersion() + 1}`);
+
+    expect(() => initializeDatabase()).toThrow(SchemaVersionError);
+  });
+
+  test("失敗したマイグレーションはロールバックされる", () => {
+    const db = getDatabase();
+    const testMigrations: Migration[] = [
+      {
+        version: 1,
+        name: "create_table",
+        up: (database) => database.run("CREATE TABLE items (id INTEGER)"),
+      },
+      {
+        version: 2,
+        name: "broken",
+        up: (database) => {
+          database.run("ALTER TABLE items ADD COLUMN name TEXT");
+          database.run("INVALID SQL");
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, testMigrations)).toThrow(SchemaVersionError);
+
+    // 1つ目の変更は残り、2つ目の変更は取り消されている
+    expect(getSchemaVersion(db)).toBe(1);
+    const columns = db
+      .prepare("PRAGMA table_info(items)")
+      .all()
+      .map((column: any) => column.name);
+    expect(columns).toEqual(["id"]);
+  });
+});
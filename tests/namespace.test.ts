@@ -0,0 +1,153 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import {
+  DEFAULT_NAMESPACE,
+  setDefaultNamespace,
+  getDefaultNamespace,
+} from "../src/database/namespace";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as tagRepo from "../src/repositories/tagRepository";
+import * as namespaceRepo from "../src/repositories/namespaceRepository";
+import * as memoryService from "../src/services/memoryService";
+import * as todoService from "../src/services/todoService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-namespace.sqlite";
+
+describe("名前空間テスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    // 既存のテストDBファイルがあれば削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+
+    // テスト用のDBファイルを作成して初期化
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    // 既定の名前空間に戻す
+    setDefaultNamespace(DEFAULT_NAMESPACE);
+    closeDatabase();
+    // テストDBファイルを削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("名前空間ごとにメモリーとTODOが分離される", () => {
+    memoryRepo.createMemory({ content: "既定の名前空間のメモ" });
+    const otherMemoryId = memoryRepo.createMemory({
+      content: "プロジェクトAのメモ",
+      namespace: "project-a",
+    });
+    todoRepo.createTodo({ title: "既定のタスク" });
+    todoRepo.createTodo({
+      title: "プロジェクトAのタスク",
+      namespace: "project-a",
+    });
+
+    // 既定の名前空間からは他の名前空間のデータが見えない
+    expect(memoryRepo.getAllMemories().length).toBe(1);
+    expect(memoryRepo.searchMemories("メモ").items.length).toBe(1);
+    expect(memoryRepo.getMemoryById(otherMemoryId)).toBeNull();
+    expect(todoRepo.searchTodos({ searchText: "タスク" }).items.length).toBe(1);
+
+    // 呼び出しごとに名前空間を指定できる
+    const memory = memoryRepo.getMemoryById(otherMemoryId, "project-a");
+    expect(memory?.namespace).toBe("project-a");
+    const todos = todoRepo.searchTodos({ namespace: "project-a" }).items;
+    expect(todos.length).toBe(1);
+    expect(todos[0].title).toBe("プロジェクトAのタスク");
+
+    // 他の名前空間のメモリーは更新・削除できない
+    expect(memoryRepo.updateMemory(otherMemoryId, "上書き")).toBe(false);
+    expect(memoryRepo.deleteMemory(otherMemoryId)).toBe(false);
+    expect(memoryRepo.getMemoryById(otherMemoryId, "project-a")?.content).toBe(
+      "プロジェクトAのメモ",
+    );
+  });
+
+  test("サーバーの既定の名前空間を切り替えられる", () => {
+    setDefaultNamespace("project-b");
+    expect(getDefaultNamespace()).toBe("project-b");
+
+    const todoId = todoService.createTodoWithMemory(
+      "プロジェクトBのタスク",
+      undefined,
+      undefined,
+      ["urgent"],
+    );
+
+    // TODOと自動作成されたメモリーは既定の名前空間に入る
+    expect(todoRepo.getTodoById(todoId)?.namespace).toBe("project-b");
+    expect(memoryRepo.getAllMemories().length).toBe(1);
+    expect(memoryRepo.getAllMemories(DEFAULT_NAMESPACE).length).toBe(0);
+
+    // タグの使用数は名前空間ごとに数える
+    const usage = tagRepo.getAllTagsWithUsage();
+    expect(usage[0]).toMatchObject({ name: "urgent", todo_count: 1 });
+    const defaultUsage = tagRepo.getAllTagsWithUsage(DEFAULT_NAMESPACE);
+    expect(defaultUsage[0].total_count).toBe(0);
+  });
+
+  test("前後のメモリーと統計は名前空間内で計算される", () => {
+    const firstId = memoryService.createMemory("Aの1件目", [], "project-a");
+    memoryService.createMemory("既定の1件目");
+    memoryService.createMemory("Aの2件目", [], "project-a");
+
+    // 作成日時をずらして前後関係を確定させる
+    getDatabase().run(
+      "UPDATE memories SET created_at = datetime('now', '-' || (4 - id) || ' minutes')",
+    );
+
+    const context = memoryRepo.getMemoriesAroundId(firstId, 5, "project-a");
+    expect(context.current?.content).toBe("Aの1件目");
+    expect(
+      [...context.before, ...context.after].map((memory) => memory.content),
+    ).toEqual(["Aの2件目"]);
+
+    const stats = memoryService.getMemoryStatsByDate(30, "project-a");
+    const total = stats.reduce((sum, day) => sum + day.count, 0);
+    expect(total).toBe(2);
+  });
+
+  test("アイテムを別の名前空間に移動し、名前空間の一覧を取得できる", () => {
+    const memoryId = memoryRepo.createMemory({ content: "移動するメモ" });
+    const todoId = todoRepo.createTodo({ title: "移動するタスク" });
+    todoRepo.createTodo({ title: "残るタスク" });
+
+    expect(memoryRepo.moveMemories([memoryId], "project-c")).toBe(1);
+    expect(todoRepo.moveTodos([todoId, 9999], "project-c")).toBe(1);
+
+    // 移動元に存在しないアイテムは移動しない
+    expect(todoRepo.moveTodos([todoId], "project-d")).toBe(0);
+
+    expect(memoryRepo.getMemoryById(memoryId)).toBeNull();
+    expect(todoRepo.getTodoById(todoId, "project-c")?.title).toBe(
+      "移動するタスク",
+    );
+
+    expect(namespaceRepo.getNamespacesWithUsage()).toEqual([
+      { namespace: DEFAULT_NAMESPACE, memory_count: 0, todo_count: 1 },
+      { namespace: "project-c", memory_count: 1, todo_count: 1 },
+    ]);
+  });
+
+  test("不正な名前空間名はエラーになる", () => {
+    expect(() => setDefaultNamespace("")).toThrow();
+    expect(() =>
+      memoryRepo.createMemory({ content: "メモ", namespace: "bad name!" }),
+    ).toThrow();
+  });
+});
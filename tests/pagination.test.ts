@@ -0,0 +1,158 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import { Page, PaginationError } from "../src/database/pagination";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as memoryService from "../src/services/memoryService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-pagination.sqlite";
+
+// カーソルをたどってすべてのページを取得する
+function readAllPages<T>(fetch: (cursor?: string) => Page<T>): T[][] {
+  const pages: T[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = fetch(cursor);
+    pages.push(page.items);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  return pages;
+}
+
+describe("ページネーションテスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("カーソルでメモリーを重複なく順番に取得できる", () => {
+    for (let i = 1; i <= 5; i++) {
+      memoryRepo.createMemory({ content: `メモリー${i}` });
+    }
+    // 作成日時が同じメモリーはIDで並ぶ
+    getDatabase().run(
+      "UPDATE memories SET created_at = '2025-01-01 00:00:00' WHERE id IN (2, 3)",
+    );
+
+    const first = memoryRepo.listMemories({ limit: 2 });
+    expect(first.total).toBe(5);
+    expect(first.items.length).toBe(2);
+    expect(first.next_cursor).not.toBeNull();
+
+    const pages = readAllPages((cursor) =>
+      memoryRepo.listMemories({ limit: 2, cursor }),
+    );
+    expect(pages.map((page) => page.length)).toEqual([2, 2, 1]);
+    expect(pages.flat().map((memory) => memory.id)).toEqual([5, 4, 1, 3, 2]);
+
+    const ascending = readAllPages((cursor) =>
+      memoryRepo.listMemories({ limit: 3, cursor, sort: "id", order: "asc" }),
+    );
+    expect(ascending.flat().map((memory) => memory.id)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+  });
+
+  test("期限のないTODOは最後にまとめて返される", () => {
+    todoRepo.createTodo({ title: "期限なし1" });
+    todoRepo.createTodo({
+      title: "来週",
+      due_date: new Date("2025-01-08T00:00:00Z"),
+    });
+    todoRepo.createTodo({ title: "期限なし2" });
+    todoRepo.createTodo({
+      title: "明日",
+      due_date: new Date("2025-01-02T00:00:00Z"),
+    });
+
+    const pages = readAllPages((cursor) =>
+      todoRepo.searchTodos({ limit: 1, cursor }),
+    );
+    expect(pages.flat().map((todo) => todo.title)).toEqual([
+      "明日",
+      "来週",
+      "期限なし2",
+      "期限なし1",
+    ]);
+
+    const descending = todoRepo.searchTodos({ order: "desc" });
+    expect(descending.items.map((todo) => todo.title)).toEqual([
+      "来週",
+      "明日",
+      "期限なし2",
+      "期限なし1",
+    ]);
+  });
+
+  test("全文検索の結果を関連度順にページ分割できる", () => {
+    memoryRepo.createMemory({ content: "release notes" });
+    memoryRepo.createMemory({ content: "release release release" });
+    memoryRepo.createMemory({ content: "unrelated entry" });
+    memoryRepo.createMemory({ content: "release checklist" });
+
+    const all = memoryRepo.searchMemories("release");
+    expect(all.total).toBe(3);
+
+    const pages = readAllPages((cursor) =>
+      memoryRepo.searchMemories("release", { limit: 2, cursor }),
+    );
+    expect(pages.flat().map((memory) => memory.id)).toEqual(
+      all.items.map((memory) => memory.id),
+    );
+    expect(pages.flat()[0].snippet).toContain("**release**");
+  });
+
+  test("不正なカーソルや並び順の異なるカーソルはエラーになる", () => {
+    for (let i = 1; i <= 3; i++) {
+      memoryRepo.createMemory({ content: `メモリー${i}` });
+    }
+
+    expect(() => memoryRepo.listMemories({ cursor: "invalid" })).toThrow(
+      PaginationError,
+    );
+
+    const page = memoryRepo.listMemories({ limit: 1 });
+    expect(() =>
+      memoryRepo.listMemories({
+        cursor: page.next_cursor!,
+        order: "asc",
+      }),
+    ).toThrow(PaginationError);
+  });
+
+  test("最新のメモリーと検索の要約を取得できる", () => {
+    for (let i = 1; i <= 4; i++) {
+      memoryRepo.createMemory({ content: `週次レポート${i}` });
+    }
+
+    const latest = memoryService.getLatestMemories(2);
+    expect(latest.map((memory) => memory.content)).toEqual([
+      "週次レポート4",
+      "週次レポート3",
+    ]);
+
+    const summary = memoryService.getMemorySummary("週次レポート");
+    expect(summary.count).toBe(4);
+    expect(summary.latest?.content).toBe("週次レポート4");
+    expect(summary.oldest?.content).toBe("週次レポート1");
+  });
+});
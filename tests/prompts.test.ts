@@ -0,0 +1,139 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import { toSqliteTimestamp } from "../src/database/timestamp";
+import { registerAllPrompts } from "../src/prompts";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-prompts.sqlite";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("プロンプトのテスト", () => {
+  let client: Client;
+
+  // プロンプトを取得してメッセージの本文を返す
+  async function getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+  ): Promise<string> {
+    const result = await client.getPrompt({ name, arguments: args });
+    expect(result.messages.length).toBe(1);
+    expect(result.messages[0].role).toBe("user");
+    const content = result.messages[0].content;
+    return content.type === "text" ? content.text : "";
+  }
+
+  // 各テスト前に実行
+  beforeEach(async () => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registerAllPrompts(server);
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  // 各テスト後に実行
+  afterEach(async () => {
+    await client.close();
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("プロンプトを引数付きで一覧できる", async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "daily_standup",
+      "weekly_review",
+      "resume_session",
+    ]);
+    expect(prompts[1].arguments?.map((argument) => argument.name)).toEqual([
+      "from",
+      "to",
+      "namespace",
+    ]);
+  });
+
+  test("デイリースタンドアップに前日のメモリーとTODOが入る", async () => {
+    const now = Date.now();
+    memoryRepo.createMemory({
+      content: "APIのレビューを終えた",
+      created_at: toSqliteTimestamp(new Date(now - DAY)),
+    });
+    memoryRepo.createMemory({ content: "今日のメモ" });
+    todoRepo.createTodo({
+      title: "期限切れのタスク",
+      due_date: new Date(now - 2 * DAY),
+    });
+    todoRepo.createTodo({
+      title: "明日までのタスク",
+      due_date: new Date(now + DAY),
+    });
+    todoRepo.createTodo({ title: "別プロジェクト", namespace: "other" });
+
+    const text = await getPrompt("daily_standup");
+
+    expect(text).toStartWith("Write my daily standup");
+    expect(text).toContain("## Memories from yesterday\n\n- [1]");
+    expect(text).toContain("APIのレビューを終えた");
+    expect(text).not.toContain("今日のメモ");
+    expect(text).toContain("## Overdue TODOs\n\n- [ ] 1: 期限切れのタスク");
+    expect(text).toContain(
+      "## Due in the next 3 days\n\n- [ ] 2: 明日までのタスク",
+    );
+    expect(text).not.toContain("別プロジェクト");
+
+    const other = await getPrompt("daily_standup", {
+      date: "today",
+      namespace: "other",
+    });
+    expect(other).toContain("## Memories from today\n\nNothing was recorded.");
+    expect(other).toContain("## Ready to work on\n\n- [ ] 3: 別プロジェクト");
+  });
+
+  test("週次レビューと作業再開のプロンプトを組み立てる", async () => {
+    memoryRepo.createMemory({ content: "検索の設計を見直した" });
+    memoryRepo.createMemory({
+      content: "デプロイ手順は必ず確認する",
+      pinned: true,
+      created_at: "2024-01-01 00:00:00",
+    });
+
+    const review = await getPrompt("weekly_review");
+    expect(review).toContain("from 6 days ago to today");
+    expect(review).toContain("## Activity Report");
+    expect(review).toContain("### Summary\n\n- Memories created: 1");
+    expect(review).toContain("検索の設計を見直した");
+
+    const resume = await getPrompt("resume_session", { topic: "検索の設計" });
+    expect(resume).toStartWith("I am resuming work on 検索の設計.");
+    // ピン留めしたメモリーが先頭に来る
+    expect(resume).toContain("## Relevant memories\n\n- [2]");
+    expect(resume).toContain("検索の設計を見直した");
+
+    await expect(
+      getPrompt("weekly_review", { from: "someday" }),
+    ).rejects.toThrow();
+  });
+});
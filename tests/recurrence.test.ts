@@ -0,0 +1,290 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import {
+  parseRecurrence,
+  normalizeRecurrence,
+  describeRecurrence,
+  getNextOccurrence,
+  RecurrenceError,
+} from "../src/recurrence";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as tagRepo from "../src/repositories/tagRepository";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoService from "../src/services/todoService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-recurrence.sqlite";
+
+// ルールを解析して次の期限をISO形式で返す
+function next(rule: string, due: string, now: string = due): string | null {
+  const occurrence = getNextOccurrence(
+    parseRecurrence(rule),
+    new Date(due),
+    new Date(now),
+  );
+  return occurrence ? occurrence.due.toISOString() : null;
+}
+
+describe("繰り返しルールテスト", () => {
+  test("省略形とRRULEを正規化できる", () => {
+    expect(normalizeRecurrence("weekly")).toBe("FREQ=WEEKLY");
+    expect(normalizeRecurrence("every 2 weeks")).toBe("FREQ=WEEKLY;INTERVAL=2");
+    expect(normalizeRecurrence("every day")).toBe("FREQ=DAILY");
+    expect(
+      normalizeRecurrence("RRULE:freq=weekly;byday=th,mo,th;interval=1"),
+    ).toBe("FREQ=WEEKLY;BYDAY=MO,TH");
+    expect(normalizeRecurrence("FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3")).toBe(
+      "FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3",
+    );
+    expect(normalizeRecurrence("FREQ=DAILY;UNTIL=20250131")).toBe(
+      "FREQ=DAILY;UNTIL=20250131T235959Z",
+    );
+
+    expect(
+      describeRecurrence(parseRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO")),
+    ).toBe("every 2 weeks on MO");
+  });
+
+  test("不正なルールはエラーになる", () => {
+    expect(() => parseRecurrence("sometimes")).toThrow(RecurrenceError);
+    expect(() => parseRecurrence("FREQ=HOURLY")).toThrow(RecurrenceError);
+    expect(() => parseRecurrence("FREQ=DAILY;BYDAY=MO")).toThrow(
+      RecurrenceError,
+    );
+    expect(() => parseRecurrence("FREQ=WEEKLY;INTERVAL=0")).toThrow(
+      RecurrenceError,
+    );
+    expect(() => parseRecurrence("FREQ=DAILY;COUNT=2;UNTIL=20250101")).toThrow(
+      RecurrenceError,
+    );
+  });
+
+  test("頻度ごとに次の期限を計算できる", () => {
+    expect(next("daily", "2025-01-01T09:00:00Z")).toBe(
+      "2025-01-02T09:00:00.000Z",
+    );
+    expect(next("every 2 weeks", "2025-01-01T09:00:00Z")).toBe(
+      "2025-01-15T09:00:00.000Z",
+    );
+    // 2025-01-06は月曜日
+    expect(next("FREQ=WEEKLY;BYDAY=MO,TH", "2025-01-06T09:00:00Z")).toBe(
+      "2025-01-09T09:00:00.000Z",
+    );
+    expect(
+      next("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH", "2025-01-09T09:00:00Z"),
+    ).toBe("2025-01-20T09:00:00.000Z");
+    // 月末は短い月に合わせて丸められる
+    expect(next("monthly", "2025-01-31T00:00:00Z")).toBe(
+      "2025-02-28T00:00:00.000Z",
+    );
+    expect(next("FREQ=MONTHLY;BYMONTHDAY=-1", "2025-02-28T00:00:00Z")).toBe(
+      "2025-03-31T00:00:00.000Z",
+    );
+    expect(next("FREQ=MONTHLY;BYMONTHDAY=15", "2025-01-10T00:00:00Z")).toBe(
+      "2025-01-15T00:00:00.000Z",
+    );
+    expect(next("yearly", "2024-02-29T00:00:00Z")).toBe(
+      "2025-02-28T00:00:00.000Z",
+    );
+  });
+
+  test("丸められた日付の次の回は最初の回の日付に戻る", () => {
+    const series = (rule: string, start: string, times: number) => {
+      const dues: string[] = [];
+      let due = new Date(start);
+      for (let i = 0; i < times; i++) {
+        due = getNextOccurrence(
+          parseRecurrence(rule),
+          due,
+          due,
+          new Date(start),
+        )!.due;
+        dues.push(due.toISOString().slice(0, 10));
+      }
+      return dues;
+    };
+
+    expect(series("monthly", "2025-01-31T00:00:00Z", 4)).toEqual([
+      "2025-02-28",
+      "2025-03-31",
+      "2025-04-30",
+      "2025-05-31",
+    ]);
+    expect(series("every 2 months", "2024-12-30T00:00:00Z", 2)).toEqual([
+      "2025-02-28",
+      "2025-04-30",
+    ]);
+    expect(series("yearly", "2024-02-29T00:00:00Z", 4)).toEqual([
+      "2025-02-28",
+      "2026-02-28",
+      "2027-02-28",
+      "2028-02-29",
+    ]);
+    // 最初の回より前の日付に移した回はその日付のまま
+    expect(next("monthly", "2025-03-15T00:00:00Z")).toBe(
+      "2025-04-15T00:00:00.000Z",
+    );
+  });
+
+  test("COUNTとUNTILで繰り返しが終わり、過ぎた回はスキップされる", () => {
+    const occurrence = getNextOccurrence(
+      parseRecurrence("FREQ=DAILY;COUNT=2"),
+      new Date("2025-01-01T00:00:00Z"),
+      new Date("2025-01-01T00:00:00Z"),
+    );
+    expect(occurrence?.rule.count).toBe(1);
+    expect(
+      getNextOccurrence(occurrence!.rule, occurrence!.due, occurrence!.due),
+    ).toBeNull();
+
+    expect(
+      next("FREQ=DAILY;UNTIL=20250102", "2025-01-02T09:00:00Z"),
+    ).toBeNull();
+
+    // 期限を過ぎてから完了すると、現在より後の回が次の期限になる
+    expect(next("weekly", "2025-01-01T09:00:00Z", "2025-01-20T00:00:00Z")).toBe(
+      "2025-01-22T09:00:00.000Z",
+    );
+  });
+});
+
+describe("繰り返しTODOテスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("繰り返しTODOを完了すると次の回が作成される", () => {
+    const due = new Date();
+    due.setUTCDate(due.getUTCDate() + 1);
+    const todoId = todoService.createTodoWithMemory(
+      "週次定例",
+      "議事録を共有する",
+      due,
+      ["meeting"],
+      undefined,
+      "weekly",
+    );
+    expect(todoRepo.getTodoById(todoId)?.recurrence).toBe("FREQ=WEEKLY");
+
+    expect(todoService.completeTodoWithMemory(todoId)).toBe(true);
+
+    const nextTodo = todoRepo.getNextOccurrence(todoId);
+    expect(nextTodo).not.toBeNull();
+    expect(nextTodo!.title).toBe("週次定例");
+    expect(nextTodo!.description).toBe("議事録を共有する");
+    expect(nextTodo!.completed).toBe(0);
+    expect(nextTodo!.previous_todo_id).toBe(todoId);
+    expect(nextTodo!.recurrence).toBe("FREQ=WEEKLY");
+    expect(new Date(nextTodo!.due_date!).getTime()).toBe(
+      due.getTime() + 7 * 24 * 60 * 60 * 1000,
+    );
+    expect(tagRepo.getTags("todo", nextTodo!.id)).toEqual(["meeting"]);
+
+    const memories = memoryRepo.searchMemories("Completed TODO").items;
+    expect(memories[0].content).toContain(`TODO ${nextTodo!.id}`);
+
+    // 未完了に戻して再度完了しても次の回は重複しない
+    todoService.uncompleteTodoWithMemory(todoId);
+    todoService.completeTodoWithMemory(todoId);
+    expect(todoRepo.getAllTodos().length).toBe(2);
+  });
+
+  test("次の回は優先度を引き継ぐ", () => {
+    const todoId = todoService.createTodoWithMemory(
+      "バックアップの確認",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      "daily",
+      "urgent",
+    );
+
+    todoService.completeTodoWithMemory(todoId);
+    expect(todoRepo.getNextOccurrence(todoId)?.priority).toBe("urgent");
+  });
+
+  test("繰り返すサブタスクの次の回は、親が未完了なら同じ親の下に作成される", () => {
+    const parentId = todoRepo.createTodo({ title: "リリース準備" });
+    const childId = todoRepo.createTodo({
+      title: "依存関係の更新",
+      parent_id: parentId,
+      recurrence: "FREQ=WEEKLY",
+    });
+
+    todoService.completeTodoWithMemory(childId);
+    const nextTodo = todoRepo.getNextOccurrence(childId);
+    expect(nextTodo?.parent_id).toBe(parentId);
+
+    // 親が完了していれば最上位のTODOになる
+    todoRepo.updateTodoStatus(parentId, true);
+    todoService.completeTodoWithMemory(nextTodo!.id);
+    expect(todoRepo.getNextOccurrence(nextTodo!.id)?.parent_id).toBeNull();
+  });
+
+  test("月末に繰り返すTODOの次の回は短い月の後で月末に戻る", () => {
+    const todoId = todoRepo.createTodo({
+      title: "月末の締め",
+      due_date: new Date("2099-01-31T09:00:00Z"),
+      recurrence: "FREQ=MONTHLY",
+    });
+
+    let id = todoId;
+    const dues: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      todoService.completeTodoWithMemory(id);
+      const nextTodo = todoRepo.getNextOccurrence(id)!;
+      dues.push(nextTodo.due_date!.slice(0, 10));
+      id = nextTodo.id;
+    }
+    expect(dues).toEqual(["2099-02-28", "2099-03-31", "2099-04-30"]);
+
+    // 繰り返しを変更した回からは新しい繰り返しの最初の回になる
+    todoService.setTodoRecurrenceWithMemory(id, "every 3 months");
+    todoService.completeTodoWithMemory(id);
+    expect(todoRepo.getNextOccurrence(id)?.due_date?.slice(0, 10)).toBe(
+      "2099-07-30",
+    );
+  });
+
+  test("繰り返しを変更・停止できる", () => {
+    const todoId = todoService.createTodoWithMemory("月次レポート");
+
+    expect(
+      todoService.setTodoRecurrenceWithMemory(todoId, "every 2 months"),
+    ).toBe(true);
+    expect(todoRepo.getTodoById(todoId)?.recurrence).toBe(
+      "FREQ=MONTHLY;INTERVAL=2",
+    );
+    expect(() =>
+      todoService.setTodoRecurrenceWithMemory(todoId, "sometimes"),
+    ).toThrow(RecurrenceError);
+
+    expect(todoService.setTodoRecurrenceWithMemory(todoId, null)).toBe(true);
+    expect(todoRepo.getTodoById(todoId)?.recurrence).toBeNull();
+    expect(memoryRepo.searchMemories("Stopped repeating").total).toBe(1);
+
+    // 繰り返しのないTODOは完了しても次の回が作成されない
+    todoService.completeTodoWithMemory(todoId);
+    expect(todoRepo.getNextOccurrence(todoId)).toBeNull();
+    expect(todoService.setTodoRecurrenceWithMemory(999, "daily")).toBe(false);
+  });
+});
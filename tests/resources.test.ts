@@ -0,0 +1,194 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import { registerAllTools } from "../src/tools";
+import { registerAllResources } from "../src/resources";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import { onDataChange } from "../src/changes";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-resources.sqlite";
+
+describe("リソースのテスト", () => {
+  let client: Client;
+  let updated: string[];
+
+  // リソースを読み込んでMarkdownを返す
+  async function read(uri: string): Promise<string> {
+    const result = await client.readResource({ uri });
+    return result.contents[0].text as string;
+  }
+
+  // 通知が届くのを待つ
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  // 各テスト前に実行
+  beforeEach(async () => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registerAllTools(server);
+    registerAllResources(server);
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+
+    updated = [];
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        updated.push(notification.params.uri);
+      },
+    );
+  });
+
+  // 各テスト後に実行
+  afterEach(async () => {
+    await client.close();
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("リソースとテンプレートを一覧できる", async () => {
+    memoryRepo.createMemory({ content: "一覧に出るメモ" });
+    todoRepo.createTodo({ title: "一覧に出るタスク" });
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      "memory://{id}",
+      "journal://{date}",
+      "todo://{id}",
+    ]);
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      "memory://recent",
+      "todo://overdue",
+      "memory://1",
+      "todo://1",
+    ]);
+    expect(resources[2]).toMatchObject({
+      name: "一覧に出るメモ",
+      mimeType: "text/markdown",
+    });
+  });
+
+  test("メモリー・ジャーナル・TODOをMarkdownで読み込める", async () => {
+    const todoId = todoRepo.createTodo({
+      title: "リリース",
+      description: "手順書に従う",
+      due_date: new Date("2025-03-01T00:00:00Z"),
+    });
+    memoryRepo.createMemory({
+      content: "ビルドを確認",
+      todo_ids: [todoId],
+      created_at: "2025-03-03 09:00:00",
+    });
+    memoryRepo.createMemory({
+      content: "リリースした",
+      created_at: "2025-03-03 10:00:00",
+    });
+
+    expect(await read("memory://recent")).toStartWith(
+      "# Recent Memories\n\n- [2] 2025-03-03 10:00:00: リリースした",
+    );
+    const context = await read("memory://1");
+    expect(context).toContain("## Current Memory\n\n**2025-03-03 09:00:00**");
+    expect(context).toContain("リリースした");
+
+    const journal = await read("journal://2025-03-03");
+    expect(journal).toContain("2025-03-03 00:00:00 to 2025-03-04 00:00:00, 2");
+    expect(journal.indexOf("ビルドを確認")).toBeLessThan(
+      journal.indexOf("リリースした"),
+    );
+    expect(await read("journal://this%20week")).toStartWith(
+      "# Journal: this week",
+    );
+
+    const todo = await read(`todo://${todoId}`);
+    expect(todo).toStartWith("# TODO 1: リリース\n\n- [ ] 1: リリース");
+    expect(todo).toContain("## Description\n\n手順書に従う");
+    expect(todo).toContain("## Timeline\n\n- [1] 2025-03-03 09:00:00");
+    expect(await read("todo://overdue")).toContain("- [ ] 1: リリース");
+
+    await expect(read("memory://999")).rejects.toThrow("No memory found");
+    await expect(read("journal://someday")).rejects.toThrow();
+  });
+
+  test("読み取り専用のツールでは変更を知らせない", async () => {
+    let changes = 0;
+    const removeListener = onDataChange(() => changes++);
+
+    await client.callTool({
+      name: "search_memories",
+      arguments: { search_text: "" },
+    });
+    await client.callTool({ name: "get_todo_tree", arguments: {} });
+    expect(changes).toBe(0);
+
+    await client.callTool({
+      name: "create_memory",
+      arguments: { content: "新しいメモ" },
+    });
+    expect(changes).toBe(1);
+    removeListener();
+  });
+
+  test("購読したリソースが変わると通知される", async () => {
+    await client.subscribeResource({ uri: "memory://recent" });
+    await client.subscribeResource({ uri: "todo://1" });
+
+    // 内容が変わらない呼び出しでは通知されない
+    await client.callTool({
+      name: "search_memories",
+      arguments: { search_text: "" },
+    });
+    await flush();
+    expect(updated).toEqual([]);
+
+    await client.callTool({
+      name: "create_memory",
+      arguments: { content: "新しいメモ" },
+    });
+    await client.callTool({
+      name: "create_todo",
+      arguments: { title: "後から作るタスク" },
+    });
+    await flush();
+    // TODOの作成はメモリーとしても記録される
+    expect(updated).toEqual(["memory://recent", "memory://recent", "todo://1"]);
+
+    await client.unsubscribeResource({ uri: "memory://recent" });
+    updated = [];
+    getDatabase().run("UPDATE todos SET title = '変更後'");
+    await client.callTool({
+      name: "create_memory",
+      arguments: { content: "購読解除後のメモ" },
+    });
+    await flush();
+    expect(updated).toEqual(["todo://1"]);
+
+    await expect(
+      client.subscribeResource({ uri: "unknown://1" }),
+    ).rejects.toThrow("not found");
+  });
+});
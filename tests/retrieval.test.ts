@@ -0,0 +1,149 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as retrievalService from "../src/services/retrievalService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-retrieval.sqlite";
+
+const NOW = new Date("2025-03-05T12:00:00Z");
+
+describe("トークン数の見積もりテスト", () => {
+  test("ASCII文字は4文字で1トークン、それ以外は1文字で1トークン", () => {
+    expect(retrievalService.estimateTokens("")).toBe(0);
+    expect(retrievalService.estimateTokens("abcdefgh")).toBe(2);
+    expect(retrievalService.estimateTokens("abcde")).toBe(2);
+    expect(retrievalService.estimateTokens("日本語 ok")).toBe(4);
+  });
+});
+
+describe("関連するメモリーの取得テスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("関連度・新しさ・重要度で順位付けし、ピン留めを先頭にする", async () => {
+    const old = memoryRepo.createMemory({
+      content: "Deployed the API to production",
+      created_at: "2024-03-05 12:00:00",
+    });
+    const recent = memoryRepo.createMemory({
+      content: "Deployed the API to production",
+      created_at: "2025-03-05 11:00:00",
+    });
+    const important = memoryRepo.createMemory({
+      content: "Deployed the API to production",
+      created_at: "2024-03-05 12:00:00",
+      importance: 5,
+    });
+    const pinned = memoryRepo.createMemory({
+      content: "Always run the migrations first",
+      created_at: "2024-01-01 00:00:00",
+      pinned: true,
+    });
+
+    const result = await retrievalService.getRelevantMemories("deploy API", {
+      now: NOW,
+    });
+
+    expect(result.memories.map((memory) => memory.id)).toEqual([
+      pinned,
+      recent,
+      important,
+      old,
+    ]);
+    const [, first, , last] = result.memories;
+    expect(first.relevance).toBe(last.relevance);
+    expect(first.recency).toBeGreaterThan(0.9);
+    expect(last.recency).toBeLessThan(0.01);
+    expect(result.tokens).toBe(
+      result.memories.reduce((sum, memory) => sum + memory.tokens, 0),
+    );
+
+    // 重みを変えると順位が変わる
+    const byImportance = await retrievalService.getRelevantMemories(
+      "deploy API",
+      { weights: { recency: 0 }, now: NOW },
+    );
+    expect(byImportance.memories.map((memory) => memory.id)).toEqual([
+      pinned,
+      important,
+      recent,
+      old,
+    ]);
+
+    // ピン留めを外すと関連しないメモリーは後ろに回る
+    expect(memoryRepo.updateMemoryImportance(pinned, { pinned: false })).toBe(
+      true,
+    );
+    const unpinned = await retrievalService.getRelevantMemories("deploy API", {
+      limit: 2,
+      now: NOW,
+    });
+    expect(unpinned.memories.map((memory) => memory.id)).toEqual([
+      recent,
+      important,
+    ]);
+  });
+
+  test("トークンの予算に収まるメモリーだけを返す", async () => {
+    const long = memoryRepo.createMemory({
+      content: "Release notes: " + "fixed a bug. ".repeat(40),
+      importance: 5,
+    });
+    const short = memoryRepo.createMemory({ content: "Release on Friday" });
+    memoryRepo.createMemory({ content: "Release checklist is in the wiki" });
+
+    const result = await retrievalService.getRelevantMemories("", {
+      tokenBudget: 20,
+      now: NOW,
+    });
+
+    // 予算を超える長いメモリーは飛ばし、小さいメモリーで埋める
+    expect(result.memories.map((memory) => memory.id)).not.toContain(long);
+    expect(result.memories.map((memory) => memory.id)).toContain(short);
+    expect(result.tokens).toBeLessThanOrEqual(20);
+    expect(result.omitted).toBe(1);
+  });
+
+  test("アクセスを記録し、重要度の範囲外は保存できない", () => {
+    const id = memoryRepo.createMemory({ content: "参照されるメモ" });
+    expect(memoryRepo.getMemoryById(id)).toMatchObject({
+      importance: 3,
+      pinned: 0,
+      access_count: 0,
+      last_accessed_at: null,
+    });
+
+    memoryRepo.recordMemoryAccess([id, id]);
+    memoryRepo.recordMemoryAccess([id]);
+    const memory = memoryRepo.getMemoryById(id)!;
+    expect(memory.access_count).toBe(2);
+    expect(memory.last_accessed_at).not.toBeNull();
+
+    expect(() =>
+      memoryRepo.updateMemoryImportance(id, { importance: 6 }),
+    ).toThrow();
+    expect(memoryRepo.updateMemoryImportance(999, { importance: 4 })).toBe(
+      false,
+    );
+  });
+});
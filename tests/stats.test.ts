@@ -0,0 +1,183 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import {
+  splitDateRange,
+  parseDateRange,
+  DateRangeError,
+  Granularity,
+} from "../src/dateRange";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as todoService from "../src/services/todoService";
+import * as statsService from "../src/services/statsService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-stats.sqlite";
+
+// 2025-03-05（水）15:30:20 UTC、東京では 2025-03-06（木）00:30:20
+const NOW = new Date("2025-03-05T15:30:20Z");
+
+// 範囲を分割して各区間のラベルと開始日時を返す
+function split(
+  from: string,
+  to: string,
+  granularity: Granularity,
+  timeZone: string = "UTC",
+): string[][] {
+  const range = {
+    start: parseDateRange(from, { now: NOW, timeZone }).start,
+    end: parseDateRange(to, { now: NOW, timeZone }).end,
+  };
+  return splitDateRange(range, granularity, timeZone).map((bucket) => [
+    bucket.label,
+    bucket.start.toISOString(),
+  ]);
+}
+
+describe("期間の分割テスト", () => {
+  test("タイムゾーンの暦で日・週・月に分割する", () => {
+    expect(split("2025-03-01", "2025-03-02", "day", "Asia/Tokyo")).toEqual([
+      ["2025-03-01", "2025-02-28T15:00:00.000Z"],
+      ["2025-03-02", "2025-03-01T15:00:00.000Z"],
+    ]);
+
+    // 週は月曜日始まりで、範囲の外にはみ出す区間は切り詰められる
+    expect(split("2025-03-01", "2025-03-10", "week")).toEqual([
+      ["2025-02-24", "2025-03-01T00:00:00.000Z"],
+      ["2025-03-03", "2025-03-03T00:00:00.000Z"],
+      ["2025-03-10", "2025-03-10T00:00:00.000Z"],
+    ]);
+
+    expect(
+      split("2025-01", "2025-03", "month").map((bucket) => bucket[0]),
+    ).toEqual(["2025-01", "2025-02", "2025-03"]);
+  });
+
+  test("時間単位の分割は夏時間の切り替えに従う", () => {
+    // ニューヨークでは2025-03-09の2時が3時になる
+    const hours = split("2025-03-09", "2025-03-09", "hour", "America/New_York");
+    expect(hours.length).toBe(23);
+    expect(hours[2]).toEqual(["2025-03-09 03:00", "2025-03-09T07:00:00.000Z"]);
+
+    expect(() => split("2024-01", "2025-12", "hour")).toThrow(DateRangeError);
+  });
+});
+
+describe("活動レポートテスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("TODOを完了すると完了日時が記録され、戻すと消える", () => {
+    const todoId = todoService.createTodoWithMemory("日時を記録するタスク");
+    expect(todoRepo.getTodoById(todoId)?.completed_at).toBeNull();
+
+    todoService.completeTodoWithMemory(todoId);
+    expect(todoRepo.getTodoById(todoId)?.completed_at).toMatch(
+      /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/,
+    );
+
+    todoService.uncompleteTodoWithMemory(todoId);
+    expect(todoRepo.getTodoById(todoId)?.completed_at).toBeNull();
+
+    // 完了フラグだけを書き換えても記録される
+    getDatabase().run("UPDATE todos SET completed = 1 WHERE id = ?", [todoId]);
+    expect(todoRepo.getTodoById(todoId)?.completed_at).not.toBeNull();
+  });
+
+  test("期間ごとの件数と完了までの平均時間を集計する", () => {
+    const db = getDatabase();
+    memoryRepo.createMemory({ content: "東京では3月5日" });
+    memoryRepo.createMemory({ content: "東京では3月6日" });
+    memoryRepo.createMemory({ content: "別の名前空間", namespace: "other" });
+    db.run(
+      "UPDATE memories SET created_at = '2025-03-05 09:00:00' WHERE id IN (1, 3)",
+    );
+    db.run(
+      "UPDATE memories SET created_at = '2025-03-05 15:10:00' WHERE id = 2",
+    );
+
+    const first = todoRepo.createTodo({ title: "3時間で完了" });
+    const second = todoRepo.createTodo({ title: "9時間で完了" });
+    todoRepo.createTodo({
+      title: "期限切れ",
+      due_date: new Date("2025-03-01T00:00:00Z"),
+    });
+    todoRepo.updateTodo(first, { status: "done" });
+    todoRepo.updateTodo(second, { status: "done" });
+    db.run("UPDATE todos SET created_at = '2025-03-05 00:00:00'");
+    db.run(
+      "UPDATE todos SET completed_at = '2025-03-05 03:00:00' WHERE id = ?",
+      [first],
+    );
+    db.run(
+      "UPDATE todos SET completed_at = '2025-03-05 09:00:00' WHERE id = ?",
+      [second],
+    );
+
+    const report = statsService.getActivityReport({
+      from: "yesterday",
+      to: "today",
+      timeZone: "Asia/Tokyo",
+      now: NOW,
+    });
+
+    expect(report.start.toISOString()).toBe("2025-03-04T15:00:00.000Z");
+    expect(report.buckets.map((bucket) => bucket.label)).toEqual([
+      "2025-03-05",
+      "2025-03-06",
+    ]);
+    expect(report.buckets[0]).toMatchObject({
+      memories_created: 1,
+      todos_created: 3,
+      todos_completed: 2,
+    });
+    expect(report.buckets[1].memories_created).toBe(1);
+    expect(report.totals).toEqual({
+      memories_created: 2,
+      todos_created: 3,
+      todos_completed: 2,
+    });
+    expect(report.todos).toEqual({
+      open: 1,
+      overdue: 1,
+      average_completion_hours: 6,
+    });
+
+    const markdown = statsService.formatActivityReportAsMarkdown(report);
+    expect(markdown).toContain("- Average time to complete: 6 hours");
+    expect(markdown).toContain("| 2025-03-05 | 1 | 3 | 2 |");
+    expect(markdown).toContain("| 2025-03-06 | 1 | 0 | 0 |");
+
+    const empty = statsService.getActivityReport({
+      from: "2025-02",
+      to: "2025-02",
+      granularity: "week",
+      now: NOW,
+    });
+    expect(empty.totals.memories_created).toBe(0);
+    expect(empty.todos.average_completion_hours).toBeNull();
+    expect(() =>
+      statsService.getActivityReport({ from: "today", to: "yesterday" }),
+    ).toThrow(DateRangeError);
+  });
+});
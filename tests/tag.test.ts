@@ -0,0 +1,141 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import * as tagRepo from "../src/repositories/tagRepository";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as todoService from "../src/services/todoService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-tag.sqlite";
+
+describe("タグ機能テスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    // 既存のテストDBファイルがあれば削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+
+    // テスト用のDBファイルを作成して初期化
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    // テストDBファイルを削除
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("タグ付きでメモリーとTODOを作成できる", () => {
+    const memoryId = memoryRepo.createMemory({
+      content: "プロジェクトXの設計メモ",
+      tags: ["Project-X", " design "],
+    });
+    const todoId = todoRepo.createTodo({
+      title: "設計レビュー",
+      tags: ["project-x"],
+    });
+
+    // タグ名は小文字に正規化される
+    expect(tagRepo.getTags("memory", memoryId)).toEqual([
+      "design",
+      "project-x",
+    ]);
+    expect(tagRepo.getTags("todo", todoId)).toEqual(["project-x"]);
+  });
+
+  test("タグを追加・削除できる", () => {
+    const memoryId = memoryRepo.createMemory({ content: "買い物リスト" });
+
+    expect(tagRepo.addTags("memory", memoryId, ["personal", "home"])).toBe(2);
+    // 既に付いているタグは無視される
+    expect(tagRepo.addTags("memory", memoryId, ["PERSONAL"])).toBe(0);
+
+    expect(tagRepo.removeTags("memory", memoryId, ["home", "unknown"])).toBe(1);
+    expect(tagRepo.getTags("memory", memoryId)).toEqual(["personal"]);
+  });
+
+  test("タグでメモリーとTODOを絞り込める", () => {
+    memoryRepo.createMemory({
+      content: "meeting notes for project x",
+      tags: ["project-x", "meeting"],
+    });
+    memoryRepo.createMemory({
+      content: "meeting notes for personal stuff",
+      tags: ["personal", "meeting"],
+    });
+
+    expect(
+      memoryRepo.searchMemories("", { tags: ["meeting"] }).items.length,
+    ).toBe(2);
+
+    // 複数のタグはすべてを持つものだけに絞り込まれる
+    const projectMeetings = memoryRepo.searchMemories("meeting", {
+      tags: ["meeting", "project-x"],
+    }).items;
+    expect(projectMeetings.length).toBe(1);
+    expect(projectMeetings[0].content).toBe("meeting notes for project x");
+
+    todoRepo.createTodo({ title: "Xのリリース", tags: ["project-x"] });
+    todoRepo.createTodo({ title: "部屋の掃除", tags: ["personal"] });
+    const todos = todoRepo.searchTodos({ tags: ["personal"] }).items;
+    expect(todos.length).toBe(1);
+    expect(todos[0].title).toBe("部屋の掃除");
+  });
+
+  test("タグ一覧を使用数付きで取得できる", () => {
+    todoService.createTodoWithMemory("タグ付きタスク", undefined, undefined, [
+      "work",
+    ]);
+    memoryRepo.createMemory({ content: "メモ", tags: ["idea"] });
+
+    const tags = tagRepo.getAllTagsWithUsage();
+
+    // TODO作成時の記録メモリーにも同じタグが付く
+    expect(tags).toEqual([
+      { name: "idea", memory_count: 1, todo_count: 0, total_count: 1 },
+      { name: "work", memory_count: 1, todo_count: 1, total_count: 2 },
+    ]);
+  });
+
+  test("タグの名前を変更・統合できる", () => {
+    const first = memoryRepo.createMemory({ content: "A", tags: ["proj-x"] });
+    const second = memoryRepo.createMemory({
+      content: "B",
+      tags: ["proj-x", "project-x"],
+    });
+    const todoId = todoRepo.createTodo({ title: "C", tags: ["projx"] });
+
+    // 存在しない名前への変更は単純な名前変更になる
+    const renamed = tagRepo.renameTag("projx", "px");
+    expect(renamed?.merged).toBe(false);
+    expect(tagRepo.getTags("todo", todoId)).toEqual(["px"]);
+
+    // 既存の名前への変更は統合になる
+    const merged = tagRepo.renameTag("proj-x", "project-x");
+    expect(merged).toEqual({ merged: true, memory_count: 2, todo_count: 0 });
+    expect(tagRepo.getTags("memory", first)).toEqual(["project-x"]);
+    expect(tagRepo.getTags("memory", second)).toEqual(["project-x"]);
+    expect(tagRepo.getTagByName("proj-x")).toBeNull();
+
+    // 存在しないタグはnullを返す
+    expect(tagRepo.renameTag("unknown", "x")).toBeNull();
+  });
+
+  test("TODOを削除するとタグの関連も削除される", () => {
+    const todoId = todoRepo.createTodo({ title: "削除予定", tags: ["tmp"] });
+
+    todoRepo.deleteTodo(todoId);
+
+    expect(tagRepo.getAllTagsWithUsage()[0].todo_count).toBe(0);
+  });
+});
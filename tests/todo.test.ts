@@ -6,6 +6,7 @@ import {
 } from "../src/database";
 import * as todoRepo from "../src/repositories/todoRepository";
 import * as todoService from "../src/services/todoService";
+import * as memoryRepo from "../src/repositories/memoryRepository";
 import * as fs from "fs";
 
 // テスト用の一時データベースファイル
@@ -104,19 +105,19 @@ describe("TODO機能テスト", () => {
     todoRepo.updateTodoStatus(1, true);
 
     // 完了状態で検索
-    const completedTodos = todoRepo.searchTodos({ completed: true });
+    const completedTodos = todoRepo.searchTodos({ completed: true }).items;
     expect(completedTodos.length).toBe(1);
     expect(completedTodos[0].title).toBe("買い物に行く");
 
     // テキスト検索
-    const reportTodos = todoRepo.searchTodos({ searchText: "報告" });
+    const reportTodos = todoRepo.searchTodos({ searchText: "報告" }).items;
     expect(reportTodos.length).toBe(1);
     expect(reportTodos[0].title).toBe("報告書を書く");
 
     // 期限で検索（未来の日付）
     const tomorrow = new Date();
     tomorrow.setDate(tomorrow.getDate() + 1);
-    const upcomingTodos = todoRepo.searchTodos({ dueBefore: tomorrow });
+    const upcomingTodos = todoRepo.searchTodos({ dueBefore: tomorrow }).items;
     expect(upcomingTodos.length).toBe(1);
   });
 
@@ -137,7 +138,7 @@ describe("TODO機能テスト", () => {
     expect(completeResult).toBe(true);
 
     // 完了状態になっていることを確認
-    const completedTodos = todoService.getAllCompletedTodos();
+    const completedTodos = todoService.getAllCompletedTodos().items;
     expect(completedTodos.length).toBe(1);
 
     // 再度未完了に戻す
@@ -145,7 +146,7 @@ describe("TODO機能テスト", () => {
     expect(uncompleteResult).toBe(true);
 
     // 未完了状態になっていることを確認
-    const incompleteTodos = todoService.getAllIncompleteTodos();
+    const incompleteTodos = todoService.getAllIncompleteTodos().items;
     expect(incompleteTodos.length).toBe(1);
   });
 
@@ -178,13 +179,123 @@ describe("TODO機能テスト", () => {
     });
 
     // 期限切れタスクを取得
-    const overdueTodos = todoService.getOverdueTodos();
+    const overdueTodos = todoService.getOverdueTodos().items;
     expect(overdueTodos.length).toBe(1);
     expect(overdueTodos[0].title).toBe("期限切れタスク");
 
     // 期限間近（3日以内）のタスクを取得
-    const upcomingTodos = todoService.getUpcomingTodos(3);
+    const upcomingTodos = todoService.getUpcomingTodos(3).items;
     expect(upcomingTodos.length).toBe(1);
     expect(upcomingTodos[0].title).toBe("明日のタスク");
   });
+  test("TODOを全文検索できる", () => {
+    todoRepo.createTodo({
+      title: "Write release notes",
+      description: "Summarize the changes for version 2",
+    });
+    todoRepo.createTodo({ title: "Review release checklist" });
+    todoRepo.createTodo({ title: "Book meeting room" });
+
+    // タイトルと説明の両方が検索対象になる
+    const results = todoRepo.searchTodos({
+      searchText: "release changes",
+    }).items;
+    expect(results.length).toBe(1);
+    expect(results[0].title).toBe("Write release notes");
+
+    const excluded = todoRepo.searchTodos({
+      searchText: "release NOT checklist",
+    }).items;
+    expect(excluded.length).toBe(1);
+
+    // 他の条件と組み合わせられる
+    todoRepo.updateTodoStatus(2, true);
+    const incomplete = todoRepo.searchTodos({
+      searchText: "release",
+      completed: false,
+    }).items;
+    expect(incomplete.length).toBe(1);
+    expect(incomplete[0].title).toBe("Write release notes");
+  });
+
+  test("TODOの各項目を変更でき、変更内容がメモリーに記録される", () => {
+    const todoId = todoService.createTodoWithMemory(
+      "仕様書を書く",
+      "初版",
+      new Date("2025-05-01T00:00:00Z"),
+    );
+    const todo = todoRepo.getTodoById(todoId);
+    expect(todo?.status).toBe("open");
+    expect(todo?.priority).toBe("medium");
+
+    const success = todoService.updateTodoWithMemory(todoId, {
+      title: "仕様書を仕上げる",
+      description: null,
+      due_date: new Date("2025-05-10T00:00:00Z"),
+      status: "in_progress",
+      priority: "high",
+    });
+    expect(success).toBe(true);
+
+    const updated = todoRepo.getTodoById(todoId);
+    expect(updated?.title).toBe("仕様書を仕上げる");
+    expect(updated?.description).toBeNull();
+    expect(updated?.due_date).toBe("2025-05-10T00:00:00.000Z");
+    expect(updated?.status).toBe("in_progress");
+    expect(updated?.priority).toBe("high");
+    expect(updated?.completed).toBe(0);
+
+    const memory = memoryRepo.searchMemories("Updated TODO").items[0];
+    expect(memory.content).toContain(
+      'title "仕様書を書く" → "仕様書を仕上げる"',
+    );
+    expect(memory.content).toContain("description cleared");
+    expect(memory.content).toContain("status open → in_progress");
+    expect(memory.content).toContain("priority medium → high");
+
+    // doneにすると完了扱いになり、未完了に戻すとopenになる
+    todoService.updateTodoWithMemory(todoId, { status: "done" });
+    expect(todoRepo.getTodoById(todoId)?.completed).toBe(1);
+    todoService.uncompleteTodoWithMemory(todoId);
+    expect(todoRepo.getTodoById(todoId)?.status).toBe("open");
+
+    // 変更がなければメモリーは増えない
+    const count = memoryRepo.searchMemories("").total;
+    todoService.updateTodoWithMemory(todoId, { priority: "high" });
+    expect(memoryRepo.searchMemories("").total).toBe(count);
+
+    expect(todoService.updateTodoWithMemory(999, { title: "なし" })).toBe(
+      false,
+    );
+  });
+
+  test("ステータスと優先度で絞り込み・並べ替えができる", () => {
+    const past = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    todoRepo.createTodo({ title: "低", priority: "low", due_date: past });
+    todoRepo.createTodo({ title: "緊急", priority: "urgent", due_date: past });
+    todoRepo.createTodo({
+      title: "中止",
+      status: "cancelled",
+      due_date: past,
+    });
+    todoRepo.createTodo({ title: "保留", status: "blocked", priority: "high" });
+
+    const byPriority = todoRepo.searchTodos({ sort: "priority" }).items;
+    expect(byPriority.map((todo) => todo.title)).toEqual([
+      "緊急",
+      "保留",
+      "中止",
+      "低",
+    ]);
+
+    const blocked = todoRepo.searchTodos({
+      statuses: ["blocked", "cancelled"],
+      priorities: ["high"],
+    }).items;
+    expect(blocked.map((todo) => todo.title)).toEqual(["保留"]);
+
+    // 中止したTODOは期限切れに含まれない
+    const overdue = todoService.getOverdueTodos().items;
+    expect(overdue.map((todo) => todo.title).sort()).toEqual(["低", "緊急"]);
+  });
 });
@@ -0,0 +1,215 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as relationRepo from "../src/repositories/todoRelationRepository";
+import * as todoService from "../src/services/todoService";
+import { TodoRelationError } from "../src/services/todoService";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-todo-relation.sqlite";
+
+describe("サブタスクと依存関係テスト", () => {
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(() => {
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("サブタスクをツリーとして取得できる", () => {
+    const releaseId = todoService.createTodoWithMemory("リリース");
+    const testId = todoService.createTodoWithMemory(
+      "テスト",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      releaseId,
+    );
+    const e2eId = todoRepo.createTodo({
+      title: "E2Eテスト",
+      parent_id: testId,
+    });
+    const docsId = todoRepo.createTodo({
+      title: "ドキュメント",
+      parent_id: releaseId,
+    });
+    const otherId = todoRepo.createTodo({ title: "別の作業" });
+
+    expect(todoRepo.getTodoById(testId)?.parent_id).toBe(releaseId);
+    expect(memoryRepo.searchMemories("Subtask of").total).toBe(1);
+
+    const tree = relationRepo.getTodoTree();
+    expect(tree.map((node) => [node.id, node.depth])).toEqual([
+      [releaseId, 0],
+      [testId, 1],
+      [e2eId, 2],
+      [docsId, 1],
+      [otherId, 0],
+    ]);
+
+    // 部分木、深さの上限、完了済みの除外
+    todoRepo.updateTodo(e2eId, { status: "done" });
+    expect(
+      relationRepo.getTodoTree({ rootId: testId }).map((node) => node.id),
+    ).toEqual([testId]);
+    expect(
+      relationRepo
+        .getTodoTree({ rootId: testId, includeClosed: true })
+        .map((node) => node.id),
+    ).toEqual([testId, e2eId]);
+    expect(
+      relationRepo.getTodoTree({ maxDepth: 0 }).map((node) => node.id),
+    ).toEqual([releaseId, otherId]);
+  });
+
+  test("親子関係の循環は拒否される", () => {
+    const parentId = todoRepo.createTodo({ title: "親" });
+    const childId = todoRepo.createTodo({ title: "子", parent_id: parentId });
+    const grandchildId = todoRepo.createTodo({
+      title: "孫",
+      parent_id: childId,
+    });
+
+    expect(() =>
+      todoService.setTodoParentWithMemory(parentId, grandchildId),
+    ).toThrow(TodoRelationError);
+    expect(() =>
+      todoService.setTodoParentWithMemory(parentId, parentId),
+    ).toThrow(TodoRelationError);
+    expect(() => todoService.setTodoParentWithMemory(childId, 999)).toThrow(
+      TodoRelationError,
+    );
+
+    expect(todoService.setTodoParentWithMemory(grandchildId, null)).toBe(true);
+    expect(todoRepo.getTodoById(grandchildId)?.parent_id).toBeNull();
+    expect(todoService.setTodoParentWithMemory(parentId, grandchildId)).toBe(
+      true,
+    );
+    expect(memoryRepo.searchMemories("subtask").total).toBe(1);
+    expect(todoService.setTodoParentWithMemory(999, null)).toBe(false);
+  });
+
+  test("依存関係の循環は拒否され、ブロック中のTODOは着手可能にならない", () => {
+    const designId = todoRepo.createTodo({ title: "設計", priority: "low" });
+    const buildId = todoRepo.createTodo({ title: "実装", priority: "high" });
+    const deployId = todoRepo.createTodo({ title: "デプロイ" });
+
+    expect(todoService.addTodoDependencyWithMemory(buildId, designId)).toBe(
+      true,
+    );
+    expect(todoService.addTodoDependencyWithMemory(deployId, buildId)).toBe(
+      true,
+    );
+    expect(() =>
+      todoService.addTodoDependencyWithMemory(designId, deployId),
+    ).toThrow(TodoRelationError);
+    expect(() =>
+      todoService.addTodoDependencyWithMemory(designId, designId),
+    ).toThrow(TodoRelationError);
+
+    const titles = () =>
+      todoService.getActionableTodos().items.map((todo) => todo.title);
+    expect(titles()).toEqual(["設計"]);
+
+    // ブロックしているTODOが終わると着手可能になる（優先度順）
+    todoService.completeTodoWithMemory(designId);
+    expect(titles()).toEqual(["実装"]);
+    expect(relationRepo.getOpenBlockerIds(deployId)).toEqual([buildId]);
+
+    expect(todoService.removeTodoDependencyWithMemory(deployId, buildId)).toBe(
+      true,
+    );
+    expect(todoService.removeTodoDependencyWithMemory(deployId, buildId)).toBe(
+      false,
+    );
+    expect(titles()).toEqual(["実装", "デプロイ"]);
+    expect(memoryRepo.searchMemories("blocked by").total).toBe(2);
+  });
+
+  test("未完了のサブタスクがある親は、カスケードしない限り完了できない", () => {
+    const parentId = todoRepo.createTodo({ title: "引っ越し" });
+    const childId = todoRepo.createTodo({
+      title: "荷造り",
+      parent_id: parentId,
+    });
+    const grandchildId = todoRepo.createTodo({
+      title: "箱を買う",
+      parent_id: childId,
+    });
+
+    // 未完了のサブタスクがある親は着手可能ではない
+    expect(
+      todoService.getActionableTodos().items.map((todo) => todo.id),
+    ).toEqual([grandchildId]);
+
+    expect(() => todoService.completeTodoWithMemory(parentId)).toThrow(
+      TodoRelationError,
+    );
+    expect(() =>
+      todoService.updateTodoWithMemory(parentId, { status: "done" }),
+    ).toThrow(TodoRelationError);
+    expect(todoRepo.getTodoById(parentId)?.status).toBe("open");
+
+    expect(
+      todoService.completeTodoWithMemory(parentId, undefined, {
+        cascade: true,
+      }),
+    ).toBe(true);
+    expect(todoRepo.getTodoById(childId)?.status).toBe("done");
+    expect(todoRepo.getTodoById(grandchildId)?.completed).toBe(1);
+    expect(memoryRepo.searchMemories("subtasks").items[0].content).toBe(
+      "Completed TODO: 引っ越し (and 2 subtasks)",
+    );
+  });
+
+  test("削除したTODOのサブタスクは親に移るか、一緒に削除される", () => {
+    const rootId = todoRepo.createTodo({ title: "プロジェクト" });
+    const phaseId = todoRepo.createTodo({
+      title: "フェーズ1",
+      parent_id: rootId,
+    });
+    const taskId = todoRepo.createTodo({ title: "タスク", parent_id: phaseId });
+    const stepId = todoRepo.createTodo({ title: "手順", parent_id: taskId });
+    const blockedId = todoRepo.createTodo({ title: "後続" });
+    relationRepo.addDependency(blockedId, taskId);
+
+    expect(todoService.deleteTodoWithMemory(phaseId)).toBe(true);
+    expect(todoRepo.getTodoById(taskId)?.parent_id).toBe(rootId);
+    expect(memoryRepo.searchMemories("moved up").items[0].content).toBe(
+      "Deleted TODO: フェーズ1 (1 subtasks moved up)",
+    );
+
+    expect(
+      todoService.deleteTodoWithMemory(taskId, undefined, {
+        deleteSubtasks: true,
+      }),
+    ).toBe(true);
+    expect(todoRepo.getTodoById(stepId)).toBeNull();
+    expect(relationRepo.getBlockers(blockedId)).toEqual([]);
+    expect(
+      todoRepo
+        .getAllTodos()
+        .map((todo) => todo.id)
+        .sort(),
+    ).toEqual([rootId, blockedId]);
+  });
+});
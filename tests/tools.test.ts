@@ -0,0 +1,329 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+} from "../src/database";
+import { registerAllTools } from "../src/tools";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-tools.sqlite";
+
+describe("ツールの構造化出力テスト", () => {
+  let client: Client;
+
+  // ツールを呼び出して結果を返す
+  async function callTool(name: string, args: Record<string, unknown>) {
+    return (await client.callTool({
+      name,
+      arguments: args,
+    })) as CallToolResult;
+  }
+
+  // 各テスト前に実行
+  beforeEach(async () => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    registerAllTools(server);
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  // 各テスト後に実行
+  afterEach(async () => {
+    await client.close();
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("すべてのツールに出力スキーマが宣言されている", async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toBeDefined();
+    }
+  });
+
+  test("メモリ作成で作成されたメモリが構造化されて返される", async () => {
+    const result = await callTool("create_memory", {
+      content: "構造化出力のテスト",
+      tags: ["Test"],
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0]).toEqual({
+      type: "text",
+      text: "Successfully created memory with ID: 1",
+    });
+    expect(result.structuredContent).toMatchObject({
+      memory: {
+        id: 1,
+        content: "構造化出力のテスト",
+        namespace: "default",
+        tags: ["test"],
+      },
+    });
+  });
+
+  test("検索結果と統計が構造化されて返される", async () => {
+    await callTool("create_memory", { content: "検索対象のメモリ" });
+    await callTool("create_todo", { title: "期限付きのタスク" });
+
+    const search = await callTool("search_memories", {
+      search_text: "検索対象",
+    });
+    expect(search.structuredContent?.count).toBe(1);
+
+    const todos = await callTool("search_todos", {});
+    expect(todos.structuredContent).toMatchObject({
+      count: 1,
+      todos: [{ title: "期限付きのタスク", completed: false }],
+    });
+
+    const stats = await callTool("get_memory_stats", { days: 7 });
+    const data = stats.structuredContent as {
+      days: number;
+      total: number;
+      stats: { date: string; count: number }[];
+    };
+    expect(data.days).toBe(7);
+    // メモリ1件とTODO作成時に記録されたメモリ1件
+    expect(data.total).toBe(2);
+    expect(data.stats.length).toBeGreaterThan(0);
+  });
+
+  test("一覧はページ単位で返され、カーソルで続きを取得できる", async () => {
+    for (let i = 1; i <= 3; i++) {
+      await callTool("create_todo", { title: `タスク${i}` });
+    }
+
+    const first = await callTool("search_todos", { limit: 2, sort: "id" });
+    expect(first.structuredContent).toMatchObject({ count: 2, total: 3 });
+    const cursor = first.structuredContent?.next_cursor as string;
+    expect(cursor).toBeTruthy();
+    expect((first.content[0] as { text: string }).text).toContain(cursor);
+
+    const second = await callTool("search_todos", {
+      limit: 2,
+      sort: "id",
+      cursor,
+    });
+    expect(second.structuredContent).toMatchObject({
+      count: 1,
+      total: 3,
+      next_cursor: null,
+      todos: [{ title: "タスク1" }],
+    });
+  });
+
+  test("TODOのツリーがインデントされ、ブロック元とともに返される", async () => {
+    await callTool("create_todo", { title: "リリース" });
+    await callTool("create_todo", { title: "テスト", parent_id: 1 });
+    await callTool("create_todo", { title: "レビュー" });
+    await callTool("add_todo_dependency", { id: 2, blocked_by: 3 });
+
+    const tree = await callTool("get_todo_tree", {});
+    expect(tree.structuredContent).toMatchObject({
+      count: 3,
+      nodes: [
+        { id: 1, depth: 0, blocked_by: [] },
+        { id: 2, depth: 1, parent_id: 1, blocked_by: [3] },
+        { id: 3, depth: 0 },
+      ],
+    });
+    expect((tree.content[0] as { text: string }).text).toContain(
+      "  - [ ] 2: テスト (blocked by 3)",
+    );
+
+    const cycle = await callTool("add_todo_dependency", {
+      id: 3,
+      blocked_by: 2,
+    });
+    expect(cycle.isError).toBe(true);
+
+    const actionable = await callTool("get_actionable_todos", {});
+    expect(actionable.structuredContent).toMatchObject({
+      total: 1,
+      todos: [{ id: 3 }],
+    });
+  });
+
+  test("TODOのタイムラインにリンクされたメモリーが返される", async () => {
+    await callTool("create_todo", { title: "デプロイ" });
+    await callTool("create_memory", { content: "手順を確認", todo_ids: [1] });
+    await callTool("create_memory", { content: "ロールバック手順" });
+    await callTool("link_memories", {
+      from_id: 3,
+      to_id: 2,
+      relation: "relates_to",
+    });
+
+    const timeline = await callTool("get_todo_timeline", { todo_id: 1 });
+    expect(timeline.structuredContent).toMatchObject({
+      todo: { id: 1 },
+      count: 3,
+      memories: [
+        { id: 1, link: null },
+        { id: 2, link: null },
+        { id: 3, link: { from_id: 3, to_id: 2, relation: "relates_to" } },
+      ],
+    });
+    expect((timeline.content[0] as { text: string }).text).toContain(
+      "(memory 3 relates to memory 2)",
+    );
+
+    const missing = await callTool("create_memory", {
+      content: "存在しないTODO",
+      todo_ids: [99],
+    });
+    expect(missing.isError).toBe(true);
+  });
+
+  test("日付の式でメモリーを取得できる", async () => {
+    await callTool("create_memory", { content: "今日のメモ" });
+
+    const today = await callTool("get_memories_by_date", { from: "today" });
+    expect(today.structuredContent).toMatchObject({
+      time_zone: "UTC",
+      total: 1,
+      memories: [{ content: "今日のメモ" }],
+    });
+
+    const yesterday = await callTool("get_memories_by_date", {
+      from: "yesterday",
+    });
+    expect(yesterday.structuredContent?.total).toBe(0);
+
+    const invalid = await callTool("get_memories_by_date", { from: "someday" });
+    expect(invalid.isError).toBe(true);
+  });
+
+  test("活動レポートが構造化データとMarkdownで返される", async () => {
+    await callTool("create_todo", { title: "レポート対象のタスク" });
+    await callTool("update_todo_status", { id: 1, completed: true });
+
+    const report = await callTool("get_activity_report", {
+      from: "today",
+      granularity: "hour",
+      time_zone: "Asia/Tokyo",
+    });
+    expect(report.structuredContent).toMatchObject({
+      granularity: "hour",
+      time_zone: "Asia/Tokyo",
+      // TODOの作成と完了がメモリーとして記録される
+      totals: { memories_created: 2, todos_created: 1, todos_completed: 1 },
+      todos: { open: 0, overdue: 0 },
+    });
+    expect(
+      (report.structuredContent?.buckets as unknown[]).length,
+    ).toBeGreaterThanOrEqual(23);
+    expect((report.content[0] as { text: string }).text).toContain(
+      "- TODOs completed: 1",
+    );
+
+    const invalid = await callTool("get_activity_report", {
+      time_zone: "Mars/Olympus",
+    });
+    expect(invalid.isError).toBe(true);
+  });
+
+  test("メモリーを統合してアーカイブし、元に戻せる", async () => {
+    await callTool("create_memory", { content: "ログ1" });
+    await callTool("create_memory", { content: "ログ2" });
+
+    // 今日のメモリーは既定では統合されない
+    const none = await callTool("consolidate_memories", {});
+    expect(none.structuredContent?.digests).toEqual([]);
+
+    const result = await callTool("consolidate_memories", {
+      to: "today",
+      archive: true,
+    });
+    expect(result.structuredContent).toMatchObject({
+      dry_run: false,
+      archived: 2,
+      digests: [{ digest_id: 3, source_ids: [1, 2] }],
+    });
+
+    const search = await callTool("search_memories", { search_text: "" });
+    expect(search.structuredContent).toMatchObject({
+      total: 1,
+      memories: [{ id: 3, tags: ["digest"], archived_at: null }],
+    });
+
+    const restored = await callTool("unarchive_memories", { ids: [1, 2] });
+    expect(restored.structuredContent).toEqual({ restored: 2 });
+  });
+
+  test("重要度とピン留めを反映して関連するメモリーを返し、アクセスを記録する", async () => {
+    await callTool("create_memory", { content: "APIの設計メモ" });
+    await callTool("create_memory", {
+      content: "本番環境には金曜日にデプロイしない",
+      pinned: true,
+    });
+    const updated = await callTool("set_memory_importance", {
+      id: 1,
+      importance: 5,
+    });
+    expect(updated.structuredContent?.memory).toMatchObject({
+      importance: 5,
+      pinned: false,
+      access_count: 0,
+    });
+
+    const result = await callTool("get_relevant_memories", {
+      query: "APIの設計",
+    });
+    expect(result.structuredContent).toMatchObject({
+      count: 2,
+      omitted: 0,
+      memories: [
+        { id: 2, pinned: true, access_count: 0 },
+        { id: 1, importance: 5 },
+      ],
+    });
+    expect(result.content[0].text).toContain("(pinned) 本番環境");
+
+    const search = await callTool("search_memories", { search_text: "API" });
+    expect(search.structuredContent?.memories).toMatchObject([
+      { id: 1, access_count: 1 },
+    ]);
+
+    await expect(
+      callTool("set_memory_importance", { id: 1, importance: 0 }),
+    ).rejects.toThrow("importance");
+    const missing = await callTool("set_memory_importance", {
+      id: 999,
+      pinned: true,
+    });
+    expect(missing.isError).toBe(true);
+  });
+
+  test("存在しないIDはエラー結果として返される", async () => {
+    const result = await callTool("delete_memory", { id: 999 });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.content[0]).toEqual({
+      type: "text",
+      text: "No memory found with ID: 999",
+    });
+  });
+});
@@ -0,0 +1,477 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import {
+  setupDatabase,
+  initializeDatabase,
+  closeDatabase,
+  getDatabase,
+} from "../src/database";
+import { AccessDeniedError } from "../src/accessControl";
+import * as memoryRepo from "../src/repositories/memoryRepository";
+import * as todoRepo from "../src/repositories/todoRepository";
+import * as relationRepo from "../src/repositories/todoRelationRepository";
+import * as memoryService from "../src/services/memoryService";
+import * as todoService from "../src/services/todoService";
+import * as trashService from "../src/services/trashService";
+import * as journalService from "../src/services/journalService";
+import { UndoError } from "../src/services/journalService";
+import * as tagService from "../src/services/tagService";
+import * as linkService from "../src/services/linkService";
+import * as namespaceService from "../src/services/namespaceService";
+import * as tagRepo from "../src/repositories/tagRepository";
+import * as linkRepo from "../src/repositories/linkRepository";
+import { connect, callTool, closeClients } from "./mcpClient";
+import * as fs from "fs";
+
+// テスト用の一時データベースファイル
+const TEST_DB_FILE = "test-trash.sqlite";
+
+describe("ゴミ箱と取り消しテスト", () => {
+  function trashedIds(type?: "memory" | "todo"): number[] {
+    return trashService.listTrash(type).items.map((item) => item.id);
+  }
+
+  // 削除日時を書き換える
+  function setDeletedAt(table: string, id: number, deletedAt: string) {
+    getDatabase()
+      .prepare(`UPDATE ${table} SET deleted_at = ? WHERE id = ?`)
+      .run(deletedAt, id);
+  }
+
+  // 各テスト前に実行
+  beforeEach(() => {
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+    setupDatabase(TEST_DB_FILE);
+    initializeDatabase();
+  });
+
+  // 各テスト後に実行
+  afterEach(async () => {
+    await closeClients();
+    closeDatabase();
+    if (fs.existsSync(TEST_DB_FILE)) {
+      fs.unlinkSync(TEST_DB_FILE);
+    }
+  });
+
+  test("削除したメモリーとTODOはゴミ箱に移り、通常の取得から除外される", () => {
+    const memoryId = memoryService.createMemory("消えるメモ");
+    const todoId = todoService.createTodoWithMemory("消えるTODO");
+
+    expect(memoryService.deleteMemory(memoryId)).toBe(true);
+    expect(todoService.deleteTodoWithMemory(todoId)).toBe(true);
+
+    // 二度目の削除は見つからない
+    expect(memoryService.deleteMemory(memoryId)).toBe(false);
+    expect(memoryRepo.getMemoryById(memoryId)).toBeNull();
+    expect(memoryRepo.searchMemories("消えるメモ").total).toBe(0);
+    expect(todoRepo.getTodoById(todoId)).toBeNull();
+    expect(todoRepo.getAllTodos().map((todo) => todo.id)).not.toContain(todoId);
+
+    const trash = trashService.listTrash();
+    expect(trash.total).toBe(2);
+    expect(trash.items).toContainEqual(
+      expect.objectContaining({ type: "memory", id: memoryId }),
+    );
+    expect(trash.items).toContainEqual(
+      expect.objectContaining({
+        type: "todo",
+        id: todoId,
+        title: "消えるTODO",
+      }),
+    );
+    expect(trashedIds("todo")).toEqual([todoId]);
+  });
+
+  test("ゴミ箱から削除時のサブタスクと共に復元できる", () => {
+    const parentId = todoService.createTodoWithMemory("親タスク");
+    const childId = todoService.createTodoWithMemory(
+      "子タスク",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      parentId,
+    );
+    // 同じ秒でも単独で削除されたサブタスクは一緒に戻らない
+    const earlierId = todoService.createTodoWithMemory(
+      "先に削除したサブタスク",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      parentId,
+    );
+    todoService.deleteTodoWithMemory(earlierId);
+
+    todoService.deleteTodoWithMemory(parentId, undefined, {
+      deleteSubtasks: true,
+    });
+    expect(todoRepo.getTodoById(childId)).toBeNull();
+    // 削除中に秒が変わっても一緒に削除されたサブタスクは戻る
+    setDeletedAt("todos", childId, "2025-01-01 00:00:01");
+
+    expect(trashService.restoreItem("todo", parentId)).toEqual({
+      type: "todo",
+      id: parentId,
+      subtask_ids: [childId],
+      moved_subtask_ids: [],
+    });
+    expect(todoRepo.getTodoById(parentId)).not.toBeNull();
+    expect(todoRepo.getTodoById(childId)?.parent_id).toBe(parentId);
+    expect(todoRepo.getTodoById(earlierId)).toBeNull();
+    expect(
+      memoryRepo.searchMemories("Restored TODO: 親タスク (and 1 subtasks)")
+        .total,
+    ).toBe(1);
+
+    // ゴミ箱にないものは復元できない
+    expect(trashService.restoreItem("todo", parentId)).toBeNull();
+    expect(trashService.restoreItem("memory", 999)).toBeNull();
+  });
+
+  test("ゴミ箱から戻すと削除時に上に移ったサブタスクが元の親に戻る", () => {
+    const rootId = todoService.createTodoWithMemory("プロジェクト");
+    const parentId = todoService.createTodoWithMemory(
+      "親タスク",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      rootId,
+    );
+    const childIds = ["子タスク1", "子タスク2", "子タスク3"].map((title) =>
+      todoService.createTodoWithMemory(
+        title,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        parentId,
+      ),
+    );
+
+    todoService.deleteTodoWithMemory(parentId);
+    expect(
+      childIds.map((childId) => todoRepo.getTodoById(childId)?.parent_id),
+    ).toEqual([rootId, rootId, rootId]);
+    // 削除後に移動・削除したサブタスクはそのまま
+    todoService.setTodoParentWithMemory(childIds[1], null);
+    todoService.deleteTodoWithMemory(childIds[2]);
+
+    expect(trashService.restoreItem("todo", parentId)).toEqual({
+      type: "todo",
+      id: parentId,
+      subtask_ids: [],
+      moved_subtask_ids: [childIds[0]],
+    });
+    expect(todoRepo.getTodoById(childIds[0])?.parent_id).toBe(parentId);
+    expect(todoRepo.getTodoById(childIds[1])?.parent_id).toBeNull();
+    expect(todoRepo.getTodoById(childIds[2])).toBeNull();
+    expect(
+      memoryRepo.searchMemories(
+        "Restored TODO: 親タスク (1 subtasks moved back)",
+      ).total,
+    ).toBe(1);
+
+    // 復元の取り消しではサブタスクが再び上に移る
+    journalService.undoLastChange();
+    expect(todoRepo.getTodoById(parentId)).toBeNull();
+    expect(todoRepo.getTodoById(childIds[0])?.parent_id).toBe(rootId);
+  });
+
+  test("ゴミ箱を空にすると指定した期間より前に削除したものだけ完全に削除される", () => {
+    const oldId = memoryService.createMemory("古いメモ");
+    const recentId = memoryService.createMemory("最近のメモ");
+    const todoId = todoService.createTodoWithMemory("古いTODO");
+    memoryService.deleteMemory(oldId);
+    memoryService.deleteMemory(recentId);
+    todoService.deleteTodoWithMemory(todoId);
+    setDeletedAt("memories", oldId, "2025-01-01 00:00:00");
+    setDeletedAt("memories", recentId, "2025-02-25 00:00:00");
+    setDeletedAt("todos", todoId, "2025-01-01 00:00:00");
+
+    const now = new Date("2025-03-01T00:00:00Z");
+    expect(
+      trashService.emptyTrash({ type: "memory", olderThanDays: 30, now }),
+    ).toEqual({ memories: 1, todos: 0 });
+    expect(trashedIds("memory")).toEqual([recentId]);
+
+    expect(trashService.emptyTrash()).toEqual({ memories: 1, todos: 1 });
+    expect(trashService.listTrash().total).toBe(0);
+    const count = getDatabase()
+      .prepare("SELECT COUNT(*) AS count FROM memories WHERE id = ?")
+      .get(oldId) as { count: number };
+    expect(count.count).toBe(0);
+  });
+
+  test("作成・編集・完了・削除を新しい順に取り消せる", () => {
+    const memoryId = memoryService.createMemory("初版");
+    memoryService.updateMemory(memoryId, "第二版");
+    const todoId = todoService.createTodoWithMemory("取り消すTODO");
+    todoService.completeTodoWithMemory(todoId);
+    memoryService.deleteMemory(memoryId);
+
+    // 削除の取り消し
+    expect(journalService.undoLastChange()).toMatchObject({
+      description: `Deleted memory ${memoryId}`,
+      reverted: 1,
+      skipped: 0,
+    });
+    expect(memoryRepo.getMemoryById(memoryId)?.content).toBe("第二版");
+
+    // 完了の取り消しでは完了の記録も取り消される
+    journalService.undoLastChange();
+    expect(todoRepo.getTodoById(todoId)).toMatchObject({
+      status: "open",
+      completed_at: null,
+    });
+    expect(memoryRepo.searchMemories("Completed TODO").total).toBe(0);
+
+    // 作成の取り消しではTODOとその記録がゴミ箱に移る
+    journalService.undoLastChange();
+    expect(todoRepo.getTodoById(todoId)).toBeNull();
+    expect(trashedIds("todo")).toEqual([todoId]);
+
+    // 編集の取り消しでは内容と編集履歴が戻る
+    journalService.undoLastChange();
+    expect(memoryRepo.getMemoryById(memoryId)?.content).toBe("初版");
+    expect(memoryRepo.getMemoryRevisions(memoryId)).toHaveLength(0);
+
+    journalService.undoLastChange();
+    expect(memoryRepo.getMemoryById(memoryId)).toBeNull();
+    expect(journalService.undoLastChange()).toBeNull();
+  });
+
+  test("TODOの削除を取り消すと上に移ったサブタスクが元の親に戻る", () => {
+    const parentId = todoService.createTodoWithMemory("親タスク");
+    const childId = todoService.createTodoWithMemory(
+      "子タスク",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      parentId,
+    );
+
+    todoService.deleteTodoWithMemory(parentId);
+    expect(todoRepo.getTodoById(childId)?.parent_id).toBeNull();
+
+    expect(journalService.undoLastChange()?.reverted).toBe(3);
+    expect(todoRepo.getTodoById(parentId)).not.toBeNull();
+    expect(todoRepo.getTodoById(childId)?.parent_id).toBe(parentId);
+    expect(memoryRepo.searchMemories("Deleted TODO").total).toBe(0);
+  });
+
+  test("完全に削除されたものは取り消しで読み飛ばされる", () => {
+    const memoryId = memoryService.createMemory("完全に消えるメモ");
+    memoryService.deleteMemory(memoryId);
+    trashService.emptyTrash();
+
+    expect(journalService.undoLastChange()).toMatchObject({
+      reverted: 0,
+      skipped: 1,
+    });
+    expect(journalService.undoLastChange()).toMatchObject({
+      description: `Created memory ${memoryId}`,
+      skipped: 1,
+    });
+
+    // 取り消しは名前空間ごとに行われる
+    memoryService.createMemory("別のプロジェクトのメモ", [], "project-a");
+    expect(journalService.undoLastChange()).toBeNull();
+    expect(journalService.undoLastChange("project-a")?.reverted).toBe(1);
+  });
+
+  test("途中で失敗した変更は記録も含めてすべて取り消される", () => {
+    memoryService.createMemory("最後に成功した変更");
+    // 次の回を作成する時点で失敗する繰り返しルール
+    const parentId = todoRepo.createTodo({
+      title: "壊れた繰り返し",
+      recurrence: "FREQ=SOMETIMES",
+    });
+    const childId = todoRepo.createTodo({
+      title: "サブタスク",
+      parent_id: parentId,
+    });
+
+    expect(() =>
+      todoService.completeTodoWithMemory(parentId, undefined, {
+        cascade: true,
+      }),
+    ).toThrow();
+    expect(todoRepo.getTodoById(parentId)?.status).toBe("open");
+    expect(todoRepo.getTodoById(childId)?.status).toBe("open");
+    expect(memoryRepo.searchMemories("Completed TODO").total).toBe(0);
+    expect(journalService.undoLastChange()?.description).toBe(
+      "Created memory 1",
+    );
+  });
+
+  test("繰り返しと依存関係の変更は直前の変更より先に取り消される", () => {
+    const memoryId = memoryService.createMemory("先に作ったメモ");
+    const todoId = todoService.createTodoWithMemory("繰り返すTODO");
+    const blockerId = todoService.createTodoWithMemory("先にやるTODO");
+    todoService.setTodoRecurrenceWithMemory(todoId, "FREQ=WEEKLY");
+    todoService.addTodoDependencyWithMemory(todoId, blockerId);
+
+    // 依存関係の追加の取り消し
+    expect(journalService.undoLastChange()?.description).toBe(
+      `Made TODO ${todoId} depend on TODO ${blockerId}`,
+    );
+    expect(relationRepo.dependsOn(todoId, blockerId)).toBe(false);
+    expect(memoryRepo.searchMemories("Marked TODO as blocked").total).toBe(0);
+
+    // 繰り返しの変更の取り消しでは先に作ったメモは残る
+    expect(journalService.undoLastChange()?.description).toBe(
+      `Changed the recurrence of TODO ${todoId}: 繰り返すTODO`,
+    );
+    expect(todoRepo.getTodoById(todoId)?.recurrence).toBeNull();
+    expect(memoryRepo.getMemoryById(memoryId)).not.toBeNull();
+
+    // 依存関係の削除の取り消し
+    todoService.addTodoDependencyWithMemory(todoId, blockerId);
+    todoService.removeTodoDependencyWithMemory(todoId, blockerId);
+    journalService.undoLastChange();
+    expect(relationRepo.dependsOn(todoId, blockerId)).toBe(true);
+  });
+
+  test("取り消せない変更があるとそれより前の変更は取り消されない", async () => {
+    const memoryId = memoryService.createMemory("タグを付けるメモ");
+    const client = await connect();
+    await callTool(client, "add_tags", {
+      item_type: "memory",
+      id: memoryId,
+      tags: ["重要"],
+    });
+
+    expect(() => journalService.undoLastChange()).toThrow(UndoError);
+    // 何度呼んでも拒否され、先に作ったメモは残る
+    expect(() => journalService.undoLastChange()).toThrow(UndoError);
+    expect(memoryRepo.getMemoryById(memoryId)).not.toBeNull();
+    const refused = await callTool(client, "undo_last_change", {});
+    expect(refused.isError).toBe(true);
+    expect((refused.content[0] as { text: string }).text).toContain(
+      `Added tags to memory ${memoryId}`,
+    );
+
+    // 取り消せない変更の後の変更は取り消せる
+    const laterId = memoryService.createMemory("後から作ったメモ");
+    expect(journalService.undoLastChange()?.description).toBe(
+      `Created memory ${laterId}`,
+    );
+    expect(() => journalService.undoLastChange()).toThrow(UndoError);
+
+    // タグの名前の変更はすべての名前空間の取り消しを止める
+    memoryService.createMemory("別のプロジェクトのメモ", [], "project-a");
+    await callTool(client, "rename_tag", { from: "重要", to: "大事" });
+    expect(() => journalService.undoLastChange("project-a")).toThrow(UndoError);
+  });
+
+  test("取り消せない変更は記録に失敗すると変更も行われない", () => {
+    const memoryId = memoryService.createMemory("変わらないメモ", ["元のタグ"]);
+    const todoId = todoService.createTodoWithMemory("変わらないTODO");
+    // 記録の書き込みを失敗させる
+    getDatabase().exec(`
+      CREATE TEMP TRIGGER fail_journal BEFORE INSERT ON operation_journal
+      BEGIN SELECT RAISE(ABORT, 'journal is unavailable'); END
+    `);
+
+    const changes = [
+      () => tagService.addTags("memory", memoryId, ["新しいタグ"]),
+      () => tagService.renameTag("元のタグ", "別名"),
+      () => linkService.linkMemoryToTodo(memoryId, todoId),
+      () => memoryService.setMemoriesArchived([memoryId], true),
+      () => memoryService.setMemoryImportance(memoryId, { importance: 5 }),
+      () => namespaceService.moveItems("memory", [memoryId], "project-a"),
+    ];
+    for (const change of changes) {
+      expect(change).toThrow("journal is unavailable");
+    }
+
+    expect(memoryRepo.getMemoryById(memoryId)).toMatchObject({
+      importance: 3,
+      archived_at: null,
+    });
+    expect(tagRepo.getTags("memory", memoryId)).toEqual(["元のタグ"]);
+    expect(linkRepo.getLinkedTodoIds(memoryId)).toEqual([]);
+  });
+
+  test("読み取り専用では復元・ゴミ箱を空にする・取り消しを拒否する", () => {
+    const memoryId = memoryService.createMemory("メモ");
+    memoryService.deleteMemory(memoryId);
+
+    closeDatabase();
+    setupDatabase(TEST_DB_FILE, { readOnly: true });
+    initializeDatabase();
+
+    expect(trashService.listTrash().total).toBe(1);
+    expect(() => trashService.restoreItem("memory", memoryId)).toThrow(
+      AccessDeniedError,
+    );
+    expect(() => trashService.emptyTrash()).toThrow(AccessDeniedError);
+    expect(() => journalService.undoLastChange()).toThrow(AccessDeniedError);
+  });
+
+  test("ゴミ箱と取り消しのツールを呼び出せる", async () => {
+    const client = await connect();
+    await callTool(client, "create_memory", { content: "ツールのメモ" });
+    await callTool(client, "delete_memory", { id: 1 });
+
+    const listed = await callTool(client, "list_trash", {});
+    expect(listed.structuredContent).toMatchObject({
+      total: 1,
+      items: [{ type: "memory", id: 1, title: "ツールのメモ" }],
+    });
+    expect((listed.content[0] as { text: string }).text).toContain(
+      "ツールのメモ",
+    );
+
+    const restored = await callTool(client, "restore_item", {
+      item_type: "memory",
+      id: 1,
+    });
+    expect(restored.structuredContent).toEqual({
+      item_type: "memory",
+      id: 1,
+      subtask_ids: [],
+      moved_subtask_ids: [],
+    });
+    const missing = await callTool(client, "restore_item", {
+      item_type: "todo",
+      id: 1,
+    });
+    expect(missing.isError).toBe(true);
+
+    const undone = await callTool(client, "undo_last_change", {});
+    expect(undone.structuredContent).toMatchObject({
+      undone: true,
+      description: "Restored memory 1",
+      reverted: 1,
+    });
+
+    const emptied = await callTool(client, "empty_trash", {
+      older_than_days: 0,
+    });
+    expect(emptied.structuredContent).toEqual({ memories: 1, todos: 0 });
+
+    await callTool(client, "undo_last_change", {});
+    await callTool(client, "undo_last_change", {});
+    const nothing = await callTool(client, "undo_last_change", {});
+    expect(nothing.structuredContent).toMatchObject({ undone: false });
+    expect((nothing.content[0] as { text: string }).text).toBe(
+      "Nothing to undo",
+    );
+  });
+});